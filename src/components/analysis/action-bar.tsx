@@ -10,11 +10,11 @@ const linkClass = 'inline-flex items-center gap-1.5 text-xs font-medium text-bas
 export function ActionBar({ analysis }: { analysis: BedAnalysis }) {
   const { addToCart, removeFromCart, isInCart } = useCart();
   const { openTab } = useTab();
-  const { umapBedIds } = useMosaicCoordinator();
+  const { umapBedGenomes, setGenome } = useMosaicCoordinator();
 
   const inCart = analysis.id ? isInCart(analysis.id) : false;
   const { downloadUrls } = analysis;
-  const isInUmap = analysis.id ? umapBedIds.has(analysis.id) : false;
+  const umapGenome = analysis.id ? umapBedGenomes.get(analysis.id) : undefined;
 
   const handleCart = () => {
     if (!analysis.id) return;
@@ -38,10 +38,10 @@ export function ActionBar({ analysis }: { analysis: BedAnalysis }) {
     <div className="flex items-center gap-1 flex-wrap">
       {analysis.id && (
         <>
-          {isInUmap && (
+          {umapGenome && (
             <a
               href={`/umap?bed=${analysis.id}`}
-              onClick={(e) => { e.preventDefault(); openTab('umap', analysis.id); }}
+              onClick={(e) => { e.preventDefault(); setGenome(umapGenome); openTab('umap', analysis.id); }}
               className={linkClass}
             >
               <ScatterChart size={13} />
@@ -9,6 +9,7 @@ import { useTab } from '../../contexts/tab-context';
 import { useSampleBeds } from '../../queries/use-sample-beds';
 import { useBedMetadata } from '../../queries/use-bed-metadata';
 import { EXAMPLE_BED_ID } from '../../lib/const';
+import { REGION_FILE_ACCEPT } from '../../lib/bed-formats';
 
 function formatBytes(bytes: number): string {
   if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
@@ -146,7 +147,7 @@ export function AnalysisEmpty() {
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".bed,.gz"
+                      accept={REGION_FILE_ACCEPT}
                       className="hidden"
                       onChange={(e) => {
                         if (e.target.files && e.target.files.length > 0) {
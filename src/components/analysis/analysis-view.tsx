@@ -4,6 +4,7 @@ import { Breadcrumb } from '../shared/breadcrumb';
 import { useFile } from '../../contexts/file-context';
 import { useTab } from '../../contexts/tab-context';
 import { fromApiResponse, type BedAnalysis } from '../../lib/bed-analysis';
+import { REGION_FORMATS } from '../../lib/bed-formats';
 import type { PlotSlot } from '../../lib/plot-specs';
 import { regionDistributionSlot } from './plots/local/region-distribution';
 import { widthsHistogramSlot, neighborDistanceSlot } from './plots/local/genomicdist-plots';
@@ -18,7 +19,9 @@ import { SimilarFiles } from './similar-files';
 import { BedsetMemberships } from './bedset-memberships';
 import { useRefGenomicDistPlots } from './genomicdist-debug';
 import { ActionBar } from './action-bar';
+import { FileHealth } from './file-health';
 import { GenomeCompatModal } from './genome-compat-modal';
+import { GenomeBrowser } from './genome-browser';
 import { KvTable, type KvRow } from '../shared/kv-table';
 
 function formatBytes(bytes: number): string {
@@ -78,12 +81,23 @@ function LocalHeader({ analysis }: { analysis: BedAnalysis }) {
   }, [analysis.chromosomeStats]);
 
   const { data: genomeStats, isLoading: genomeLoading } = useAnalyzeGenome(bedFileData);
+  const format = analysis.fileFormat ? REGION_FORMATS[analysis.fileFormat] : null;
 
   return (
     <div className="space-y-5">
       <div className="flex flex-col @5xl:flex-row @5xl:items-start @5xl:justify-between gap-3">
         <div className="min-w-0">
-          <p className="text-lg font-semibold text-base-content">{analysis.fileName}</p>
+          <div className="flex items-center gap-2">
+            <p className="text-lg font-semibold text-base-content">{analysis.fileName}</p>
+            {format && (
+              <span
+                className="shrink-0 px-1.5 py-0.5 rounded text-[11px] font-medium bg-primary/10 text-primary"
+                title={`Columns kept: ${format.columns.map((c) => `${c.name} (${c.type})`).join(', ')}`}
+              >
+                {format.label}
+              </span>
+            )}
+          </div>
           <p className="text-xs text-base-content/40 mt-0.5">
             {analysis.fileSize != null && formatBytes(analysis.fileSize)}
             {analysis.parseTime != null && ` · parsed in ${analysis.parseTime.toFixed(0)} ms`}
@@ -518,6 +532,8 @@ function AnalysisPanels({ analysis }: { analysis: BedAnalysis }) {
       <div className="space-y-6">
       <AnalysisHeader analysis={analysis} />
 
+      {isLocal && <FileHealth />}
+
       {(allPlots.length > 0 || (isLocal && refPlotsLoading)) && (
         <div className="space-y-2">
           <h3 className="text-sm font-semibold text-base-content/50 uppercase tracking-wide">
@@ -533,6 +549,8 @@ function AnalysisPanels({ analysis }: { analysis: BedAnalysis }) {
         </div>
       )}
 
+      <GenomeBrowser analysis={analysis} />
+
       {analysis.chromosomeStats.length > 0 && (
         <ChromosomeStats rows={analysis.chromosomeStats} fileName={analysis.fileName ?? 'regions'} />
       )}
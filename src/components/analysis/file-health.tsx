@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { CheckCircle2, Download, Loader2, ShieldCheck } from 'lucide-react';
+import { useFile } from '../../contexts/file-context';
+import { REGION_FORMATS } from '../../lib/bed-formats';
+import { VALIDATION_ISSUES, cleanedFileName } from '../../lib/bed-validation';
+
+export function FileHealth() {
+  const { bedFile, validation, validating, validationError, validate, cleanFile } = useFile();
+  const [cleaning, setCleaning] = useState(false);
+  const [cleanError, setCleanError] = useState<string | null>(null);
+
+  async function downloadCleaned() {
+    if (!bedFile) return;
+    setCleaning(true);
+    setCleanError(null);
+    try {
+      const blob = await cleanFile();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = cleanedFileName(bedFile.name);
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setCleanError(err instanceof Error ? err.message : 'Failed to clean file');
+    } finally {
+      setCleaning(false);
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-end justify-between">
+        <h3 className="text-sm font-semibold text-base-content/50 uppercase tracking-wide">File health</h3>
+        {!validation && !validating && (
+          <button
+            onClick={validate}
+            className="btn btn-xs btn-ghost gap-1 text-base-content/50"
+            title="Read the whole file again and check every line"
+          >
+            <ShieldCheck size={12} />
+            {validationError ? 'Retry' : 'Check file'}
+          </button>
+        )}
+        {validation && validation.issues.length > 0 && (
+          <button
+            onClick={downloadCleaned}
+            disabled={cleaning}
+            className="btn btn-xs btn-ghost gap-1 text-base-content/50"
+            title="Drop invalid and duplicate rows, clip to chromosome ends and sort"
+          >
+            {cleaning ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+            Cleaned BED
+          </button>
+        )}
+      </div>
+
+      {!validation ? (
+        validating ? (
+          <div className="flex items-center gap-1.5 text-xs text-base-content/50 px-1">
+            <Loader2 size={12} className="animate-spin" />
+            Checking file...
+          </div>
+        ) : validationError ? (
+          <p className="text-xs text-error px-1">Check failed: {validationError}</p>
+        ) : (
+          <p className="text-xs text-base-content/50 px-1">
+            Not checked yet. Checking finds malformed, out-of-bounds, duplicate and unsorted rows.
+          </p>
+        )
+      ) : (
+        <>
+          <p className="text-xs text-base-content/50 px-1">
+            {validation.validRows.toLocaleString()} of {validation.dataLines.toLocaleString()} rows valid
+            {' · '}{REGION_FORMATS[validation.format].label}
+            {' · '}{validation.boundsGenome
+              ? `bounds checked against ${validation.boundsGenome}`
+              : 'chromosome bounds not checked (genome unknown)'}
+            {validating && <Loader2 size={11} className="inline ml-1.5 animate-spin" />}
+          </p>
+
+          {validation.issues.length === 0 ? (
+            <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-success/10 border border-success/30 text-xs text-base-content/70">
+              <CheckCircle2 size={14} className="text-success shrink-0" />
+              No problems found.
+            </div>
+          ) : (
+            <div className="border border-base-300 rounded-lg overflow-hidden bg-base-100">
+              <table className="table table-xs">
+                <thead className="text-base-content">
+                  <tr className="bg-base-200">
+                    <th className="text-base-content">Issue</th>
+                    <th className="text-base-content text-right">Count</th>
+                    <th className="text-base-content">First lines</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {validation.issues.map((issue) => {
+                    const meta = VALIDATION_ISSUES[issue.kind];
+                    return (
+                      <tr key={issue.kind} title={meta.description}>
+                        <td>
+                          <span className="inline-flex items-center gap-1.5">
+                            <span
+                              className={`px-1.5 py-0.5 rounded text-[10px] font-medium ${
+                                issue.severity === 'error' ? 'bg-error/15 text-error' : 'bg-warning/15 text-warning'
+                              }`}
+                            >
+                              {issue.severity}
+                            </span>
+                            <span className="font-medium">{meta.label}</span>
+                          </span>
+                        </td>
+                        <td className="text-right">{issue.count.toLocaleString()}</td>
+                        <td className="font-mono text-base-content/60">
+                          {issue.lines.join(', ')}
+                          {issue.count > issue.lines.length && ', ...'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+          {cleanError && <p className="text-xs text-error px-1">{cleanError}</p>}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useFile } from '../../contexts/file-context';
+import type { BedAnalysis } from '../../lib/bed-analysis';
+import {
+  GENE_MODEL_GENOMES,
+  GENE_SYMBOL_GENOMES,
+  MAX_REMOTE_WINDOW,
+  clampLocus,
+  formatBp,
+  resolveLocus,
+  type Locus,
+} from '../../lib/genome-browser';
+import { useBedRegionTracks } from '../../queries/use-bed-regions';
+import { LocusBar, REGION_COLOR, TrackCanvas, type TrackRow } from '../shared/locus-tracks';
+import { useElementWidth, useGenomeReference, useLocalTrack, useSettledLocus } from '../shared/locus-hooks';
+
+const DEFAULT_WINDOW = 1_000_000;
+
+function formatNumber(n: number): string {
+  return n.toLocaleString();
+}
+
+/** Chromosome bar with region density and the current window; click to jump. */
+function Ideogram({ chr, size, view, analysis, onJump }: {
+  chr: string;
+  size: number;
+  view: Locus;
+  analysis: BedAnalysis;
+  onJump: (pos: number) => void;
+}) {
+  const bins = useMemo(() => {
+    const points = (analysis.plots.regionDistribution ?? []).filter((p) => p.chr === chr);
+    const max = Math.max(1, ...points.map((p) => p.n));
+    return points.map((p) => ({ start: p.start, end: p.end, opacity: 0.15 + 0.85 * (p.n / max) }));
+  }, [analysis.plots.regionDistribution, chr]);
+
+  const vx = (view.start / size) * 1000;
+  const vw = Math.max(3, ((view.end - view.start) / size) * 1000);
+
+  return (
+    <svg
+      viewBox="0 0 1000 16"
+      preserveAspectRatio="none"
+      className="w-full h-4 cursor-pointer"
+      onClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onJump(((e.clientX - rect.left) / rect.width) * size);
+      }}
+    >
+      <rect x={0} y={3} width={1000} height={10} rx={3} className="fill-base-300" />
+      {bins.map((b, i) => (
+        <rect
+          key={i}
+          x={(b.start / size) * 1000}
+          y={3}
+          width={Math.max(0.5, ((b.end - b.start) / size) * 1000)}
+          height={10}
+          fill={REGION_COLOR}
+          fillOpacity={b.opacity}
+        />
+      ))}
+      <rect x={vx} y={0.5} width={vw} height={15} fill="none" stroke="#ef4444" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+}
+
+export function GenomeBrowser({ analysis }: { analysis: BedAnalysis }) {
+  const { genome: detectedGenome } = useFile();
+  const isLocal = analysis.source === 'local';
+  const genome = isLocal ? detectedGenome : analysis.genomeAlias ?? null;
+  const reference = useGenomeReference(genome);
+
+  // Chromosome sizes: the reference where known, else the file's extent
+  const chromSizes = useMemo(() => {
+    const ref = reference.chromSizes;
+    const sizes: Record<string, number> = {};
+    if (analysis.chromosomeStats.length > 0) {
+      for (const row of analysis.chromosomeStats) sizes[row.chromosome] = Math.max(row.end, ref?.[row.chromosome] ?? 0);
+    } else if (ref) {
+      Object.assign(sizes, ref);
+    }
+    return sizes;
+  }, [analysis.chromosomeStats, reference.chromSizes]);
+
+  const chroms = useMemo(
+    () => Object.keys(chromSizes)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }))
+      .map((name) => ({ name, size: chromSizes[name] })),
+    [chromSizes],
+  );
+
+  // --- View ---
+  const defaultLocus = useMemo<Locus | null>(() => {
+    const first = analysis.chromosomeStats[0];
+    if (first) return clampLocus({ chr: first.chromosome, start: first.start, end: first.start + DEFAULT_WINDOW }, chromSizes[first.chromosome]);
+    if (chroms.length === 0) return null;
+    return clampLocus({ chr: chroms[0].name, start: 0, end: DEFAULT_WINDOW }, chroms[0].size);
+  }, [analysis.chromosomeStats, chroms, chromSizes]);
+
+  const [locus, setLocus] = useState<Locus | null>(null);
+  const view = locus && chromSizes[locus.chr] ? locus : defaultLocus;
+  const goTo = (next: Locus) => setLocus(clampLocus(next, chromSizes[next.chr]));
+
+  const [containerRef, width] = useElementWidth<HTMLDivElement>();
+  const bins = Math.max(1, Math.floor(width / 2));
+
+  // --- Region data, queried once the view settles ---
+  const settled = useSettledLocus(view);
+  const local = useLocalTrack(settled, bins, isLocal);
+  const remoteIds = useMemo(() => (!isLocal && analysis.id ? [analysis.id] : []), [isLocal, analysis.id]);
+  const [remote] = useBedRegionTracks(remoteIds, settled, bins);
+  const remoteTooWide = !isLocal && !!settled && settled.end - settled.start > MAX_REMOTE_WINDOW;
+
+  const track = isLocal ? local.track : remoteTooWide ? null : remote?.track ?? null;
+  const shownTrack = track && view && track.locus.chr === view.chr ? track : null;
+  const loading = isLocal ? local.loading : !!remote?.isFetching;
+  const error = isLocal ? local.error : remote?.error instanceof Error ? remote.error.message : null;
+
+  const rows = useMemo<TrackRow[]>(
+    () => [{ key: 'regions', label: 'Regions', track: shownTrack }],
+    [shownTrack],
+  );
+
+  if (!view) return null;
+
+  const total = shownTrack?.window.total ?? 0;
+  let status: string;
+  if (remoteTooWide) status = `Zoom in to ${formatBp(MAX_REMOTE_WINDOW)} or less to load regions`;
+  else if (!shownTrack) status = 'Loading regions...';
+  else if (shownTrack.window.density) status = `${formatNumber(total)} regions in view, shown as density; zoom in for individual regions`;
+  else status = `${formatNumber(total)} ${total === 1 ? 'region' : 'regions'} in view`;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-base-content/50 uppercase tracking-wide">Genome browser</h3>
+      <div className="border border-base-300 rounded-lg bg-base-100 px-3 py-2.5 space-y-2">
+        <LocusBar
+          view={view}
+          chroms={chroms}
+          onChange={goTo}
+          resolve={(text) => resolveLocus(text, chromSizes, genome)}
+          hint={genome && GENE_SYMBOL_GENOMES.has(genome) ? 'a locus like chr1:1,000,000-2,000,000 or a gene symbol' : 'a locus like chr1:1,000,000-2,000,000'}
+        />
+
+        <Ideogram
+          chr={view.chr}
+          size={chromSizes[view.chr]}
+          view={view}
+          analysis={analysis}
+          onJump={(pos) => {
+            const half = (view.end - view.start) / 2;
+            goTo({ chr: view.chr, start: pos - half, end: pos + half });
+          }}
+        />
+
+        <div ref={containerRef} className="w-full">
+          <TrackCanvas width={width} view={view} rows={rows} genes={reference.genes} onViewChange={goTo} />
+        </div>
+
+        <p className="text-xs text-base-content/40 flex items-center gap-1.5">
+          {loading && !remoteTooWide && <Loader2 size={12} className="animate-spin" />}
+          {status}
+          {' · '}
+          {formatBp(view.end - view.start)}
+          {genome && !GENE_MODEL_GENOMES.has(genome) && ` · No gene annotations for ${genome}`}
+        </p>
+        {error && <p className="text-xs text-error">{error}</p>}
+      </div>
+    </div>
+  );
+}
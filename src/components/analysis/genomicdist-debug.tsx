@@ -1,6 +1,5 @@
 import { useState, useEffect, useMemo } from 'react';
 import type { RefGenomicDistResult, BedAnalysis } from '../../lib/bed-analysis';
-import { computeRefGenomicdist } from '../../lib/bed-analysis';
 import type { PlotSlot } from '../../lib/plot-specs';
 import { tssDistanceSlot, partitionsSlot, expectedPartitionsSlot } from './plots/local/genomicdist-plots';
 import { useFile } from '../../contexts/file-context';
@@ -14,7 +13,7 @@ export function useRefGenomicDistPlots(analysis: BedAnalysis): {
   plots: PlotSlot[];
   loading: boolean;
 } {
-  const { regionSet } = useFile();
+  const { regionSet, computeRefGenomicdist } = useFile();
 
   // --- Genome detection (same cached hook as LocalHeader) ---
   const bedFileData = useMemo(() => {
@@ -43,23 +42,23 @@ export function useRefGenomicDistPlots(analysis: BedAnalysis): {
 
   useEffect(() => {
     if (!regionSet || !detectedGenome) return;
-    let cancelled = false;
+    const controller = new AbortController();
 
     setRefLoading(true);
 
-    computeRefGenomicdist(regionSet, detectedGenome)
+    computeRefGenomicdist(detectedGenome, controller.signal)
       .then((result) => {
-        if (!cancelled) setRefResult(result);
+        if (!controller.signal.aborted) setRefResult(result);
       })
       .catch(() => {
-        // Silently fail — plots just won't appear
+        // Silently fail (or cancelled) — plots just won't appear
       })
       .finally(() => {
-        if (!cancelled) setRefLoading(false);
+        if (!controller.signal.aborted) setRefLoading(false);
       });
 
-    return () => { cancelled = true; };
-  }, [regionSet, detectedGenome]);
+    return () => controller.abort();
+  }, [regionSet, detectedGenome, computeRefGenomicdist]);
 
   // --- Build plot slots from ref results ---
   const plots = useMemo<PlotSlot[]>(() => {
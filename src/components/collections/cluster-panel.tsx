@@ -0,0 +1,158 @@
+import { useMemo } from 'react';
+import { Download, FolderPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBucket } from '../../contexts/bucket-context';
+import { GROUP_COUNTS, LINKAGE_LABELS, type Linkage } from '../../lib/clustering';
+import { downloadAsFile } from '../../lib/download-script';
+import { clusterGroupColor } from './plots/local/collection-plots';
+
+export type ClusterBy = 'none' | 'jaccard' | 'overlap';
+
+type ClusterPanelProps = {
+  /** Files in heatmap (matrix) order */
+  fileNames: string[];
+  /** BEDbase ID of each file, or null for files that weren't fetched from BEDbase */
+  bedIds: (string | null)[];
+  /** Group of every file, or null when the tree is not cut */
+  groups: number[] | null;
+  clusterBy: ClusterBy;
+  onClusterByChange: (by: ClusterBy) => void;
+  linkage: Linkage;
+  onLinkageChange: (linkage: Linkage) => void;
+  groupCount: number;
+  onGroupCountChange: (k: number) => void;
+  /** Overlap % is computed on demand in sketch mode, so it can't drive clustering */
+  overlapAvailable: boolean;
+};
+
+export function ClusterPanel({
+  fileNames,
+  bedIds,
+  groups,
+  clusterBy,
+  onClusterByChange,
+  linkage,
+  onLinkageChange,
+  groupCount,
+  onGroupCountChange,
+  overlapAvailable,
+}: ClusterPanelProps) {
+  const { createBucket } = useBucket();
+
+  const members = useMemo(() => {
+    if (!groups) return [];
+    const out: string[][] = [];
+    groups.forEach((g, i) => (out[g] ??= []).push(fileNames[i]));
+    return out;
+  }, [groups, fileNames]);
+
+  const withoutId = bedIds.filter((id) => id == null).length;
+
+  const handleSave = () => {
+    if (!groups) return;
+    const ids: string[][] = [];
+    groups.forEach((g, i) => {
+      const id = bedIds[i];
+      if (id) (ids[g] ??= []).push(id);
+    });
+    let saved = 0;
+    ids.forEach((groupIds, g) => {
+      if (!groupIds) return;
+      createBucket(`Cluster ${g + 1} (${LINKAGE_LABELS[linkage].toLowerCase()}, ${clusterBy})`, [...new Set(groupIds)]);
+      saved++;
+    });
+    if (saved === 0) {
+      toast.error('None of these files came from BEDbase, so there is nothing to save as a selection.');
+    } else if (withoutId > 0) {
+      toast.success(`Saved ${saved} selection${saved === 1 ? '' : 's'}; ${withoutId} uploaded file${withoutId === 1 ? '' : 's'} left out`);
+    } else {
+      toast.success(`Saved ${saved} selection${saved === 1 ? '' : 's'}`);
+    }
+  };
+
+  const handleExport = () => {
+    if (!groups) return;
+    const lines = ['file,group', ...fileNames.map((name, i) => `"${name.replace(/"/g, '""')}",${groups[i] + 1}`)];
+    downloadAsFile(lines.join('\n') + '\n', 'clusters.csv');
+  };
+
+  const clustered = clusterBy !== 'none';
+
+  return (
+    <div className="space-y-2 mb-3">
+      <div className="flex items-center gap-3 flex-wrap text-xs">
+        <label className="flex items-center gap-1.5 text-base-content/60">
+          Order by
+          <select
+            className="select select-xs border border-base-300"
+            value={clusterBy}
+            onChange={(e) => onClusterByChange(e.target.value as ClusterBy)}
+          >
+            <option value="none">File order</option>
+            <option value="jaccard">Jaccard clustering</option>
+            <option value="overlap" disabled={!overlapAvailable}>Overlap % clustering</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-base-content/60">
+          Linkage
+          <select
+            className="select select-xs border border-base-300"
+            value={linkage}
+            disabled={!clustered}
+            onChange={(e) => onLinkageChange(e.target.value as Linkage)}
+          >
+            {(Object.keys(LINKAGE_LABELS) as Linkage[]).map((l) => (
+              <option key={l} value={l}>{LINKAGE_LABELS[l]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 text-base-content/60">
+          Groups
+          <select
+            className="select select-xs border border-base-300"
+            value={groupCount}
+            disabled={!clustered}
+            onChange={(e) => onGroupCountChange(Number(e.target.value))}
+          >
+            <option value={0}>Off</option>
+            {GROUP_COUNTS.filter((k) => k < fileNames.length).map((k) => (
+              <option key={k} value={k}>{k}</option>
+            ))}
+          </select>
+        </label>
+        {members.length > 0 && (
+          <div className="flex items-center gap-1 ml-auto">
+            <button
+              onClick={handleSave}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-base-content/60 hover:text-base-content hover:bg-base-200 transition-colors cursor-pointer"
+              title={withoutId > 0
+                ? `Save each group as a selection. Selections hold BEDbase IDs, so the ${withoutId} file${withoutId === 1 ? '' : 's'} not fetched from BEDbase ${withoutId === 1 ? 'is' : 'are'} left out.`
+                : 'Save each group as a selection'}
+            >
+              <FolderPlus size={12} />
+              Save as selections
+            </button>
+            <button
+              onClick={handleExport}
+              className="inline-flex items-center gap-1 px-2 py-1 rounded-md text-base-content/60 hover:text-base-content hover:bg-base-200 transition-colors cursor-pointer"
+            >
+              <Download size={12} />
+              Export CSV
+            </button>
+          </div>
+        )}
+      </div>
+      {members.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-base-content/60">
+          {members.map((names, g) => (
+            <span key={g} className="inline-flex items-center gap-1.5" title={names.join('\n')}>
+              <span className="inline-block w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: clusterGroupColor(g) }} />
+              Group {g + 1}
+              <span className="text-base-content/40">{names.length} file{names.length === 1 ? '' : 's'}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
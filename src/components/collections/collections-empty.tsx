@@ -1,4 +1,4 @@
-import { Layers, ChevronRight, FolderOpen, GitCompareArrows } from 'lucide-react';
+import { Layers, ChevronRight, FolderOpen, GitCompareArrows, Sigma } from 'lucide-react';
 import { useTab } from '../../contexts/tab-context';
 import { useBucket } from '../../contexts/bucket-context';
 import { useFileSet } from '../../contexts/fileset-context';
@@ -71,6 +71,18 @@ export function CollectionsEmpty() {
               <ChevronRight size={14} className="text-base-content/30 shrink-0" />
             </button>
 
+            <button
+              onClick={() => openTab('collections', 'algebra')}
+              className="flex items-center gap-3 px-4 py-3 rounded-lg border border-base-300 hover:bg-base-200/30 transition-colors cursor-pointer text-left w-full"
+            >
+              <Sigma size={16} className="text-primary shrink-0" />
+              <span className="text-sm text-base-content/70 flex-1">
+                Combine files with set algebra
+                <span className="text-base-content/40 ml-1">(A ∪ B ∩ C − D)</span>
+              </span>
+              <ChevronRight size={14} className="text-base-content/30 shrink-0" />
+            </button>
+
             {cached ? (
               <button
                 onClick={() => openTab('collections', 'files')}
@@ -3,11 +3,16 @@ import { SelectionList } from './selection-list';
 import { SelectionDetail } from './selection-detail';
 import { CollectionDetail } from './collection-detail';
 import { FileComparison } from './file-comparison';
+import { SetAlgebra } from './set-algebra';
+import { useFileSet } from '../../contexts/fileset-context';
 
 export function CollectionsView({ param }: { param?: string }) {
+  const { restoring } = useFileSet();
   if (param?.startsWith('bedset/')) return <CollectionDetail bedsetId={param.slice(7)} />;
   if (param === 'selection') return <SelectionList />;
   if (param?.startsWith('selection/')) return <SelectionDetail selectionId={param.slice(10)} />;
-  if (param === 'files') return <FileComparison />;
+  if (param === 'algebra') return <SetAlgebra />;
+  // Wait for the stored comparison so a reload doesn't bounce back to Collections
+  if (param === 'files') return restoring ? null : <FileComparison />;
   return <CollectionsEmpty />;
 }
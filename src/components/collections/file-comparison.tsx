@@ -1,25 +1,35 @@
 import { useReducer, useEffect, useRef, useCallback, useMemo, useState } from 'react';
-import { AlertTriangle, GitCompareArrows, ArrowRight } from 'lucide-react';
+import { AlertTriangle, GitCompareArrows, ArrowRight, PauseCircle } from 'lucide-react';
 import { Breadcrumb } from '../shared/breadcrumb';
 import { toast } from 'sonner';
-import { RegionSet, type ChromosomeStatistics } from '@databio/gtars';
 import { useTab } from '../../contexts/tab-context';
 import { useFileSet } from '../../contexts/fileset-context';
 import { useFile } from '../../contexts/file-context';
 import { useUploadedFiles } from '../../contexts/uploaded-files-context';
 import { useApi } from '../../contexts/api-context';
-import { parseBedFile, type BedEntry } from '../../lib/bed-parser';
+import { AnalysisWorkerClient, isAbortError } from '../../lib/analysis-worker-client';
 import {
-  computeMultiFileAnalysis,
-  binByAbsolutePosition,
+  COMPARISON_STAGE_LABELS,
+  assembleComparison,
+  comparisonModeFor,
+  comparisonPlan,
+  isStageComplete,
+  mergeStageResult,
+  pruneComparisonCache,
+  type ComparisonCache,
+  type ComparisonFile,
   type MultiFileResult,
-  type PositionalBin,
   type PerFileGenomeResult,
-  type TssHistPoint,
 } from '../../lib/multi-file-analysis';
-import { loadRefBase, loadRefGeneModel, columnsToTuples, columnsToStrandedTuples } from '../../lib/reference-data';
+import { createLazyOverlap, type LazyMatrix } from '../../lib/lazy-overlap';
+import type { SetOperation } from '../../lib/set-operations';
+import { clampGroupCount, cutTree, hierarchicalCluster, similarityToDistance, type Linkage } from '../../lib/clustering';
+import { bedbaseIdOf } from '../../lib/remote-bed';
+import { loadRefBase } from '../../lib/reference-data';
 import { PlotGallery } from '../analysis/plot-gallery';
 import { GenomeCompatModal } from '../analysis/genome-compat-modal';
+import { ClusterPanel, type ClusterBy } from './cluster-panel';
+import { SetOpsDownloads } from './set-ops-downloads';
 import {
   similarityHeatmapSlot,
   positionalHeatmapSlot,
@@ -30,10 +40,14 @@ import {
 } from './plots/local/collection-plots';
 import type { PlotSlot } from '../../lib/plot-specs';
 import type { components } from '../../bedbase-types';
+import { fileKey } from '../../lib/workspace-store';
 
 type RefGenValidReturnModel = components['schemas']['RefGenValidReturnModel'];
 
-export const MAX_FILES = 15;
+export const MAX_FILES = 500;
+
+/** Share of analysis progress taken by the overlap stages; reference annotations get the rest. */
+const OVERLAP_PROGRESS = 0.85;
 
 /**
  * Normalize genome names from the API to the ref data names we have locally (hg38, hg19).
@@ -75,14 +89,16 @@ function detectMajorityGenome(results: PerFileGenomeResult[]): { genome: string;
 
 // --- State machine ---
 
-type Phase = 'idle' | 'parsing' | 'analyzing' | 'done' | 'error';
+type Phase = 'idle' | 'parsing' | 'analyzing' | 'cancelled' | 'done' | 'error';
 
 type State = {
   phase: Phase;
   files: File[];
   parseProgress: { done: number; total: number; current: string };
   analysisProgress: number;
-  regionSets: RegionSet[];
+  analysisStage: string;
+  /** Label of the stage that was running when the user cancelled */
+  cancelledStage: string | null;
   fileNames: string[];
   result: MultiFileResult | null;
   error: string | null;
@@ -92,19 +108,20 @@ type State = {
 type Action =
   | { type: 'START_PARSE'; files: File[] }
   | { type: 'PARSE_PROGRESS'; done: number; total: number; current: string }
-  | { type: 'PARSE_DONE'; regionSets: RegionSet[]; fileNames: string[]; wasmAvailable: boolean }
-  | { type: 'ANALYSIS_PROGRESS'; fraction: number }
+  | { type: 'PARSE_DONE'; fileNames: string[]; wasmAvailable: boolean }
+  | { type: 'ANALYSIS_PROGRESS'; fraction: number; stage?: string }
+  | { type: 'ANALYSIS_CANCELLED'; stage: string }
   | { type: 'ANALYSIS_DONE'; result: MultiFileResult }
   | { type: 'ERROR'; error: string }
-  | { type: 'RESET' }
-  | { type: 'RESTORE_CACHED'; fileNames: string[]; result: MultiFileResult };
+  | { type: 'RESET' };
 
 const initialState: State = {
   phase: 'idle',
   files: [],
   parseProgress: { done: 0, total: 0, current: '' },
   analysisProgress: 0,
-  regionSets: [],
+  analysisStage: '',
+  cancelledStage: null,
   fileNames: [],
   result: null,
   error: null,
@@ -118,15 +135,19 @@ function reducer(state: State, action: Action): State {
     case 'PARSE_PROGRESS':
       return { ...state, parseProgress: { done: action.done, total: action.total, current: action.current } };
     case 'PARSE_DONE':
-      return { ...state, phase: 'analyzing', regionSets: action.regionSets, fileNames: action.fileNames, wasmAvailable: action.wasmAvailable };
+      return { ...state, phase: 'analyzing', fileNames: action.fileNames, wasmAvailable: action.wasmAvailable };
     case 'ANALYSIS_PROGRESS':
-      return { ...state, analysisProgress: Math.max(state.analysisProgress, action.fraction) };
+      return {
+        ...state,
+        analysisProgress: Math.max(state.analysisProgress, action.fraction),
+        analysisStage: action.stage ?? state.analysisStage,
+      };
+    case 'ANALYSIS_CANCELLED':
+      return { ...state, phase: 'cancelled', cancelledStage: action.stage };
     case 'ANALYSIS_DONE':
       return { ...state, phase: 'done', result: action.result };
     case 'ERROR':
       return { ...state, phase: 'error', error: action.error };
-    case 'RESTORE_CACHED':
-      return { ...initialState, phase: 'done', fileNames: action.fileNames, result: action.result, wasmAvailable: true };
     case 'RESET':
       return initialState;
     default:
@@ -140,89 +161,111 @@ function formatNumber(n: number): string {
   return n.toLocaleString();
 }
 
-
 // --- Component ---
 
 export function FileComparison() {
   const { openTab } = useTab();
-  const { files: contextFiles, clearFiles, cached, setCached } = useFileSet();
+  const { files: contextFiles, clearFiles, cached, setCached, stageCache, setStageCache } = useFileSet();
   const { setBedFile } = useFile();
   const { files: uploadedFiles, addFiles: addToUploaded, setActiveIndex } = useUploadedFiles();
   const { api } = useApi();
-  const [state, dispatch] = useReducer(reducer, initialState);
-  const regionSetsRef = useRef<RegionSet[]>([]);
-  const chromSizesRef = useRef<Record<string, number>>({});
-  const parsedFilesRef = useRef<Map<string, File>>(new Map());
-  const cancelledRef = useRef(false);
+  // Restore from cache on mount unless new files are waiting to be compared
+  const restored = contextFiles.length === 0 ? cached : null;
+  const [state, dispatch] = useReducer(reducer, restored, (c): State =>
+    c ? { ...initialState, phase: 'done', fileNames: c.fileNames, result: c.result } : initialState,
+  );
+  const clientRef = useRef<AnalysisWorkerClient | null>(null);
+  const [chromSizes, setChromSizes] = useState<Record<string, number>>(() => restored?.chromSizes ?? {});
+  const [parsedFiles, setParsedFiles] = useState<Map<string, File>>(() => restored?.parsedFiles ?? new Map());
+  const abortRef = useRef<AbortController | null>(null);
+  const stageAbortRef = useRef<AbortController | null>(null);
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
-  const [genomeResults, setGenomeResults] = useState<PerFileGenomeResult[]>([]);
-  const [majorityGenome, setMajorityGenome] = useState<string>('hg38');
-  const [genomeDefaulted, setGenomeDefaulted] = useState(false);
+  const [genomeResults, setGenomeResults] = useState<PerFileGenomeResult[]>(() => restored?.genomeResults ?? []);
+  const [majorityGenome, setMajorityGenome] = useState<string>(() => restored?.majorityGenome ?? 'hg38');
+  const [genomeDefaulted, setGenomeDefaulted] = useState(() => restored?.genomeDefaulted ?? false);
   const [genomeModalFile, setGenomeModalFile] = useState<string | null>(null);
-
-  // Cleanup RegionSets on unmount
+  const [clusterBy, setClusterBy] = useState<ClusterBy>('jaccard');
+  const [linkage, setLinkage] = useState<Linkage>('average');
+  const [groupCount, setGroupCount] = useState(0);
+  // Worker sets of the finished comparison, reused for on-demand overlaps and set-operation downloads
+  const comparisonSetsRef = useRef<Promise<{ client: AnalysisWorkerClient; setIds: string[] }> | null>(null);
+  // What the current worker holds, so resuming the same files skips parsing them again
+  const loadedRef = useRef<{
+    keys: string;
+    client: AnalysisWorkerClient;
+    setIds: string[];
+    chromEnds: Record<string, number>[];
+    sketches: Record<string, number[]>;
+  } | null>(null);
+  const stageCacheRef = useRef(stageCache);
+  stageCacheRef.current = stageCache;
+
+  // Cancel in-flight work and release the worker's RegionSets on unmount
   useEffect(() => {
     return () => {
-      for (const rs of regionSetsRef.current) {
-        try { (rs as unknown as { free?: () => void }).free?.(); } catch { /* */ }
-      }
-      regionSetsRef.current = [];
+      abortRef.current?.abort();
+      clientRef.current?.dispose();
+      clientRef.current = null;
     };
   }, []);
 
   const startPipeline = useCallback(async (files: File[]) => {
-    cancelledRef.current = false;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+
+    // A fresh worker per new file list (terminating the old one frees all its
+    // sets); resuming the same files keeps the sets already parsed
+    const keys = files.map(fileKey).join('\n');
+    const loaded = loadedRef.current?.keys === keys && loadedRef.current.client === clientRef.current
+      ? loadedRef.current
+      : null;
+    if (!loaded) {
+      clientRef.current?.dispose();
+      clientRef.current = new AnalysisWorkerClient();
+      loadedRef.current = null;
+    }
+    const client = clientRef.current!;
+
     setGenomeResults([]);
     setGenomeDefaulted(false);
-    parsedFilesRef.current = new Map();
+    setParsedFiles(new Map());
+    comparisonSetsRef.current = null;
     dispatch({ type: 'START_PARSE', files });
+    const mode = comparisonModeFor(files.length);
 
     try {
-      // Parse files sequentially, extracting bedFileData for genome detection
-      const regionSets: RegionSet[] = [];
-      const fileNames: string[] = [];
-      const allEntries: BedEntry[][] = [];
-      const bedFileDataList: Record<string, number>[] = [];
-
-      for (let i = 0; i < files.length; i++) {
-        if (cancelledRef.current) return;
+      // Parse files sequentially in the worker, collecting chromosome
+      // endpoints for genome detection. Only midpoint counts are kept besides
+      // the RegionSets; rows are re-read if a set-operation download needs them.
+      const fileNames = files.map((f) => f.name);
+      const parsed = new Map(files.map((f) => [f.name, f]));
+      const setIds: string[] = loaded ? loaded.setIds : [];
+      const bedFileDataList: Record<string, number>[] = loaded ? loaded.chromEnds : [];
+      const sketches: Record<string, number[]> = loaded ? loaded.sketches : {};
+
+      for (let i = setIds.length; i < files.length; i++) {
         dispatch({ type: 'PARSE_PROGRESS', done: i, total: files.length, current: files[i].name });
 
-        const entries: BedEntry[] = await parseBedFile(files[i]);
-        allEntries.push(entries);
-
-        const rs = new RegionSet(entries);
-        regionSets.push(rs);
-        fileNames.push(files[i].name);
-        parsedFilesRef.current.set(files[i].name, files[i]);
-
-        // Extract chromosome endpoint data for genome detection
-        const chrStats = rs.chromosomeStatistics();
-        const bedFileData: Record<string, number> = {};
-        if (chrStats) {
-          for (const entry of Array.from(chrStats.entries())) {
-            const [chrom, stats] = entry as [unknown, ChromosomeStatistics];
-            bedFileData[String(chrom)] = stats.end_nucleotide_position;
-            try { (stats as unknown as { free?: () => void }).free?.(); } catch { /* */ }
-          }
-        }
-        bedFileDataList.push(bedFileData);
-      }
-
-      if (cancelledRef.current) {
-        for (const rs of regionSets) {
-          try { (rs as unknown as { free?: () => void }).free?.(); } catch { /* */ }
-        }
-        return;
+        const summary = await client.request(
+          { type: 'load', setId: `cmp-${i}`, file: files[i], chromEnds: true, positions: true, sketch: mode === 'sketch' },
+          { signal },
+        );
+        if (summary.sketch) sketches[fileKey(files[i])] = summary.sketch;
+        setIds.push(summary.setId);
+        bedFileDataList.push(summary.chromEnds ?? {});
       }
+      loadedRef.current = { keys, client, setIds, chromEnds: bedFileDataList, sketches };
 
       // Fire genome detection API calls in parallel
       const genomeSettled = await Promise.allSettled(
         bedFileDataList.map((bedFileData) =>
-          api.post<RefGenValidReturnModel>('/bed/analyze-genome', { bed_file: bedFileData })
+          api.post<RefGenValidReturnModel>('/bed/analyze-genome', { bed_file: bedFileData }, { signal })
             .then(r => r.data)
         )
       );
+      signal.throwIfAborted();
 
       // Build per-file genome results
       const perFileGenome: PerFileGenomeResult[] = genomeSettled.map((result, i) => {
@@ -244,154 +287,119 @@ export function FileComparison() {
       setGenomeResults(perFileGenome);
 
       // Determine majority genome
-      const { genome: majority, defaulted } = detectMajorityGenome(perFileGenome);
+      const { genome: detected, defaulted } = detectMajorityGenome(perFileGenome);
+      let majority = detected;
       setMajorityGenome(majority);
       setGenomeDefaulted(defaulted);
 
       // Load reference chromSizes using detected majority genome
-      let chromSizes: Record<string, number> = {};
+      let refChromSizes: Record<string, number> = {};
       try {
         const ref = await loadRefBase(majority);
-        chromSizes = ref.chromSizes;
+        refChromSizes = ref.chromSizes;
       } catch {
         // If detected genome has no local ref data, fall back to hg38
         if (majority !== 'hg38') {
           try {
             const ref = await loadRefBase('hg38');
-            chromSizes = ref.chromSizes;
+            refChromSizes = ref.chromSizes;
+            majority = 'hg38';
             setMajorityGenome('hg38');
             setGenomeDefaulted(true);
           } catch { /* proceed without — bins will be empty */ }
         }
       }
-      chromSizesRef.current = chromSizes;
-
-      // Bin entries by absolute genomic position
-      const positionalBins: PositionalBin[] = [];
-      if (Object.keys(chromSizes).length > 0) {
-        for (let i = 0; i < allEntries.length; i++) {
-          positionalBins.push(...binByAbsolutePosition(allEntries[i], fileNames[i], chromSizes));
-        }
-      }
-
-      // Store refs for cleanup
-      regionSetsRef.current = regionSets;
-
-      dispatch({ type: 'PARSE_DONE', regionSets, fileNames, wasmAvailable: true });
-
-      // Run analysis
-      const rawResult = await computeMultiFileAnalysis(allEntries, fileNames, (fraction) => {
-        if (!cancelledRef.current) dispatch({ type: 'ANALYSIS_PROGRESS', fraction });
-      });
-
-      // Compute per-file TSS distance histograms
-      const TSS_RANGE = 100_000;
-      const TSS_BINS = 100;
-      const TSS_BIN_W = (2 * TSS_RANGE) / TSS_BINS;
-      let tssHist: TssHistPoint[] | null = null;
-      if (Object.keys(chromSizes).length > 0) {
+      signal.throwIfAborted();
+      setChromSizes(refChromSizes);
+      setParsedFiles(parsed);
+
+      dispatch({ type: 'PARSE_DONE', fileNames, wasmAvailable: true });
+
+      // Each stage is its own cancellable worker request. Finished stages go
+      // into the FileSet cache right away, so a cancelled or interrupted run
+      // resumes where it stopped and a grown file set only fills in new rows.
+      const compareFiles: ComparisonFile[] = files.map((f) => ({ key: fileKey(f), name: f.name }));
+      let cache = pruneComparisonCache(stageCache, compareFiles);
+      cache = { ...cache, sketches: { ...cache.sketches, ...sketches } };
+      // The worker keeps its own copy between stages; it is sent only once
+      let seed: ComparisonCache | undefined = cache;
+
+      // Run one stage under its own AbortController (see cancelStage).
+      // Resolves to null when the user cancelled that stage.
+      const runStage = async <T,>(label: string, run: (stageSignal: AbortSignal) => Promise<T>): Promise<T | null> => {
+        const stageController = new AbortController();
+        stageAbortRef.current = stageController;
         try {
-          const refBase = await loadRefBase(majority);
-          const tssTuples = columnsToTuples(refBase.tss);
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-          const gtars = await import('@databio/gtars') as any;
-          const tssRs = new gtars.RegionSet(tssTuples);
-          const tssIndex = new gtars.TssIndex(tssRs);
-
-          tssHist = [];
-          for (let i = 0; i < regionSets.length; i++) {
-            const distances = tssIndex.calcFeatureDistances(regionSets[i]) as (number | null)[];
-            const clamped = distances.filter((d): d is number => d != null && Math.abs(d) <= TSS_RANGE);
-            if (clamped.length === 0) continue;
-            const counts = new Array<number>(TSS_BINS).fill(0);
-            for (const d of clamped) {
-              const idx = Math.min(Math.max(Math.floor((d + TSS_RANGE) / TSS_BIN_W), 0), TSS_BINS - 1);
-              counts[idx]++;
-            }
-            const total = clamped.length;
-            for (let b = 0; b < TSS_BINS; b++) {
-              const x1 = -TSS_RANGE + b * TSS_BIN_W;
-              tssHist.push({
-                fileName: fileNames[i],
-                binMid: Math.round(x1 + TSS_BIN_W / 2),
-                freq: counts[b] / total,
-              });
-            }
+          return await run(AbortSignal.any([signal, stageController.signal]));
+        } catch (err) {
+          if (stageController.signal.aborted && !signal.aborted) {
+            dispatch({ type: 'ANALYSIS_CANCELLED', stage: label });
+            return null;
           }
-
-          try { tssIndex.free?.(); } catch { /* */ }
-          try { tssRs.free?.(); } catch { /* */ }
-        } catch { /* ref data or WASM unavailable */ }
+          throw err;
+        } finally {
+          stageAbortRef.current = null;
+        }
+      };
+
+      for (const { stage, range: [from, to] } of comparisonPlan(mode)) {
+        const label = COMPARISON_STAGE_LABELS[stage];
+        dispatch({ type: 'ANALYSIS_PROGRESS', fraction: OVERLAP_PROGRESS * from, stage: label });
+        if (isStageComplete(stage, compareFiles, cache)) continue;
+
+        const next = await runStage(label, (stageSignal) => client.request(
+          { type: 'compareStage', stage, setIds, files: compareFiles, seed },
+          {
+            signal: stageSignal,
+            onProgress: (f) => dispatch({
+              type: 'ANALYSIS_PROGRESS',
+              fraction: OVERLAP_PROGRESS * (from + (to - from) * f),
+              stage: label,
+            }),
+          },
+        ));
+        if (!next) return;
+        seed = undefined;
+        cache = mergeStageResult(cache, next);
+        setStageCache(cache);
       }
 
-      // Compute per-file partitions (requires gene model)
-      type FilePartitions = { fileName: string; partitions: Record<string, number> };
-      let filePartitions: FilePartitions[] | null = null;
-      if (Object.keys(chromSizes).length > 0) {
-        try {
-          const refGM = await loadRefGeneModel(majority);
-          const gtars = await import('@databio/gtars') as any;
-
-          const genesTuples = columnsToStrandedTuples(refGM.genes);
-          const exonsTuples = columnsToTuples(refGM.exons);
-          const threeUtrTuples = columnsToTuples(refGM.threeUtr);
-          const fiveUtrTuples = columnsToTuples(refGM.fiveUtr);
-
-          const geneModel = new gtars.GeneModel(
-            genesTuples, exonsTuples, threeUtrTuples, fiveUtrTuples,
-          );
-          const partitionList = gtars.PartitionList.fromGeneModel(
-            geneModel, 200, 2000, chromSizes,
-          );
-
-          filePartitions = [];
-          for (let i = 0; i < regionSets.length; i++) {
-            const result = gtars.calcPartitions(regionSets[i], partitionList, false) as {
-              partitions: { name: string; count: number }[];
-              total: number;
-            } | null;
-            if (result && result.total > 0) {
-              const pcts: Record<string, number> = {};
-              for (const p of result.partitions) {
-                pcts[p.name] = (p.count / result.total) * 100;
-              }
-              filePartitions.push({ fileName: fileNames[i], partitions: pcts });
-            }
-          }
-
-          try { partitionList.free?.(); } catch { /* */ }
-          try { geneModel.free?.(); } catch { /* */ }
-        } catch { /* gene model unavailable */ }
+      // Positional bins, TSS histograms and partitions need reference data
+      let refResult: Pick<MultiFileResult, 'positionalBins' | 'tssHist' | 'filePartitions'> | null = {
+        positionalBins: [],
+        tssHist: null,
+        filePartitions: null,
+      };
+      if (Object.keys(refChromSizes).length > 0) {
+        refResult = await runStage('Reference annotations', (stageSignal) => client.request(
+          { type: 'reference', setIds, fileNames, genome: majority, chromSizes: refChromSizes },
+          {
+            signal: stageSignal,
+            onProgress: (f, stage) => dispatch({
+              type: 'ANALYSIS_PROGRESS',
+              fraction: OVERLAP_PROGRESS + (1 - OVERLAP_PROGRESS) * f,
+              stage,
+            }),
+          },
+        ));
+        if (!refResult) return;
       }
+      const result: MultiFileResult = { ...assembleComparison(compareFiles, cache, mode), ...refResult };
 
-      if (!cancelledRef.current) {
-        const result = { ...rawResult, positionalBins, tssHist, filePartitions };
+      if (!signal.aborted) {
+        comparisonSetsRef.current = Promise.resolve({ client, setIds });
         dispatch({ type: 'ANALYSIS_DONE', result });
       }
     } catch (err) {
+      if (isAbortError(err) || signal.aborted) return;
       console.error('File comparison failed:', err);
-      if (!cancelledRef.current) {
-        const message = err instanceof Error ? err.message : String(err);
-        dispatch({ type: 'ERROR', error: message });
-      }
+      const message = err instanceof Error ? err.message : String(err);
+      dispatch({ type: 'ERROR', error: message });
     }
-  }, [api]);
+  }, [api, stageCache, setStageCache]);
 
-  // Restore from cache if available
-  useEffect(() => {
-    if (state.phase === 'idle' && cached && contextFiles.length === 0) {
-      dispatch({
-        type: 'RESTORE_CACHED',
-        fileNames: cached.fileNames,
-        result: cached.result,
-      });
-      if (cached.chromSizes) chromSizesRef.current = cached.chromSizes;
-      if (cached.genomeResults) setGenomeResults(cached.genomeResults);
-      if (cached.majorityGenome) setMajorityGenome(cached.majorityGenome);
-      if (cached.genomeDefaulted != null) setGenomeDefaulted(cached.genomeDefaulted);
-      if (cached.parsedFiles) parsedFilesRef.current = cached.parsedFiles;
-    }
-  }, []); // eslint-disable-line react-hooks/exhaustive-deps -- only on mount
+  // Cancel only the running stage; finished stages stay cached for resuming
+  const cancelStage = useCallback(() => stageAbortRef.current?.abort(), []);
 
   // Redirect to collections if idle with nothing to show
   useEffect(() => {
@@ -419,15 +427,63 @@ export function FileComparison() {
       setCached({
         fileNames: state.fileNames,
         result: state.result,
-        chromSizes: chromSizesRef.current,
+        chromSizes,
         genomeResults,
         majorityGenome,
         genomeDefaulted,
-        parsedFiles: new Map(parsedFilesRef.current),
+        parsedFiles: new Map(parsedFiles),
       });
       setSelectedFiles(new Set(state.result.fileStats.map((f) => f.fileName)));
     }
-  }, [state.phase, state.result, state.fileNames, setCached, genomeResults, majorityGenome, genomeDefaulted]);
+  }, [state.phase, state.result, state.fileNames, setCached, chromSizes, parsedFiles, genomeResults, majorityGenome, genomeDefaulted]);
+
+  // A restored comparison has no worker sets yet; load them on first use
+  const comparisonSets = useCallback(() => {
+    if (!comparisonSetsRef.current) {
+      const files = state.fileNames.map((name) => parsedFiles.get(name));
+      if (files.some((f) => !f)) return Promise.reject(new Error('The compared files are no longer available'));
+      const client = clientRef.current ?? new AnalysisWorkerClient();
+      clientRef.current = client;
+      comparisonSetsRef.current = (async () => {
+        const setIds: string[] = [];
+        for (let i = 0; i < files.length; i++) {
+          setIds.push((await client.request({ type: 'load', setId: `cmp-${i}`, file: files[i]! })).setId);
+        }
+        return { client, setIds };
+      })();
+      comparisonSetsRef.current.catch(() => { comparisonSetsRef.current = null; });
+    }
+    return comparisonSetsRef.current;
+  }, [state.fileNames, parsedFiles]);
+
+  const runSetOperation = useCallback(async (operation: SetOperation, gzip: boolean, signal?: AbortSignal) => {
+    const { client, setIds } = await comparisonSets();
+    return client.request({ type: 'setOperation', setIds, operation, gzip }, { signal });
+  }, [comparisonSets]);
+
+  // Sketch mode leaves overlaps to be computed for the heatmap cells in view
+  const overlapSource = useMemo(() => {
+    if (state.phase !== 'done' || state.result?.mode !== 'sketch') return null;
+    const files = state.fileNames.map((name) => parsedFiles.get(name));
+    if (files.some((f) => !f)) return null;
+    const compareFiles: ComparisonFile[] = (files as File[]).map((f) => ({ key: fileKey(f), name: f.name }));
+
+    return createLazyOverlap({
+      files: compareFiles,
+      cache: pruneComparisonCache(stageCacheRef.current, compareFiles),
+      compute: async (pairs, signal) => {
+        const { client, setIds } = await comparisonSets();
+        return client.request({ type: 'overlapPairs', setIds, files: compareFiles, pairs }, { signal });
+      },
+      onComputed: (counts) => {
+        const next = { ...stageCacheRef.current, overlap: { ...stageCacheRef.current.overlap, ...counts } };
+        stageCacheRef.current = next;
+        setStageCache(next);
+      },
+    });
+  }, [state.phase, state.result, state.fileNames, parsedFiles, setStageCache, comparisonSets]);
+
+  useEffect(() => () => overlapSource?.dispose(), [overlapSource]);
 
   // --- Consensus plots (independent of file selection) ---
   const consensusPlots = useMemo<PlotSlot[]>(() => {
@@ -436,26 +492,44 @@ export function FileComparison() {
     return fileStatsScalarSlots(fileStats);
   }, [state.phase, state.result]);
 
-  // --- Selection-dependent plots (recompute when selection changes) ---
-  const selectionPlots = useMemo<PlotSlot[]>(() => {
-    if (state.phase !== 'done' || !state.result) return [];
-    const { jaccardMatrix, overlapMatrix, positionalBins, fileStats, chrCounts } = state.result;
+  // --- Clustering of the selected files' similarity matrices ---
+  const overlapClusterable = state.result?.mode !== 'sketch';
+  const clusterView = useMemo(() => {
+    if (state.phase !== 'done' || !state.result) return null;
+    const { jaccardMatrix, overlapMatrix, fileStats } = state.result;
     const allNames = fileStats.map((f) => f.fileName);
     const sel = allNames.filter((n) => selectedFiles.has(n));
     const selIndices = sel.map((n) => allNames.indexOf(n));
+    // The select only offers counts below the selection size; keep the cut within them
+    const k = clampGroupCount(groupCount, sel.length);
+    if (clusterBy === 'none' || sel.length < 2) return { sel, selIndices, clustering: null, groups: null, groupCount: k };
+    // Overlap % isn't available up front in sketch mode; fall back to Jaccard
+    const byOverlap = clusterBy === 'overlap' && overlapClusterable;
+    const matrix = byOverlap ? overlapMatrix : jaccardMatrix;
+    const sub = selIndices.map((i) => selIndices.map((j) => matrix[i][j]));
+    const clustering = hierarchicalCluster(similarityToDistance(sub, byOverlap ? 100 : 1), linkage);
+    const groups = k > 1 ? cutTree(clustering, k) : null;
+    return { sel, selIndices, clustering, groups, groupCount: k };
+  }, [state.phase, state.result, selectedFiles, clusterBy, linkage, groupCount, overlapClusterable]);
+
+  // --- Selection-dependent plots (recompute when selection changes) ---
+  const selectionPlots = useMemo<PlotSlot[]>(() => {
+    if (state.phase !== 'done' || !state.result || !clusterView) return [];
+    const { jaccardMatrix, overlapMatrix, positionalBins, chrCounts } = state.result;
+    const { sel, selIndices } = clusterView;
     const out: PlotSlot[] = [];
 
     // Positional: filter bins to selected files
     if (sel.length >= 1) {
       const filtBins = positionalBins.filter((b) => selectedFiles.has(b.fileName));
-      const posPlot = positionalHeatmapSlot(filtBins, sel, chromSizesRef.current);
+      const posPlot = positionalHeatmapSlot(filtBins, sel, chromSizes);
       if (posPlot) out.push(posPlot);
     }
 
     // Regions per chromosome: bar chart with IQR
     if (sel.length >= 2) {
       const filtChrCounts = chrCounts.filter((d) => selectedFiles.has(d.fileName));
-      const barPlot = chrRegionBarSlot(filtChrCounts, sel, chromSizesRef.current);
+      const barPlot = chrRegionBarSlot(filtChrCounts, sel, chromSizes);
       if (barPlot) out.push(barPlot);
     }
 
@@ -475,12 +549,22 @@ export function FileComparison() {
     // Jaccard/overlap: extract sub-matrix for selected files
     if (sel.length >= 1) {
       const filtJaccard = selIndices.map((i) => selIndices.map((j) => jaccardMatrix[i][j]));
-      const filtOverlap = selIndices.map((i) => selIndices.map((j) => overlapMatrix[i][j]));
-      out.push(similarityHeatmapSlot(filtJaccard, filtOverlap, sel));
+      const estimated = state.result.mode === 'sketch';
+      const filtOverlap: number[][] | LazyMatrix = !estimated
+        ? selIndices.map((i) => selIndices.map((j) => overlapMatrix[i][j]))
+        : overlapSource
+          ? {
+              get: (i, j) => overlapSource.get(selIndices[i], selIndices[j]),
+              request: (cells) => overlapSource.request(cells.map(([i, j]) => [selIndices[i], selIndices[j]])),
+              subscribe: overlapSource.subscribe,
+            }
+          : [];
+      const clustering = clusterView.clustering ? { clustering: clusterView.clustering, groups: clusterView.groups } : null;
+      out.push(similarityHeatmapSlot(filtJaccard, filtOverlap, sel, { estimated, clustering }));
     }
 
     return out;
-  }, [state.phase, state.result, selectedFiles]);
+  }, [state.phase, state.result, selectedFiles, chromSizes, overlapSource, clusterView]);
 
   const plots = useMemo<PlotSlot[]>(
     () => [...consensusPlots, ...selectionPlots],
@@ -527,11 +611,7 @@ export function FileComparison() {
           <h2 className="text-lg font-semibold text-base-content">Computing comparisons...</h2>
           <div className="w-full max-w-sm">
             <div className="flex justify-between text-xs text-base-content/50 mb-1">
-              <span>
-                {state.analysisProgress < 0.6 ? 'Pairwise Jaccard similarity' :
-                 state.analysisProgress < 0.8 ? 'Consensus regions' :
-                 'Union / intersection'}
-              </span>
+              <span>{state.analysisStage}</span>
               <span>{Math.round(state.analysisProgress * 100)}%</span>
             </div>
             <progress
@@ -540,6 +620,27 @@ export function FileComparison() {
               max={1}
             />
           </div>
+          <button onClick={cancelStage} className="btn btn-sm btn-ghost">
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {/* Cancelled: finished stages are cached, so resuming skips them */}
+      {state.phase === 'cancelled' && (
+        <div className="flex flex-col items-center justify-center py-16 gap-4">
+          <PauseCircle size={24} className="text-base-content/40" />
+          <p className="text-sm text-base-content/70 max-w-md text-center">
+            Comparison cancelled during {state.cancelledStage?.toLowerCase()}. Finished stages are kept and will not be recomputed.
+          </p>
+          <div className="flex gap-2">
+            <button onClick={() => startPipeline(state.files)} className="btn btn-sm btn-primary">
+              Resume
+            </button>
+            <button onClick={() => openTab('collections', '')} className="btn btn-sm btn-ghost">
+              Back to collections
+            </button>
+          </div>
         </div>
       )}
 
@@ -574,7 +675,7 @@ export function FileComparison() {
                 <><span className="shrink-0 hidden @xs:inline">·</span><span className="shrink-0 hidden @xs:inline">{formatNumber(state.result.consensus.length)} consensus</span></>
               )} */}
               {state.result.jaccardMatrix.length > 1 && (
-                <><span className="shrink-0 hidden @sm:inline">·</span><span className="shrink-0 hidden @sm:inline">avg Jaccard {(state.result.jaccardMatrix.flatMap((row, i) => row.filter((_, j) => j > i)).reduce((s, v, _, a) => s + v / a.length, 0)).toFixed(3)}</span></>
+                <><span className="shrink-0 hidden @sm:inline">·</span><span className="shrink-0 hidden @sm:inline">avg Jaccard {state.result.mode === 'sketch' ? '≈' : ''}{(state.result.jaccardMatrix.flatMap((row, i) => row.filter((_, j) => j > i)).reduce((s, v, _, a) => s + v / a.length, 0)).toFixed(3)}</span></>
               )}
               {state.result.unionStats && (
                 <><span className="shrink-0 hidden @md:inline">·</span><span className="shrink-0 hidden @md:inline">{formatNumber(state.result.unionStats.regions)} union</span></>
@@ -700,10 +801,10 @@ export function FileComparison() {
                           </td>
                         )}
                         <td>
-                          {parsedFilesRef.current.has(f.fileName) && (
+                          {parsedFiles.has(f.fileName) && (
                             <button
                               onClick={() => {
-                                const file = parsedFilesRef.current.get(f.fileName);
+                                const file = parsedFiles.get(f.fileName);
                                 if (file) {
                                   addToUploaded([file]);
                                   const uploadIdx = uploadedFiles.findIndex((u) =>
@@ -746,10 +847,36 @@ export function FileComparison() {
             </div>
           ) : null}
 
+          {/* Set operation downloads */}
+          {state.fileNames.every((name) => parsedFiles.has(name)) && (
+            <SetOpsDownloads
+              fileNames={state.fileNames}
+              consensus={state.result.consensus}
+              runSetOperation={runSetOperation}
+            />
+          )}
+
           {/* Plots gallery */}
           {plots.length > 0 && (
             <div>
               <h3 className="text-sm font-semibold text-base-content/50 uppercase tracking-wide mb-2">Plots</h3>
+              {clusterView && clusterView.sel.length > 2 && (
+                <ClusterPanel
+                  fileNames={clusterView.sel}
+                  bedIds={clusterView.sel.map((name) => {
+                    const file = parsedFiles.get(name);
+                    return file ? bedbaseIdOf(file) : null;
+                  })}
+                  groups={clusterView.groups}
+                  clusterBy={clusterBy === 'overlap' && !overlapClusterable ? 'jaccard' : clusterBy}
+                  onClusterByChange={setClusterBy}
+                  linkage={linkage}
+                  onLinkageChange={setLinkage}
+                  groupCount={clusterView.groupCount}
+                  onGroupCountChange={setGroupCount}
+                  overlapAvailable={overlapClusterable}
+                />
+              )}
               <PlotGallery plots={plots} />
             </div>
           )}
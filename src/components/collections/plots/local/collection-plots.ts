@@ -20,6 +20,10 @@ import type {
 } from '../../../../lib/multi-file-analysis';
 import { chrBinCounts } from '../../../../lib/multi-file-analysis';
 import { REGION_DIST_BINS } from '../../../../lib/bed-analysis';
+import { dendrogramLayout, hierarchicalCluster, similarityToDistance, type Clustering } from '../../../../lib/clustering';
+import { tableau20 } from '../../../../lib/tableau20';
+import { SKETCH_BIN_SIZE, SKETCH_SIZE } from '../../../../lib/minhash';
+import type { LazyMatrix } from '../../../../lib/lazy-overlap';
 
 // ---------------------------------------------------------------------------
 // Shared helpers
@@ -102,7 +106,7 @@ function renderHeatmap(
   cells: Cell[],
   labels: string[],
   fileNames: string[],
-  opts: { width: number; height: number; maxVal: number; scheme: string; label: string; format: (v: number) => string; legend: boolean },
+  opts: { width: number; height: number; maxVal: number; scheme: string; label: string; format: (v: number) => string; legend: boolean; marginRight?: number; padding?: number },
 ): Element {
   const margins = opts.legend ? estimateHeatmapMargins(labels) : { left: 4, bottom: 4 };
   return Plot.plot({
@@ -110,7 +114,8 @@ function renderHeatmap(
     height: opts.height,
     marginLeft: margins.left,
     marginBottom: margins.bottom,
-    x: opts.legend ? { domain: labels, label: null, tickRotate: -45 } : { domain: labels, axis: null },
+    marginRight: opts.marginRight,
+    x: opts.legend ? { domain: labels, label: null, tickRotate: -45, padding: opts.padding } : { domain: labels, axis: null },
     y: opts.legend ? { domain: labels, label: null } : { domain: labels, axis: null },
     color: { domain: [0, opts.maxVal], scheme: opts.scheme as Plot.ColorScheme, label: opts.legend ? opts.label : undefined, legend: opts.legend },
     marks: [
@@ -133,17 +138,121 @@ function renderHeatmap(
   });
 }
 
+const SIMILARITY_DESCRIPTION = 'Pairwise comparison of genomic coverage between files, measured in base pairs. Jaccard similarity is the ratio of shared bases to total bases covered by either file (0 = no shared bases, 1 = identical coverage). It is symmetric — comparing A to B gives the same value as B to A. Overlap % is asymmetric: it shows what fraction of each file\'s bases are covered by the other, so A→B and B→A can differ when files have different total coverage. Use Jaccard to assess overall concordance; use Overlap % to identify when one file is a subset of another.';
+
+/** Colour of cluster group `g`: saturated tableau colours first, then their light variants. */
+export function clusterGroupColor(g: number): string {
+  const i = g % 18;
+  return tableau20[i < 9 ? i * 2 : (i - 9) * 2 + 1];
+}
+
+/** Row/column order and dendrogram for the similarity heatmap. */
+export type HeatmapClustering = {
+  clustering: Clustering;
+  /** Group of every file from cutting the tree, drawn as a colour strip under the dendrogram */
+  groups?: number[] | null;
+};
+
+const DENDROGRAM_HEIGHT = 72;
+const GROUP_STRIP = 8;
+const DENDROGRAM_MARGIN_RIGHT = 8;
+
+type DendrogramSegment = { x1: number; y1: number; x2: number; y2: number };
+
+/** Elbow segments in leaf-position units (leaf k spans [k, k + 1]). */
+function dendrogramSegments(clustering: Clustering): DendrogramSegment[] {
+  const { x, y } = dendrogramLayout(clustering);
+  const n = clustering.order.length;
+  const segments: DendrogramSegment[] = [];
+  clustering.merges.forEach(({ left, right }, m) => {
+    const top = y[n + m];
+    segments.push(
+      { x1: x[left] + 0.5, y1: y[left], x2: x[left] + 0.5, y2: top },
+      { x1: x[right] + 0.5, y1: y[right], x2: x[right] + 0.5, y2: top },
+      { x1: x[left] + 0.5, y1: top, x2: x[right] + 0.5, y2: top },
+    );
+  });
+  return segments;
+}
+
+/** Column dendrogram aligned with a heatmap whose x band spans [marginLeft, width - marginRight]. */
+function renderDendrogram(hc: HeatmapClustering, width: number, marginLeft: number, marginRight: number): Element {
+  const n = hc.clustering.order.length;
+  const segments = dendrogramSegments(hc.clustering);
+  const maxH = Math.max(1e-9, ...segments.map((s) => s.y2));
+  const strip = hc.groups ? GROUP_STRIP : 0;
+  const height = DENDROGRAM_HEIGHT + strip;
+  const marginTop = 4;
+  // Extend the y domain below 0 so leaves end just above the group strip
+  const f = (strip + 2) / (height - marginTop);
+  const lo = -maxH * f / (1 - f);
+  const stripTop = lo + (maxH - lo) * (strip / (height - marginTop));
+  const groups = hc.groups;
+  return Plot.plot({
+    width,
+    height,
+    marginLeft,
+    marginRight,
+    marginTop,
+    marginBottom: 0,
+    x: { domain: [0, n], axis: null },
+    y: { domain: [lo, maxH], axis: null },
+    color: { type: 'identity' },
+    marks: [
+      Plot.link(segments, { x1: 'x1', y1: 'y1', x2: 'x2', y2: 'y2', stroke: '#6b7280', strokeWidth: 1 }),
+      ...(groups ? [
+        Plot.rect(hc.clustering.order, {
+          x1: (_: number, pos: number) => pos,
+          x2: (_: number, pos: number) => pos + 1,
+          y1: lo,
+          y2: stripTop,
+          fill: (leaf: number) => clusterGroupColor(groups[leaf]),
+        }),
+      ] : []),
+    ],
+  });
+}
+
+/** Insert a dendrogram between the colour legend and the plot of a legend-wrapped heatmap. */
+function attachDendrogram(heatmap: Element, dendrogram: Element): Element {
+  if (heatmap.tagName.toLowerCase() === 'figure' && heatmap.lastElementChild) {
+    heatmap.insertBefore(dendrogram, heatmap.lastElementChild);
+    return heatmap;
+  }
+  const wrapper = document.createElement('div');
+  wrapper.append(dendrogram, heatmap);
+  return wrapper;
+}
+
+/**
+ * Jaccard and overlap heatmaps. Large comparisons (or an overlap matrix
+ * computed on demand) get the canvas view; `estimated` marks Jaccard values
+ * that come from MinHash sketches. With `clustering`, rows and columns follow
+ * the dendrogram drawn above the heatmap; large comparisons are clustered
+ * by Jaccard unless `clustering` is null.
+ */
 export function similarityHeatmapSlot(
   jaccardMatrix: number[][],
-  overlapMatrix: number[][],
+  overlap: number[][] | LazyMatrix,
   fileNames: string[],
+  options: { estimated?: boolean; clustering?: HeatmapClustering | null } = {},
 ): PlotSlot {
-  const labels = makeLabels(fileNames);
+  if (!Array.isArray(overlap) || fileNames.length > LARGE_HEATMAP_FILES) {
+    return largeSimilarityHeatmapSlot(jaccardMatrix, overlap, fileNames, options.estimated ?? false, options.clustering);
+  }
+  const overlapMatrix = overlap;
+  const hc = options.clustering ?? null;
+  // Reordering the band domain is enough: cells are matched by file name
+  const ordered = hc ? hc.clustering.order.map((i) => fileNames[i]) : fileNames;
+  const labels = makeLabels(ordered);
   const jCells = matrixToCells(jaccardMatrix, fileNames);
   const oCells = matrixToCells(overlapMatrix, fileNames);
 
   const n = fileNames.length;
   const margins = estimateHeatmapMargins(labels);
+  // The dendrogram assumes bands fill the x range exactly
+  const marginRight = hc ? DENDROGRAM_MARGIN_RIGHT : undefined;
+  const padding = hc ? 0 : undefined;
   function fullSize(width: number) {
     const cellSize = Math.min(60, Math.floor((width - margins.left) / n));
     return cellSize * n + margins.bottom;
@@ -151,29 +260,33 @@ export function similarityHeatmapSlot(
 
   function renderThumbnail(width: number, height: number): Element {
     const size = Math.min(width, height);
-    return renderHeatmap(jCells, labels, fileNames, {
+    return renderHeatmap(jCells, labels, ordered, {
       width: size, height: size, maxVal: 1, scheme: 'blues', label: '', format: () => '', legend: false,
     });
   }
 
+  function withTree(heatmap: Element, width: number): Element {
+    return hc ? attachDendrogram(heatmap, renderDendrogram(hc, width, margins.left, DENDROGRAM_MARGIN_RIGHT)) : heatmap;
+  }
+
   function renderJaccard(width: number): Element {
-    return renderHeatmap(jCells, labels, fileNames, {
+    return withTree(renderHeatmap(jCells, labels, ordered, {
       width, height: fullSize(width), maxVal: 1, scheme: 'blues',
-      label: 'Jaccard similarity', format: (v) => v.toFixed(3), legend: true,
-    });
+      label: 'Jaccard similarity', format: (v) => v.toFixed(3), legend: true, marginRight, padding,
+    }), width);
   }
 
   function renderOverlap(width: number): Element {
-    return renderHeatmap(oCells, labels, fileNames, {
+    return withTree(renderHeatmap(oCells, labels, ordered, {
       width, height: fullSize(width), maxVal: 100, scheme: 'greens',
-      label: 'Region overlap %', format: (v) => `${v.toFixed(1)}%`, legend: true,
-    });
+      label: 'Region overlap %', format: (v) => `${v.toFixed(1)}%`, legend: true, marginRight, padding,
+    }), width);
   }
 
   return {
     id: 'similarityHeatmap',
     title: 'Pairwise similarity',
-    description: 'Pairwise comparison of genomic coverage between files, measured in base pairs. Jaccard similarity is the ratio of shared bases to total bases covered by either file (0 = no shared bases, 1 = identical coverage). It is symmetric — comparing A to B gives the same value as B to A. Overlap % is asymmetric: it shows what fraction of each file\'s bases are covered by the other, so A→B and B→A can differ when files have different total coverage. Use Jaccard to assess overall concordance; use Overlap % to identify when one file is a subset of another.',
+    description: SIMILARITY_DESCRIPTION,
     type: 'observable',
     renderThumbnail,
     render: renderJaccard,
@@ -184,6 +297,300 @@ export function similarityHeatmapSlot(
   };
 }
 
+// --- Large comparisons: clustered, virtualized canvas heatmap ---
+
+/** Above this many files the similarity heatmap switches to the canvas view. */
+const LARGE_HEATMAP_FILES = 30;
+const MIN_CELL = 12;
+const MAX_CELL = 60;
+const MAX_VIEW_HEIGHT = 600;
+const MAX_LABEL_WIDTH = 160;
+/** Cells whose value has not been computed yet */
+const PENDING_FILL = '#e5e7eb';
+
+type HeatmapLayer = {
+  /** Value for column file i and row file j (original indices); undefined while pending */
+  value: (i: number, j: number) => number | undefined;
+  maxVal: number;
+  scheme: string;
+  label: string;
+  format: (v: number) => string;
+  tooltip: (a: string, b: string, formatted: string) => string;
+  lazy?: LazyMatrix;
+};
+
+function truncateLabel(label: string, maxChars: number): string {
+  return label.length > maxChars ? `${label.slice(0, Math.max(1, maxChars - 1))}…` : label;
+}
+
+function colorScale(layer: HeatmapLayer): (v: number) => string {
+  const scale = Plot.scale({
+    color: { type: 'linear', domain: [0, layer.maxVal], scheme: layer.scheme as Plot.ColorScheme },
+  });
+  return (v) => scale.apply(v);
+}
+
+/** Whole matrix at one pixel per cell, scaled up without smoothing. */
+function renderCanvasThumbnail(layer: HeatmapLayer, order: number[], size: number): Element {
+  const n = order.length;
+  const color = colorScale(layer);
+  const canvas = document.createElement('canvas');
+  canvas.width = n;
+  canvas.height = n;
+  const ctx = canvas.getContext('2d')!;
+  for (let r = 0; r < n; r++) {
+    for (let c = 0; c < n; c++) {
+      const v = layer.value(order[c], order[r]);
+      ctx.fillStyle = v === undefined ? PENDING_FILL : color(v);
+      ctx.fillRect(c, r, 1, 1);
+    }
+  }
+  Object.assign(canvas.style, { width: `${size}px`, height: `${size}px`, imageRendering: 'pixelated', display: 'block' });
+  return canvas;
+}
+
+/**
+ * Scrollable heatmap that draws only the cells and labels in view, with the
+ * column dendrogram scrolling along above it. Pending cells of a lazy layer
+ * are requested on every redraw and filled in as they arrive.
+ */
+function renderCanvasHeatmap(
+  layer: HeatmapLayer,
+  order: number[],
+  labels: string[],
+  width: number,
+  caption: string,
+  hc: HeatmapClustering | null,
+): Element {
+  const n = order.length;
+  const segments = hc ? dendrogramSegments(hc.clustering) : [];
+  const maxH = Math.max(1e-9, ...segments.map((s) => s.y2));
+  const groups = hc?.groups ?? null;
+  const strip = groups ? GROUP_STRIP : 0;
+  const top = hc ? DENDROGRAM_HEIGHT + strip + 2 : 0;
+  const color = colorScale(layer);
+  const labelWidth = Math.min(MAX_LABEL_WIDTH, estimateMargin(labels));
+  const maxChars = Math.floor((labelWidth - 8) / 6);
+  const cell = Math.max(MIN_CELL, Math.min(MAX_CELL, Math.floor((width - labelWidth) / n)));
+  const viewW = Math.max(0, Math.min(width - labelWidth, n * cell));
+  const viewH = Math.min(MAX_VIEW_HEIGHT, n * cell);
+  const totalW = labelWidth + viewW;
+  const totalH = top + viewH + labelWidth;
+  const dpr = window.devicePixelRatio || 1;
+
+  const root = document.createElement('div');
+  root.appendChild(Plot.legend({
+    color: { type: 'linear', domain: [0, layer.maxVal], scheme: layer.scheme as Plot.ColorScheme, label: layer.label },
+  }));
+
+  const stage = document.createElement('div');
+  Object.assign(stage.style, { position: 'relative', width: `${totalW}px`, height: `${totalH}px` });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(totalW * dpr);
+  canvas.height = Math.round(totalH * dpr);
+  Object.assign(canvas.style, { position: 'absolute', left: '0', top: '0', width: `${totalW}px`, height: `${totalH}px` });
+  const scroller = document.createElement('div');
+  Object.assign(scroller.style, { position: 'absolute', left: `${labelWidth}px`, top: `${top}px`, width: `${viewW}px`, height: `${viewH}px`, overflow: 'auto' });
+  const spacer = document.createElement('div');
+  Object.assign(spacer.style, { width: `${n * cell}px`, height: `${n * cell}px` });
+  scroller.appendChild(spacer);
+  const tooltip = document.createElement('div');
+  tooltip.className = 'absolute z-10 px-2 py-1 rounded bg-base-content text-base-100 text-xs pointer-events-none whitespace-nowrap';
+  tooltip.style.display = 'none';
+  stage.append(canvas, scroller, tooltip);
+  root.appendChild(stage);
+
+  const note = document.createElement('p');
+  note.className = 'mt-2 text-xs text-base-content/50';
+  note.textContent = caption;
+  root.appendChild(note);
+
+  const ctx = canvas.getContext('2d')!;
+  function draw() {
+    const sx = scroller.scrollLeft;
+    const sy = scroller.scrollTop;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, totalW, totalH);
+    const c0 = Math.floor(sx / cell);
+    const c1 = Math.min(n, Math.ceil((sx + viewW) / cell));
+    const r0 = Math.floor(sy / cell);
+    const r1 = Math.min(n, Math.ceil((sy + viewH) / cell));
+    const pending: [number, number][] = [];
+
+    if (hc) {
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(labelWidth, 0, viewW, top);
+      ctx.clip();
+      ctx.strokeStyle = '#6b7280';
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      const treeBottom = DENDROGRAM_HEIGHT - 2;
+      const first = sx / cell - 1;
+      const last = (sx + viewW) / cell + 1;
+      for (const seg of segments) {
+        if (Math.max(seg.x1, seg.x2) < first || Math.min(seg.x1, seg.x2) > last) continue;
+        ctx.moveTo(labelWidth + seg.x1 * cell - sx, treeBottom - (seg.y1 / maxH) * (treeBottom - 4));
+        ctx.lineTo(labelWidth + seg.x2 * cell - sx, treeBottom - (seg.y2 / maxH) * (treeBottom - 4));
+      }
+      ctx.stroke();
+      if (groups) {
+        for (let c = c0; c < c1; c++) {
+          ctx.fillStyle = clusterGroupColor(groups[order[c]]);
+          ctx.fillRect(labelWidth + c * cell - sx, DENDROGRAM_HEIGHT, cell, strip);
+        }
+      }
+      ctx.restore();
+    }
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(labelWidth, top, viewW, viewH);
+    ctx.clip();
+    ctx.font = '11px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    for (let r = r0; r < r1; r++) {
+      for (let c = c0; c < c1; c++) {
+        const v = layer.value(order[c], order[r]);
+        const x = labelWidth + c * cell - sx;
+        const y = top + r * cell - sy;
+        if (v === undefined) pending.push([order[c], order[r]]);
+        ctx.fillStyle = v === undefined ? PENDING_FILL : color(v);
+        ctx.fillRect(x + 0.5, y + 0.5, cell - 1, cell - 1);
+        if (v !== undefined && cell >= 40) {
+          ctx.fillStyle = v > layer.maxVal * 0.5 ? 'white' : 'black';
+          ctx.fillText(layer.format(v), x + cell / 2, y + cell / 2);
+        }
+      }
+    }
+    ctx.restore();
+
+    ctx.save();
+    ctx.font = `${Math.min(11, cell - 1)}px system-ui, sans-serif`;
+    ctx.fillStyle = '#374151';
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'right';
+    ctx.beginPath();
+    ctx.rect(0, top, labelWidth, viewH);
+    ctx.clip();
+    for (let r = r0; r < r1; r++) {
+      ctx.fillText(truncateLabel(labels[r], maxChars), labelWidth - 4, top + r * cell - sy + cell / 2);
+    }
+    ctx.restore();
+
+    ctx.save();
+    ctx.font = `${Math.min(11, cell - 1)}px system-ui, sans-serif`;
+    ctx.fillStyle = '#374151';
+    ctx.textBaseline = 'middle';
+    ctx.textAlign = 'right';
+    ctx.beginPath();
+    ctx.rect(labelWidth, top + viewH, viewW, labelWidth);
+    ctx.clip();
+    for (let c = c0; c < c1; c++) {
+      ctx.save();
+      ctx.translate(labelWidth + c * cell - sx + cell / 2, top + viewH + 4);
+      ctx.rotate(-Math.PI / 2);
+      ctx.fillText(truncateLabel(labels[c], maxChars), 0, 0);
+      ctx.restore();
+    }
+    ctx.restore();
+
+    if (layer.lazy && pending.length > 0) layer.lazy.request(pending);
+  }
+
+  let frame = 0;
+  const schedule = () => {
+    if (!frame) frame = requestAnimationFrame(() => { frame = 0; draw(); });
+  };
+  scroller.addEventListener('scroll', schedule);
+
+  scroller.addEventListener('mousemove', (e) => {
+    const rect = scroller.getBoundingClientRect();
+    const x = e.clientX - rect.left + scroller.scrollLeft;
+    const y = e.clientY - rect.top + scroller.scrollTop;
+    const c = Math.floor(x / cell);
+    const r = Math.floor(y / cell);
+    if (c < 0 || r < 0 || c >= n || r >= n) {
+      tooltip.style.display = 'none';
+      return;
+    }
+    const v = layer.value(order[c], order[r]);
+    tooltip.textContent = layer.tooltip(labels[c], labels[r], v === undefined ? 'computing…' : layer.format(v));
+    tooltip.style.display = '';
+    tooltip.style.left = `${Math.min(labelWidth + x - scroller.scrollLeft + 12, Math.max(0, totalW - tooltip.offsetWidth))}px`;
+    tooltip.style.top = `${top + y - scroller.scrollTop + 12}px`;
+  });
+  scroller.addEventListener('mouseleave', () => { tooltip.style.display = 'none'; });
+
+  if (layer.lazy) {
+    const unsubscribe = layer.lazy.subscribe(() => {
+      // The element is dropped on re-render or when the modal closes
+      if (!root.isConnected) unsubscribe();
+      else schedule();
+    });
+  }
+  draw();
+  return root;
+}
+
+function largeSimilarityHeatmapSlot(
+  jaccardMatrix: number[][],
+  overlap: number[][] | LazyMatrix,
+  fileNames: string[],
+  estimated: boolean,
+  clustering: HeatmapClustering | null | undefined,
+): PlotSlot {
+  const n = fileNames.length;
+  // Similar files end up next to each other, so blocks of replicates stand out
+  const hc = clustering === undefined
+    ? { clustering: hierarchicalCluster(similarityToDistance(jaccardMatrix), 'average') }
+    : clustering;
+  const order = hc ? hc.clustering.order : fileNames.map((_, i) => i);
+  const labels = makeLabels(order.map((i) => fileNames[i]));
+
+  const jaccard: HeatmapLayer = {
+    value: (i, j) => jaccardMatrix[i]?.[j],
+    maxVal: 1,
+    scheme: 'blues',
+    label: estimated ? 'Jaccard similarity (estimated)' : 'Jaccard similarity',
+    format: (v) => v.toFixed(3),
+    tooltip: (a, b, v) => `${a} / ${b}: ${estimated ? '≈' : ''}${v}`,
+  };
+  const overlapLayer: HeatmapLayer = {
+    value: Array.isArray(overlap) ? (i, j) => overlap[i]?.[j] : overlap.get,
+    maxVal: 100,
+    scheme: 'greens',
+    label: 'Region overlap %',
+    format: (v) => `${v.toFixed(1)}%`,
+    tooltip: (a, b, v) => `${v} of ${a} overlaps ${b}`,
+    lazy: Array.isArray(overlap) ? undefined : overlap,
+  };
+
+  const ordering = `${n} files, ${hc ? `ordered by ${hc.clustering.linkage}-linkage clustering` : 'in file order'}. Scroll to pan; hover a cell for its value.`;
+  const renderJaccard = (width: number) => renderCanvasHeatmap(jaccard, order, labels, width, ordering, hc);
+  const renderOverlap = (width: number) => renderCanvasHeatmap(
+    overlapLayer, order, labels, width,
+    overlapLayer.lazy ? `${ordering} Overlaps are computed for the cells in view; grey cells are still pending.` : ordering,
+    hc,
+  );
+
+  return {
+    id: 'similarityHeatmap',
+    title: 'Pairwise similarity',
+    description: estimated
+      ? `${SIMILARITY_DESCRIPTION} With this many files, Jaccard is estimated from MinHash sketches (${SKETCH_SIZE} hashes of the ${SKETCH_BIN_SIZE} bp bins each file covers, typical error about ±0.03), and overlaps are computed only for the cells you look at.`
+      : SIMILARITY_DESCRIPTION,
+    type: 'observable',
+    renderThumbnail: (width, height) => renderCanvasThumbnail(jaccard, order, Math.min(width, height)),
+    render: renderJaccard,
+    variants: [
+      { label: estimated ? 'Jaccard (est.)' : 'Jaccard', render: renderJaccard },
+      { label: 'Overlap %', render: renderOverlap },
+    ],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // 2. Regions per chromosome — bar chart with IQR error bars
 // ---------------------------------------------------------------------------
@@ -0,0 +1,450 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowRight, Loader2, Plus, Sigma, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Breadcrumb } from '../shared/breadcrumb';
+import { useTab } from '../../contexts/tab-context';
+import { useFile } from '../../contexts/file-context';
+import { useUploadedFiles } from '../../contexts/uploaded-files-context';
+import { AnalysisWorkerClient, isAbortError } from '../../lib/analysis-worker-client';
+import type { BedAnalysis } from '../../lib/bed-analysis';
+import { fetchBedFromUrl, isBedbaseId } from '../../lib/remote-bed';
+import {
+  SET_OPERATOR_SYMBOLS,
+  expressionSetIds,
+  formatExpression,
+  type SetExpression,
+  type SetOperator,
+} from '../../lib/set-expression';
+import { fileKey } from '../../lib/workspace-store';
+
+type Operand = { key: string; file: File; source: 'uploaded' | 'bedbase' };
+
+type EditorNode =
+  | { id: number; kind: 'set'; operand: string | null }
+  | { id: number; kind: SetOperator; children: EditorNode[] };
+
+const OPERATOR_LABELS: Record<SetOperator, string> = {
+  union: 'Union',
+  intersection: 'Intersection',
+  difference: 'Difference',
+};
+
+function formatNumber(n: number): string {
+  return n.toLocaleString();
+}
+
+function formatBp(bp: number): string {
+  if (bp >= 1e9) return `${(bp / 1e9).toFixed(2)} Gb`;
+  if (bp >= 1e6) return `${(bp / 1e6).toFixed(2)} Mb`;
+  if (bp >= 1e3) return `${(bp / 1e3).toFixed(1)} kb`;
+  return `${bp} bp`;
+}
+
+let nextNodeId = 1;
+
+function setNode(operand: string | null = null): EditorNode {
+  return { id: nextNodeId++, kind: 'set', operand };
+}
+
+function opNode(kind: SetOperator, children: EditorNode[]): EditorNode {
+  return { id: nextNodeId++, kind, children };
+}
+
+function replaceNode(node: EditorNode, id: number, next: EditorNode | null): EditorNode | null {
+  if (node.id === id) return next;
+  if (node.kind === 'set') return node;
+  const children = node.children
+    .map((c) => replaceNode(c, id, next))
+    .filter((c): c is EditorNode => c != null);
+  return { ...node, children };
+}
+
+/** Expression for the tree, or null while a leaf has no file or an operation has no operands. */
+function toExpression(node: EditorNode): SetExpression | null {
+  if (node.kind === 'set') return node.operand ? { kind: 'set', setId: node.operand } : null;
+  const operands = node.children.map(toExpression);
+  if (operands.length === 0 || operands.some((o) => o == null)) return null;
+  return { kind: node.kind, operands: operands as SetExpression[] };
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.gz$/i, '').replace(/\.[^.]+$/, '');
+}
+
+/** `peaks_or_enhancers_minus_blacklist.bed` */
+function resultFileName(text: string): string {
+  const slug = text
+    .replace(/∪/g, 'or')
+    .replace(/∩/g, 'and')
+    .replace(/−/g, 'minus')
+    .replace(/[^A-Za-z0-9._-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 80);
+  return `${slug || 'expression'}.bed`;
+}
+
+function NodeEditor({
+  node,
+  operands,
+  onChange,
+  onRemove,
+}: {
+  node: EditorNode;
+  operands: Operand[];
+  onChange: (next: EditorNode) => void;
+  onRemove?: () => void;
+}) {
+  const removeButton = onRemove && (
+    <button
+      onClick={onRemove}
+      className="p-1 rounded text-base-content/30 hover:text-base-content/60 hover:bg-base-200 transition-colors cursor-pointer"
+      title="Remove"
+    >
+      <X size={12} />
+    </button>
+  );
+
+  if (node.kind === 'set') {
+    const uploaded = operands.filter((o) => o.source === 'uploaded');
+    const remote = operands.filter((o) => o.source === 'bedbase');
+    return (
+      <div className="flex items-center gap-1">
+        <select
+          className={`select select-xs border border-base-300 max-w-[320px] ${node.operand ? '' : 'text-base-content/40'}`}
+          value={node.operand ?? ''}
+          onChange={(e) => onChange({ ...node, operand: e.target.value || null })}
+        >
+          <option value="">Choose a file…</option>
+          {uploaded.length > 0 && (
+            <optgroup label="Uploaded files">
+              {uploaded.map((o) => <option key={o.key} value={o.key}>{o.file.name}</option>)}
+            </optgroup>
+          )}
+          {remote.length > 0 && (
+            <optgroup label="BEDbase">
+              {remote.map((o) => <option key={o.key} value={o.key}>{o.file.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        {removeButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="border border-base-300 rounded-lg bg-base-100 p-2 space-y-1.5">
+      <div className="flex items-center gap-1.5 text-xs">
+        <select
+          className="select select-xs border border-base-300"
+          value={node.kind}
+          onChange={(e) => onChange({ ...node, kind: e.target.value as SetOperator })}
+        >
+          {(Object.keys(OPERATOR_LABELS) as SetOperator[]).map((k) => (
+            <option key={k} value={k}>{SET_OPERATOR_SYMBOLS[k]} {OPERATOR_LABELS[k]}</option>
+          ))}
+        </select>
+        {node.kind === 'difference' && (
+          <span className="text-base-content/40">first minus the rest</span>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={() => onChange({ ...node, children: [...node.children, setNode()] })}
+            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-base-content/50 hover:text-base-content hover:bg-base-200 transition-colors cursor-pointer"
+          >
+            <Plus size={11} /> File
+          </button>
+          <button
+            onClick={() => onChange({ ...node, children: [...node.children, opNode('union', [setNode(), setNode()])] })}
+            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-base-content/50 hover:text-base-content hover:bg-base-200 transition-colors cursor-pointer"
+          >
+            <Plus size={11} /> Group
+          </button>
+          {removeButton}
+        </div>
+      </div>
+      <div className="space-y-1 pl-2">
+        {node.children.map((child, i) => (
+          <div key={child.id} className="flex items-start gap-1.5">
+            <span className="w-3 pt-1 text-xs text-base-content/40 text-center shrink-0">
+              {i > 0 ? SET_OPERATOR_SYMBOLS[node.kind] : ''}
+            </span>
+            <div className="flex-1 min-w-0">
+              <NodeEditor
+                node={child}
+                operands={operands}
+                onChange={(next) => onChange({ ...node, children: node.children.map((c) => (c.id === child.id ? next : c)) })}
+                onRemove={() => onChange(replaceNode(node, child.id, null)!)}
+              />
+            </div>
+          </div>
+        ))}
+        {node.children.length === 0 && <p className="text-xs text-base-content/40">Add files or groups.</p>}
+      </div>
+    </div>
+  );
+}
+
+export function SetAlgebra() {
+  const { openTab } = useTab();
+  const { setBedFile } = useFile();
+  const { files: uploadedFiles, addFiles, setActiveIndex } = useUploadedFiles();
+  const [remoteFiles, setRemoteFiles] = useState<File[]>([]);
+  const [tree, setTree] = useState<EditorNode>(() => opNode('union', [setNode(), setNode()]));
+  const [bedId, setBedId] = useState('');
+  const [fetching, setFetching] = useState(false);
+  const [running, setRunning] = useState<'evaluate' | 'load' | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ text: string; analysis: BedAnalysis } | null>(null);
+
+  const clientRef = useRef<AnalysisWorkerClient | null>(null);
+  // Worker set id per operand file key; sets are kept while the expression uses them
+  const loadedRef = useRef(new Map<string, Promise<string>>());
+  const setCounterRef = useRef(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      clientRef.current?.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  const operands = useMemo<Operand[]>(() => [
+    ...uploadedFiles.map((file) => ({ key: fileKey(file), file, source: 'uploaded' as const })),
+    ...remoteFiles.map((file) => ({ key: fileKey(file), file, source: 'bedbase' as const })),
+  ], [uploadedFiles, remoteFiles]);
+  const operandByKey = useMemo(() => new Map(operands.map((o) => [o.key, o])), [operands]);
+
+  const expression = useMemo(() => toExpression(tree), [tree]);
+
+  // Free the worker sets of files the expression no longer uses
+  useEffect(() => {
+    const used = new Set(expression ? expressionSetIds(expression) : []);
+    const unused = [...loadedRef.current.entries()].filter(([key]) => !used.has(key));
+    if (unused.length === 0) return;
+    abortRef.current?.abort();
+    for (const [key, loaded] of unused) {
+      loadedRef.current.delete(key);
+      loaded.then((setId) => clientRef.current?.free([setId])).catch(() => {});
+    }
+  }, [expression]);
+  const missing = expression ? expressionSetIds(expression).filter((k) => !operandByKey.has(k)) : [];
+  const text = expression ? formatExpression(expression, (k) => stripExtension(operandByKey.get(k)?.file.name ?? '?')) : '';
+  const currentResult = result && result.text === text ? result : null;
+
+  function getClient(): AnalysisWorkerClient {
+    if (!clientRef.current) clientRef.current = new AnalysisWorkerClient();
+    return clientRef.current;
+  }
+
+  /** The expression with file keys replaced by worker set ids, loading files as needed. */
+  async function workerExpression(expr: SetExpression, signal: AbortSignal): Promise<SetExpression> {
+    const client = getClient();
+    const keys = expressionSetIds(expr);
+    const setIds = new Map<string, string>();
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      let loaded = loadedRef.current.get(key);
+      if (!loaded) {
+        const setId = `alg-${++setCounterRef.current}`;
+        loaded = client
+          .request({ type: 'load', setId, file: operandByKey.get(key)!.file, keepColumns: true })
+          .then((s) => s.setId);
+        loaded.catch(() => loadedRef.current.delete(key));
+        loadedRef.current.set(key, loaded);
+      }
+      setIds.set(key, await loaded);
+      signal.throwIfAborted();
+      setProgress((i + 1) / (keys.length + 1));
+    }
+    const rename = (e: SetExpression): SetExpression =>
+      e.kind === 'set' ? { kind: 'set', setId: setIds.get(e.setId)! } : { kind: e.kind, operands: e.operands.map(rename) };
+    return rename(expr);
+  }
+
+  async function run<T>(kind: 'evaluate' | 'load', work: (signal: AbortSignal) => Promise<T>): Promise<T | null> {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(kind);
+    setProgress(0);
+    setError(null);
+    try {
+      return await work(controller.signal);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Evaluation failed');
+      return null;
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(null);
+      }
+    }
+  }
+
+  async function handleEvaluate() {
+    if (!expression || missing.length > 0) return;
+    const evaluated = await run('evaluate', async (signal) => {
+      const expr = await workerExpression(expression, signal);
+      return getClient().request(
+        { type: 'evaluateExpression', expression: expr, fileName: resultFileName(text) },
+        { signal, onProgress: (p) => setProgress((expressionSetIds(expr).length + p) / (expressionSetIds(expr).length + 1)) },
+      );
+    });
+    if (evaluated) setResult({ text, analysis: evaluated });
+  }
+
+  async function handleLoad() {
+    if (!expression || missing.length > 0) return;
+    const blob = await run('load', async (signal) => {
+      const expr = await workerExpression(expression, signal);
+      return getClient().request({ type: 'expressionBed', expression: expr }, { signal });
+    });
+    if (!blob) return;
+    const file = new File([blob], resultFileName(text), { type: 'text/plain' });
+    const index = addFiles([file]).findIndex((f) => fileKey(f) === fileKey(file));
+    setBedFile(file);
+    setActiveIndex(index >= 0 ? index : null);
+    openTab('analysis', 'file');
+  }
+
+  async function handleAddBedbase() {
+    const id = bedId.trim();
+    if (!isBedbaseId(id)) {
+      toast.error('Enter a 32-character BEDbase file ID');
+      return;
+    }
+    setFetching(true);
+    try {
+      const file = await fetchBedFromUrl(id);
+      setRemoteFiles((prev) => (prev.some((f) => f.name === file.name) ? prev : [...prev, file]));
+      setBedId('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to fetch file');
+    } finally {
+      setFetching(false);
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full overflow-auto p-4 @md:p-6">
+      <Breadcrumb crumbs={[
+        { label: 'Collections', onClick: () => openTab('collections', '') },
+        { label: 'Set algebra' },
+      ]} />
+
+      <div className="space-y-5 pb-8 max-w-4xl">
+        <div className="space-y-1">
+          <h3 className="text-lg font-semibold text-base-content">Set algebra</h3>
+          <p className="text-xs text-base-content/40">
+            Combine uploaded files and BEDbase files with unions, intersections and differences. Operations work on covered bases, so results are merged, non-overlapping regions.
+          </p>
+        </div>
+
+        {/* Operands */}
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-base-content/40 uppercase tracking-wide">Files</h4>
+          <div className="flex items-center gap-2 flex-wrap text-xs">
+            <span className="text-base-content/60">
+              {uploadedFiles.length} uploaded file{uploadedFiles.length === 1 ? '' : 's'}
+            </span>
+            <span className="text-base-content/20">·</span>
+            <input
+              type="text"
+              value={bedId}
+              onChange={(e) => setBedId(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAddBedbase(); }}
+              placeholder="BEDbase file ID"
+              className="input input-xs input-bordered w-72 font-mono"
+            />
+            <button
+              onClick={handleAddBedbase}
+              disabled={fetching || bedId.trim() === ''}
+              className="btn btn-xs btn-ghost gap-1 text-base-content/60"
+            >
+              {fetching ? <Loader2 size={12} className="animate-spin" /> : <Plus size={12} />}
+              Add from BEDbase
+            </button>
+          </div>
+          {remoteFiles.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {remoteFiles.map((f) => (
+                <span key={f.name} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md bg-base-200 text-xs font-mono text-base-content/70">
+                  {stripExtension(f.name)}
+                  <button
+                    onClick={() => setRemoteFiles((prev) => prev.filter((p) => p !== f))}
+                    className="text-base-content/30 hover:text-base-content/60 cursor-pointer"
+                    title="Remove"
+                  >
+                    <X size={11} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Expression */}
+        <div className="space-y-2">
+          <h4 className="text-xs font-semibold text-base-content/40 uppercase tracking-wide">Expression</h4>
+          <NodeEditor node={tree} operands={operands} onChange={setTree} />
+          <div className="flex items-center gap-2 flex-wrap">
+            <p className={`text-sm font-mono flex-1 min-w-0 break-words ${expression ? 'text-base-content' : 'text-base-content/40'}`}>
+              {expression ? text : 'Choose a file for every operand'}
+            </p>
+            <button
+              onClick={handleEvaluate}
+              disabled={!expression || missing.length > 0 || running != null}
+              className="btn btn-sm btn-primary gap-1.5"
+            >
+              {running === 'evaluate' ? <Loader2 size={14} className="animate-spin" /> : <Sigma size={14} />}
+              Evaluate
+            </button>
+          </div>
+          {missing.length > 0 && (
+            <p className="text-xs text-warning">Some operands are no longer loaded; choose them again.</p>
+          )}
+          {running && (
+            <progress className="progress progress-primary w-full h-1" value={progress} max={1} />
+          )}
+          {error && <p className="text-xs text-error">{error}</p>}
+        </div>
+
+        {/* Result */}
+        {currentResult && (
+          <div className="border border-base-300 rounded-lg bg-base-100 px-4 py-3 space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <p className="text-xs text-base-content/40">Regions</p>
+                <p className="text-lg font-semibold text-base-content">{formatNumber(currentResult.analysis.summary.regions)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-base-content/40">Mean width</p>
+                <p className="text-lg font-semibold text-base-content">{formatNumber(Math.round(currentResult.analysis.summary.meanRegionWidth))} bp</p>
+              </div>
+              <div>
+                <p className="text-xs text-base-content/40">Covered</p>
+                <p className="text-lg font-semibold text-base-content">{formatBp(currentResult.analysis.summary.nucleotides)}</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <p className="text-xs text-base-content/40 flex-1">
+                {currentResult.analysis.chromosomeStats.length} chromosomes
+              </p>
+              <button
+                onClick={handleLoad}
+                disabled={running != null || currentResult.analysis.summary.regions === 0}
+                className="btn btn-xs btn-ghost gap-1 text-primary"
+              >
+                {running === 'load' ? <Loader2 size={12} className="animate-spin" /> : <ArrowRight size={12} />}
+                Load as file
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
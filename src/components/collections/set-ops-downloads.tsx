@@ -0,0 +1,170 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { isAbortError } from '../../lib/analysis-worker-client';
+import type { ConsensusRegion } from '../../lib/multi-file-analysis';
+import {
+  consensusBlob,
+  gzipBlob,
+  setOperationFileName,
+  type SetOperation,
+} from '../../lib/set-operations';
+
+type OperationKind = SetOperation['kind'] | 'consensus';
+
+const OPERATION_LABELS: Record<OperationKind, string> = {
+  union: 'Union',
+  intersection: 'Intersection',
+  unique: 'Unique to file',
+  consensus: 'Consensus',
+};
+
+const OPERATION_HINTS: Record<OperationKind, string> = {
+  union: 'Bases covered by any file, merged into non-overlapping regions.',
+  intersection: 'Bases covered by every file.',
+  unique: 'Bases covered by the chosen file and no other file.',
+  consensus: 'Consensus regions with their support (number of files) in the name column.',
+};
+
+function formatNumber(n: number): string {
+  return n.toLocaleString();
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+type SetOpsDownloadsProps = {
+  /** Files in comparison order */
+  fileNames: string[];
+  consensus: ConsensusRegion[];
+  runSetOperation: (operation: SetOperation, gzip: boolean, signal?: AbortSignal) => Promise<Blob>;
+};
+
+export function SetOpsDownloads({ fileNames, consensus, runSetOperation }: SetOpsDownloadsProps) {
+  const [kind, setKind] = useState<OperationKind>('union');
+  const [fileIndex, setFileIndex] = useState(0);
+  const [minSupport, setMinSupport] = useState(2);
+  const [gzip, setGzip] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const maxSupport = Math.max(1, ...consensus.map((r) => r.count));
+  const support = Math.min(minSupport, maxSupport);
+  const consensusKept = kind === 'consensus' ? consensus.filter((r) => r.count >= support).length : 0;
+  const index = Math.min(fileIndex, fileNames.length - 1);
+
+  async function handleDownload() {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRunning(true);
+    setError(null);
+    try {
+      let blob: Blob;
+      let name: string;
+      if (kind === 'consensus') {
+        blob = consensusBlob(consensus, support);
+        if (gzip) blob = await gzipBlob(blob);
+        name = setOperationFileName({ kind, minSupport: support }, fileNames, gzip);
+      } else {
+        const op: SetOperation = kind === 'unique' ? { kind, index } : { kind };
+        blob = await runSetOperation(op, gzip, controller.signal);
+        name = setOperationFileName(op, fileNames, gzip);
+      }
+      if (!controller.signal.aborted) downloadBlob(blob, name);
+    } catch (err) {
+      if (!isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to build regions');
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRunning(false);
+      }
+    }
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold text-base-content/50 uppercase tracking-wide mb-2">Set operations</h3>
+      <div className="border border-base-300 rounded-lg bg-base-100 px-3 py-2.5 space-y-1.5">
+        <div className="flex items-center gap-3 flex-wrap text-xs">
+          <label className="flex items-center gap-1.5 text-base-content/60">
+            Regions
+            <select
+              className="select select-xs border border-base-300"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as OperationKind)}
+            >
+              {(Object.keys(OPERATION_LABELS) as OperationKind[]).map((k) => (
+                <option key={k} value={k} disabled={k === 'consensus' && consensus.length === 0}>
+                  {OPERATION_LABELS[k]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {kind === 'unique' && (
+            <label className="flex items-center gap-1.5 text-base-content/60 min-w-0">
+              File
+              <select
+                className="select select-xs border border-base-300 max-w-[240px]"
+                value={index}
+                onChange={(e) => setFileIndex(Number(e.target.value))}
+              >
+                {fileNames.map((name, i) => (
+                  <option key={i} value={i}>{name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          {kind === 'consensus' && (
+            <label className="flex items-center gap-1.5 text-base-content/60">
+              Min. support
+              <select
+                className="select select-xs border border-base-300"
+                value={support}
+                onChange={(e) => setMinSupport(Number(e.target.value))}
+              >
+                {Array.from({ length: maxSupport }, (_, i) => i + 1).map((k) => (
+                  <option key={k} value={k}>{k} {k === 1 ? 'file' : 'files'}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex items-center gap-1.5 text-base-content/60">
+            Format
+            <select
+              className="select select-xs border border-base-300"
+              value={gzip ? 'gz' : 'bed'}
+              onChange={(e) => setGzip(e.target.value === 'gz')}
+            >
+              <option value="bed">BED</option>
+              <option value="gz">BED.gz</option>
+            </select>
+          </label>
+          <button
+            onClick={handleDownload}
+            disabled={running || (kind === 'consensus' && consensusKept === 0)}
+            className="btn btn-xs btn-ghost gap-1 text-base-content/60 ml-auto"
+          >
+            {running ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />}
+            Download
+          </button>
+        </div>
+        <p className="text-xs text-base-content/40">
+          {OPERATION_HINTS[kind]}
+          {kind === 'consensus' && ` ${formatNumber(consensusKept)} of ${formatNumber(consensus.length)} regions pass.`}
+        </p>
+        {error && <p className="text-xs text-error">{error}</p>}
+      </div>
+    </div>
+  );
+}
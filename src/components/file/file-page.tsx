@@ -1,14 +1,25 @@
-import { useRef, useState } from 'react';
-import { Search, FlaskConical, ScatterChart, FolderOpen, X, FileText, Upload, GitCompareArrows, Plus, FileBarChart, Download, Loader2 } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { Search, FlaskConical, ScatterChart, FolderOpen, X, FileText, Upload, GitCompareArrows, Plus, FileBarChart, Download, Loader2, HardDrive, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useTab, type TabId } from '../../contexts/tab-context';
 import { useFile } from '../../contexts/file-context';
 import { useUploadedFiles } from '../../contexts/uploaded-files-context';
 import { useFileSet } from '../../contexts/fileset-context';
 import { tabMeta, tabColorClasses } from '../../lib/tab-meta';
+import { isRegionFile, REGION_FILE_ACCEPT, REGION_FILE_EXTENSIONS_LABEL } from '../../lib/bed-formats';
 import { RelatedBedsetsModal } from './related-bedsets-modal';
 import { useFileReport } from './file-report';
 import { defaultReportConfig, type ReportConfig } from './report-export';
+import { emptyComparisonCache } from '../../lib/multi-file-analysis';
+import { fetchBedFromUrl } from '../../lib/remote-bed';
+import {
+  evictAllFileResults,
+  evictFileResults,
+  getWorkspaceUsage,
+  requestPersistentStorage,
+  fileKey,
+  type WorkspaceUsage,
+} from '../../lib/workspace-store';
 
 function formatNumber(n: number): string {
   return n.toLocaleString();
@@ -20,10 +31,6 @@ function formatBytes(bytes: number): string {
   return `${(bytes / 1024).toFixed(1)} KB`;
 }
 
-function fileKey(f: File): string {
-  return `${f.name}|${f.size}|${f.lastModified}`;
-}
-
 // --- File list row ---
 
 function FileRow({ file, isActive, disabled, onActivate, onRemove }: {
@@ -58,6 +65,137 @@ function FileRow({ file, isActive, disabled, onActivate, onRemove }: {
   );
 }
 
+// --- Browser storage (IndexedDB workspace) ---
+
+function WorkspaceStorage() {
+  const { files } = useUploadedFiles();
+  const { analysis, umapCoordinates } = useFile();
+  const { cached, clearCached, setStageCache } = useFileSet();
+  const [usage, setUsage] = useState<WorkspaceUsage | null>(null);
+  const [version, setVersion] = useState(0);
+
+  // Re-read after anything that writes to the store. The providers save in
+  // their own effects, which run after this one; deferring queues the read
+  // behind their transactions.
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      getWorkspaceUsage().then((u) => { if (!cancelled) setUsage(u); });
+    }, 0);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [files, analysis, umapCoordinates, cached, version]);
+
+  if (!usage) return null;
+
+  const refresh = () => setVersion((v) => v + 1);
+  const cachedCount = usage.files.filter((f) => f.hasResults).length;
+  const usedFraction = usage.usage != null && usage.quota ? usage.usage / usage.quota : null;
+
+  async function evict(key: string) {
+    await evictFileResults(key).catch(() => toast.error('Could not clear cached results'));
+    refresh();
+  }
+
+  async function evictAll() {
+    await evictAllFileResults().catch(() => toast.error('Could not clear cached results'));
+    refresh();
+  }
+
+  function clearComparison() {
+    clearCached();
+    setStageCache(emptyComparisonCache());
+  }
+
+  async function persist() {
+    const granted = await requestPersistentStorage();
+    if (!granted) toast.info('The browser declined persistent storage. Data may be evicted when space runs low.');
+    refresh();
+  }
+
+  return (
+    <div className="border border-base-300 rounded-lg p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="flex items-center gap-1.5 text-xs font-semibold text-base-content/50 uppercase tracking-wide">
+          <HardDrive size={12} />
+          Browser storage
+        </span>
+        {usage.persisted ? (
+          <span className="text-[10px] font-medium text-success bg-success/10 px-1.5 py-0.5 rounded">Persistent</span>
+        ) : (
+          <button
+            onClick={persist}
+            className="text-[11px] text-base-content/30 hover:text-primary transition-colors cursor-pointer"
+            title="Ask the browser not to evict stored files when space runs low"
+          >
+            Keep stored
+          </button>
+        )}
+      </div>
+
+      {usedFraction !== null && (
+        <div className="mb-2">
+          <div className="w-full h-1 bg-base-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${usedFraction > 0.9 ? 'bg-error' : usedFraction > 0.7 ? 'bg-warning' : 'bg-primary'}`}
+              style={{ width: `${Math.max(usedFraction * 100, 1)}%` }}
+            />
+          </div>
+          <p className="text-[11px] text-base-content/40 mt-1">
+            {formatBytes(usage.usage!)} of {formatBytes(usage.quota!)} used
+          </p>
+        </div>
+      )}
+
+      <p className="text-[11px] text-base-content/40 leading-tight mb-1.5">
+        Files, analyses and the last comparison are kept across reloads.
+      </p>
+
+      {usage.files.length > 0 && (
+        <div className="flex flex-col gap-0.5">
+          {usage.files.map((f) => (
+            <div key={f.key} className="flex items-center gap-2 px-1 py-0.5 text-[11px]">
+              <span className="truncate flex-1 text-base-content/60">{f.name}</span>
+              <span className="text-base-content/30 shrink-0">{formatBytes(f.size)}</span>
+              {f.hasResults ? (
+                <button
+                  onClick={() => evict(f.key)}
+                  className="text-base-content/30 hover:text-error transition-colors cursor-pointer shrink-0"
+                  title="Clear cached analysis (recomputed when opened)"
+                >
+                  <Trash2 size={10} />
+                </button>
+              ) : (
+                <span className="w-2.5 shrink-0" />
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {(cachedCount > 0 || usage.hasComparison) && (
+        <div className="flex items-center gap-3 mt-2 pt-2 border-t border-base-300">
+          {cachedCount > 0 && (
+            <button
+              onClick={evictAll}
+              className="text-[11px] text-base-content/30 hover:text-error transition-colors cursor-pointer"
+            >
+              Clear cached analyses ({cachedCount})
+            </button>
+          )}
+          {usage.hasComparison && (
+            <button
+              onClick={clearComparison}
+              className="text-[11px] text-base-content/30 hover:text-error transition-colors cursor-pointer"
+            >
+              Clear comparison
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // --- Action cards ---
 
 const actions: { id: TabId; param?: string; label: string; description: string; icon: typeof Search }[] = [
@@ -122,29 +260,6 @@ function ActionCard({ action, onClickOverride }: { action: (typeof actions)[numb
   );
 }
 
-// --- Fetch BED from URL ---
-
-async function fetchBedFromUrl(input: string): Promise<File> {
-  const trimmed = input.trim();
-  // 32-char hex string → BEDbase ID shortcut
-  const isBedbaseId = /^[0-9a-f]{32}$/i.test(trimmed);
-  const url = isBedbaseId
-    ? `https://api.bedbase.org/v1/files/files/${trimmed[0]}/${trimmed[1]}/${trimmed}.bed.gz`
-    : trimmed;
-
-  if (!url.startsWith('https://') && !url.startsWith('http://')) {
-    throw new Error('URL must start with http:// or https://');
-  }
-
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
-  }
-  const blob = await response.blob();
-  const fileName = url.split('/').pop()?.split('?')[0] || 'remote.bed';
-  return new File([blob], fileName, { type: blob.type || 'application/octet-stream' });
-}
-
 // --- Inline add files panel (drop zone + URL input) ---
 
 function AddFilesInline({ onFiles }: { onFiles: (files: File[]) => void }) {
@@ -193,7 +308,7 @@ function AddFilesInline({ onFiles }: { onFiles: (files: File[]) => void }) {
         ref={fileInputRef}
         type="file"
         multiple
-        accept=".bed,.gz"
+        accept={REGION_FILE_ACCEPT}
         className="hidden"
         onChange={(e) => {
           if (e.target.files && e.target.files.length > 0) onFiles(Array.from(e.target.files));
@@ -245,10 +360,7 @@ function FileEmpty() {
       }
     }
     addFiles(files);
-    const first = files.find((f) => {
-      const name = f.name.toLowerCase();
-      return name.endsWith('.bed') || name.endsWith('.bed.gz');
-    });
+    const first = files.find((f) => isRegionFile(f.name));
     if (first) {
       setBedFile(first);
       setActiveIndex(0);
@@ -297,13 +409,13 @@ function FileEmpty() {
             >
               <Upload size={16} className="text-secondary" />
               <span className="text-sm font-medium text-base-content">Drop BED files here or click to browse</span>
-              <span className="text-xs text-base-content/40">.bed and .bed.gz files supported</span>
+              <span className="text-xs text-base-content/40">{REGION_FILE_EXTENSIONS_LABEL}</span>
             </button>
             <input
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".bed,.gz"
+              accept={REGION_FILE_ACCEPT}
               className="hidden"
               onChange={(e) => {
                 if (e.target.files && e.target.files.length > 0) handleFiles(Array.from(e.target.files));
@@ -380,7 +492,7 @@ function FileEmpty() {
 export function FilePage() {
   const { bedFile, setBedFile, fileLocked } = useFile();
   const { regionSet, parsing, parseProgress, parseError, parseTime, analyzing } = useFile();
-  const { files, addFiles, removeFile, setActiveIndex, clearAll } = useUploadedFiles();
+  const { files, addFiles, removeFile, setActiveIndex, clearAll, restoring } = useUploadedFiles();
   const { setFiles: setCompareFiles } = useFileSet();
   const { openTab } = useTab();
   const [showRelatedSets, setShowRelatedSets] = useState(false);
@@ -394,7 +506,7 @@ export function FilePage() {
     try { await handleDownload(reportConfig); } finally { setDownloading(false); }
   }
 
-  if (files.length === 0) return <FileEmpty />;
+  if (files.length === 0) return restoring ? null : <FileEmpty />;
 
   const activeKey = bedFile ? fileKey(bedFile) : null;
   const isMulti = files.length > 1;
@@ -436,10 +548,7 @@ export function FilePage() {
     }
     addFiles(newFiles);
     if (!bedFile) {
-      const first = newFiles.find((f) => {
-        const name = f.name.toLowerCase();
-        return name.endsWith('.bed') || name.endsWith('.bed.gz');
-      });
+      const first = newFiles.find((f) => isRegionFile(f.name));
       if (first) {
         setBedFile(first);
         setActiveIndex(files.length);
@@ -507,6 +616,8 @@ export function FilePage() {
                 <span className="text-xs font-medium text-base-content">Compare {files.length} files</span>
               </button>
             )}
+
+            <WorkspaceStorage />
             </div>
 
             {/* Right column: detail + actions */}
@@ -586,6 +697,7 @@ export function FilePage() {
                         ['refPlots', 'Reference plots', 'TSS distance, genomic partitions, enrichment'],
                         ['umap', 'UMAP embedding', 'Static scatter colored by assay category'],
                         ['chromosomeStats', 'Chromosome table', 'Per-chromosome region statistics'],
+                        ['health', 'File health', 'Validation issues with example line numbers'],
                       ] as const).map(([key, label, desc]) => (
                         <label key={key} className="flex items-start gap-2 cursor-pointer">
                           <input
@@ -56,15 +56,15 @@ export function useFileReport() {
   genomeMatchRef.current = genomeMatch;
 
   const handleOpenReport = useCallback((config?: ReportConfig) => {
-    const { analysis, genome, umapCoordinates } = ref.current;
+    const { analysis, genome, umapCoordinates, validation } = ref.current;
     if (!analysis) return;
-    openReport({ analysis, genome, genomeMatch: genomeMatchRef.current, umapCoordinates, refPlots: refPlotsRef.current, config });
+    openReport({ analysis, genome, genomeMatch: genomeMatchRef.current, umapCoordinates, refPlots: refPlotsRef.current, validation, config });
   }, []);
 
   const handleDownload = useCallback(async (config?: ReportConfig) => {
-    const { analysis, genome, umapCoordinates } = ref.current;
+    const { analysis, genome, umapCoordinates, validation } = ref.current;
     if (!analysis) return;
-    await downloadReportAssets({ analysis, genome, genomeMatch: genomeMatchRef.current, umapCoordinates, refPlots: refPlotsRef.current, config });
+    await downloadReportAssets({ analysis, genome, genomeMatch: genomeMatchRef.current, umapCoordinates, refPlots: refPlotsRef.current, validation, config });
   }, []);
 
   return { handleOpenReport, handleDownload, ready: !!fileCtx.analysis };
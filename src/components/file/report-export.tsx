@@ -2,6 +2,8 @@ import * as Plot from '@observablehq/plot';
 import { zipSync, strToU8 } from 'fflate';
 import type { PlotSlot } from '../../lib/plot-specs';
 import type { BedAnalysis } from '../../lib/bed-analysis';
+import { REGION_FORMATS } from '../../lib/bed-formats';
+import { VALIDATION_ISSUES, type ValidationReport } from '../../lib/bed-validation';
 import { regionDistributionSlot } from '../analysis/plots/local/region-distribution';
 import { widthsHistogramSlot, neighborDistanceSlot } from '../analysis/plots/local/genomicdist-plots';
 import { chromosomeBarSlot } from '../analysis/plots/local/chromosome-bar';
@@ -135,6 +137,52 @@ function buildChromStatsHtml(analysis: BedAnalysis): string {
   `;
 }
 
+function buildHealthHtml(validation: ValidationReport): string {
+  const bounds = validation.boundsGenome
+    ? `bounds checked against ${escapeHtml(validation.boundsGenome)}`
+    : 'chromosome bounds not checked';
+  const intro = `${validation.validRows.toLocaleString()} of ${validation.dataLines.toLocaleString()} rows valid &middot; ${REGION_FORMATS[validation.format].label} &middot; ${bounds}`;
+
+  if (validation.issues.length === 0) {
+    return `
+      <h2 style="font-size:14px;font-weight:600;margin:0 0 8px 0;">File Health</h2>
+      <p style="font-size:12px;color:#666;margin:0 0 24px 0;">${intro} &middot; no problems found</p>
+    `;
+  }
+
+  const cell = 'padding:3px 8px;font-size:11px;border-bottom:1px solid #eee;';
+  const head = 'padding:4px 8px;font-size:11px;font-weight:600;border-bottom:2px solid #ddd;';
+  const bodyRows = validation.issues.map((issue) => {
+    const meta = VALIDATION_ISSUES[issue.kind];
+    const color = issue.severity === 'error' ? '#dc2626' : '#ca8a04';
+    const lines = issue.lines.join(', ') + (issue.count > issue.lines.length ? ', ...' : '');
+    return `
+      <tr>
+        <td style="${cell}"><span style="font-weight:600;color:${color};">${issue.severity}</span> ${escapeHtml(meta.label)}</td>
+        <td style="${cell}text-align:right;">${issue.count.toLocaleString()}</td>
+        <td style="${cell}font-family:monospace;color:#666;">${lines}</td>
+        <td style="${cell}color:#666;">${escapeHtml(meta.description)}</td>
+      </tr>
+    `;
+  }).join('');
+
+  return `
+    <div style="page-break-inside:avoid;margin-bottom:24px;">
+      <h2 style="font-size:14px;font-weight:600;margin:0 0 8px 0;">File Health</h2>
+      <p style="font-size:12px;color:#666;margin:0 0 8px 0;">${intro}</p>
+      <table style="border-collapse:collapse;width:100%;">
+        <thead><tr>
+          <th style="${head}text-align:left;">Issue</th>
+          <th style="${head}text-align:right;">Count</th>
+          <th style="${head}text-align:left;">First lines</th>
+          <th style="${head}text-align:left;">Details</th>
+        </tr></thead>
+        <tbody>${bodyRows}</tbody>
+      </table>
+    </div>
+  `;
+}
+
 // --- UMAP scatter ---
 
 type BgPoint = { x: number; y: number; assay: string; color: string };
@@ -226,6 +274,7 @@ export type ReportConfig = {
   refPlots: boolean;
   umap: boolean;
   chromosomeStats: boolean;
+  health: boolean;
 };
 
 export const defaultReportConfig: ReportConfig = {
@@ -234,6 +283,7 @@ export const defaultReportConfig: ReportConfig = {
   refPlots: true,
   umap: true,
   chromosomeStats: true,
+  health: true,
 };
 
 export type GenomeMatch = {
@@ -250,6 +300,7 @@ export type ReportOptions = {
   genomeMatch?: GenomeMatch | null;
   umapCoordinates?: number[] | null;
   refPlots?: PlotSlot[];
+  validation?: ValidationReport | null;
   config?: ReportConfig;
 };
 
@@ -258,7 +309,7 @@ export type ReportOptions = {
  * All plots are rendered programmatically — no DOM container needed.
  */
 export function openReport(opts: ReportOptions) {
-  const { analysis, genomeMatch, umapCoordinates, refPlots, config: cfg } = opts;
+  const { analysis, genomeMatch, umapCoordinates, refPlots, validation, config: cfg } = opts;
   const c = cfg ?? defaultReportConfig;
 
   // Open window immediately (synchronous with click) to avoid popup blocker
@@ -309,6 +360,8 @@ export function openReport(opts: ReportOptions) {
 
   ${genomeMatch ? buildGenomeBarHtml(genomeMatch) : ''}
 
+  ${c.health && validation ? buildHealthHtml(validation) : ''}
+
   ${plotSections}
 
   ${umapSection}
@@ -344,7 +397,7 @@ export function openReport(opts: ReportOptions) {
  * Download all plot SVGs and CSV data as a single zip file.
  */
 export async function downloadReportAssets(opts: ReportOptions) {
-  const { analysis, umapCoordinates, refPlots, config: cfg } = opts;
+  const { analysis, umapCoordinates, refPlots, validation, config: cfg } = opts;
   const c = cfg ?? defaultReportConfig;
   const files: Record<string, Uint8Array> = {};
 
@@ -393,6 +446,15 @@ export async function downloadReportAssets(opts: ReportOptions) {
     files['chromosome-stats.csv'] = strToU8([chrHeaders, ...chrRows].map((r) => r.map(csvEscape).join(',')).join('\n'));
   }
 
+  // File health CSV
+  if (c.health && validation) {
+    const healthHeaders = ['Issue', 'Severity', 'Count', 'First lines'];
+    const healthRows = validation.issues.map((issue) => [
+      VALIDATION_ISSUES[issue.kind].label, issue.severity, String(issue.count), issue.lines.join(' '),
+    ]);
+    files['file-health.csv'] = strToU8([healthHeaders, ...healthRows].map((r) => r.map(csvEscape).join(',')).join('\n'));
+  }
+
   // Create zip and download
   const zipped = zipSync(files);
   const name = sanitize(analysis.fileName ?? 'bed-report');
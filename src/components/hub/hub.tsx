@@ -6,11 +6,13 @@ import { useFile } from '../../contexts/file-context';
 import { useUploadedFiles } from '../../contexts/uploaded-files-context';
 import { useTab, type TabId } from '../../contexts/tab-context';
 import { EXAMPLE_QUERIES, EXAMPLE_BEDSET_QUERIES } from '../../lib/const';
+import { isRegionFile, REGION_FILE_ACCEPT, REGION_FILE_EXTENSIONS_LABEL } from '../../lib/bed-formats';
 import { useStats } from '../../queries/use-stats';
 import { FileSearchGraphic } from '../graphics/file-search-graphic';
 import { BedAnalyzerGraphic } from '../graphics/bed-analyzer-graphic';
 import { CodeSnippetGraphic } from '../graphics/code-snippet-graphic';
 import { EmbeddingPreview } from '../umap/embedding-preview';
+import { WorkspaceTransfer } from './workspace-transfer';
 
 function formatBytes(bytes: number): string {
   if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
@@ -33,9 +35,8 @@ function SearchInput({ onFileSelect }: { onFileSelect: (files: File[]) => void }
   function tryFileSelect(files: FileList | File[]) {
     const valid: File[] = [];
     for (const f of Array.from(files)) {
-      const lower = f.name.toLowerCase();
-      if (!lower.endsWith('.bed') && !lower.endsWith('.bed.gz')) {
-        toast.warning(`Skipped ${f.name} — only .bed and .bed.gz files are supported.`);
+      if (!isRegionFile(f.name)) {
+        toast.warning(`Skipped ${f.name} — supported formats are ${REGION_FILE_EXTENSIONS_LABEL}.`);
         continue;
       }
       if (f.size > 250 * 1024 * 1024) {
@@ -124,13 +125,13 @@ function SearchInput({ onFileSelect }: { onFileSelect: (files: File[]) => void }
               </div>
             <div className="flex flex-col items-start">
               <span className="text-sm font-medium text-base-content/70">Load BED files</span>
-              <span className="text-[11px] text-base-content/45">.bed, .bed.gz</span>
+              <span className="text-[11px] text-base-content/45">.bed, .narrowPeak, .bedGraph, .gtf, .vcf, ...</span>
             </div>
             <input
               ref={fileInputRef}
               type="file"
               multiple
-              accept=".bed,.gz"
+              accept={REGION_FILE_ACCEPT}
               className="hidden"
               onChange={(e) => {
                 if (e.target.files && e.target.files.length > 0) tryFileSelect(e.target.files);
@@ -253,6 +254,9 @@ export function Hub() {
             </>
           ) : null}
         </div>
+        <div className="mt-6">
+          <WorkspaceTransfer />
+        </div>
       </div>
 
       <div className="flex-1">
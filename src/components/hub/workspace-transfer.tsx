@@ -0,0 +1,175 @@
+import { useRef, useState } from 'react';
+import { Download, FolderInput, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useFile } from '../../contexts/file-context';
+import { useUploadedFiles } from '../../contexts/uploaded-files-context';
+import { useFileSet } from '../../contexts/fileset-context';
+import { useBucket } from '../../contexts/bucket-context';
+import { useCart } from '../../contexts/cart-context';
+import { useTab } from '../../contexts/tab-context';
+import { emptyComparisonCache } from '../../lib/multi-file-analysis';
+import { loadFileResults, saveFileResults, fileKey } from '../../lib/workspace-store';
+import {
+  buildWorkspaceBundle,
+  readWorkspaceBundle,
+  workspaceBundleName,
+  WORKSPACE_BUNDLE_EXTENSION,
+} from '../../lib/workspace-bundle';
+
+function defaultWorkspaceName(): string {
+  return `bedbase-workspace-${new Date().toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Export the session (uploaded files, cached results, comparison, UMAP
+ * selections, cart and tab layout) as one zip, or replace it with an
+ * imported one.
+ */
+export function WorkspaceTransfer() {
+  const { setBedFile } = useFile();
+  const { files, activeIndex, replaceFiles } = useUploadedFiles();
+  const { cached, stageCache, setCached, clearCached, setStageCache } = useFileSet();
+  const { buckets, replaceBuckets } = useBucket();
+  const { cart, replaceCart } = useCart();
+  const { getLayout, restoreLayout, openTab } = useTab();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState(defaultWorkspaceName);
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+
+  const cartItems = Object.values(cart);
+  const hasContent = files.length > 0 || buckets.length > 0 || cartItems.length > 0 || !!cached;
+
+  async function handleExport() {
+    setBusy('export');
+    try {
+      const stored = await Promise.all(files.map((f) => loadFileResults(fileKey(f))));
+      const blob = await buildWorkspaceBundle({
+        name: name.trim() || defaultWorkspaceName(),
+        files,
+        activeIndex,
+        results: stored.map((r) => {
+          if (!r) return null;
+          const { analysis, refGenomicdist, umapCoordinates, umapGenome } = r;
+          return { analysis, refGenomicdist, umapCoordinates, umapGenome };
+        }),
+        buckets,
+        cart: cartItems,
+        layout: getLayout(),
+        comparison: cached,
+        stageCache,
+      });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = workspaceBundleName(name);
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+      setNaming(false);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export workspace');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  async function handleImport(file: File) {
+    if (hasContent && !window.confirm('Importing replaces your current files, comparison, selections and cart. Continue?')) return;
+    setBusy('import');
+    try {
+      const bundle = await readWorkspaceBundle(file);
+
+      // Store results first so opening the files reuses them instead of re-analyzing
+      await Promise.all(bundle.files.map((f, i) => {
+        const results = bundle.results[i];
+        // Not storing only costs a recomputation
+        return results ? saveFileResults(fileKey(f), results).catch(() => {}) : undefined;
+      }));
+
+      replaceFiles(bundle.files, bundle.activeIndex);
+      setBedFile(bundle.activeIndex !== null ? bundle.files[bundle.activeIndex] ?? null : null);
+      if (bundle.comparison) setCached(bundle.comparison);
+      else clearCached();
+      setStageCache(bundle.stageCache ?? emptyComparisonCache());
+      replaceBuckets(bundle.buckets);
+      replaceCart(bundle.cart);
+
+      if (bundle.layout) restoreLayout(bundle.layout);
+      else if (bundle.files.length > 0) openTab('file');
+      toast.success(`Imported workspace "${bundle.name}"`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to import workspace');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-xs text-base-content/50">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={busy !== null}
+          className="inline-flex items-center gap-1 hover:text-base-content transition-colors cursor-pointer disabled:opacity-40"
+        >
+          {busy === 'import' ? <Loader2 size={12} className="animate-spin" /> : <FolderInput size={12} />}
+          Import workspace
+        </button>
+        {hasContent && (
+          <>
+            <span className="text-base-content/20">•</span>
+            <button
+              onClick={() => setNaming((v) => !v)}
+              disabled={busy !== null}
+              className="inline-flex items-center gap-1 hover:text-base-content transition-colors cursor-pointer disabled:opacity-40"
+            >
+              <Download size={12} />
+              Export workspace
+            </button>
+          </>
+        )}
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${WORKSPACE_BUNDLE_EXTENSION},.zip`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) handleImport(file);
+          e.target.value = '';
+        }}
+      />
+
+      {naming && hasContent && (
+        <div className="flex items-center gap-1.5">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleExport(); }}
+            placeholder="Workspace name"
+            className="input input-xs input-bordered w-56"
+            autoFocus
+          />
+          <button onClick={handleExport} disabled={busy !== null} className="btn btn-xs btn-primary gap-1">
+            {busy === 'export' && <Loader2 size={12} className="animate-spin" />}
+            Download
+          </button>
+        </div>
+      )}
+      {naming && hasContent && (
+        <p className="text-[11px] text-base-content/40">
+          {[
+            files.length > 0 && `${files.length} file${files.length === 1 ? '' : 's'}`,
+            cached && 'comparison',
+            buckets.length > 0 && `${buckets.length} selection${buckets.length === 1 ? '' : 's'}`,
+            cartItems.length > 0 && `${cartItems.length} cart item${cartItems.length === 1 ? '' : 's'}`,
+          ].filter(Boolean).join(' · ')}
+        </p>
+      )}
+    </div>
+  );
+}
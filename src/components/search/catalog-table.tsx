@@ -0,0 +1,205 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Check, Plus } from 'lucide-react';
+import type { components } from '../../bedbase-types';
+import { useTab } from '../../contexts/tab-context';
+import { useCart } from '../../contexts/cart-context';
+import type { BatchBedResult } from '../../queries/use-bed-batch';
+
+type BedMetadataBasic = components['schemas']['BedMetadataBasic'];
+
+type SortKey = 'name' | 'genome' | 'regions' | 'width' | 'gc' | 'submitted';
+
+const ROW_HEIGHT = 36;
+/** Rows rendered beyond each edge of the viewport. */
+const OVERSCAN = 10;
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'genome', label: 'Genome' },
+  { key: 'regions', label: 'Regions', numeric: true },
+  { key: 'width', label: 'Mean width', numeric: true },
+  { key: 'gc', label: 'GC', numeric: true },
+  { key: 'submitted', label: 'Submitted' },
+];
+
+function sortValue(bed: BedMetadataBasic, stats: BatchBedResult['stats'], key: SortKey): string | number | null {
+  switch (key) {
+    case 'name': return bed.name?.toLowerCase() || null;
+    case 'genome': return bed.genome_alias || null;
+    case 'regions': return stats?.number_of_regions ?? null;
+    case 'width': return stats?.mean_region_width ?? null;
+    case 'gc': return stats?.gc_content ?? null;
+    case 'submitted': return bed.submission_date ?? null;
+  }
+}
+
+function formatNumber(n: number | null | undefined, digits = 0): string {
+  return n == null ? '—' : n.toLocaleString(undefined, { maximumFractionDigits: digits });
+}
+
+/**
+ * One page of the BED catalog as a sortable, row-virtualized table. Sorting
+ * applies to the loaded page; stats fill in as they arrive from `/bed/batch`.
+ */
+export function CatalogTable({
+  beds,
+  stats,
+  selected,
+  onSelectedChange,
+}: {
+  beds: BedMetadataBasic[];
+  stats: Map<string, BatchBedResult['stats']>;
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+}) {
+  const { openTab } = useTab();
+  const { addToCart, removeFromCart, isInCart } = useCart();
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean } | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const lastClicked = useRef<number | null>(null);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const rows = useMemo(() => {
+    if (!sort) return beds;
+    const dir = sort.desc ? -1 : 1;
+    return [...beds].sort((a, b) => {
+      const va = sortValue(a, stats.get(a.id), sort.key);
+      const vb = sortValue(b, stats.get(b.id), sort.key);
+      // Missing values sort last either way
+      if (va == null || vb == null) return va == null ? (vb == null ? 0 : 1) : -1;
+      return (va < vb ? -1 : va > vb ? 1 : 0) * dir;
+    });
+  }, [beds, stats, sort]);
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+  const visible = rows.slice(first, last);
+
+  const allSelected = rows.length > 0 && rows.every((b) => selected.has(b.id));
+  const someSelected = !allSelected && rows.some((b) => selected.has(b.id));
+
+  const toggleSort = (key: SortKey) => {
+    setSort((prev) => (prev?.key === key ? (prev.desc ? null : { key, desc: true }) : { key, desc: false }));
+  };
+
+  // Shift-click extends the selection from the last clicked row, in display order
+  const toggleRow = (index: number, shift: boolean) => {
+    const next = new Set(selected);
+    const on = !selected.has(rows[index].id);
+    const from = shift && lastClicked.current != null ? Math.min(lastClicked.current, index) : index;
+    const to = shift && lastClicked.current != null ? Math.max(lastClicked.current, index) : index;
+    for (let i = from; i <= to; i++) {
+      if (on) next.add(rows[i].id);
+      else next.delete(rows[i].id);
+    }
+    lastClicked.current = index;
+    onSelectedChange(next);
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="flex-1 min-h-64 overflow-auto border border-base-300 rounded-lg bg-base-100"
+    >
+      <table className="table table-sm table-pin-rows text-xs w-full">
+        <thead className="text-base-content">
+          <tr>
+            <th className="w-8">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-xs"
+                checked={allSelected}
+                ref={(el) => { if (el) el.indeterminate = someSelected; }}
+                onChange={() => onSelectedChange(allSelected ? new Set() : new Set(rows.map((b) => b.id)))}
+                title="Select all on this page"
+              />
+            </th>
+            {COLUMNS.map((col) => (
+              <th key={col.key} className={col.numeric ? 'text-right' : ''}>
+                <button
+                  onClick={() => toggleSort(col.key)}
+                  className={`inline-flex items-center gap-0.5 cursor-pointer hover:text-primary transition-colors ${sort?.key === col.key ? 'text-primary' : ''}`}
+                >
+                  {col.label}
+                  {sort?.key === col.key && (sort.desc ? <ArrowDown size={10} /> : <ArrowUp size={10} />)}
+                </button>
+              </th>
+            ))}
+            <th className="w-20">Cart</th>
+          </tr>
+        </thead>
+        <tbody>
+          {first > 0 && <tr style={{ height: first * ROW_HEIGHT }} />}
+          {visible.map((bed, i) => {
+            const index = first + i;
+            const s = stats.get(bed.id);
+            const inCart = isInCart(bed.id);
+            return (
+              <tr
+                key={bed.id}
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => openTab('analysis', 'bed/' + bed.id)}
+                className={`hover:bg-primary/5 cursor-pointer transition-colors whitespace-nowrap [&>td]:py-0 ${selected.has(bed.id) ? 'bg-primary/5' : ''}`}
+              >
+                <td onClick={(e) => { e.stopPropagation(); toggleRow(index, e.shiftKey); }}>
+                  <input type="checkbox" className="checkbox checkbox-xs pointer-events-none" checked={selected.has(bed.id)} readOnly />
+                </td>
+                <td className="font-medium max-w-64">
+                  <a
+                    href={`/analysis/bed/${bed.id}`}
+                    onClick={(e) => { e.preventDefault(); e.stopPropagation(); openTab('analysis', 'bed/' + bed.id); }}
+                    className="truncate block hover:underline"
+                  >{bed.name || 'Unnamed'}</a>
+                </td>
+                <td>
+                  {bed.genome_alias ? (
+                    <span className="badge badge-xs badge-primary font-semibold">{bed.genome_alias}</span>
+                  ) : <span className="text-base-content/30">—</span>}
+                </td>
+                <td className="text-right tabular-nums">{formatNumber(s?.number_of_regions)}</td>
+                <td className="text-right tabular-nums">{formatNumber(s?.mean_region_width)}</td>
+                <td className="text-right tabular-nums">{formatNumber(s?.gc_content, 3)}</td>
+                <td className="text-base-content/40">
+                  {bed.submission_date ? new Date(bed.submission_date).toLocaleDateString() : '—'}
+                </td>
+                <td onClick={(e) => e.stopPropagation()}>
+                  <button
+                    onClick={() => inCart ? removeFromCart(bed.id) : addToCart({
+                      id: bed.id,
+                      name: bed.name || 'Unnamed',
+                      genome: bed.genome_alias || '',
+                      tissue: bed.annotation?.tissue || '',
+                      cell_line: bed.annotation?.cell_line || '',
+                      cell_type: bed.annotation?.cell_type || '',
+                      description: bed.description || '',
+                      assay: bed.annotation?.assay || '',
+                    })}
+                    className={`inline-flex items-center gap-1 px-2 py-1 rounded text-xs font-medium transition-colors cursor-pointer ${
+                      inCart
+                        ? 'bg-success/10 text-success hover:bg-success/20'
+                        : 'bg-base-200 text-base-content/60 hover:bg-primary/10 hover:text-primary'
+                    }`}
+                  >
+                    {inCart ? <Check size={12} /> : <Plus size={12} />}
+                    {inCart ? 'Added' : 'Add'}
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+          {last < rows.length && <tr style={{ height: (rows.length - last) * ROW_HEIGHT }} />}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { components } from '../../bedbase-types';
+import {
+  EXPORT_FORMAT_LABELS,
+  EXPORT_LIMIT,
+  exportSlug,
+  toDelimited,
+  toExportRows,
+  toPepZip,
+  type ExportFormat,
+} from '../../lib/search-export';
+
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Export menu for a search: `fetchResults` pages through the current query
+ * (with its filters) up to EXPORT_LIMIT results, which are then written in
+ * the chosen format.
+ */
+export function ExportMenu({
+  label,
+  fetchResults,
+}: {
+  /** Names the download and, for PEP, the project */
+  label: string;
+  fetchResults: () => Promise<QdrantSearchResult[]>;
+}) {
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    (document.activeElement as HTMLElement | null)?.blur();
+    setBusy(format);
+    try {
+      const rows = toExportRows(await fetchResults());
+      if (rows.length === 0) {
+        toast.info('No results to export');
+        return;
+      }
+      const slug = exportSlug(label);
+      if (format === 'pep') {
+        downloadBlob(toPepZip(rows, slug, `BEDbase export: ${label}`), `${slug}-pep.zip`);
+      } else if (format === 'json') {
+        downloadBlob(new Blob([JSON.stringify(rows, null, 2)], { type: 'application/json' }), `${slug}.json`);
+      } else {
+        const type = format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+        downloadBlob(new Blob([toDelimited(rows, format)], { type }), `${slug}.${format}`);
+      }
+      toast.success(`Exported ${rows.length.toLocaleString()} ${rows.length === 1 ? 'file' : 'files'}`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="dropdown dropdown-end">
+      <div
+        tabIndex={0}
+        role="button"
+        className="inline-flex items-center gap-1 text-xs text-base-content hover:text-base-content/70 transition-colors cursor-pointer"
+      >
+        {busy ? <Loader2 size={12} className="animate-spin" /> : <Download size={12} />} Export
+      </div>
+      <ul tabIndex={0} className="dropdown-content menu bg-base-100 rounded-box z-10 w-40 p-1 shadow-sm border border-base-300 text-xs">
+        {FORMATS.map((format) => (
+          <li key={format}>
+            <button onClick={() => handleExport(format)} disabled={busy !== null}>{EXPORT_FORMAT_LABELS[format]}</button>
+          </li>
+        ))}
+        <li className="menu-title text-[11px] font-normal text-base-content/40">Top {EXPORT_LIMIT.toLocaleString()} results</li>
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { Ban, X } from 'lucide-react';
+import {
+  FACET_FIELDS,
+  MISSING_VALUE,
+  type FacetCount,
+  type FacetField,
+  type FacetFilter,
+} from '../../lib/search-facets';
+
+/** Values listed per facet before "Show more". */
+const COLLAPSED_VALUES = 6;
+
+function FacetSection({
+  field,
+  label,
+  counts,
+  filters,
+  onToggle,
+}: {
+  field: FacetField;
+  label: string;
+  counts: FacetCount[];
+  filters: FacetFilter[];
+  onToggle: (filter: FacetFilter) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const stateOf = (value: string) => filters.find((f) => f.field === field && f.value.toLowerCase() === value.toLowerCase());
+
+  // Selected values stay listed even if the other facets leave none of them
+  const listed = [...counts];
+  for (const f of filters) {
+    if (f.field === field && !listed.some((c) => c.value.toLowerCase() === f.value.toLowerCase())) {
+      listed.push({ value: f.value, count: 0 });
+    }
+  }
+  const shown = expanded ? listed : listed.slice(0, COLLAPSED_VALUES);
+
+  return (
+    <div>
+      <h4 className="text-xs font-semibold text-base-content/50 uppercase tracking-wide mb-1">{label}</h4>
+      <div className="space-y-0.5">
+        {shown.map(({ value, count }) => {
+          const state = stateOf(value);
+          return (
+            <div key={value} className="group flex items-center gap-1.5 text-xs">
+              <label className="flex items-center gap-1.5 flex-1 min-w-0 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-xs"
+                  checked={!!state && !state.negate}
+                  onChange={() => onToggle({ field, value, negate: false })}
+                />
+                <span
+                  className={`truncate ${state?.negate ? 'line-through text-base-content/40' : ''} ${value === MISSING_VALUE ? 'italic text-base-content/40' : ''}`}
+                  title={value}
+                >
+                  {value}
+                </span>
+              </label>
+              <span className="text-base-content/40 tabular-nums">{count}</span>
+              <button
+                type="button"
+                onClick={() => onToggle({ field, value, negate: true })}
+                title={state?.negate ? 'Stop excluding' : 'Exclude'}
+                className={`p-0.5 rounded transition-colors cursor-pointer ${state?.negate ? 'text-error' : 'text-base-content/30 opacity-0 group-hover:opacity-100 hover:text-error'}`}
+              >
+                <Ban size={10} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      {listed.length > COLLAPSED_VALUES && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-xs text-base-content/40 hover:text-base-content/70 transition-colors cursor-pointer mt-0.5"
+        >
+          {expanded ? 'Show less' : `Show ${listed.length - COLLAPSED_VALUES} more`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Facet counts for cell line, cell type, tissue, target, antibody, treatment
+ * and data format over the top `pooled` results. Ticking a value keeps
+ * results with any ticked value of that field; the ban button excludes it.
+ */
+export function FacetSidebar({
+  counts,
+  filters,
+  onChange,
+  pooled,
+  total,
+}: {
+  counts: Record<FacetField, FacetCount[]> | undefined;
+  filters: FacetFilter[];
+  onChange: (filters: FacetFilter[]) => void;
+  pooled: number;
+  total: number;
+}) {
+  const toggle = (filter: FacetFilter) => {
+    const same = (f: FacetFilter) => f.field === filter.field && f.value.toLowerCase() === filter.value.toLowerCase();
+    const existing = filters.find(same);
+    const rest = filters.filter((f) => !same(f));
+    onChange(existing?.negate === filter.negate ? rest : [...rest, filter]);
+  };
+
+  const sections = FACET_FIELDS.filter(({ field }) => (
+    filters.some((f) => f.field === field)
+    || (counts?.[field] ?? []).some((c) => c.value !== MISSING_VALUE)
+  ));
+
+  return (
+    <aside className="w-full @3xl:w-52 shrink-0 space-y-3">
+      {filters.length > 0 && (
+        <div className="flex items-center gap-1 flex-wrap text-xs">
+          {filters.map((f) => (
+            <button
+              key={`${f.negate ? '!' : ''}${f.field}:${f.value}`}
+              onClick={() => toggle(f)}
+              className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full transition-colors cursor-pointer max-w-full ${f.negate ? 'bg-error/10 text-error hover:bg-error/20' : 'bg-primary/10 text-primary hover:bg-primary/20'}`}
+              title="Remove filter"
+            >
+              <span className="truncate">{f.negate ? 'not ' : ''}{f.value}</span>
+              <X size={10} className="shrink-0" />
+            </button>
+          ))}
+          <button
+            onClick={() => onChange([])}
+            className="text-base-content/40 hover:text-base-content/70 transition-colors cursor-pointer ml-1"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+      {!counts ? (
+        <div className="space-y-2">
+          {Array.from({ length: 4 }, (_, i) => <div key={i} className="skeleton h-16 w-full rounded" />)}
+        </div>
+      ) : (
+        sections.map(({ field, label }) => (
+          <FacetSection key={field} field={field} label={label} counts={counts[field]} filters={filters} onToggle={toggle} />
+        ))
+      )}
+      {counts && (
+        <p className="text-xs text-base-content/40">
+          Counts over the top {pooled.toLocaleString()}{total > pooled ? ` of ${total.toLocaleString()}` : ''} results.
+        </p>
+      )}
+    </aside>
+  );
+}
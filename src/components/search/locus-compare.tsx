@@ -0,0 +1,130 @@
+import { useMemo, useState } from 'react';
+import { Loader2, X } from 'lucide-react';
+import { useFile } from '../../contexts/file-context';
+import {
+  GENE_MODEL_GENOMES,
+  GENE_SYMBOL_GENOMES,
+  MAX_REMOTE_WINDOW,
+  clampLocus,
+  formatBp,
+  resolveLocus,
+  type Locus,
+} from '../../lib/genome-browser';
+import { useBedRegionTracks } from '../../queries/use-bed-regions';
+import { LocusBar, TrackCanvas, type TrackRow } from '../shared/locus-tracks';
+import { useElementWidth, useGenomeReference, useLocalTrack, useSettledLocus } from '../shared/locus-hooks';
+
+/** Database files shown alongside the query file. */
+export const MAX_COMPARE_HITS = 8;
+
+const DEFAULT_WINDOW = 1_000_000;
+
+export type CompareHit = { id: string; name: string; genome: string };
+
+/**
+ * The uploaded query file and selected search hits as aligned tracks at one
+ * locus. Hits are streamed from the regions endpoint, so they only load in
+ * windows up to MAX_REMOTE_WINDOW.
+ */
+export function LocusCompare({ hits, onRemove }: { hits: CompareHit[]; onRemove: (id: string) => void }) {
+  const { bedFile, analysis, genome: fileGenome } = useFile();
+  const genome = fileGenome ?? hits.find((h) => h.genome)?.genome ?? null;
+  const reference = useGenomeReference(genome);
+
+  const chromSizes = useMemo(() => {
+    const sizes: Record<string, number> = { ...reference.chromSizes };
+    for (const row of analysis?.chromosomeStats ?? []) sizes[row.chromosome] = Math.max(row.end, sizes[row.chromosome] ?? 0);
+    return sizes;
+  }, [reference.chromSizes, analysis?.chromosomeStats]);
+
+  const chroms = useMemo(
+    () => Object.keys(chromSizes)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }))
+      .map((name) => ({ name, size: chromSizes[name] })),
+    [chromSizes],
+  );
+
+  // Start on the query file's densest stretch, where hits are most likely to overlap
+  const defaultLocus = useMemo<Locus | null>(() => {
+    const densest = [...(analysis?.plots.regionDistribution ?? [])]
+      .filter((p) => chromSizes[p.chr])
+      .sort((a, b) => b.n - a.n)[0];
+    if (densest) {
+      const center = (densest.start + densest.end) / 2;
+      const half = Math.min(DEFAULT_WINDOW, densest.end - densest.start) / 2;
+      return clampLocus({ chr: densest.chr, start: center - half, end: center + half }, chromSizes[densest.chr]);
+    }
+    if (chroms.length === 0) return null;
+    return clampLocus({ chr: chroms[0].name, start: 0, end: DEFAULT_WINDOW }, chroms[0].size);
+  }, [analysis?.plots.regionDistribution, chroms, chromSizes]);
+
+  const [locus, setLocus] = useState<Locus | null>(null);
+  const view = locus && chromSizes[locus.chr] ? locus : defaultLocus;
+  const goTo = (next: Locus) => setLocus(clampLocus(next, chromSizes[next.chr]));
+
+  const [containerRef, width] = useElementWidth<HTMLDivElement>();
+  const bins = Math.max(1, Math.floor(width / 2));
+  const settled = useSettledLocus(view);
+  const tooWide = !!settled && settled.end - settled.start > MAX_REMOTE_WINDOW;
+
+  // Hits on another assembly would be drawn at meaningless coordinates
+  const fetchIds = useMemo(
+    () => hits.filter((h) => !genome || !h.genome || h.genome === genome).map((h) => h.id),
+    [hits, genome],
+  );
+  const remote = useBedRegionTracks(fetchIds, settled, bins);
+  const local = useLocalTrack(settled, bins);
+
+  const rows = useMemo<TrackRow[]>(() => {
+    const onView = (track: TrackRow['track']) => (track && view && track.locus.chr === view.chr ? track : null);
+    const out: TrackRow[] = [{ key: 'query', label: `${bedFile?.name ?? 'Query file'} (query)`, track: onView(local.track) }];
+    for (const hit of hits) {
+      const index = fetchIds.indexOf(hit.id);
+      out.push({
+        key: hit.id,
+        label: hit.name,
+        track: index >= 0 && !tooWide ? onView(remote[index]?.track ?? null) : null,
+        note: index < 0 ? `${hit.genome}, not ${genome}` : tooWide ? `zoom in to ${formatBp(MAX_REMOTE_WINDOW)} to load` : undefined,
+      });
+    }
+    return out;
+  }, [bedFile, local.track, hits, fetchIds, remote, tooWide, genome, view]);
+
+  if (!view) return null;
+
+  const loading = local.loading || (!tooWide && remote.some((r) => r.isFetching));
+  const failed = remote.filter((r) => r.error).length;
+
+  return (
+    <div className="border border-base-300 rounded-lg bg-base-100 px-3 py-2.5 space-y-2 mb-4">
+      <LocusBar
+        view={view}
+        chroms={chroms}
+        onChange={goTo}
+        resolve={(text) => resolveLocus(text, chromSizes, genome)}
+        hint={genome && GENE_SYMBOL_GENOMES.has(genome) ? 'a locus like chr1:1,000,000-2,000,000 or a gene symbol' : 'a locus like chr1:1,000,000-2,000,000'}
+      />
+      <div ref={containerRef} className="w-full">
+        <TrackCanvas width={width} view={view} rows={rows} genes={reference.genes} onViewChange={goTo} />
+      </div>
+      <div className="flex items-center gap-1.5 flex-wrap text-xs text-base-content/40">
+        {loading && <Loader2 size={12} className="animate-spin" />}
+        <span>{formatBp(view.end - view.start)}</span>
+        {hits.length === 0 && <span>· Tick results below to add them as tracks (up to {MAX_COMPARE_HITS})</span>}
+        {genome && !GENE_MODEL_GENOMES.has(genome) && <span>· No gene annotations for {genome}</span>}
+        {failed > 0 && <span className="text-error">· {failed} {failed === 1 ? 'track' : 'tracks'} failed to load</span>}
+        {hits.map((hit) => (
+          <button
+            key={hit.id}
+            onClick={() => onRemove(hit.id)}
+            className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-base-200 text-base-content/60 hover:bg-base-300 transition-colors cursor-pointer max-w-48"
+            title="Remove track"
+          >
+            <span className="truncate">{hit.name}</span>
+            <X size={10} className="shrink-0" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { Fragment, useMemo, useState } from 'react';
+import { ChevronRight, Loader2 } from 'lucide-react';
+import type { components } from '../../bedbase-types';
+import { useTab } from '../../contexts/tab-context';
+import { MAX_REMOTE_WINDOW, formatBp, formatLocus, type Locus } from '../../lib/genome-browser';
+import { MAX_VERIFIED_REGIONS, VERIFIED_HITS } from '../../lib/locus-search';
+import { useLocusOverlaps } from '../../queries/use-locus-overlaps';
+
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+
+/** Overlapping regions listed per query region before collapsing to a count. */
+const LISTED_OVERLAPS = 20;
+
+/**
+ * Checks the top hits of a locus search for real overlap with the query
+ * regions, since similarity search can rank files that miss them entirely.
+ */
+export function LocusOverlaps({ regions, results }: { regions: Locus[]; results: QdrantSearchResult[] }) {
+  const { openTab } = useTab();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const hits = useMemo(
+    () => results
+      .filter((r) => r.metadata?.id)
+      .slice(0, VERIFIED_HITS)
+      .map((r) => ({ id: r.metadata!.id, name: r.metadata!.name || 'Unnamed' })),
+    [results],
+  );
+  const hitIds = useMemo(() => hits.map((h) => h.id), [hits]);
+  const verified = useMemo(() => regions.slice(0, MAX_VERIFIED_REGIONS), [regions]);
+  const overlaps = useLocusOverlaps(hitIds, verified);
+
+  const skipped = overlaps[0]?.skipped ?? 0;
+  const checkedCount = verified.length - skipped;
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-semibold text-base-content/50 uppercase tracking-wide mb-2">Overlap check</h3>
+      <div className="border border-base-300 rounded-lg bg-base-100 overflow-x-auto">
+        <table className="table table-sm text-xs w-full">
+          <thead className="text-base-content">
+            <tr>
+              <th className="w-6" />
+              <th>Hit</th>
+              <th className="text-right">Query regions hit</th>
+              <th className="text-right">Overlapping regions</th>
+              <th className="text-right">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {hits.map((hit, i) => {
+              const o = overlaps[i];
+              const matched = o?.results.filter((r) => r.overlaps.length > 0) ?? [];
+              const total = matched.reduce((n, r) => n + r.overlaps.length, 0);
+              const isOpen = expanded === hit.id;
+              return (
+                <Fragment key={hit.id}>
+                  <tr
+                    onClick={() => setExpanded(isOpen ? null : hit.id)}
+                    className={`hover:bg-primary/5 transition-colors ${matched.length > 0 ? 'cursor-pointer' : ''}`}
+                  >
+                    <td>
+                      {matched.length > 0 && (
+                        <ChevronRight size={12} className={`text-base-content/40 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+                      )}
+                    </td>
+                    <td className="font-medium max-w-64">
+                      <a
+                        href={`/analysis/bed/${hit.id}`}
+                        onClick={(e) => { e.preventDefault(); e.stopPropagation(); openTab('analysis', 'bed/' + hit.id); }}
+                        className="truncate block hover:underline"
+                      >{hit.name}</a>
+                    </td>
+                    <td className={`text-right ${matched.length > 0 ? 'text-primary font-semibold' : 'text-base-content/40'}`}>
+                      {o && o.pending === 0 ? `${matched.length} / ${checkedCount}` : '—'}
+                    </td>
+                    <td className="text-right">{o && o.pending === 0 ? total.toLocaleString() : '—'}</td>
+                    <td className="text-right">
+                      {o && o.pending > 0 ? (
+                        <Loader2 size={12} className="animate-spin inline text-base-content/40" />
+                      ) : o && o.failed > 0 ? (
+                        <span className="text-error">{o.failed} failed</span>
+                      ) : matched.length > 0 ? (
+                        <span className="text-success">Overlaps</span>
+                      ) : (
+                        <span className="text-base-content/40">No overlap</span>
+                      )}
+                    </td>
+                  </tr>
+                  {isOpen && (
+                    <tr>
+                      <td />
+                      <td colSpan={4} className="bg-base-200/30">
+                        <div className="space-y-1 font-mono text-[11px]">
+                          {matched.map(({ query, overlaps: hitRegions }) => (
+                            <div key={formatLocus(query)}>
+                              <span className="text-base-content/60">{formatLocus(query)}</span>
+                              <span className="text-base-content/30"> → </span>
+                              {hitRegions.slice(0, LISTED_OVERLAPS).map((r) => (
+                                `${query.chr}:${r.start.toLocaleString()}-${r.end.toLocaleString()}${r.name ? ` (${r.name})` : ''}`
+                              )).join(', ')}
+                              {hitRegions.length > LISTED_OVERLAPS && (
+                                <span className="text-base-content/40"> and {hitRegions.length - LISTED_OVERLAPS} more</span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-base-content/40 mt-1.5">
+        Top {hits.length} {hits.length === 1 ? 'hit' : 'hits'} checked against{' '}
+        {regions.length > verified.length ? `the first ${verified.length} of ${regions.length}` : `all ${verified.length}`} query{' '}
+        {regions.length === 1 ? 'region' : 'regions'} using each file's regions.
+        {skipped > 0 && ` ${skipped} ${skipped === 1 ? 'region is' : 'regions are'} wider than ${formatBp(MAX_REMOTE_WINDOW)} and not checked.`}
+      </p>
+    </div>
+  );
+}
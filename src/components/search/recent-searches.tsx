@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Check, GitCompare, Pin, PinOff, X } from 'lucide-react';
+import { useTab } from '../../contexts/tab-context';
+import { useFile } from '../../contexts/file-context';
+import { useUploadedFiles } from '../../contexts/uploaded-files-context';
+import { useSearchHistory } from '../../contexts/search-history-context';
+import {
+  HISTORY_MODE_LABELS,
+  describeFilters,
+  formatAge,
+  type SearchEntry,
+} from '../../lib/search-history';
+import { fileKey } from '../../lib/workspace-store';
+
+/** Recent searches listed before "Show all". */
+const COLLAPSED_RECENT = 5;
+
+function EntryRow({
+  entry,
+  canRun,
+  onRun,
+}: {
+  entry: SearchEntry;
+  canRun: boolean;
+  /** `pinAs` pins the search under that name once it has run */
+  onRun: (diff: boolean, pinAs?: string) => void;
+}) {
+  const { unpinSearch, removeSearch } = useSearchHistory();
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState(entry.pinned?.name ?? entry.label);
+  const filters = describeFilters(entry.filters);
+
+  const savePin = () => {
+    onRun(false, name.trim() || entry.label);
+    setNaming(false);
+  };
+
+  return (
+    <div className="group flex items-center gap-2 px-3 py-1.5 hover:bg-base-200/50 transition-colors">
+      <span className="text-[10px] font-medium uppercase tracking-wide text-base-content/40 w-14 shrink-0">
+        {HISTORY_MODE_LABELS[entry.mode]}
+      </span>
+      {naming ? (
+        <div className="flex items-center gap-1 flex-1 min-w-0">
+          <input
+            autoFocus
+            className="input input-xs input-bordered flex-1 min-w-0"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') savePin();
+              if (e.key === 'Escape') setNaming(false);
+            }}
+          />
+          <button onClick={savePin} title="Save" className="p-0.5 rounded hover:bg-base-300 transition-colors cursor-pointer">
+            <Check size={12} className="text-success" />
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={() => onRun(false)}
+          disabled={!canRun}
+          title={canRun ? 'Run again' : `Load ${entry.file?.name} to run this search again`}
+          className="flex-1 min-w-0 text-left cursor-pointer disabled:cursor-not-allowed"
+        >
+          <span className={`block text-xs truncate ${canRun ? 'text-base-content' : 'text-base-content/40'}`}>
+            {entry.pinned?.name ?? entry.label}
+          </span>
+          {(filters || entry.pinned) && (
+            <span className="block text-[11px] text-base-content/40 truncate">
+              {entry.pinned && entry.pinned.name !== entry.label && `${entry.label}${filters ? ' · ' : ''}`}
+              {filters}
+            </span>
+          )}
+        </button>
+      )}
+      <span className="text-[11px] text-base-content/40 shrink-0 tabular-nums">
+        {entry.last.count.toLocaleString()} · {formatAge(entry.last.at)}
+      </span>
+      <div className="flex items-center gap-0.5 shrink-0">
+        {entry.pinned && (
+          <button
+            onClick={() => onRun(true)}
+            disabled={!canRun}
+            title={`Re-run and highlight files new since ${new Date(entry.pinned.at).toLocaleDateString()}`}
+            className="p-1 rounded hover:bg-base-300 transition-colors cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+          >
+            <GitCompare size={12} className="text-primary" />
+          </button>
+        )}
+        {entry.pinned ? (
+          <button onClick={() => unpinSearch(entry.id)} title="Unpin" className="p-1 rounded hover:bg-base-300 transition-colors cursor-pointer">
+            <PinOff size={12} className="text-base-content/50" />
+          </button>
+        ) : (
+          <button
+            onClick={() => setNaming(true)}
+            disabled={!canRun}
+            title={canRun ? 'Pin and name' : `Load ${entry.file?.name} to pin this search`}
+            className="p-1 rounded hover:bg-base-300 transition-colors cursor-pointer opacity-0 group-hover:opacity-100 disabled:cursor-not-allowed"
+          >
+            <Pin size={12} className="text-base-content/50" />
+          </button>
+        )}
+        <button
+          onClick={() => removeSearch(entry.id)}
+          title="Remove"
+          className="p-1 rounded hover:bg-base-300 transition-colors cursor-pointer opacity-0 group-hover:opacity-100"
+        >
+          <X size={12} className="text-base-content/50" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/** Saved (pinned) and recent searches, each re-runnable with its filters. */
+export function RecentSearches() {
+  const { entries, clearHistory } = useSearchHistory();
+  const { openTab } = useTab();
+  const { setBedFile } = useFile();
+  const { files, setActiveIndex } = useUploadedFiles();
+  const [showAll, setShowAll] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  const pinned = entries.filter((e) => e.pinned);
+  const recent = entries.filter((e) => !e.pinned);
+  const shownRecent = showAll ? recent : recent.slice(0, COLLAPSED_RECENT);
+  const fileIndex = (entry: SearchEntry) => (entry.file ? files.findIndex((f) => fileKey(f) === fileKey(entry.file!)) : -1);
+
+  // Pinning runs the search so its top results can be saved for diffs
+  const run = (entry: SearchEntry, diff: boolean, pinAs?: string) => {
+    if (entry.mode === 'bed') {
+      const idx = fileIndex(entry);
+      if (idx < 0) return;
+      setBedFile(files[idx]);
+      setActiveIndex(idx);
+    }
+    const params = new URLSearchParams(entry.filters);
+    if (diff) params.set('diff', entry.id);
+    if (pinAs) params.set('pin', pinAs);
+    openTab('search', entry.param, params.toString());
+  };
+
+  const section = (title: string, list: SearchEntry[], action?: React.ReactNode) => (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <h3 className="text-xs font-semibold text-base-content/50 uppercase tracking-wide">{title}</h3>
+        {action}
+      </div>
+      <div className="border border-base-300 rounded-lg bg-base-100 divide-y divide-base-300 overflow-hidden">
+        {list.map((entry) => (
+          <EntryRow
+            key={entry.id}
+            entry={entry}
+            canRun={entry.mode !== 'bed' || fileIndex(entry) >= 0}
+            onRun={(diff, pinAs) => run(entry, diff, pinAs)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="w-full max-w-xl mx-auto mt-8 space-y-4 text-left">
+      {pinned.length > 0 && section('Saved searches', pinned)}
+      {recent.length > 0 && section('Recent searches', shownRecent, (
+        <div className="flex items-center gap-3 text-xs">
+          {recent.length > COLLAPSED_RECENT && (
+            <button onClick={() => setShowAll(!showAll)} className="text-base-content/40 hover:text-base-content/70 transition-colors cursor-pointer">
+              {showAll ? 'Show less' : `Show all ${recent.length}`}
+            </button>
+          )}
+          <button onClick={clearHistory} className="text-base-content/40 hover:text-base-content/70 transition-colors cursor-pointer">
+            Clear
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -9,7 +9,19 @@ function roundScore(score: number): string {
   return (score * 100).toFixed(1);
 }
 
-export function ResultsTable({ results, searchQuery }: { results: QdrantSearchResult[]; searchQuery?: string }) {
+export function ResultsTable({
+  results,
+  searchQuery,
+  compare,
+  highlight,
+}: {
+  results: QdrantSearchResult[];
+  searchQuery?: string;
+  /** Adds a column of checkboxes picking rows for the locus view */
+  compare?: { ids: Set<string>; full: boolean; onToggle: (result: QdrantSearchResult) => void };
+  /** Files marked as new, e.g. since a saved search */
+  highlight?: Set<string>;
+}) {
   const { openTab } = useTab();
   const { addToCart, removeFromCart, isInCart } = useCart();
 
@@ -18,6 +30,7 @@ export function ResultsTable({ results, searchQuery }: { results: QdrantSearchRe
       <table className="table table-sm text-xs w-full">
         <thead className="text-base-content">
           <tr>
+            {compare && <th className="w-8" title="Show in locus view">Locus</th>}
             <th>Name</th>
             <th>Genome</th>
             <th>Tissue</th>
@@ -34,12 +47,24 @@ export function ResultsTable({ results, searchQuery }: { results: QdrantSearchRe
             const meta = r.metadata;
             const anno = meta?.annotation;
             const inCart = meta?.id ? isInCart(meta.id) : false;
+            const isNew = !!meta?.id && !!highlight?.has(meta.id);
             return (
               <tr
                 key={r.id}
                 onClick={() => meta?.id && openTab('analysis', 'bed/' + meta.id)}
-                className="hover:bg-primary/5 cursor-pointer transition-colors"
+                className={`hover:bg-primary/5 cursor-pointer transition-colors ${isNew ? 'bg-success/5' : ''}`}
               >
+                {compare && (
+                  <td onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-xs"
+                      checked={!!meta?.id && compare.ids.has(meta.id)}
+                      disabled={!meta?.id || (compare.full && !compare.ids.has(meta.id))}
+                      onChange={() => compare.onToggle(r)}
+                    />
+                  </td>
+                )}
                 <td className="font-medium max-w-48">
                   <span className="flex items-center gap-1">
                     <a
@@ -47,6 +72,7 @@ export function ResultsTable({ results, searchQuery }: { results: QdrantSearchRe
                       onClick={(e) => { e.preventDefault(); e.stopPropagation(); meta?.id && openTab('analysis', 'bed/' + meta.id); }}
                       className="truncate hover:underline"
                     >{meta?.name || 'Unnamed'}</a>
+                    {isNew && <span className="badge badge-xs badge-success shrink-0">New</span>}
                     {searchQuery && r.id === searchQuery && (
                       <span className="tooltip tooltip-bottom tooltip-info z-10 shrink-0" data-tip="Exact match">
                         <CheckCheck size={14} className="text-primary" />
@@ -3,7 +3,26 @@ import { ArrowRight, FileText, ChevronDown, Plus, CircleArrowRight } from 'lucid
 import { useTab } from '../../contexts/tab-context';
 import { useFile } from '../../contexts/file-context';
 import { useUploadedFiles } from '../../contexts/uploaded-files-context';
-import { EXAMPLE_QUERIES, EXAMPLE_BEDSET_QUERIES } from '../../lib/const';
+import { EXAMPLE_QUERIES, EXAMPLE_BEDSET_QUERIES, EXAMPLE_LOCUS_QUERIES } from '../../lib/const';
+import { MAX_LOCUS_REGIONS, formatRegionList, parseRegionList } from '../../lib/locus-search';
+import { RecentSearches } from './recent-searches';
+
+type SearchMode = 'bed' | 'bedset' | 'locus';
+
+const NEXT_MODE: Record<SearchMode, SearchMode> = { bed: 'bedset', bedset: 'locus', locus: 'bed' };
+
+const MODE_LABELS: Record<SearchMode, string> = { bed: 'BED', bedset: 'BEDset', locus: 'Locus' };
+
+const MODE_PLACEHOLDERS: Record<SearchMode, string> = {
+  bed: 'Search for BED files...',
+  bedset: 'Search for BEDsets...',
+  locus: 'chr17:7,661,779-7,687,550, or paste BED regions...',
+};
+
+/** Tab param for a query in `mode`; text search has no prefix. */
+function searchParam(mode: SearchMode, query: string): string {
+  return mode === 'bed' ? query : `${mode}:${query}`;
+}
 
 function formatBytes(bytes: number): string {
   if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
@@ -11,11 +30,12 @@ function formatBytes(bytes: number): string {
   return `${(bytes / 1024).toFixed(1)} KB`;
 }
 
-export function SearchEmpty({ initialMode = 'bed' }: { initialMode?: 'bed' | 'bedset' } = {}) {
+export function SearchEmpty({ initialMode = 'bed' }: { initialMode?: SearchMode } = {}) {
   const [query, setQuery] = useState('');
-  const [searchMode, setSearchMode] = useState<'bed' | 'bedset'>(initialMode);
+  const [searchMode, setSearchMode] = useState<SearchMode>(initialMode);
+  const [locusError, setLocusError] = useState<string | null>(null);
   const [showFilePicker, setShowFilePicker] = useState(false);
-  const inputRef = useRef<HTMLInputElement>(null);
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement>(null);
   const pickerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { bedFile, setBedFile } = useFile();
@@ -37,10 +57,19 @@ export function SearchEmpty({ initialMode = 'bed' }: { initialMode?: 'bed' | 'be
   const handleSubmit = () => {
     const q = query.trim();
     if (!q) return;
-    openTab('search', searchMode === 'bedset' ? 'bedset:' + q : q);
+    if (searchMode === 'locus') {
+      const { regions } = parseRegionList(q);
+      if (regions.length === 0) {
+        setLocusError('No regions recognized. Use chr:start-end or BED lines (chr, start, end).');
+        return;
+      }
+      openTab('search', searchParam('locus', formatRegionList(regions.slice(0, MAX_LOCUS_REGIONS))));
+      return;
+    }
+    openTab('search', searchParam(searchMode, q));
   };
 
-  const examples = searchMode === 'bed' ? EXAMPLE_QUERIES : EXAMPLE_BEDSET_QUERIES;
+  const examples = searchMode === 'bed' ? EXAMPLE_QUERIES : searchMode === 'bedset' ? EXAMPLE_BEDSET_QUERIES : EXAMPLE_LOCUS_QUERIES;
 
   return (
     <div className="flex-1 overflow-auto">
@@ -51,32 +80,49 @@ export function SearchEmpty({ initialMode = 'bed' }: { initialMode?: 'bed' | 'be
       <p className="text-base-content/50 text-sm text-center mb-3">
         {searchMode === 'bed'
           ? <>Search by text, or <a href="/workbench" onClick={(e) => { e.preventDefault(); openTab('file'); }} className="text-primary hover:underline cursor-pointer">load</a> a file to search by similarity.</>
-          : 'Find curated BEDset collections.'}
+          : searchMode === 'bedset'
+            ? 'Find curated BEDset collections.'
+            : 'Find database files overlapping a locus or a few regions.'}
       </p>
       <div className="w-full max-w-xl">
         {/* Text search */}
-        <div className="flex items-center gap-2 border-[1.5px] border-primary/30 rounded-lg px-3 py-2.5">
-          <input
-            ref={inputRef}
-            type="text"
-            placeholder={searchMode === 'bed' ? 'Search for BED files...' : 'Search for BEDsets...'}
-            className="flex-1 bg-transparent outline-none text-sm text-base-content placeholder:text-base-content/50"
-            value={query}
-            onChange={(e) => setQuery(e.target.value)}
-            onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
-            autoFocus
-          />
+        <div className={`flex gap-2 border-[1.5px] border-primary/30 rounded-lg px-3 py-2.5 ${searchMode === 'locus' ? 'items-start' : 'items-center'}`}>
+          {searchMode === 'locus' ? (
+            // Multi-line, so pasted BED regions keep their lines; Ctrl/Cmd+Enter searches
+            <textarea
+              ref={inputRef}
+              rows={3}
+              placeholder={MODE_PLACEHOLDERS.locus}
+              className="flex-1 bg-transparent outline-none text-sm text-base-content placeholder:text-base-content/50 font-mono resize-y"
+              value={query}
+              onChange={(e) => { setQuery(e.target.value); setLocusError(null); }}
+              onKeyDown={(e) => e.key === 'Enter' && (e.metaKey || e.ctrlKey) && handleSubmit()}
+              autoFocus
+            />
+          ) : (
+            <input
+              ref={inputRef}
+              type="text"
+              placeholder={MODE_PLACEHOLDERS[searchMode]}
+              className="flex-1 bg-transparent outline-none text-sm text-base-content placeholder:text-base-content/50"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+              autoFocus
+            />
+          )}
           <button
             type="button"
             onClick={() => {
-              const next = searchMode === 'bed' ? 'bedset' : 'bed';
+              const next = NEXT_MODE[searchMode];
               setSearchMode(next);
-              openTab('search', next === 'bedset' ? 'bedset:' : '');
+              setLocusError(null);
+              openTab('search', searchParam(next, ''));
               inputRef.current?.focus();
             }}
             className="flex items-center gap-1 text-xs font-medium text-base-content/50 hover:text-base-content/70 transition-colors cursor-pointer shrink-0 select-none"
           >
-            {searchMode === 'bed' ? 'BED' : 'BEDset'}
+            {MODE_LABELS[searchMode]}
             <ChevronDown size={12} className="text-base-content/30" />
           </button>
           <button
@@ -88,6 +134,7 @@ export function SearchEmpty({ initialMode = 'bed' }: { initialMode?: 'bed' | 'be
             <ArrowRight size={14} />
           </button>
         </div>
+        {locusError && <p className="text-xs text-error mt-1.5">{locusError}</p>}
 
         {/* File indicator — if a file is already loaded, show quick link to BED2BED search */}
         {searchMode === 'bed' && (bedFile || files.length > 0) && (
@@ -180,14 +227,28 @@ export function SearchEmpty({ initialMode = 'bed' }: { initialMode?: 'bed' | 'be
           {examples.map((term) => (
             <a
               key={term}
-              href={searchMode === 'bedset' ? `/search?type=bedset&q=${encodeURIComponent(term)}` : `/search?q=${encodeURIComponent(term)}`}
-              onClick={(e) => { e.preventDefault(); openTab('search', searchMode === 'bedset' ? 'bedset:' + term : term); }}
+              href={searchMode === 'bed' ? `/search?q=${encodeURIComponent(term)}` : `/search?type=${searchMode}&q=${encodeURIComponent(term)}`}
+              onClick={(e) => { e.preventDefault(); openTab('search', searchParam(searchMode, term)); }}
               className="text-xs px-2.5 py-1 rounded-full border border-base-300 text-base-content/50 hover:text-base-content hover:border-base-content/30 transition-colors cursor-pointer"
             >
               {term}
             </a>
           ))}
         </div>
+        {searchMode === 'bed' && (
+          <p className="text-center text-xs text-base-content/40 mt-3">
+            Or{' '}
+            <a
+              href="/search/catalog"
+              onClick={(e) => { e.preventDefault(); openTab('search', 'catalog'); }}
+              className="text-primary hover:underline cursor-pointer"
+            >
+              browse all BED files
+            </a>{' '}
+            in the database.
+          </p>
+        )}
+        <RecentSearches />
       </div>
       </div>
 
@@ -1,24 +1,68 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { FileText, AlertCircle, RefreshCw, X, ScatterChart, ChevronDown, Plus, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { FileText, AlertCircle, RefreshCw, X, ScatterChart, ChevronDown, Plus, ArrowRight, Rows3, Pin, GitCompare, MapPin, Loader2 } from 'lucide-react';
 import { Breadcrumb } from '../shared/breadcrumb';
 import { useTab } from '../../contexts/tab-context';
 import { useFile } from '../../contexts/file-context';
 import { useUploadedFiles } from '../../contexts/uploaded-files-context';
 import { useBucket } from '../../contexts/bucket-context';
-import { useTextSearch } from '../../queries/use-text-search';
-import { useBedSearch } from '../../queries/use-bed-search';
+import { useCart } from '../../contexts/cart-context';
+import { useSearchHistory } from '../../contexts/search-history-context';
+import { useApi } from '../../contexts/api-context';
+import { fetchTextSearch, useTextSearch, useTextSearchPool } from '../../queries/use-text-search';
+import { fetchExactSearch, useExactSearch } from '../../queries/use-exact-search';
+import { fetchBedSearchTop, useBedSearch } from '../../queries/use-bed-search';
 import { useBedsetList } from '../../queries/use-bedset-list';
+import { useBedList } from '../../queries/use-bed-list';
+import { useBedBatch } from '../../queries/use-bed-batch';
 import { useGenomes } from '../../queries/use-genomes';
 import { useAssays } from '../../queries/use-assays';
 import { SearchEmpty } from './search-empty';
 import { ResultsTable } from './results-table';
+import { LocusCompare, MAX_COMPARE_HITS, type CompareHit } from './locus-compare';
+import { LocusOverlaps } from './locus-overlaps';
+import { FacetSidebar } from './facet-sidebar';
+import { CatalogTable } from './catalog-table';
+import { ExportMenu } from './export-menu';
+import {
+  MAX_LOCUS_REGIONS,
+  formatRegionList,
+  parseRegionList,
+  regionsToBedFile,
+} from '../../lib/locus-search';
+import {
+  EXACT_FIELD_LABELS,
+  EXACT_SCAN_LIMIT,
+  conditionsToText,
+  exactRequest,
+  formatCondition,
+  matchesConditions,
+  parseConditions,
+  serializeConditions,
+  type ExactCondition,
+  type ExactField,
+} from '../../lib/exact-search';
+import {
+  FACET_POOL,
+  applyFacets,
+  facetCounts,
+  formatFacetParam,
+  parseFacetParams,
+  type FacetFilter,
+} from '../../lib/search-facets';
+import { EXPORT_LIMIT, fetchAllResults } from '../../lib/search-export';
+import { PIN_POOL, filterParams, searchId, type SearchDescriptor } from '../../lib/search-history';
 import { SkeletonTable } from '../skeleton-table';
 import type { components } from '../../bedbase-types';
 
 type SearchResponse = components['schemas']['BedListSearchResult'];
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+type BedMetadataBasic = components['schemas']['BedMetadataBasic'];
 
 const BEDSET_PREFIX = 'bedset:';
+const LOCUS_PREFIX = 'locus:';
+const EXACT_PREFIX = 'exact:';
 
 const LIMIT_OPTIONS = [10, 20, 50, 100] as const;
 
@@ -36,6 +80,10 @@ function errorMessage(error: unknown): string {
   return error instanceof Error ? error.message : 'An error occurred while searching.';
 }
 
+function resultIds(results: QdrantSearchResult[]): string[] {
+  return results.map((r) => r.metadata?.id).filter((id): id is string => !!id);
+}
+
 // --- Skeleton loader ---
 
 const SEARCH_SKELETON_COLUMNS = [
@@ -83,6 +131,54 @@ function usePaginationParams(defaultLimit = DEFAULT_LIMIT) {
   return { offset, limit, setOffset, setLimit };
 }
 
+// --- Filter URL params ---
+
+/** A single-valued filter kept in the URL, so history and links restore it; changing it resets the page. */
+function useFilterParam(key: string): [string, (value: string) => void] {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const value = searchParams.get(key) ?? '';
+
+  const setValue = (next: string) => {
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      if (next) params.set(key, next);
+      else params.delete(key);
+      params.delete('page');
+      return params;
+    }, { replace: true });
+  };
+
+  return [value, setValue];
+}
+
+/** `genome=hg38&assay=ATAC-seq` for carrying text filters over to another query. */
+function textFilterParams(genome: string, assay: string): string {
+  const params = new URLSearchParams();
+  if (genome) params.set('genome', genome);
+  if (assay) params.set('assay', assay);
+  return params.toString();
+}
+
+// --- Facet URL params ---
+
+function useFacetParams() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const raw = searchParams.getAll('facet').join('\n');
+  const facets = useMemo(() => (raw ? parseFacetParams(raw.split('\n')) : []), [raw]);
+
+  const setFacets = (next: FacetFilter[]) => {
+    setSearchParams((prev) => {
+      const params = new URLSearchParams(prev);
+      params.delete('facet');
+      for (const f of next) params.append('facet', formatFacetParam(f));
+      params.delete('page');
+      return params;
+    }, { replace: true });
+  };
+
+  return { facets, setFacets };
+}
+
 // --- Pagination ---
 
 function Pagination({
@@ -90,11 +186,14 @@ function Pagination({
   offset,
   limit,
   onOffsetChange,
+  countScope,
 }: {
   count: number;
   offset: number;
   limit: number;
   onOffsetChange: (offset: number) => void;
+  /** Qualifies a count that isn't the query's total, e.g. "in the top 200" */
+  countScope?: string;
 }) {
   const currentPage = Math.floor(offset / limit) + 1;
   const totalPages = Math.ceil(count / limit);
@@ -104,7 +203,7 @@ function Pagination({
   return (
     <div className="flex items-center justify-between pt-4 text-sm text-base-content/50">
       <span>
-        Showing {start}–{end} of {count.toLocaleString()} results
+        Showing {start}–{end} of {count.toLocaleString()} results{countScope && ` ${countScope}`}
       </span>
       <div className="flex items-center gap-2">
         <button
@@ -132,6 +231,7 @@ function Pagination({
 // --- Filter bar ---
 
 function FilterBar({
+  leading,
   genome,
   setGenome,
   assay,
@@ -139,6 +239,7 @@ function FilterBar({
   limit,
   setLimit,
 }: {
+  leading?: React.ReactNode;
   genome: string;
   setGenome: (g: string) => void;
   assay: string;
@@ -151,6 +252,7 @@ function FilterBar({
 
   return (
     <div className="flex items-center gap-3 flex-wrap text-xs">
+      {leading}
       <label className="flex items-center gap-1.5 text-base-content/60">
         Genome
         <select
@@ -207,6 +309,14 @@ function SearchResults({
   onOffsetChange,
   bucketLabel,
   searchQuery,
+  modeLabel,
+  beforeResults,
+  compare,
+  empty,
+  sidebar,
+  fetchResults,
+  history,
+  countScope,
 }: {
   header: React.ReactNode;
   filters?: React.ReactNode;
@@ -219,9 +329,82 @@ function SearchResults({
   onOffsetChange: (offset: number) => void;
   bucketLabel?: string;
   searchQuery?: string;
+  /** Breadcrumb label; defaults to the text or bed-to-bed label */
+  modeLabel?: string;
+  /** Rendered above the results table once there are results */
+  beforeResults?: React.ReactNode;
+  compare?: React.ComponentProps<typeof ResultsTable>['compare'];
+  /** Shown instead of "No results found." when there's nothing to show */
+  empty?: string;
+  /** Rendered beside the results, e.g. facets */
+  sidebar?: React.ReactNode;
+  /** Fetches the top `max` results of the query, with its filters, for exports and pinning */
+  fetchResults?: (max: number) => Promise<QdrantSearchResult[]>;
+  /** Set when `data.count` only covers part of the results, e.g. "in the top 200" */
+  countScope?: string;
+  /** Records the search in history once its first page loads; pass a memoized object */
+  history?: SearchDescriptor;
 }) {
   const { openTab } = useTab();
   const { createBucket, focusBucket } = useBucket();
+  const { entries, recordSearch, pinSearch } = useSearchHistory();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const historyFilters = filterParams(searchParams);
+  const historyId = history ? searchId(history, historyFilters) : null;
+  const entry = entries.find((e) => e.id === historyId);
+
+  const count = data?.count;
+  const topIds = (data?.results ?? []).map((r) => r.metadata?.id).filter(Boolean).join(',');
+  useEffect(() => {
+    if (!history || count == null || offset !== 0) return;
+    recordSearch({
+      id: searchId(history, historyFilters),
+      ...history,
+      filters: historyFilters,
+      last: { count, topIds: topIds ? topIds.split(',') : [], at: Date.now() },
+    });
+  }, [history, historyFilters, count, topIds, offset, recordSearch]);
+
+  // ?diff=<id> compares the first page with the results saved when the search was pinned
+  const diffEntry = entries.find((e) => e.id === searchParams.get('diff') && e.pinned);
+  const newIds = useMemo(() => {
+    if (!diffEntry?.pinned || offset !== 0 || !data?.results) return undefined;
+    const saved = new Set(diffEntry.pinned.topIds);
+    return new Set(resultIds(data.results).filter((id) => !saved.has(id)));
+  }, [diffEntry, offset, data]);
+
+  // Pinning saves the top PIN_POOL results, not just this page, so later diffs don't depend on the page size
+  const [pinning, setPinning] = useState(false);
+  const pin = async (id: string, name: string) => {
+    setPinning(true);
+    try {
+      pinSearch(id, name, resultIds(fetchResults ? await fetchResults(PIN_POOL) : data?.results ?? []));
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Could not save the search');
+    } finally {
+      setPinning(false);
+    }
+  };
+
+  // ?pin=<name> pins once the search is recorded (pinning from the history list)
+  const pinName = searchParams.get('pin');
+  useEffect(() => {
+    if (pinName === null || !entry || offset !== 0) return;
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.delete('pin');
+      return next;
+    }, { replace: true });
+    pin(entry.id, pinName);
+  }, [pinName, entry?.id, offset]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const clearDiff = () => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      next.delete('diff');
+      return next;
+    }, { replace: true });
+  };
 
   const handleViewOnUmap = () => {
     if (!data?.results) return;
@@ -237,45 +420,89 @@ function SearchResults({
       <div className="flex items-center justify-between mb-4">
         <Breadcrumb className="" crumbs={[
           { label: 'Search', onClick: () => openTab('search') },
-          { label: searchQuery ? 'Text2BED search' : 'BED2BED search' },
+          { label: modeLabel ?? (searchQuery ? 'Text2BED search' : 'BED2BED search') },
         ]} />
-        <button
-          onClick={handleViewOnUmap}
-          className={`inline-flex items-center gap-1 text-xs text-base-content hover:text-base-content/70 transition-colors cursor-pointer ${!(data?.results && data.results.length > 0) ? 'invisible' : ''}`}
-        >
-          <ScatterChart size={12} /> View on UMAP
-        </button>
+        <div className={`flex items-center gap-4 ${!(data?.results && data.results.length > 0) ? 'invisible' : ''}`}>
+          {entry && (
+            <button
+              onClick={() => pin(entry.id, entry.pinned?.name ?? entry.label)}
+              disabled={pinning}
+              className="inline-flex items-center gap-1 text-xs text-base-content hover:text-base-content/70 transition-colors cursor-pointer"
+              title={entry.pinned ? 'Update the saved results to these' : 'Pin to saved searches'}
+            >
+              {pinning ? <Loader2 size={12} className="animate-spin" /> : <Pin size={12} className={entry.pinned ? 'fill-current' : ''} />} {entry.pinned ? 'Saved' : 'Save search'}
+            </button>
+          )}
+          {fetchResults && <ExportMenu label={bucketLabel || 'Search results'} fetchResults={() => fetchResults(EXPORT_LIMIT)} />}
+          <button
+            onClick={handleViewOnUmap}
+            className="inline-flex items-center gap-1 text-xs text-base-content hover:text-base-content/70 transition-colors cursor-pointer"
+          >
+            <ScatterChart size={12} /> View on UMAP
+          </button>
+        </div>
       </div>
       <div className="flex flex-col gap-2 mb-4">
         {header}
         {filters}
       </div>
-      <div className="flex-1">
-        {isLoading ? (
-          <SkeletonTable columns={SEARCH_SKELETON_COLUMNS} />
-        ) : error ? (
-          <div className="flex flex-col items-center justify-center py-12 gap-3">
-            <AlertCircle size={24} className="text-error" />
-            <p className="text-sm text-error text-center max-w-md">{errorMessage(error)}</p>
-            <button onClick={refetch} className="btn btn-sm btn-ghost gap-1">
-              <RefreshCw size={14} /> Retry
-            </button>
-          </div>
-        ) : data?.results && data.results.length > 0 ? (
-          <>
-            <ResultsTable results={data.results} searchQuery={searchQuery} />
-            {data.count > limit && (
-              <Pagination
-                count={data.count}
-                offset={offset}
-                limit={limit}
-                onOffsetChange={onOffsetChange}
-              />
-            )}
-          </>
-        ) : (
-          <p className="text-center text-sm text-base-content/40 py-12">No results found.</p>
-        )}
+      <div className={sidebar ? 'flex-1 flex flex-col @3xl:flex-row @3xl:items-start gap-4' : 'flex-1'}>
+        {sidebar}
+        <div className="flex-1 min-w-0">
+          {isLoading ? (
+            <SkeletonTable columns={SEARCH_SKELETON_COLUMNS} />
+          ) : error ? (
+            <div className="flex flex-col items-center justify-center py-12 gap-3">
+              <AlertCircle size={24} className="text-error" />
+              <p className="text-sm text-error text-center max-w-md">{errorMessage(error)}</p>
+              <button onClick={refetch} className="btn btn-sm btn-ghost gap-1">
+                <RefreshCw size={14} /> Retry
+              </button>
+            </div>
+          ) : data?.results && data.results.length > 0 ? (
+            <>
+              {diffEntry?.pinned && (
+                <div className="flex items-center gap-2 flex-wrap border border-base-300 rounded-lg bg-base-100 px-3 py-2 mb-4 text-xs">
+                  <GitCompare size={12} className="text-primary shrink-0" />
+                  <span className="text-base-content/70">
+                    Compared with “{diffEntry.pinned.name}” from {new Date(diffEntry.pinned.at).toLocaleDateString()}:{' '}
+                    {newIds ? (
+                      <>
+                        <span className="font-semibold text-success">{newIds.size} new</span> in the top {data.results.length}
+                        {' · '}{diffEntry.pinned.count.toLocaleString()} → {data.count.toLocaleString()} results{countScope && ` ${countScope}`}
+                      </>
+                    ) : 'go to the first page to see new files'}
+                  </span>
+                  <div className="flex items-center gap-3 ml-auto">
+                    <button
+                      onClick={() => pin(diffEntry.id, diffEntry.pinned!.name)}
+                      disabled={pinning}
+                      className="text-primary hover:underline cursor-pointer"
+                    >
+                      Save these results
+                    </button>
+                    <button onClick={clearDiff} className="text-base-content/40 hover:text-base-content/70 transition-colors cursor-pointer">
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              )}
+              {beforeResults}
+              <ResultsTable results={data.results} searchQuery={searchQuery} compare={compare} highlight={newIds} />
+              {data.count > limit && (
+                <Pagination
+                  count={data.count}
+                  offset={offset}
+                  limit={limit}
+                  onOffsetChange={onOffsetChange}
+                  countScope={countScope}
+                />
+              )}
+            </>
+          ) : (
+            <p className="text-center text-sm text-base-content/40 py-12">{empty ?? 'No results found.'}</p>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -285,23 +512,40 @@ function SearchResults({
 
 function TextSearchResults({ query }: { query: string }) {
   const { offset, limit, setOffset, setLimit } = usePaginationParams();
-  const [genome, setGenome] = useState('');
-  const [assay, setAssay] = useState('');
+  const [genome, setGenome] = useFilterParam('genome');
+  const [assay, setAssay] = useFilterParam('assay');
   const [editQuery, setEditQuery] = useState(query);
   const { openTab } = useTab();
-  const { data, isLoading, error, refetch } = useTextSearch(query, {
+  const { api } = useApi();
+  const { facets, setFacets } = useFacetParams();
+  const faceted = facets.length > 0;
+  const page = useTextSearch(query, {
     limit,
     offset,
     genome: genome || undefined,
     assay: assay || undefined,
+    enabled: !faceted,
+  });
+  // Facet counts come from the top results; with filters active, pages, counts and exports come from them too
+  const pool = useTextSearchPool(query, FACET_POOL, {
+    genome: genome || undefined,
+    assay: assay || undefined,
   });
+  const counts = useMemo(() => pool.data && facetCounts(pool.data.results, facets), [pool.data, facets]);
+  const filtered = useMemo(() => pool.data && applyFacets(pool.data.results, facets), [pool.data, facets]);
+  const facetPage = useMemo<SearchResponse | undefined>(
+    () => filtered && { count: filtered.length, limit, offset, results: filtered.slice(offset, offset + limit) },
+    [filtered, limit, offset],
+  );
+  const data = faceted ? facetPage : page.data;
+  const countScope = faceted ? `in the top ${FACET_POOL.toLocaleString()}` : undefined;
+  const history = useMemo<SearchDescriptor>(() => ({ mode: 'text', param: query, label: query }), [query]);
+  const { isLoading, error, refetch } = faceted ? pool : page;
 
   const handleSubmit = () => {
     const q = editQuery.trim();
-    if (q && q !== query) {
-      setOffset(0);
-      openTab('search', q);
-    }
+    // Genome and assay stay set for the new query; facets and paging reset
+    if (q && q !== query) openTab('search', q, textFilterParams(genome, assay));
   };
 
   const header = (
@@ -335,12 +579,21 @@ function TextSearchResults({ query }: { query: string }) {
     </div>
   );
 
+  const toExact = () => {
+    const conditions: ExactCondition[] = [{ field: 'any', value: query }];
+    if (genome) conditions.push({ field: 'genome', value: genome });
+    if (assay) conditions.push({ field: 'assay', value: assay });
+    setOffset(0);
+    openTab('search', EXACT_PREFIX + serializeConditions(conditions));
+  };
+
   const filters = (
     <FilterBar
+      leading={<MatchModeToggle exact={false} onToggle={toExact} />}
       genome={genome}
-      setGenome={(g) => { setGenome(g); setOffset(0); }}
+      setGenome={setGenome}
       assay={assay}
-      setAssay={(a) => { setAssay(a); setOffset(0); }}
+      setAssay={setAssay}
       limit={limit}
       setLimit={(l) => { setLimit(l); setOffset(0); }}
     />
@@ -348,7 +601,7 @@ function TextSearchResults({ query }: { query: string }) {
 
   const searchTitle = `Search: ${query} — BEDbase`;
   const searchDescription = data?.count != null
-    ? `${data.count.toLocaleString()} BED files matching "${query}"`
+    ? `${data.count.toLocaleString()} BED files${countScope ? ` ${countScope}` : ''} matching "${query}"`
     : `Searching BEDbase for "${query}"`;
 
   return (
@@ -367,6 +620,23 @@ function TextSearchResults({ query }: { query: string }) {
         onOffsetChange={setOffset}
         bucketLabel={`Search: ${query}`}
         searchQuery={query}
+        history={history}
+        countScope={countScope}
+        fetchResults={faceted
+          ? async (max) => (filtered ?? []).slice(0, max)
+          : (max) => fetchAllResults(
+            (l, o) => fetchTextSearch(api, query, { limit: l, offset: o, genome: genome || undefined, assay: assay || undefined }),
+            { max },
+          )}
+        sidebar={
+          <FacetSidebar
+            counts={counts}
+            filters={facets}
+            onChange={setFacets}
+            pooled={pool.data?.results.length ?? 0}
+            total={pool.data?.count ?? 0}
+          />
+        }
       />
     </>
   );
@@ -379,12 +649,21 @@ function BedSearchResults() {
   const [showFilePicker, setShowFilePicker] = useState(false);
   const pickerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showLocus, setShowLocus] = useState(false);
+  const [compareHits, setCompareHits] = useState<CompareHit[]>([]);
   const { bedFile, setBedFile, lockFileSwitch, unlockFileSwitch } = useFile();
   const { files, addFiles, setActiveIndex } = useUploadedFiles();
+  const { api } = useApi();
   const { data, isLoading, error, refetch } = useBedSearch(bedFile ?? undefined, {
     limit,
     offset,
   });
+  const history = useMemo<SearchDescriptor | undefined>(() => bedFile ? {
+    mode: 'bed',
+    param: 'file',
+    label: bedFile.name,
+    file: { name: bedFile.name, size: bedFile.size, lastModified: bedFile.lastModified },
+  } : undefined, [bedFile]);
 
   // Lock file switching while bed-to-bed search is loading
   useEffect(() => {
@@ -410,7 +689,29 @@ function BedSearchResults() {
     return <SearchEmpty />;
   }
 
+  function toCompareHit(r: QdrantSearchResult): CompareHit | null {
+    const meta = r.metadata;
+    return meta?.id ? { id: meta.id, name: meta.name || 'Unnamed', genome: meta.genome_alias || '' } : null;
+  }
+
+  function toggleCompare(r: QdrantSearchResult) {
+    const hit = toCompareHit(r);
+    if (!hit) return;
+    setCompareHits((prev) => prev.some((h) => h.id === hit.id)
+      ? prev.filter((h) => h.id !== hit.id)
+      : prev.length < MAX_COMPARE_HITS ? [...prev, hit] : prev);
+  }
+
+  // Opening the locus view starts with the top hits
+  function toggleLocusView() {
+    if (!showLocus && compareHits.length === 0 && data?.results) {
+      setCompareHits(data.results.slice(0, 3).map(toCompareHit).filter((h): h is CompareHit => h !== null));
+    }
+    setShowLocus(!showLocus);
+  }
+
   function switchToFile(file: File, index: number) {
+    setCompareHits([]);
     setBedFile(file);
     setActiveIndex(index);
     setOffset(0);
@@ -418,6 +719,7 @@ function BedSearchResults() {
   }
 
   function handleNewFiles(newFiles: File[]) {
+    setCompareHits([]);
     addFiles(newFiles);
     const first = newFiles[0];
     if (first) {
@@ -485,6 +787,13 @@ function BedSearchResults() {
 
   const filters = (
     <div className="flex items-center text-xs ml-auto">
+      <button
+        type="button"
+        onClick={toggleLocusView}
+        className={`btn btn-xs gap-1 ${showLocus ? 'btn-primary' : 'btn-ghost text-base-content/60'}`}
+      >
+        <Rows3 size={12} /> Locus view
+      </button>
       <label className="flex items-center gap-1.5 text-base-content/60 ml-auto">
         Limit
         <select
@@ -512,25 +821,368 @@ function BedSearchResults() {
       limit={limit}
       onOffsetChange={setOffset}
       bucketLabel={`Similar: ${bedFile?.name || 'uploaded file'}`}
+      history={history}
+      fetchResults={bedFile ? (max) => fetchBedSearchTop(api, bedFile, max) : undefined}
+      beforeResults={showLocus && (
+        <LocusCompare hits={compareHits} onRemove={(id) => setCompareHits((prev) => prev.filter((h) => h.id !== id))} />
+      )}
+      compare={showLocus ? {
+        ids: new Set(compareHits.map((h) => h.id)),
+        full: compareHits.length >= MAX_COMPARE_HITS,
+        onToggle: toggleCompare,
+      } : undefined}
     />
   );
 }
 
+// --- Locus search mode ---
+
+function LocusSearchResults({ query }: { query: string }) {
+  const { offset, limit, setOffset, setLimit } = usePaginationParams();
+  const regions = useMemo(() => parseRegionList(query).regions.slice(0, MAX_LOCUS_REGIONS), [query]);
+  const file = useMemo(() => (regions.length > 0 ? regionsToBedFile(regions) : undefined), [regions]);
+  const [editQuery, setEditQuery] = useState(() => regions.map((r) => `${r.chr}:${r.start}-${r.end}`).join('\n'));
+  const [editError, setEditError] = useState<string | null>(null);
+  const { openTab } = useTab();
+  const { api } = useApi();
+  const { data, isLoading, error, refetch } = useBedSearch(file, { limit, offset });
+
+  const handleSubmit = () => {
+    const parsed = parseRegionList(editQuery).regions.slice(0, MAX_LOCUS_REGIONS);
+    if (parsed.length === 0) {
+      setEditError('No regions recognized. Use chr:start-end or BED lines (chr, start, end).');
+      return;
+    }
+    const next = formatRegionList(parsed);
+    if (next !== query) {
+      setOffset(0);
+      openTab('search', LOCUS_PREFIX + next);
+    }
+  };
+
+  const header = (
+    <div className="space-y-1">
+      <div className="flex items-start gap-2 border border-base-300 rounded-lg bg-base-100 px-3 py-2">
+        <textarea
+          rows={Math.min(4, Math.max(1, editQuery.split('\n').length))}
+          className="flex-1 bg-transparent outline-none text-sm text-base-content placeholder:text-base-content/50 font-mono resize-y"
+          placeholder="chr17:7,661,779-7,687,550, or paste BED regions..."
+          value={editQuery}
+          onChange={(e) => { setEditQuery(e.target.value); setEditError(null); }}
+          onKeyDown={(e) => e.key === 'Enter' && (e.metaKey || e.ctrlKey) && handleSubmit()}
+        />
+        <SearchModeToggle mode="locus" query={query} />
+        <button
+          type="button"
+          onClick={handleSubmit}
+          className="w-6 h-6 rounded-full bg-primary text-primary-content hover:bg-primary/90 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center shrink-0"
+          disabled={!editQuery.trim()}
+        >
+          <ArrowRight size={12} />
+        </button>
+      </div>
+      {editError && <p className="text-xs text-error">{editError}</p>}
+    </div>
+  );
+
+  const filters = (
+    <div className="flex items-center text-xs">
+      <span className="text-base-content/40">
+        {regions.length.toLocaleString()} {regions.length === 1 ? 'region' : 'regions'} searched as a BED file
+      </span>
+      <label className="flex items-center gap-1.5 text-base-content/60 ml-auto">
+        Limit
+        <select
+          className="select select-xs border border-base-300"
+          value={limit}
+          onChange={(e) => { setLimit(Number(e.target.value)); setOffset(0); }}
+        >
+          {LIMIT_OPTIONS.map((n) => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  const firstRegion = regions[0] ? `${regions[0].chr}:${regions[0].start}-${regions[0].end}` : '';
+  const regionsLabel = `${firstRegion}${regions.length > 1 ? ` +${regions.length - 1}` : ''}`;
+  const history = useMemo<SearchDescriptor>(
+    () => ({ mode: 'locus', param: LOCUS_PREFIX + query, label: regionsLabel }),
+    [query, regionsLabel],
+  );
+
+  return (
+    <>
+      <title>{`Locus: ${regionsLabel} — BEDbase`}</title>
+      <SearchResults
+        header={header}
+        filters={filters}
+        data={data}
+        isLoading={isLoading && !!file}
+        error={file ? error : new Error('No regions recognized in this locus query.')}
+        refetch={refetch}
+        offset={offset}
+        limit={limit}
+        onOffsetChange={setOffset}
+        bucketLabel={`Locus: ${regionsLabel}`}
+        history={history}
+        modeLabel="Locus search"
+        fetchResults={file ? (max) => fetchBedSearchTop(api, file, max) : undefined}
+        beforeResults={data?.results && <LocusOverlaps regions={regions} results={data.results} />}
+      />
+    </>
+  );
+}
+
+// --- Exact metadata search mode ---
+
+const EXACT_FIELDS = Object.keys(EXACT_FIELD_LABELS) as ExactField[];
+
+function ExactSearchResults({ query }: { query: string }) {
+  const { offset, limit, setOffset, setLimit } = usePaginationParams();
+  const conditions = useMemo(() => parseConditions(query), [query]);
+  const [field, setField] = useState<ExactField>('target');
+  const [value, setValue] = useState('');
+  const { openTab } = useTab();
+  const { data: genomes } = useGenomes();
+  const { data: assays } = useAssays();
+  const { api } = useApi();
+  const { data, isLoading, error, refetch } = useExactSearch(conditions, { limit, offset });
+
+  const setConditions = (next: ExactCondition[]) => {
+    setOffset(0);
+    openTab('search', EXACT_PREFIX + serializeConditions(next));
+  };
+
+  const handleAdd = () => {
+    const v = value.trim();
+    if (!v) return;
+    // A field holds one exact value; adding it again replaces the old one
+    const rest = field === 'any' ? conditions : conditions.filter((c) => c.field !== field);
+    if (!rest.some((c) => c.field === field && c.value.toLowerCase() === v.toLowerCase())) {
+      setConditions([...rest, { field, value: v }]);
+    }
+    setValue('');
+  };
+
+  const suggestions = field === 'genome' ? genomes : field === 'assay' ? assays : undefined;
+
+  const header = (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 border border-base-300 rounded-lg bg-base-100 px-3 py-2">
+        <select
+          className="select select-xs border border-base-300 shrink-0 w-auto"
+          value={field}
+          onChange={(e) => setField(e.target.value as ExactField)}
+        >
+          {EXACT_FIELDS.map((f) => (
+            <option key={f} value={f}>{EXACT_FIELD_LABELS[f]}</option>
+          ))}
+        </select>
+        <span className="text-xs text-base-content/40 shrink-0">{field === 'any' ? 'contains' : 'is'}</span>
+        <input
+          type="text"
+          list={suggestions ? 'exact-value-suggestions' : undefined}
+          className="flex-1 bg-transparent outline-none text-sm text-base-content placeholder:text-base-content/50"
+          placeholder={field === 'any' ? 'Text anywhere in the metadata...' : `Exact ${EXACT_FIELD_LABELS[field].toLowerCase()}...`}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+        />
+        {suggestions && (
+          <datalist id="exact-value-suggestions">
+            {suggestions.map((s) => <option key={s} value={s} />)}
+          </datalist>
+        )}
+        <button
+          type="button"
+          onClick={handleAdd}
+          title="Add condition"
+          className="w-6 h-6 rounded-full bg-primary text-primary-content hover:bg-primary/90 transition-colors cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center shrink-0"
+          disabled={!value.trim()}
+        >
+          <Plus size={12} />
+        </button>
+      </div>
+      {conditions.length > 0 && (
+        <div className="flex items-center gap-1.5 flex-wrap text-xs">
+          {conditions.map((c, i) => (
+            <button
+              key={`${c.field}-${i}`}
+              onClick={() => setConditions(conditions.filter((_, j) => j !== i))}
+              className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-primary/10 text-primary hover:bg-primary/20 transition-colors cursor-pointer"
+              title="Remove condition"
+            >
+              {formatCondition(c)}
+              <X size={10} />
+            </button>
+          ))}
+          {conditions.length > 1 && (
+            <button
+              onClick={() => setConditions([])}
+              className="text-base-content/40 hover:text-base-content/70 transition-colors cursor-pointer ml-1"
+            >
+              Clear all
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  const serverQuery = exactRequest(conditions).query;
+  // Matches past the scanned server hits are missing, so the count is only a lower bound
+  const truncated = !!data && data.scanned < data.serverCount;
+  const countScope = truncated ? `among the first ${data.scanned.toLocaleString()} checked` : undefined;
+  const filters = (
+    <div className="flex items-center gap-3 flex-wrap text-xs">
+      <MatchModeToggle
+        exact
+        onToggle={() => {
+          const value = (f: ExactField) => conditions.find((c) => c.field === f)?.value ?? '';
+          openTab(
+            'search',
+            conditionsToText(conditions.filter((c) => c.field !== 'genome' && c.field !== 'assay')),
+            textFilterParams(value('genome'), value('assay')),
+          );
+        }}
+      />
+      {truncated && (
+        <span className="text-warning">
+          Conditions checked on the first {data.scanned.toLocaleString()} of {data.serverCount.toLocaleString()} files matching "{serverQuery}"
+        </span>
+      )}
+      <label className="flex items-center gap-1.5 text-base-content/60 ml-auto">
+        Limit
+        <select
+          className="select select-xs border border-base-300"
+          value={limit}
+          onChange={(e) => { setLimit(Number(e.target.value)); setOffset(0); }}
+        >
+          {LIMIT_OPTIONS.map((n) => (
+            <option key={n} value={n}>{n}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+
+  const summary = conditions.map(formatCondition).join(', ');
+  const history = useMemo<SearchDescriptor>(
+    () => ({ mode: 'exact', param: EXACT_PREFIX + query, label: summary }),
+    [query, summary],
+  );
+
+  if (conditions.length === 0) {
+    return (
+      <SearchResults
+        header={header}
+        filters={filters}
+        data={undefined}
+        isLoading={false}
+        error={null}
+        refetch={() => {}}
+        offset={0}
+        limit={limit}
+        onOffsetChange={setOffset}
+        modeLabel="Exact search"
+        empty={`Add a condition to find files whose metadata matches it exactly. Conditions beyond genome and assay are checked on up to ${EXACT_SCAN_LIMIT.toLocaleString()} files.`}
+      />
+    );
+  }
+
+  return (
+    <>
+      <title>{`Exact search: ${summary} — BEDbase`}</title>
+      <meta name="description" content={data?.count != null
+        ? `${data.count.toLocaleString()} BED files${countScope ? ` ${countScope}` : ''} where ${summary}`
+        : `Searching BEDbase for BED files where ${summary}`} />
+      <SearchResults
+        header={header}
+        filters={filters}
+        data={data}
+        isLoading={isLoading}
+        error={error}
+        refetch={refetch}
+        offset={offset}
+        limit={limit}
+        onOffsetChange={setOffset}
+        bucketLabel={`Exact: ${summary}`}
+        modeLabel="Exact search"
+        history={history}
+        countScope={countScope}
+        fetchResults={(max) => {
+          const request = exactRequest(conditions);
+          return fetchAllResults(
+            (l, o) => fetchExactSearch(api, request, { limit: l, offset: o }),
+            { max, filter: (r) => matchesConditions(r, request.remaining) },
+          );
+        }}
+      />
+    </>
+  );
+}
+
+/** Switches a text query between semantic (`/bed/search/text`) and exact metadata search. */
+function MatchModeToggle({ exact, onToggle }: { exact: boolean; onToggle: () => void }) {
+  return (
+    <div className="join">
+      {(['Semantic', 'Exact'] as const).map((label) => {
+        const active = (label === 'Exact') === exact;
+        return (
+          <button
+            key={label}
+            type="button"
+            onClick={() => !active && onToggle()}
+            className={`join-item btn btn-xs ${active ? 'btn-primary' : 'btn-ghost border border-base-300'}`}
+          >
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
 // --- Search mode toggle ---
 
-function SearchModeToggle({ mode, query }: { mode: 'bed' | 'bedset'; query: string }) {
+type SearchMode = 'bed' | 'bedset' | 'locus';
+
+const MODE_TOGGLE_CLASS = 'flex items-center gap-1 text-xs font-medium text-base-content/50 hover:text-base-content/70 transition-colors cursor-pointer shrink-0 select-none';
+
+/**
+ * Toggles BED ↔ BEDset with the query carried over. Locus search is its own
+ * switch, seeded with any regions in the query; from there the toggle leads
+ * back to BED search.
+ */
+function SearchModeToggle({ mode, query }: { mode: SearchMode; query: string }) {
   const { openTab } = useTab();
   return (
-    <button
-      type="button"
-      onClick={() => {
-        openTab('search', mode === 'bed' ? BEDSET_PREFIX + query : query);
-      }}
-      className="flex items-center gap-1 text-xs font-medium text-base-content/50 hover:text-base-content/70 transition-colors cursor-pointer shrink-0 select-none"
-    >
-      {mode === 'bed' ? 'BED' : 'BEDset'}
-      <ChevronDown size={12} className="text-base-content/30" />
-    </button>
+    <>
+      {mode !== 'locus' && (
+        <button
+          type="button"
+          onClick={() => {
+            const { regions } = parseRegionList(query);
+            openTab('search', LOCUS_PREFIX + (regions.length > 0 ? formatRegionList(regions) : ''));
+          }}
+          className={MODE_TOGGLE_CLASS}
+          title="Search by genomic locus"
+        >
+          <MapPin size={12} className="text-base-content/30" />
+          Locus
+        </button>
+      )}
+      <button
+        type="button"
+        onClick={() => openTab('search', mode === 'bed' ? BEDSET_PREFIX + query : mode === 'bedset' ? query : '')}
+        className={MODE_TOGGLE_CLASS}
+      >
+        {mode === 'bed' ? 'BED' : mode === 'bedset' ? 'BEDset' : 'Locus'}
+        <ChevronDown size={12} className="text-base-content/30" />
+      </button>
+    </>
   );
 }
 
@@ -685,12 +1337,146 @@ function BedsetSearchResults({ query }: { query: string }) {
   );
 }
 
+// --- Catalog (browse all BED files) ---
+
+const CATALOG_LIMIT_OPTIONS = [100, 500, 1000] as const;
+
+function CatalogResults() {
+  const { offset, limit, setOffset, setLimit } = usePaginationParams(CATALOG_LIMIT_OPTIONS[1]);
+  const [genome, setGenome] = useState('');
+  // Selection survives paging, so keep each picked file's metadata for the cart
+  const [selected, setSelected] = useState<Map<string, BedMetadataBasic>>(new Map());
+  const { openTab } = useTab();
+  const { addToCart, isInCart } = useCart();
+  const { createBucket, focusBucket } = useBucket();
+  const { data: genomes } = useGenomes();
+  const { data, isLoading, isFetching, error, refetch } = useBedList({ limit, offset, genome: genome || undefined });
+  const beds = useMemo(() => data?.results ?? [], [data]);
+  const ids = useMemo(() => beds.map((b) => b.id), [beds]);
+  const { data: batch } = useBedBatch(ids.length > 0 ? ids : undefined);
+  const stats = useMemo(() => new Map((batch ?? []).map((b) => [b.id, b.stats])), [batch]);
+  const selectedIds = useMemo(() => new Set(selected.keys()), [selected]);
+
+  const handleSelectedChange = (next: Set<string>) => {
+    const byId = new Map(beds.map((b) => [b.id, b]));
+    setSelected(new Map([...next].map((id) => [id, selected.get(id) ?? byId.get(id)!])));
+  };
+
+  const handleAddToCart = () => {
+    for (const bed of selected.values()) {
+      if (isInCart(bed.id)) continue;
+      addToCart({
+        id: bed.id,
+        name: bed.name || 'Unnamed',
+        genome: bed.genome_alias || '',
+        tissue: bed.annotation?.tissue || '',
+        cell_line: bed.annotation?.cell_line || '',
+        cell_type: bed.annotation?.cell_type || '',
+        description: bed.description || '',
+        assay: bed.annotation?.assay || '',
+      });
+    }
+  };
+
+  const handleViewOnUmap = () => {
+    const id = createBucket(`Catalog selection (${selected.size})`, [...selected.keys()]);
+    focusBucket(id);
+    openTab('umap', '');
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4 @md:p-6">
+      <title>Browse BED files — BEDbase</title>
+      <meta name="description" content={data ? `Browse all ${data.count.toLocaleString()} BED files in BEDbase` : 'Browse all BED files in BEDbase'} />
+      <div className="flex items-center justify-between mb-4">
+        <Breadcrumb className="" crumbs={[
+          { label: 'Search', onClick: () => openTab('search') },
+          { label: 'Catalog' },
+        ]} />
+      </div>
+      <div className="flex items-center gap-3 flex-wrap text-xs mb-3">
+        <label className="flex items-center gap-1.5 text-base-content/60">
+          Genome
+          <select
+            className="select select-xs border border-base-300"
+            value={genome}
+            onChange={(e) => { setGenome(e.target.value); setOffset(0); }}
+          >
+            <option value="">All</option>
+            {genomes?.map((g) => (
+              <option key={g} value={g}>{g}</option>
+            ))}
+          </select>
+        </label>
+        {selected.size > 0 && (
+          <div className="flex items-center gap-2">
+            <span className="text-base-content/60">{selected.size.toLocaleString()} selected</span>
+            <button onClick={handleAddToCart} className="btn btn-xs btn-ghost border border-base-300 gap-1">
+              <Plus size={12} /> Add to cart
+            </button>
+            <button onClick={handleViewOnUmap} className="btn btn-xs btn-ghost border border-base-300 gap-1">
+              <ScatterChart size={12} /> Send to UMAP
+            </button>
+            <button
+              onClick={() => setSelected(new Map())}
+              className="text-base-content/40 hover:text-base-content/70 transition-colors cursor-pointer"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+        <label className="flex items-center gap-1.5 text-base-content/60 ml-auto">
+          Page size
+          <select
+            className="select select-xs border border-base-300"
+            value={limit}
+            onChange={(e) => { setLimit(Number(e.target.value)); setOffset(0); }}
+          >
+            {CATALOG_LIMIT_OPTIONS.map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      {isLoading ? (
+        <SkeletonTable columns={SEARCH_SKELETON_COLUMNS} />
+      ) : error ? (
+        <div className="flex flex-col items-center justify-center py-12 gap-3">
+          <AlertCircle size={24} className="text-error" />
+          <p className="text-sm text-error text-center max-w-md">
+            {error instanceof Error ? error.message : 'Failed to load BED files.'}
+          </p>
+          <button onClick={() => refetch()} className="btn btn-sm btn-ghost gap-1">
+            <RefreshCw size={14} /> Retry
+          </button>
+        </div>
+      ) : beds.length > 0 ? (
+        <>
+          <div className={`flex-1 min-h-0 flex flex-col transition-opacity ${isFetching ? 'opacity-60' : ''}`}>
+            <CatalogTable beds={beds} stats={stats} selected={selectedIds} onSelectedChange={handleSelectedChange} />
+          </div>
+          <p className="text-xs text-base-content/40 mt-1.5">Sorting applies to the current page. Shift-click to select a range.</p>
+          {data && data.count > limit && (
+            <Pagination count={data.count} offset={offset} limit={limit} onOffsetChange={setOffset} />
+          )}
+        </>
+      ) : (
+        <p className="text-center text-sm text-base-content/40 py-12">No BED files found.</p>
+      )}
+    </div>
+  );
+}
+
 // --- Main search view (routes on param) ---
 
 export function SearchView({ param }: { param?: string }) {
   if (!param) return <SearchEmpty />;
   if (param === 'file') return <BedSearchResults />;
+  if (param === 'catalog') return <CatalogResults />;
   if (param === BEDSET_PREFIX) return <SearchEmpty initialMode="bedset" />;
   if (param.startsWith(BEDSET_PREFIX)) return <BedsetSearchResults query={param.slice(BEDSET_PREFIX.length)} />;
+  if (param === LOCUS_PREFIX) return <SearchEmpty initialMode="locus" />;
+  if (param.startsWith(LOCUS_PREFIX)) return <LocusSearchResults key={param} query={param.slice(LOCUS_PREFIX.length)} />;
+  if (param.startsWith(EXACT_PREFIX)) return <ExactSearchResults query={param.slice(EXACT_PREFIX.length)} />;
   return <TextSearchResults query={param} />;
 }
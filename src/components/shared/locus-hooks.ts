@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { useFile } from '../../contexts/file-context';
+import { isAbortError } from '../../lib/analysis-worker-client';
+import {
+  GENE_MODEL_GENOMES,
+  geneIndex,
+  type GeneIndex,
+  type Locus,
+} from '../../lib/genome-browser';
+import { loadChromSizes, loadRefBase, loadRefGeneModel } from '../../lib/reference-data';
+import type { Track } from './locus-tracks';
+
+/** Wait for panning and zooming to settle before querying regions. */
+const SETTLE_MS = 120;
+
+/** Content width of the element behind the returned ref. */
+export function useElementWidth<T extends HTMLElement>() {
+  const ref = useRef<T>(null);
+  const [width, setWidth] = useState(0);
+  useEffect(() => {
+    if (!ref.current) return;
+    const ro = new ResizeObserver(([e]) => setWidth(e.contentRect.width));
+    ro.observe(ref.current);
+    return () => ro.disconnect();
+  }, []);
+  return [ref, width] as const;
+}
+
+/** `view` once it has stopped changing for a moment. */
+export function useSettledLocus(view: Locus | null): Locus | null {
+  const [settled, setSettled] = useState<Locus | null>(null);
+  useEffect(() => {
+    const t = setTimeout(() => setSettled(view), SETTLE_MS);
+    return () => clearTimeout(t);
+  }, [view]);
+  return settled;
+}
+
+/** Reference chromosome sizes and gene annotations for `genome`, as they load. */
+export function useGenomeReference(genome: string | null) {
+  const [sizes, setSizes] = useState<{ genome: string; sizes: Record<string, number> } | null>(null);
+  useEffect(() => {
+    if (!genome) return;
+    let cancelled = false;
+    loadChromSizes(genome)
+      .catch(() => (GENE_MODEL_GENOMES.has(genome) ? loadRefBase(genome).then((b) => b.chromSizes) : null))
+      .then((result) => {
+        if (!cancelled && result) setSizes({ genome, sizes: result });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [genome]);
+
+  const [genes, setGenes] = useState<{ genome: string; index: GeneIndex } | null>(null);
+  useEffect(() => {
+    if (!genome || !GENE_MODEL_GENOMES.has(genome)) return;
+    let cancelled = false;
+    loadRefGeneModel(genome)
+      .then((model) => {
+        if (!cancelled) setGenes({ genome, index: geneIndex(model) });
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [genome]);
+
+  const current = genes?.genome === genome ? genes : null;
+  return {
+    chromSizes: sizes?.genome === genome ? sizes.sizes : null,
+    genes: current?.index ?? null,
+  };
+}
+
+/** Window of the active uploaded file at `locus`, loaded in the analysis worker. */
+export function useLocalTrack(locus: Locus | null, bins: number, enabled = true) {
+  const { regionSet, regionsInRange } = useFile();
+  const [track, setTrack] = useState<Track | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || !regionSet || !locus || bins <= 0) return;
+    const controller = new AbortController();
+    regionsInRange(locus, bins, controller.signal)
+      .then((result) => {
+        if (controller.signal.aborted) return;
+        setTrack({ locus, window: result });
+        setError(null);
+      })
+      .catch((err) => {
+        if (!isAbortError(err) && !controller.signal.aborted) {
+          setError(err instanceof Error ? err.message : 'Failed to load regions');
+        }
+      });
+    return () => controller.abort();
+  }, [enabled, regionSet, locus, bins, regionsInRange]);
+
+  return { track, error, loading: enabled && !!locus && track?.locus !== locus };
+}
@@ -0,0 +1,325 @@
+import { useEffect, useRef, useState, type PointerEvent as ReactPointerEvent } from 'react';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react';
+import {
+  formatBp,
+  formatLocus,
+  genesInRange,
+  type GeneIndex,
+  type Locus,
+  type TrackWindow,
+} from '../../lib/genome-browser';
+
+const RULER_HEIGHT = 20;
+const LABEL_HEIGHT = 14;
+const TRACK_GAP = 6;
+const REGION_ROW = 10;
+const MAX_REGION_ROWS = 8;
+const DENSITY_HEIGHT = 40;
+const GENE_ROW = 14;
+const MAX_GENE_ROWS = 4;
+
+export const REGION_COLOR = 'teal';
+const GENE_COLOR = '#4b5563';
+const LABEL_COLOR = '#6b7280';
+const MUTED_COLOR = '#9ca3af';
+
+/** A window of regions and the locus it was loaded for. */
+export type Track = { locus: Locus; window: TrackWindow };
+
+export type TrackRow = {
+  key: string;
+  label: string;
+  /** Null while loading; `note` replaces the regions when set */
+  track: Track | null;
+  note?: string;
+};
+
+/** Tick spacing of 1, 2 or 5 × 10^k giving roughly `target` ticks. */
+function tickStep(span: number, target: number): number {
+  const raw = span / Math.max(1, target);
+  const pow = 10 ** Math.floor(Math.log10(raw));
+  const m = raw / pow;
+  return (m < 1.5 ? 1 : m < 3.5 ? 2 : m < 7.5 ? 5 : 10) * pow;
+}
+
+/** Greedy row packing by pixel extent; rows past `maxRows` share the last one. */
+function packRows(spans: [number, number][], maxRows: number, gap = 2): number[] {
+  const rowEnds: number[] = [];
+  return spans.map(([x0, x1]) => {
+    let row = rowEnds.findIndex((end) => end + gap <= x0);
+    if (row < 0) row = rowEnds.length < maxRows ? rowEnds.length : maxRows - 1;
+    rowEnds[row] = Math.max(rowEnds[row] ?? -Infinity, x1);
+    return row;
+  });
+}
+
+type DrawInput = {
+  width: number;
+  view: Locus;
+  rows: TrackRow[];
+  genes: GeneIndex | null;
+};
+
+/** Ruler, one region track per row and an optional gene track, stacked on one canvas. */
+function drawTracks(canvas: HTMLCanvasElement, { width, view, rows, genes }: DrawInput) {
+  const span = view.end - view.start;
+  const x = (pos: number) => ((pos - view.start) / span) * width;
+  const spanOf = (start: number, end: number): [number, number] => [x(start), Math.max(x(end), x(start) + 1)];
+
+  const layouts = rows.map((row) => {
+    const win = row.note ? null : row.track?.window;
+    const regions = win?.density ? [] : [...(win?.regions ?? [])].sort((a, b) => a.start - b.start);
+    const spans = regions.map((r) => spanOf(r.start, r.end));
+    const packed = packRows(spans, MAX_REGION_ROWS);
+    const height = win?.density ? DENSITY_HEIGHT : Math.max(1, Math.max(0, ...packed) + 1) * REGION_ROW;
+    return { row, win, regions, spans, packed, height };
+  });
+
+  const geneList = genes ? genesInRange(genes, view) : [];
+  const geneSpans = geneList.map((g) => spanOf(g.start, g.end));
+  const geneRows = packRows(geneSpans, MAX_GENE_ROWS, 4);
+  const geneHeight = genes ? Math.max(1, Math.max(0, ...geneRows) + 1) * GENE_ROW : 0;
+
+  const height = RULER_HEIGHT
+    + layouts.reduce((h, l) => h + TRACK_GAP + LABEL_HEIGHT + l.height, 0)
+    + (genes ? TRACK_GAP + LABEL_HEIGHT + geneHeight : 0)
+    + 4;
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.round(width * dpr);
+  canvas.height = Math.round(height * dpr);
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  const ctx = canvas.getContext('2d')!;
+  ctx.scale(dpr, dpr);
+  ctx.clearRect(0, 0, width, height);
+  ctx.font = '10px system-ui, sans-serif';
+  ctx.textBaseline = 'middle';
+
+  // Ruler
+  const step = tickStep(span, width / 110);
+  ctx.strokeStyle = MUTED_COLOR;
+  ctx.fillStyle = LABEL_COLOR;
+  ctx.beginPath();
+  ctx.moveTo(0, RULER_HEIGHT - 0.5);
+  ctx.lineTo(width, RULER_HEIGHT - 0.5);
+  for (let t = Math.ceil(view.start / step) * step; t <= view.end; t += step) {
+    const tx = Math.round(x(t)) + 0.5;
+    ctx.moveTo(tx, RULER_HEIGHT - 5);
+    ctx.lineTo(tx, RULER_HEIGHT);
+    ctx.fillText(formatBp(t), tx + 3, RULER_HEIGHT - 10);
+  }
+  ctx.stroke();
+
+  let top = RULER_HEIGHT;
+  const label = (text: string) => {
+    top += TRACK_GAP;
+    ctx.fillStyle = LABEL_COLOR;
+    ctx.fillText(text, 0, top + LABEL_HEIGHT / 2 - 2);
+    top += LABEL_HEIGHT;
+  };
+
+  // Region tracks: individual regions, or density bins when a window holds too many
+  for (const { row, win, regions, spans, packed, height: trackHeight } of layouts) {
+    label(row.note ? `${row.label} · ${row.note}` : row.label);
+    if (win?.density && row.track) {
+      const { density } = win;
+      const { locus } = row.track;
+      const max = Math.max(1, ...density);
+      const binWidth = (locus.end - locus.start) / density.length;
+      ctx.fillStyle = REGION_COLOR;
+      density.forEach((n, i) => {
+        if (n === 0) return;
+        const x0 = x(locus.start + i * binWidth);
+        const x1 = x(locus.start + (i + 1) * binWidth);
+        const h = Math.max(1, (n / max) * DENSITY_HEIGHT);
+        ctx.fillRect(x0, top + DENSITY_HEIGHT - h, Math.max(1, x1 - x0), h);
+      });
+    } else {
+      regions.forEach((r, i) => {
+        const [x0, x1] = spans[i];
+        const y = top + packed[i] * REGION_ROW;
+        ctx.fillStyle = REGION_COLOR;
+        ctx.fillRect(x0, y, x1 - x0, REGION_ROW - 2);
+        if (r.name && x1 - x0 > ctx.measureText(r.name).width + 6) {
+          ctx.fillStyle = 'white';
+          ctx.fillText(r.name, Math.max(x0, 0) + 3, y + (REGION_ROW - 2) / 2);
+        }
+      });
+    }
+    top += trackHeight;
+  }
+
+  // Gene track: body line, exon boxes, strand chevrons and symbols where they fit
+  if (!genes) return;
+  label('Genes');
+  ctx.strokeStyle = GENE_COLOR;
+  geneList.forEach((g, i) => {
+    const [x0, x1] = geneSpans[i];
+    const mid = top + geneRows[i] * GENE_ROW + GENE_ROW / 2 - 1;
+    ctx.beginPath();
+    ctx.moveTo(x0, mid + 0.5);
+    ctx.lineTo(x1, mid + 0.5);
+    const dir = g.strand === '-' ? -1 : g.strand === '+' ? 1 : 0;
+    if (dir !== 0) {
+      for (let cx = Math.max(x0, 0) + 8; cx < Math.min(x1, width) - 4; cx += 16) {
+        ctx.moveTo(cx - 2 * dir, mid - 2.5);
+        ctx.lineTo(cx + 2 * dir, mid + 0.5);
+        ctx.lineTo(cx - 2 * dir, mid + 3.5);
+      }
+    }
+    ctx.stroke();
+    ctx.fillStyle = GENE_COLOR;
+    for (const [s, e] of g.exons) {
+      const ex0 = x(s);
+      ctx.fillRect(ex0, mid - 4, Math.max(1, x(e) - ex0), 9);
+    }
+    if (g.name && x1 - x0 > ctx.measureText(g.name).width + 8) {
+      ctx.fillStyle = 'white';
+      ctx.fillRect(Math.max(x0, 0) + 2, mid - 5, ctx.measureText(g.name).width + 4, 11);
+      ctx.fillStyle = GENE_COLOR;
+      ctx.fillText(g.name, Math.max(x0, 0) + 4, mid + 0.5);
+    }
+  });
+}
+
+/** Stacked tracks over `view`; drag to pan and double-click to zoom in. */
+export function TrackCanvas({ width, view, rows, genes, onViewChange }: DrawInput & {
+  onViewChange: (locus: Locus) => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; locus: Locus } | null>(null);
+
+  useEffect(() => {
+    if (!canvasRef.current || width <= 0) return;
+    drawTracks(canvasRef.current, { width, view, rows, genes });
+  }, [width, view, rows, genes]);
+
+  function onPointerDown(e: ReactPointerEvent<HTMLCanvasElement>) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, locus: view };
+  }
+  function onPointerMove(e: ReactPointerEvent<HTMLCanvasElement>) {
+    const drag = dragRef.current;
+    if (!drag || width <= 0) return;
+    const shift = ((drag.x - e.clientX) / width) * (drag.locus.end - drag.locus.start);
+    onViewChange({ chr: drag.locus.chr, start: drag.locus.start + shift, end: drag.locus.end + shift });
+  }
+  function onPointerUp() {
+    dragRef.current = null;
+  }
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="block cursor-grab active:cursor-grabbing touch-none"
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerUp}
+      onDoubleClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const span = view.end - view.start;
+        const center = view.start + ((e.clientX - rect.left) / rect.width) * span;
+        onViewChange({ chr: view.chr, start: center - span / 4, end: center + span / 4 });
+      }}
+    />
+  );
+}
+
+/** Chromosome select, locus box and pan/zoom buttons. `resolve` resolves to null for unrecognized input. */
+export function LocusBar({ view, chroms, onChange, resolve, hint }: {
+  view: Locus;
+  chroms: { name: string; size: number }[];
+  onChange: (locus: Locus) => void;
+  resolve: (text: string) => Promise<Locus | null>;
+  /** Completes "Enter …" when the input can't be resolved */
+  hint: string;
+}) {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [resolving, setResolving] = useState(false);
+
+  function go(next: Locus) {
+    setText(null);
+    setError(null);
+    onChange(next);
+  }
+
+  async function submit(input: string) {
+    setResolving(true);
+    try {
+      const locus = await resolve(input);
+      if (locus) go(locus);
+      else setError(`Enter ${hint}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Lookup failed');
+    } finally {
+      setResolving(false);
+    }
+  }
+
+  function shifted(fraction: number): Locus {
+    const shift = (view.end - view.start) * fraction;
+    return { chr: view.chr, start: view.start + shift, end: view.end + shift };
+  }
+
+  function zoomed(factor: number): Locus {
+    const center = (view.start + view.end) / 2;
+    const half = ((view.end - view.start) * factor) / 2;
+    return { chr: view.chr, start: center - half, end: center + half };
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        <select
+          className="select select-xs border border-base-300"
+          value={view.chr}
+          onChange={(e) => {
+            const chrom = chroms.find((c) => c.name === e.target.value);
+            if (chrom) go({ chr: chrom.name, start: 0, end: chrom.size });
+          }}
+        >
+          {chroms.map((c) => (
+            <option key={c.name} value={c.name}>{c.name}</option>
+          ))}
+        </select>
+        <form
+          className="flex-1 min-w-[200px]"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (text != null && !resolving) submit(text);
+          }}
+        >
+          <input
+            type="text"
+            className="input input-xs border border-base-300 w-full font-mono"
+            value={text ?? formatLocus(view)}
+            onChange={(e) => setText(e.target.value)}
+            onBlur={() => {
+              if (resolving) return;
+              setText(null);
+              setError(null);
+            }}
+            aria-label="Locus"
+          />
+        </form>
+        <div className="join">
+          <button className="btn btn-xs btn-ghost join-item" onClick={() => go(shifted(-0.5))} title="Pan left">
+            <ChevronLeft size={12} />
+          </button>
+          <button className="btn btn-xs btn-ghost join-item" onClick={() => go(shifted(0.5))} title="Pan right">
+            <ChevronRight size={12} />
+          </button>
+          <button className="btn btn-xs btn-ghost join-item" onClick={() => go(zoomed(0.5))} title="Zoom in">
+            <ZoomIn size={12} />
+          </button>
+          <button className="btn btn-xs btn-ghost join-item" onClick={() => go(zoomed(2))} title="Zoom out">
+            <ZoomOut size={12} />
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-xs text-error">{error}</p>}
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 import { X } from 'lucide-react';
-import type { ActiveFilter } from '../../lib/umap-utils';
+import { formatRangeValue, type ActiveFilter, type RangeFilter } from '../../lib/umap-utils';
 
 type Props = {
   activeFilters: ActiveFilter[];
   currentVariable: string;
+  rangeFilters?: RangeFilter[];
   onRemoveFilter: (id: string) => void;
+  onRemoveRange?: (field: string) => void;
   onClearAll: () => void;
 };
 
-export function ActiveFiltersPanel({ activeFilters, currentVariable, onRemoveFilter, onClearAll }: Props) {
+export function ActiveFiltersPanel({ activeFilters, currentVariable, rangeFilters = [], onRemoveFilter, onRemoveRange, onClearAll }: Props) {
   // Group filters by variable for display
   const byVariable = new Map<string, ActiveFilter[]>();
   for (const f of activeFilters) {
@@ -22,7 +24,7 @@ export function ActiveFiltersPanel({ activeFilters, currentVariable, onRemoveFil
       <div className="px-3 py-2 border-b border-base-300 bg-base-200 flex items-center justify-between sticky top-0 z-10">
         <span className="flex items-center gap-1.5">
           <span className="text-xs font-bold">Filters</span>
-          <span className="text-xs text-base-content/40">({activeFilters.length})</span>
+          <span className="text-xs text-base-content/40">({activeFilters.length + rangeFilters.length})</span>
         </span>
         <button
           onClick={onClearAll}
@@ -56,6 +58,21 @@ export function ActiveFiltersPanel({ activeFilters, currentVariable, onRemoveFil
             );
           })
         ))}
+        {rangeFilters.map((r) => (
+          <span
+            key={r.field}
+            className="inline-flex items-center gap-1 text-[10px] rounded px-1.5 py-0.5 bg-base-200 text-base-content/70"
+          >
+            <span className="font-medium">{r.label}:</span>
+            <span className="truncate max-w-24">{formatRangeValue(r.min)}–{formatRangeValue(r.max)}</span>
+            <button
+              onClick={() => onRemoveRange?.(r.field)}
+              className="hover:text-error cursor-pointer transition-colors shrink-0"
+            >
+              <X size={10} />
+            </button>
+          </span>
+        ))}
       </div>
     </div>
   );
@@ -1,4 +1,5 @@
 import { createRoot, type Root } from 'react-dom/client';
+import { isUploadedPoint } from '../../lib/umap-utils';
 
 /** Shared ref set by EmbeddingPlot to control whether hover tooltips are shown */
 export const tooltipGate = { enabled: false };
@@ -53,7 +54,7 @@ function TooltipContent({
                 </p>
               )}
               <div className="flex flex-wrap gap-1">
-                {tooltip.identifier !== 'custom_point' &&
+                {!isUploadedPoint(tooltip.identifier) &&
                   Object.entries(tooltip.fields)
                     .filter(([key, val]) => key !== 'Description' && val != null && val !== '' && val !== 'UNKNOWN')
                     .map(([key, val]) => (
@@ -66,7 +67,7 @@ function TooltipContent({
               </div>
             </>
           )}
-          {showLink && tooltip.identifier !== 'custom_point' && (
+          {showLink && !isUploadedPoint(tooltip.identifier) && (
             <button
               className="btn btn-xs btn-primary mt-2"
               style={{ pointerEvents: 'auto' }}
@@ -0,0 +1,182 @@
+import { useEffect, useRef, useState } from 'react';
+import * as vg from '@uwdata/vgplot';
+import { ChevronDown } from 'lucide-react';
+import { useMosaicCoordinator } from '../../contexts/mosaic-coordinator-context';
+import {
+  NUMERIC_FIELDS,
+  categoryPredicates,
+  formatRangeValue,
+  type ActiveFilter,
+  type NumericField,
+  type RangeFilter,
+} from '../../lib/umap-utils';
+
+const BIN_COUNT = 30;
+const HISTOGRAM_HEIGHT = 32;
+/** A brush is reported once it has been still this long, so dragging doesn't re-filter the plot on every move */
+const BRUSH_COMMIT_MS = 200;
+
+/** The parts of vgplot's intervalX interactor used here */
+type Interval = {
+  value?: [number, number];
+  reset: () => void;
+  clause: (value: undefined) => Parameters<vg.Selection['update']>[0];
+};
+
+type HistogramProps = {
+  field: NumericField;
+  range: RangeFilter | undefined;
+  crossfilter: vg.Selection;
+  onChange: (range: RangeFilter | null) => void;
+};
+
+function NumericHistogram({ field, range, crossfilter, onChange }: HistogramProps) {
+  const { coordinator, table } = useMosaicCoordinator();
+  const containerRef = useRef<HTMLDivElement>(null);
+  // The plot's brush; its clause is dropped from the crossfilter when cleared from outside
+  const intervalRef = useRef<Interval | null>(null);
+  const onChangeRef = useRef(onChange);
+  useEffect(() => { onChangeRef.current = onChange; });
+  const [ready, setReady] = useState(false);
+
+  const fromScale = (t: number) => (field.log ? 10 ** t : t);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const column = vg.column(field.key);
+    // Log fields are binned on log10 values; non-positive values drop out as NULL
+    const value = field.log ? vg.sql`CASE WHEN ${column} > 0 THEN log10(${column}) END` : column;
+    const api = vg.createAPIContext({ coordinator });
+    const el = api.plot(
+      // Unfiltered distribution behind the crossfiltered one
+      api.rectY(api.from(table), { x: api.bin(value, { steps: BIN_COUNT }), y: api.count(), fill: 'steelblue', fillOpacity: 0.15, inset: 0.5 }),
+      api.rectY(api.from(table, { filterBy: crossfilter }), { x: api.bin(value, { steps: BIN_COUNT }), y: api.count(), fill: 'steelblue', inset: 0.5 }),
+      api.intervalX({ as: crossfilter }),
+      api.xAxis(null),
+      api.yAxis(null),
+      api.margins({ left: 0, right: 0, top: 0, bottom: 0 }),
+      api.width(container.clientWidth || 1),
+      api.height(HISTOGRAM_HEIGHT),
+    );
+    const plot = el.value;
+    const interval: Interval = plot.interactors[0];
+    intervalRef.current = interval;
+    container.replaceChildren(el);
+    let cancelled = false;
+    plot.synch.promise.then(() => { if (!cancelled) setReady(true); });
+
+    let reported: number[] | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const handleValue = () => {
+      const next = crossfilter.valueFor(interval) as number[] | undefined;
+      if (next?.[0] === reported?.[0] && next?.[1] === reported?.[1]) return;
+      reported = next;
+      clearTimeout(timer);
+      timer = setTimeout(() => onChangeRef.current(next
+        ? { field: field.key, label: field.label, min: fromScale(next[0]), max: fromScale(next[1]) }
+        : null), BRUSH_COMMIT_MS);
+    };
+    crossfilter.addEventListener('value', handleValue);
+
+    // Redrawing keeps the brush, which the interactor re-applies from its value
+    const ro = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width);
+      if (width > 0 && plot.setAttribute('width', width)) plot.render();
+    });
+    ro.observe(container);
+
+    return () => {
+      cancelled = true;
+      ro.disconnect();
+      clearTimeout(timer);
+      crossfilter.removeEventListener('value', handleValue);
+      crossfilter.update(interval.clause(undefined));
+      for (const mark of plot.marks) coordinator.disconnect(mark);
+      intervalRef.current = null;
+      el.remove();
+    };
+  }, [coordinator, table, crossfilter, field.key]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Removed from the filter chips or cleared with the others
+  useEffect(() => {
+    const interval = intervalRef.current;
+    if (range || !interval?.value) return;
+    interval.reset();
+    crossfilter.update(interval.clause(undefined));
+  }, [range, crossfilter]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 text-[10px] mb-0.5">
+        <span className="font-medium text-base-content/70">
+          {field.label}
+          {field.log && <span className="font-normal text-base-content/30"> (log)</span>}
+        </span>
+        <span className={`tabular-nums truncate ${range ? 'text-primary' : 'text-base-content/40'}`}>
+          {range ? `${formatRangeValue(range.min)}–${formatRangeValue(range.max)}` : ''}
+        </span>
+      </div>
+      <div className="relative" style={{ height: HISTOGRAM_HEIGHT }} title="Drag to filter by range, click to clear">
+        <div ref={containerRef} className="absolute inset-0" />
+        {!ready && <div className="skeleton skeleton-subtle absolute inset-0 rounded" />}
+      </div>
+    </div>
+  );
+}
+
+type Props = {
+  activeFilters: ActiveFilter[];
+  sqlFilter: string | null;
+  rangeFilters: RangeFilter[];
+  /** Shared with the plot: its lasso and rectangle selections and every brush crossfilter the histograms */
+  crossfilter: vg.Selection;
+  onRangeChange: (field: string, range: RangeFilter | null) => void;
+};
+
+/** Histograms of the numeric fields; brushing one filters the plot and crossfilters the others */
+export function EmbeddingHistograms({ activeFilters, sqlFilter, rangeFilters, crossfilter, onRangeChange }: Props) {
+  const { tier2Loaded } = useMosaicCoordinator();
+  const [collapsed, setCollapsed] = useState(false);
+  const fields = NUMERIC_FIELDS.filter((f) => !f.tier2 || tier2Loaded);
+
+  // Legend pins and the SQL clause filter every histogram
+  const sourceRef = useRef({});
+  useEffect(() => {
+    const predicates = [
+      ...categoryPredicates(activeFilters),
+      ...(sqlFilter ? [vg.sql`(${sqlFilter})`] : []),
+    ];
+    crossfilter.update({
+      source: sourceRef.current,
+      value: predicates.length > 0 ? predicates : null,
+      predicate: predicates.length > 0 ? vg.and(...predicates) : null,
+    });
+  }, [crossfilter, activeFilters, sqlFilter]);
+
+  return (
+    <div className="border border-base-300 rounded-lg bg-base-100 flex flex-col shrink-0">
+      <div className={`px-3 py-2 ${collapsed ? '' : 'border-b border-base-300'} bg-base-200 flex items-center gap-1.5`}>
+        <button onClick={() => setCollapsed(!collapsed)} className="cursor-pointer">
+          <ChevronDown size={12} className={`text-base-content/40 transition-transform ${collapsed ? '-rotate-90' : ''}`} />
+        </button>
+        <span className="text-xs font-bold">Distributions</span>
+        {rangeFilters.length > 0 && (
+          <span className="text-xs text-base-content/40">({rangeFilters.length} brushed)</span>
+        )}
+      </div>
+      {/* Hidden rather than unmounted, so collapsing keeps the brushes */}
+      <div className={collapsed ? 'hidden' : 'p-2 space-y-2'}>
+        {fields.map((field) => (
+          <NumericHistogram
+            key={field.key}
+            field={field}
+            range={rangeFilters.find((r) => r.field === field.key)}
+            crossfilter={crossfilter}
+            onChange={(range) => onRangeChange(field.key, range)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
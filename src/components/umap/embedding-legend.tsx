@@ -1,12 +1,24 @@
 import { useState } from 'react';
-import { Pin, ChevronDown } from 'lucide-react';
+import { Pin, ChevronDown, Eye, EyeOff, Loader2, TriangleAlert } from 'lucide-react';
 import { tableau20 } from '../../lib/tableau20';
 import { sequentialPalette } from '../../lib/sequential-palette';
-import type { LegendItem } from '../../lib/umap-utils';
+import { withProjectedColors, type LegendItem } from '../../lib/umap-utils';
 import { ColorByManager } from './color-by-manager';
 
 const CONTINUOUS_FIELDS = ['number_of_regions', 'mean_region_width', 'gc_content', 'median_tss_dist'];
 
+const CATEGORICAL_COLORS = withProjectedColors(tableau20);
+const SEQUENTIAL_COLORS = withProjectedColors(sequentialPalette);
+
+/** An uploaded file projected next to the active one, listed so it can be shown or hidden */
+export type ProjectedLegendItem = {
+  key: string;
+  name: string;
+  color: string;
+  visible: boolean;
+  status: 'loading' | 'ready' | 'error';
+};
+
 type Props = {
   legendItems: LegendItem[];
   pinnedCategories: number[];
@@ -18,6 +30,8 @@ type Props = {
   tier2Loaded: boolean;
   onLoadTier2: () => void;
   tier2Loading: boolean;
+  projectedItems?: ProjectedLegendItem[];
+  onToggleProjected?: (key: string) => void;
 };
 
 export function EmbeddingLegend({
@@ -31,11 +45,13 @@ export function EmbeddingLegend({
   tier2Loaded,
   onLoadTier2,
   tier2Loading,
+  projectedItems = [],
+  onToggleProjected,
 }: Props) {
   const [collapsed, setCollapsed] = useState(false);
   const pinnedSet = new Set(pinnedCategories);
   const isContinuous = CONTINUOUS_FIELDS.includes(colorGrouping.replace('_category', ''));
-  const palette = isContinuous ? sequentialPalette : tableau20;
+  const palette = isContinuous ? SEQUENTIAL_COLORS : CATEGORICAL_COLORS;
   const getCategoryColor = (category: number) => palette[category] ?? '#888888';
 
   return (
@@ -123,6 +139,40 @@ export function EmbeddingLegend({
                       </tr>
                     );
                   })}
+              {projectedItems.length > 0 && (
+                <tr>
+                  <td className="!px-3 !py-1 bg-base-200 text-[10px] font-bold text-base-content/60 uppercase tracking-wider">
+                    Your files
+                  </td>
+                </tr>
+              )}
+              {projectedItems.map((item) => (
+                <tr
+                  key={item.key}
+                  onClick={() => item.status === 'ready' && onToggleProjected?.(item.key)}
+                  className={`transition-colors ${item.status === 'ready' ? 'cursor-pointer hover:bg-base-200' : ''}`}
+                >
+                  <td className="!p-0">
+                    <div className="flex items-center justify-between gap-1 px-3 py-1" style={{ height: 30 }}>
+                      <span className={`flex items-center gap-2 min-w-0 overflow-hidden ${item.visible ? '' : 'opacity-40'}`}>
+                        <span className="inline-block w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: item.color }} />
+                        <span className="truncate" title={item.name}>{item.name}</span>
+                      </span>
+                      {item.status === 'loading' ? (
+                        <Loader2 size={12} className="shrink-0 animate-spin text-base-content/30" />
+                      ) : item.status === 'error' ? (
+                        <span title="Could not project this file">
+                          <TriangleAlert size={12} className="shrink-0 text-warning" />
+                        </span>
+                      ) : item.visible ? (
+                        <Eye size={12} className="shrink-0 text-base-content/40" />
+                      ) : (
+                        <EyeOff size={12} className="shrink-0 text-base-content/20" />
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
             </tbody>
           </table>
         </div>
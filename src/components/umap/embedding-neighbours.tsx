@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from 'react';
+import * as vg from '@uwdata/vgplot';
+import { isIn } from '@uwdata/mosaic-sql';
+import { ChevronDown, Eye, EyeOff, Loader2 } from 'lucide-react';
+import { useMosaicCoordinator } from '../../contexts/mosaic-coordinator-context';
+import { useBedNeighbours } from '../../queries/use-bed-neighbours';
+import { isUploadedPoint, type UmapPoint } from '../../lib/umap-utils';
+import type { NeighbourLines } from './neighbour-overlay';
+
+const NEIGHBOUR_COUNT = 20;
+
+const FIELDS = [
+  { key: 'assay', label: 'Assay' },
+  { key: 'cell_line', label: 'Cell Line' },
+  { key: 'cell_type', label: 'Cell Type' },
+  { key: 'tissue', label: 'Tissue' },
+  { key: 'target', label: 'Target' },
+] as const;
+
+type FieldKey = (typeof FIELDS)[number]['key'];
+
+type NeighbourRow = {
+  id: string;
+  name: string;
+  x: number | null;
+  y: number | null;
+  /** Plot distance or server similarity score, depending on the source */
+  value: number | null;
+  fields: Record<FieldKey, string | null>;
+};
+
+type Source = 'embedding' | 'plot';
+
+const ROW_COLUMNS = {
+  id: vg.column('id'),
+  name: vg.column('name'),
+  x: vg.column('x'),
+  y: vg.column('y'),
+  ...Object.fromEntries(FIELDS.map((f) => [f.key, vg.column(f.key)])),
+};
+
+/** A table row, or a server result's metadata for files missing from the plot */
+type RawRow = { id: string; name?: string | null; x?: number; y?: number; distance?: number } & Partial<Record<FieldKey, string | null>>;
+
+function toRow(r: RawRow, value: number | null): NeighbourRow {
+  return {
+    id: r.id,
+    name: r.name ?? r.id,
+    x: r.x ?? null,
+    y: r.y ?? null,
+    value,
+    fields: Object.fromEntries(FIELDS.map((f) => [f.key, r[f.key] || null])) as Record<FieldKey, string | null>,
+  };
+}
+
+type Props = {
+  anchor: UmapPoint;
+  onLinesChange: (lines: NeighbourLines | null) => void;
+  onLocate: (id: string) => void;
+};
+
+/**
+ * Nearest neighbours of one selected point, either by similarity in the full
+ * embedding (server) or by distance on the 2-D plot (local), with their
+ * annotations diffed against the selected point.
+ */
+export function EmbeddingNeighbours({ anchor, onLinesChange, onLocate }: Props) {
+  const { coordinator, table } = useMosaicCoordinator();
+  const bedId = isUploadedPoint(anchor.identifier) ? undefined : anchor.identifier;
+  const { data: serverData, isLoading: serverLoading } = useBedNeighbours(bedId, NEIGHBOUR_COUNT);
+
+  const [collapsed, setCollapsed] = useState(false);
+  const [showLines, setShowLines] = useState(true);
+  const [source, setSource] = useState<Source>(bedId ? 'embedding' : 'plot');
+  const [anchorRow, setAnchorRow] = useState<NeighbourRow | null>(null);
+  const [plotRows, setPlotRows] = useState<NeighbourRow[] | null>(null);
+  const [embeddingRows, setEmbeddingRows] = useState<NeighbourRow[] | null>(null);
+
+  const [shownAnchor, setShownAnchor] = useState(anchor.identifier);
+  if (shownAnchor !== anchor.identifier) {
+    setShownAnchor(anchor.identifier);
+    setSource(bedId ? 'embedding' : 'plot');
+    setAnchorRow(null);
+    setPlotRows(null);
+    setEmbeddingRows(null);
+  }
+
+  // Anchor annotations and its nearest points on the plot
+  useEffect(() => {
+    if (anchor.x == null || anchor.y == null) return;
+    let cancelled = false;
+    const self = vg.Query.from(table)
+      .select(ROW_COLUMNS)
+      .where(vg.eq(vg.column('id'), vg.literal(anchor.identifier)));
+    const nearest = vg.Query.from(table)
+      .select({ ...ROW_COLUMNS, distance: vg.sql`sqrt(power(x - ${anchor.x}, 2) + power(y - ${anchor.y}, 2))` })
+      .where(vg.neq(vg.column('id'), vg.literal(anchor.identifier)))
+      .orderby(vg.column('distance'))
+      .limit(NEIGHBOUR_COUNT);
+    Promise.all([
+      coordinator.query(self, { type: 'json' }) as Promise<RawRow[]>,
+      coordinator.query(nearest, { type: 'json' }) as Promise<RawRow[]>,
+    ])
+      .then(([selfResult, nearestResult]) => {
+        if (cancelled) return;
+        setAnchorRow(selfResult?.[0] ? toRow(selfResult[0], null) : null);
+        setPlotRows((nearestResult || []).map((r) => toRow(r, r.distance ?? null)));
+      })
+      .catch((e) => console.error('Neighbour query failed:', e));
+    return () => { cancelled = true; };
+  }, [coordinator, table, anchor.identifier, anchor.x, anchor.y]);
+
+  // Server neighbours, placed on this genome's plot when they're part of it
+  useEffect(() => {
+    const results = serverData?.results;
+    if (!results) return;
+    let cancelled = false;
+    const q = vg.Query.from(table)
+      .select(ROW_COLUMNS)
+      .where(isIn(vg.column('id'), results.map((r) => vg.literal(r.id))));
+    (coordinator.query(q, { type: 'json' }) as Promise<RawRow[]>)
+      .then((result) => {
+        if (cancelled) return;
+        const byId = new Map((result || []).map((r) => [r.id, r]));
+        setEmbeddingRows(results.map((r) => toRow(
+          byId.get(r.id) ?? { id: r.id, name: r.metadata?.name, ...r.metadata?.annotation },
+          r.score ?? null,
+        )));
+      })
+      .catch((e) => console.error('Neighbour lookup failed:', e));
+    return () => { cancelled = true; };
+  }, [coordinator, table, serverData]);
+
+  const rows = source === 'embedding' ? embeddingRows : plotRows;
+  const otherIds = useMemo(
+    () => new Set((source === 'embedding' ? plotRows : embeddingRows)?.map((r) => r.id) ?? []),
+    [source, plotRows, embeddingRows],
+  );
+  const loading = rows === null && (source === 'plot' || serverLoading);
+
+  const lines = useMemo<NeighbourLines | null>(() => {
+    if (!showLines || !rows || anchor.x == null || anchor.y == null) return null;
+    const points = rows.flatMap((r) => (r.x != null && r.y != null ? [{ x: r.x, y: r.y }] : []));
+    return points.length > 0 ? { anchor: { x: anchor.x, y: anchor.y }, points } : null;
+  }, [showLines, rows, anchor.x, anchor.y]);
+
+  useEffect(() => { onLinesChange(lines); }, [lines, onLinesChange]);
+  useEffect(() => () => onLinesChange(null), [onLinesChange]);
+
+  const differs = (row: NeighbourRow, key: FieldKey) => (row.fields[key] ?? '') !== (anchorRow?.fields[key] ?? '');
+  const shared = (key: FieldKey) => rows?.filter((r) => !differs(r, key)).length ?? 0;
+
+  return (
+    <div className={`border border-base-300 rounded-lg bg-base-100 flex flex-col ${collapsed ? 'shrink-0' : 'min-h-0 max-h-80'}`}>
+      <div className={`px-3 py-2 ${collapsed ? '' : 'border-b border-base-300'} bg-base-200 flex items-center gap-1.5 shrink-0`}>
+        <button onClick={() => setCollapsed(!collapsed)} className="cursor-pointer">
+          <ChevronDown size={12} className={`text-base-content/40 transition-transform ${collapsed ? '-rotate-90' : ''}`} />
+        </button>
+        <span className="text-xs font-bold">Neighbours</span>
+        <span className="text-xs text-base-content/40 truncate min-w-0" title={anchor.text}>{anchor.text}</span>
+        <button
+          onClick={() => setShowLines(!showLines)}
+          className="ml-auto p-0.5 rounded hover:bg-base-300 transition-colors cursor-pointer shrink-0"
+          title={showLines ? 'Hide lines on plot' : 'Show lines on plot'}
+        >
+          {showLines ? <Eye size={12} className="text-base-content/50" /> : <EyeOff size={12} className="text-base-content/30" />}
+        </button>
+      </div>
+      {!collapsed && (
+        <>
+          <div className="px-2 pt-2 flex items-center gap-1 shrink-0">
+            <div className="join">
+              <button
+                onClick={() => setSource('embedding')}
+                disabled={!bedId}
+                className={`join-item btn btn-xs ${source === 'embedding' ? 'btn-primary' : 'btn-ghost'}`}
+                title={bedId ? 'Most similar files in the full embedding space' : 'Only BEDbase files have server-side neighbours'}
+              >
+                Embedding
+              </button>
+              <button
+                onClick={() => setSource('plot')}
+                className={`join-item btn btn-xs ${source === 'plot' ? 'btn-primary' : 'btn-ghost'}`}
+                title="Closest points on this 2-D plot"
+              >
+                Plot distance
+              </button>
+            </div>
+            {bedId && embeddingRows && plotRows && (
+              <span className="text-[10px] text-base-content/40 ml-auto" title="Neighbours found by both methods">
+                {embeddingRows.filter((r) => plotRows.some((p) => p.id === r.id)).length}/{NEIGHBOUR_COUNT} in both
+              </span>
+            )}
+          </div>
+          <div className="p-2 overflow-auto overscroll-contain flex-1 min-h-0">
+            {loading ? (
+              <div className="flex items-center gap-2 py-2">
+                <Loader2 size={12} className="animate-spin text-base-content/40" />
+                <span className="text-xs text-base-content/40">Finding neighbours...</span>
+              </div>
+            ) : !rows || rows.length === 0 ? (
+              <p className="text-xs text-base-content/40 py-2">No neighbours found.</p>
+            ) : (
+              <table className="text-[11px] whitespace-nowrap">
+                <thead>
+                  <tr className="text-base-content/40 text-left">
+                    <th className="font-medium pr-2">Name</th>
+                    <th className="font-medium pr-2 text-right">{source === 'embedding' ? 'Score' : 'Dist'}</th>
+                    {FIELDS.map((f) => <th key={f.key} className="font-medium pr-2">{f.label}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b border-base-300">
+                    <td className="pr-2 font-medium max-w-28 truncate" title={anchorRow?.name ?? anchor.text}>{anchorRow?.name ?? anchor.text}</td>
+                    <td className="pr-2" />
+                    {FIELDS.map((f) => (
+                      <td key={f.key} className="pr-2 font-medium max-w-24 truncate" title={anchorRow?.fields[f.key] ?? undefined}>
+                        {anchorRow?.fields[f.key] ?? <span className="text-base-content/20">—</span>}
+                      </td>
+                    ))}
+                  </tr>
+                  {rows.map((row) => (
+                    <tr key={row.id} className="hover:bg-base-200/50">
+                      <td className="pr-2 max-w-28 truncate">
+                        <button
+                          onClick={() => onLocate(row.id)}
+                          disabled={row.x == null}
+                          className="flex items-center gap-1 max-w-full cursor-pointer disabled:cursor-default hover:text-primary disabled:hover:text-base-content/40 disabled:text-base-content/40"
+                          title={row.x == null ? `${row.name} is not on this plot` : `Locate ${row.name}`}
+                        >
+                          {otherIds.has(row.id) && (
+                            <span className="w-1.5 h-1.5 rounded-full bg-primary shrink-0" title="Also a neighbour by the other method" />
+                          )}
+                          <span className="truncate">{row.name}</span>
+                        </button>
+                      </td>
+                      <td className="pr-2 text-right tabular-nums text-base-content/50">
+                        {row.value != null ? row.value.toFixed(source === 'embedding' ? 3 : 2) : ''}
+                      </td>
+                      {FIELDS.map((f) => (
+                        <td
+                          key={f.key}
+                          className={`pr-2 max-w-24 truncate ${differs(row, f.key) ? 'bg-warning/10' : 'text-base-content/30'}`}
+                          title={row.fields[f.key] ?? undefined}
+                        >
+                          {row.fields[f.key] ?? '—'}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                  <tr className="border-t border-base-300 text-base-content/40">
+                    <td className="pr-2">Shared</td>
+                    <td className="pr-2" />
+                    {FIELDS.map((f) => (
+                      <td key={f.key} className="pr-2 tabular-nums">{shared(f.key)}/{rows.length}</td>
+                    ))}
+                  </tr>
+                </tbody>
+              </table>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
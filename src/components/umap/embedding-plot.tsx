@@ -5,11 +5,29 @@ import * as vg from '@uwdata/vgplot';
 import { tableau20 } from '../../lib/tableau20';
 import { sequentialPalette } from '../../lib/sequential-palette';
 import { isIn } from '@uwdata/mosaic-sql';
-import { umapSelectParams, pointInPolygonPredicate, boundingRect, type UmapPoint, type ActiveFilter } from '../../lib/umap-utils';
+import {
+  umapSelectParams,
+  categoryPredicates,
+  rangePredicate,
+  pointInPolygonPredicate,
+  boundingRect,
+  withProjectedColors,
+  FIRST_PROJECTED_CATEGORY,
+  PROJECTED_PREFIX,
+  type UmapPoint,
+  type ActiveFilter,
+  type ProjectedFile,
+  type RangeFilter,
+} from '../../lib/umap-utils';
 import { AtlasTooltip, tooltipGate } from './atlas-tooltip';
+import { NeighbourOverlay, type NeighbourLines } from './neighbour-overlay';
 import { useMosaicCoordinator } from '../../contexts/mosaic-coordinator-context';
 import { useTab } from '../../contexts/tab-context';
 
+const CATEGORICAL_COLORS = withProjectedColors(tableau20);
+const SEQUENTIAL_COLORS = withProjectedColors(sequentialPalette);
+const NO_RANGES: RangeFilter[] = [];
+
 type Props = {
   bedIds?: string[];
   preselectedIds?: string[];
@@ -17,10 +35,22 @@ type Props = {
   height?: number;
   customCoordinates?: number[] | null;
   customFilename?: string;
+  /** Other uploaded files to show as their own points; left untouched when undefined */
+  projectedFiles?: ProjectedFile[];
+  /** Lines drawn from a point to its nearest neighbours */
+  neighbourLines?: NeighbourLines | null;
   simpleTooltip?: boolean;
   colorGrouping?: string;
   onLegendItemsChange?: (items: any[]) => void;
   activeFilters: ActiveFilter[];
+  /** Free-form WHERE clause; matching points are kept on the plot and selected */
+  sqlFilter?: string | null;
+  /** Called when the plot's query fails with the SQL filter applied */
+  onSqlError?: (message: string) => void;
+  /** Brushed numeric ranges; matching points are kept on the plot and selected */
+  rangeFilters?: RangeFilter[];
+  /** Receives the lasso and rectangle selections, so views filtered by it crossfilter with the plot */
+  crossfilter?: vg.Selection;
   // Selection state from parent reducer
   persistentPoints: UmapPoint[];
   interactivePoints: UmapPoint[];
@@ -53,10 +83,16 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
     height,
     customCoordinates,
     customFilename,
+    projectedFiles,
+    neighbourLines,
     simpleTooltip,
     colorGrouping = 'cell_line_category',
     onLegendItemsChange,
     activeFilters,
+    sqlFilter = null,
+    onSqlError,
+    rangeFilters = NO_RANGES,
+    crossfilter,
     persistentPoints,
     interactivePoints,
     pendingPoints,
@@ -71,7 +107,7 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
     className,
   } = props;
 
-  const { coordinator, initializeData, addCustomPoint, deleteCustomPoint, webglStatus } =
+  const { coordinator, table, initializeData, addCustomPoint, deleteCustomPoint, setProjectedFiles, webglStatus } =
     useMosaicCoordinator();
   const { openTab } = useTab();
 
@@ -87,7 +123,7 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
   const [viewportState, setViewportState] = useState<any>(null);
   const [dataVersion, setDataVersion] = useState(0);
   const [rangeSelectionValue, setRangeSelectionValue] = useState<any>(undefined);
-  const [filterTable, setFilterTable] = useState('data');
+  const [filterTable, setFilterTable] = useState(table);
   // Track whether interactive points came from a range/lasso (large) vs point click (small).
   // Range-selected points are excluded from the selection prop to avoid embedding-atlas
   // rebuilding a massive SQL predicate and rendering 1000+ SVG circles.
@@ -96,6 +132,9 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
   const filter = useMemo(() => vg.Selection.intersect(), []);
   // Single source object for all active filters — predicates are AND'd in JS before updating.
   const filterSourceRef = useRef({});
+  // The SQL console and histogram ranges get their own clauses so legend pins don't replace them
+  const sqlSourceRef = useRef({});
+  const rangeSourceRef = useRef({});
 
   // visualSelection: merge persistent + (non-range) interactive + highlight
   // Range-selected points are excluded — they still flow to table/stats via onInteractiveChange
@@ -201,8 +240,8 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
 
     let q;
     if (isContinuous) {
-      // Always query from `data` (not filtered view) so legend shows all categories
-      q = vg.Query.from('data')
+      // Always query the full table (not filtered view) so legend shows all categories
+      q = vg.Query.from(table)
         .select({
           min_val: vg.sql`MIN(${vg.column(colName)})`,
           max_val: vg.sql`MAX(${vg.column(colName)})`,
@@ -211,7 +250,8 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
         .groupby(vg.column(colorGrouping))
         .orderby(vg.column(colorGrouping));
 
-      const rawItems = (await coord.query(q, { type: 'json' })) as any[];
+      const rawItems = ((await coord.query(q, { type: 'json' })) as any[])
+        .filter((r) => r.category < FIRST_PROJECTED_CATEGORY);
 
       // Determine label precision from the overall data range and bin count
       const dataBins = rawItems.filter(
@@ -240,7 +280,7 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
           : `${fmt(r.min_val)} - ${fmt(r.max_val)}`,
       }));
     } else {
-      q = vg.Query.from('data')
+      q = vg.Query.from(table)
         .select({
           name: vg.sql`CASE
             WHEN ${vg.column(colorGrouping)} = ${UPLOADED_CATEGORY} THEN 'Uploaded BED'
@@ -253,7 +293,9 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
         .orderby(vg.column(colorGrouping));
     }
 
-    return (await coord.query(q, { type: 'json' })) as any[];
+    // Projected files are listed by UmapView, which can toggle them
+    return ((await coord.query(q, { type: 'json' })) as any[])
+      .filter((r) => r.category < FIRST_PROJECTED_CATEGORY);
   };
 
   const queryByCategory = async (category: string): Promise<UmapPoint[]> => {
@@ -291,7 +333,7 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
     }
 
     // Cross-variable filters → DuckDB VIEW + remount.
-    // The `data` table is NEVER modified. A view `_data_filtered` is created on top
+    // The genome's table is NEVER modified. A `<table>_filtered` view is created on top
     // of it, and the EmbeddingViewMosaic table prop switches between them.
     const crossFilters = activeFilters.filter((f) => f.variable !== colorGrouping);
     const crossKey = crossFilters.map((f) => `${f.variable}:${f.categoryValue}`).sort().join(',');
@@ -315,11 +357,11 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
             );
             const where = conditions.join(' AND ');
             await coordinator.exec([
-              `CREATE OR REPLACE VIEW _data_filtered AS SELECT * FROM data WHERE ${where}`,
+              `CREATE OR REPLACE VIEW ${table}_filtered AS SELECT * FROM ${table} WHERE ${where}`,
             ]);
-            setFilterTable('_data_filtered');
+            setFilterTable(`${table}_filtered`);
           } else {
-            setFilterTable('data');
+            setFilterTable(table);
           }
           setDataVersion((v) => v + 1);
         } catch (e) {
@@ -334,6 +376,53 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
     onInteractiveChange([]);
   }, [activeFilters, colorGrouping]);
 
+  // Predicates for all active filters (not just the current variable), the SQL clause and ranges
+  const activeFilterPredicates = () => [
+    ...categoryPredicates(activeFilters),
+    ...(sqlFilter ? [vg.sql`(${sqlFilter})`] : []),
+    ...rangeFilters.map(rangePredicate),
+  ];
+
+  // SQL console and histogram ranges: keep matching points on the plot and select them like a
+  // range selection. Runs after the filter effect above, which clears the selection, so matches
+  // are re-selected.
+  const hadClausesRef = useRef(false);
+  useEffect(() => {
+    filter.update({
+      source: sqlSourceRef.current,
+      value: sqlFilter,
+      predicate: sqlFilter ? vg.sql`(${sqlFilter})` : null,
+    });
+    filter.update({
+      source: rangeSourceRef.current,
+      value: rangeFilters.length > 0 ? rangeFilters : null,
+      predicate: rangeFilters.length > 0 ? vg.and(...rangeFilters.map(rangePredicate)) : null,
+    });
+    const hasClauses = !!sqlFilter || rangeFilters.length > 0;
+    const hadClauses = hadClausesRef.current;
+    hadClausesRef.current = hasClauses;
+    if (!hasClauses) {
+      if (hadClauses) onInteractiveChange([]);
+      return;
+    }
+    if (!isReady) return;
+    let cancelled = false;
+    const q = vg.Query.from(filterTable)
+      .select(umapSelectParams(colorGrouping))
+      .where(vg.and(...activeFilterPredicates()));
+    (coordinator.query(q, { type: 'json' }) as Promise<UmapPoint[]>)
+      .then((result) => {
+        if (cancelled) return;
+        setIsRangeInteraction(true);
+        onInteractiveChange(result || []);
+      })
+      .catch((e) => {
+        console.error('Filter selection failed:', e);
+        if (!cancelled && sqlFilter) onSqlError?.(e instanceof Error ? e.message : String(e));
+      });
+    return () => { cancelled = true; };
+  }, [sqlFilter, rangeFilters, isReady, filterTable, activeFilters, colorGrouping]); // eslint-disable-line react-hooks/exhaustive-deps
+
   const handlePointSelection = (dataPoints: any[] | null) => {
     setIsRangeInteraction(false);
     if (!dataPoints || dataPoints.length === 0) {
@@ -347,18 +436,7 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
     if (!value) return;
 
     let predicate: any;
-    // Build filter predicates from all active filters (not just current variable)
-    const byVariable = new Map<string, number[]>();
-    for (const f of activeFilters) {
-      const arr = byVariable.get(f.variable) || [];
-      arr.push(f.categoryValue);
-      byVariable.set(f.variable, arr);
-    }
-    const filterPredicates = [...byVariable.entries()].map(([variable, cats]) =>
-      cats.length === 1
-        ? vg.eq(vg.column(variable), vg.literal(cats[0]))
-        : isIn(vg.column(variable), cats.map((c) => vg.literal(c))),
-    );
+    const filterPredicates = activeFilterPredicates();
 
     if (typeof value === 'object' && 'xMin' in value) {
       // Rectangle selection
@@ -437,12 +515,33 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
     }
   }, [isReady, colorGrouping, onLegendItemsChange]);
 
+  // Sync projected files into the table, then remount so the plot picks them up
+  const projectedKey = projectedFiles?.map((f) => `${f.id}:${f.x}:${f.y}`).join('|');
+  const appliedProjectedRef = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!isReady || !projectedFiles || projectedKey === appliedProjectedRef.current) return;
+    appliedProjectedRef.current = projectedKey;
+    setProjectedFiles(projectedFiles)
+      .then(() => {
+        coordinator.clear();
+        // Projected ids are reassigned on every sync, so drop them from the selection
+        onSetPending(interactivePoints.filter((p) => !p.identifier.startsWith(PROJECTED_PREFIX)));
+        setDataVersion((v) => v + 1);
+      })
+      .catch((error) => console.error('Error adding projected files:', error));
+  }, [isReady, projectedKey]); // eslint-disable-line react-hooks/exhaustive-deps
+
   useEffect(() => {
     initializeData().then(async () => {
       if (customCoordinates) {
         await addCustomPoint(customCoordinates[0], customCoordinates[1], customFilename);
         coordinator.clear();
       }
+      if (projectedFiles) {
+        appliedProjectedRef.current = projectedKey;
+        await setProjectedFiles(projectedFiles);
+        coordinator.clear();
+      }
       setIsReady(true);
     });
   }, []);
@@ -543,7 +642,7 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
           identifier="id"
           text="name"
           category={colorGrouping}
-          categoryColors={isContinuous ? sequentialPalette : tableau20}
+          categoryColors={isContinuous ? SEQUENTIAL_COLORS : CATEGORICAL_COLORS}
           additionalFields={{
             Description: 'description',
             Assay: 'assay',
@@ -570,8 +669,10 @@ export const EmbeddingPlot = forwardRef<EmbeddingPlotRef, Props>((props, ref) =>
               onNavigate: (id: string) => openTab('analysis', 'bed/' + id),
             },
           }}
+          customOverlay={neighbourLines ? { class: NeighbourOverlay, props: neighbourLines } : null}
           selection={visualSelection as any}
           onSelection={handlePointSelection}
+          rangeSelection={crossfilter}
           rangeSelectionValue={rangeSelectionValue}
           onRangeSelection={(e: any) => {
             setRangeSelectionValue(e);
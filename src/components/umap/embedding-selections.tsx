@@ -3,7 +3,7 @@ import { Trash2, Save, ShoppingCart, Pin, ArrowRight, Pencil, Check, X, ChevronD
 import { useBucket } from '../../contexts/bucket-context';
 import { useCart } from '../../contexts/cart-context';
 import { useTab } from '../../contexts/tab-context';
-import type { UmapPoint, LegendItem } from '../../lib/umap-utils';
+import { isUploadedPoint, type UmapPoint, type LegendItem } from '../../lib/umap-utils';
 import type { EmbeddingPlotRef } from './embedding-plot';
 
 type Props = {
@@ -22,7 +22,7 @@ export function EmbeddingSelections({ currentSelection, pinnedCategories, plotRe
   const [editName, setEditName] = useState('');
   const editInputRef = useRef<HTMLInputElement>(null);
 
-  const validPoints = currentSelection.filter((p) => p.identifier !== 'custom_point');
+  const validPoints = currentSelection.filter((p) => !isUploadedPoint(p.identifier));
   const hasSelection = validPoints.length > 0 || pinnedCategories.length > 0;
 
   // Focus input when entering edit mode
@@ -41,7 +41,7 @@ export function EmbeddingSelections({ currentSelection, pinnedCategories, plotRe
       const results = await Promise.all(
         pinnedCategories.map((c) => plotRef.current!.queryByCategory(String(c))),
       );
-      const ids = results.flat().map((p) => p.identifier).filter((id) => id !== 'custom_point');
+      const ids = results.flat().map((p) => p.identifier).filter((id) => !isUploadedPoint(id));
       if (ids.length > 0) {
         // Use legend item name when exactly one category is pinned and no manual points
         const name = pinnedCategories.length === 1
@@ -58,7 +58,7 @@ export function EmbeddingSelections({ currentSelection, pinnedCategories, plotRe
       const results = await Promise.all(
         pinnedCategories.map((c) => plotRef.current!.queryByCategory(String(c))),
       );
-      points = results.flat().filter((p) => p.identifier !== 'custom_point');
+      points = results.flat().filter((p) => !isUploadedPoint(p.identifier));
     }
     for (const p of points) {
       addToCart({
@@ -0,0 +1,197 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Loader2, X } from 'lucide-react';
+import { useMosaicCoordinator } from '../../contexts/mosaic-coordinator-context';
+
+type Column = { name: string; type: string };
+
+const MAX_SUGGESTIONS = 8;
+
+type Props = {
+  /** WHERE clause currently applied to the plot, or null */
+  sqlFilter: string | null;
+  /** Error from the plot's query with the filter applied */
+  plotError?: string | null;
+  onApply: (where: string | null) => void;
+};
+
+/**
+ * Free-form WHERE clause over the genome's table, validated by DuckDB before
+ * it's applied; checked in parentheses, as the plot combines it with other filters
+ */
+export function EmbeddingSqlConsole({ sqlFilter, plotError = null, onApply }: Props) {
+  const { coordinator, table, tier2Loaded } = useMosaicCoordinator();
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const [collapsed, setCollapsed] = useState(sqlFilter === null);
+  const [text, setText] = useState(sqlFilter ?? '');
+  const [columns, setColumns] = useState<Column[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [count, setCount] = useState<number | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const [highlighted, setHighlighted] = useState(0);
+
+  // Schema for autocomplete; tier 2 adds columns
+  useEffect(() => {
+    let cancelled = false;
+    (coordinator.query(`DESCRIBE ${table}`, { type: 'json' }) as Promise<{ column_name: string; column_type: string }[]>)
+      .then((result) => {
+        if (!cancelled) setColumns((result || []).map((c) => ({ name: c.column_name, type: c.column_type })));
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [coordinator, table, tier2Loaded]);
+
+  // Cleared from outside (e.g. genome switch)
+  const [shownFilter, setShownFilter] = useState(sqlFilter);
+  if (shownFilter !== sqlFilter) {
+    setShownFilter(sqlFilter);
+    if (sqlFilter === null) {
+      setText('');
+      setCount(null);
+      setError(null);
+    }
+  }
+
+  const shownError = error ?? plotError;
+
+  const word = text.slice(0, caret).match(/[A-Za-z_][A-Za-z0-9_]*$/)?.[0] ?? '';
+  const suggestions = word
+    ? columns
+        .filter((c) => c.name.toLowerCase().startsWith(word.toLowerCase()) && c.name !== word)
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const complete = (column: string) => {
+    const start = caret - word.length;
+    const next = text.slice(0, start) + column + text.slice(caret);
+    setText(next);
+    setHighlighted(0);
+    const pos = start + column.length;
+    setCaret(pos);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(pos, pos));
+  };
+
+  const clear = () => {
+    setText('');
+    setCount(null);
+    setError(null);
+    onApply(null);
+  };
+
+  const apply = async () => {
+    const where = text.trim();
+    if (!where) {
+      clear();
+      return;
+    }
+    setChecking(true);
+    try {
+      const result = (await coordinator.query(
+        `SELECT COUNT(*) AS count FROM ${table} WHERE (${where})`,
+        { type: 'json' },
+      )) as { count: number }[];
+      setCount(Number(result[0]?.count ?? 0));
+      setError(null);
+      onApply(where);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setHighlighted((h) => (h + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        complete(suggestions[Math.min(highlighted, suggestions.length - 1)].name);
+        return;
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      apply();
+    }
+  };
+
+  return (
+    <div className="border border-base-300 rounded-lg bg-base-100 flex flex-col shrink-0">
+      <div className={`px-3 py-2 ${collapsed ? '' : 'border-b border-base-300'} bg-base-200 flex items-center gap-1.5`}>
+        <button onClick={() => setCollapsed(!collapsed)} className="cursor-pointer">
+          <ChevronDown size={12} className={`text-base-content/40 transition-transform ${collapsed ? '-rotate-90' : ''}`} />
+        </button>
+        <span className="text-xs font-bold">SQL filter</span>
+        {sqlFilter && (
+          <span className="text-xs text-primary truncate min-w-0" title={sqlFilter}>active</span>
+        )}
+      </div>
+      {!collapsed && (
+        <div className="p-2 space-y-1.5">
+          <div className="relative">
+            <textarea
+              ref={inputRef}
+              rows={2}
+              spellCheck={false}
+              className={`textarea textarea-xs w-full font-mono text-[11px] leading-snug resize-y ${shownError ? 'textarea-error' : ''}`}
+              placeholder="assay = 'ChIP-seq' AND number_of_regions > 10000"
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setCaret(e.target.selectionStart);
+                setHighlighted(0);
+                setError(null);
+              }}
+              onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+              onKeyDown={handleKeyDown}
+            />
+            {suggestions.length > 0 && (
+              <ul className="absolute z-20 left-0 top-full mt-0.5 bg-base-100 border border-base-300 rounded-lg shadow-lg w-full py-1">
+                {suggestions.map((c, i) => (
+                  <li key={c.name}>
+                    <button
+                      onMouseDown={(e) => {
+                        e.preventDefault();
+                        complete(c.name);
+                      }}
+                      className={`w-full flex items-center justify-between gap-2 px-2 py-0.5 text-[11px] text-left cursor-pointer ${
+                        i === highlighted ? 'bg-primary/10 text-primary' : 'hover:bg-base-200'
+                      }`}
+                    >
+                      <span className="font-mono truncate">{c.name}</span>
+                      <span className="text-base-content/40 shrink-0">{c.type.toLowerCase()}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          {shownError && <p className="text-[11px] text-error break-words">{shownError}</p>}
+          <div className="flex items-center gap-1.5">
+            <button
+              onClick={apply}
+              disabled={checking}
+              className="btn btn-xs btn-primary h-[20px] min-h-0 text-[10px] px-2"
+            >
+              {checking ? <Loader2 size={10} className="animate-spin" /> : 'Apply'}
+            </button>
+            {sqlFilter && (
+              <button onClick={clear} className="btn btn-xs btn-soft btn-error h-[20px] min-h-0 text-[10px] px-1.5">
+                <X size={10} />
+                Clear
+              </button>
+            )}
+            <span className="ml-auto text-[10px] text-base-content/40">
+              {sqlFilter && count !== null ? `${count.toLocaleString()} matching` : 'Enter to apply, Tab to complete'}
+            </span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
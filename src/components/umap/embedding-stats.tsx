@@ -12,13 +12,13 @@ type Props = {
 };
 
 export function EmbeddingStats({ selectedPoints, colorGrouping, legendItems, pinnedCategories }: Props) {
-  const { coordinator } = useMosaicCoordinator();
+  const { coordinator, table } = useMosaicCoordinator();
   const [totalCounts, setTotalCounts] = useState<Map<number, number>>(new Map());
   const [collapsed, setCollapsed] = useState(false);
 
   useEffect(() => {
     if (!coordinator || legendItems.length === 0) return;
-    const q = vg.Query.from('data')
+    const q = vg.Query.from(table)
       .select({ category: vg.column(colorGrouping), count: vg.sql`COUNT(*)` })
       .groupby(vg.column(colorGrouping));
     coordinator
@@ -29,7 +29,7 @@ export function EmbeddingStats({ selectedPoints, colorGrouping, legendItems, pin
         setTotalCounts(map);
       })
       .catch(() => {});
-  }, [coordinator, colorGrouping, legendItems.length]);
+  }, [coordinator, table, colorGrouping, legendItems.length]);
 
   const hasSelection = selectedPoints.length > 0;
 
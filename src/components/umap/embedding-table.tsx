@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import { FlaskConical, MinusCircle, Table2 } from 'lucide-react';
 import { useTab } from '../../contexts/tab-context';
-import type { UmapPoint } from '../../lib/umap-utils';
+import { isUploadedPoint, type UmapPoint } from '../../lib/umap-utils';
 
 type Props = {
   selectedPoints: UmapPoint[];
@@ -24,7 +24,7 @@ function classifyPoint(
   bucketIds?: Set<string>,
 ): RowKind {
   if (preselectedIds?.has(identifier)) return 'pinned';
-  if (identifier === 'custom_point') return 'custom';
+  if (isUploadedPoint(identifier)) return 'custom';
   if (bucketIds?.has(identifier)) return 'bucket';
   return 'interactive';
 }
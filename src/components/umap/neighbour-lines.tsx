@@ -0,0 +1,28 @@
+type Point = { x: number; y: number };
+
+export type NeighbourLinesProps = {
+  anchor: Point;
+  points: Point[];
+  proxy: {
+    location: (x: number, y: number) => Point;
+    width: number;
+    height: number;
+  };
+};
+
+export function NeighbourLinesSvg({ proxy, anchor, points }: NeighbourLinesProps) {
+  const from = proxy.location(anchor.x, anchor.y);
+  return (
+    <svg width={proxy.width} height={proxy.height} style={{ position: 'absolute', top: 0, left: 0, pointerEvents: 'none' }}>
+      {points.map((p, i) => {
+        const to = proxy.location(p.x, p.y);
+        return (
+          <g key={i}>
+            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="var(--color-primary)" strokeWidth={1} strokeOpacity={0.6} />
+            <circle cx={to.x} cy={to.y} r={3} fill="none" stroke="var(--color-primary)" strokeWidth={1} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
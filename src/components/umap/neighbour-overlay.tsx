@@ -0,0 +1,23 @@
+import { createRoot, type Root } from 'react-dom/client';
+import { NeighbourLinesSvg, type NeighbourLinesProps } from './neighbour-lines';
+
+export type NeighbourLines = Pick<NeighbourLinesProps, 'anchor' | 'points'>;
+
+/** Draws lines from a point to its neighbours; follows pan and zoom through the plot's proxy */
+export class NeighbourOverlay {
+  private root: Root;
+
+  constructor(target: HTMLElement, props: NeighbourLinesProps) {
+    this.root = createRoot(target);
+    this.update(props);
+  }
+
+  update(props: NeighbourLinesProps) {
+    this.root.render(<NeighbourLinesSvg {...props} />);
+  }
+
+  destroy() {
+    // Defer unmount to avoid "synchronously unmount during render" error
+    setTimeout(() => this.root.unmount(), 0);
+  }
+}
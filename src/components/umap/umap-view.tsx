@@ -1,20 +1,40 @@
 import { useState, useRef, useEffect, useMemo, useCallback, useReducer } from 'react';
-import { Upload, X, Eye, EyeOff, Crosshair, Loader2, Pin, ChevronDown, Info } from 'lucide-react';
+import * as vg from '@uwdata/vgplot';
+import { Upload, X, Eye, EyeOff, Crosshair, Loader2, Pin, ChevronDown, Info, Dna, Layers } from 'lucide-react';
 import { useUploadedFiles } from '../../contexts/uploaded-files-context';
 import { useSearchParams } from 'react-router-dom';
 import { useFile } from '../../contexts/file-context';
+import { useFileSet } from '../../contexts/fileset-context';
 import { useBucket } from '../../contexts/bucket-context';
-import { useBedUmap } from '../../queries/use-bed-umap';
+import { useBedUmap, useFileProjections } from '../../queries/use-bed-umap';
 import { EmbeddingPlot, type EmbeddingPlotRef } from './embedding-plot';
-import { EmbeddingLegend } from './embedding-legend';
+import { EmbeddingLegend, type ProjectedLegendItem } from './embedding-legend';
 import { EmbeddingTable } from './embedding-table';
 import { EmbeddingSelections } from './embedding-selections';
 import { ActiveFiltersPanel } from './active-filters';
 import { EmbeddingStats } from './embedding-stats';
+import { EmbeddingNeighbours } from './embedding-neighbours';
+import { EmbeddingSqlConsole } from './embedding-sql-console';
+import { EmbeddingHistograms } from './embedding-histograms';
+import type { NeighbourLines } from './neighbour-overlay';
 import { ColorByManager } from './color-by-manager';
 import { useMosaicCoordinator } from '../../contexts/mosaic-coordinator-context';
-import type { UmapPoint, LegendItem, ActiveFilter } from '../../lib/umap-utils';
+import {
+  UMAP_GENOMES,
+  FIRST_PROJECTED_CATEGORY,
+  MAX_PROJECTED_FILES,
+  PROJECTED_PREFIX,
+  PROJECTION_GENOME,
+  projectedColor,
+  type UmapPoint,
+  type LegendItem,
+  type ActiveFilter,
+  type UmapGenome,
+  type ProjectedFile,
+  type RangeFilter,
+} from '../../lib/umap-utils';
 import { getGroupingLabel } from './color-by-manager';
+import { fileKey } from '../../lib/workspace-store';
 
 type SelectionState = {
   preselected: UmapPoint[];
@@ -56,20 +76,24 @@ function dedup(...arrays: UmapPoint[][]): UmapPoint[] {
 }
 
 export function UmapView() {
-  const { bedFile, setBedFile, umapCoordinates, setUmapCoordinates, lockFileSwitch, unlockFileSwitch } = useFile();
+  const { bedFile, setBedFile, umapCoordinates, umapGenome, setUmapCoordinates, lockFileSwitch, unlockFileSwitch } = useFile();
   const { enabledBedIds, removeBedFromEnabled, resetBucketsOnMount } = useBucket();
   const [searchParams, setSearchParams] = useSearchParams();
   const getBedUmap = useBedUmap();
 
   const { files: uploadedFiles, addFiles, setActiveIndex } = useUploadedFiles();
+  const { files: comparisonFiles, cached: comparison } = useFileSet();
   const plotRef = useRef<EmbeddingPlotRef>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [fileVisible, setFileVisible] = useState(true);
   const [showFilePicker, setShowFilePicker] = useState(false);
   const [showInfo, setShowInfo] = useState(false);
+  const [showGenomePicker, setShowGenomePicker] = useState(false);
+  const [projectAll, setProjectAll] = useState(false);
+  const [hiddenProjected, setHiddenProjected] = useState<Set<string>>(new Set());
   const filePickerRef = useRef<HTMLDivElement>(null);
 
-  const { ensureGrouping, loadTier2, tier2Loaded, tier2Loading } = useMosaicCoordinator();
+  const { genome, setGenome, ensureGrouping, loadTier2, tier2Loaded, tier2Loading } = useMosaicCoordinator();
 
   // State managed here, not in context
   const [colorGrouping, setColorGroupingRaw] = useState('cell_line_category');
@@ -79,6 +103,22 @@ export function UmapView() {
   }, [ensureGrouping]);
   const [legendItems, setLegendItems] = useState<LegendItem[]>([]);
   const [activeFilters, setActiveFilters] = useState<ActiveFilter[]>([]);
+  const [sqlFilter, setSqlFilter] = useState<string | null>(null);
+  // The filter passed DuckDB's check but failed in the plot's own query
+  const [sqlError, setSqlError] = useState<string | null>(null);
+  const applySqlFilter = (where: string | null) => {
+    setSqlError(null);
+    setSqlFilter(where);
+  };
+  const [rangeFilters, setRangeFilters] = useState<RangeFilter[]>([]);
+  // Lasso and brushes crossfilter the histograms; each genome's table gets its own selection
+  const crossfilter = useMemo(() => vg.Selection.crossfilter(), [genome]); // eslint-disable-line react-hooks/exhaustive-deps
+  const handleRangeChange = useCallback((field: string, range: RangeFilter | null) => {
+    setRangeFilters((prev) => {
+      const rest = prev.filter((r) => r.field !== field);
+      return range ? [...rest, range] : rest;
+    });
+  }, []);
 
   // Derive pinnedCategories from activeFilters for the current variable
   const pinnedCategories = useMemo(
@@ -86,9 +126,58 @@ export function UmapView() {
     [activeFilters, colorGrouping],
   );
   // umapCoordinates is persisted in FileContext so it survives UmapView remounts (e.g., split view)
-  // Pass null to the plot when hidden to remove the point without clearing the cache
-  const customCoordinates = fileVisible ? umapCoordinates : null;
+  // Pass null to the plot when hidden, or projected into another genome, to remove the point
+  // without clearing the cache
+  const fileInOtherGenome = umapGenome !== null && umapGenome !== genome;
+  const customCoordinates = fileVisible && !fileInOtherGenome ? umapCoordinates : null;
   const setCustomCoordinates = setUmapCoordinates;
+
+  // Every other uploaded or compared file, projected on request; the active file stays `custom_point`
+  const otherFiles = useMemo(() => {
+    const seen = new Set(bedFile ? [fileKey(bedFile)] : []);
+    const parsed = comparison?.parsedFiles ? [...comparison.parsedFiles.values()] : [];
+    const result: File[] = [];
+    for (const file of [...uploadedFiles, ...comparisonFiles, ...parsed]) {
+      const key = fileKey(file);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(file);
+    }
+    return result.slice(0, MAX_PROJECTED_FILES);
+  }, [bedFile, uploadedFiles, comparisonFiles, comparison]);
+  // Uploads are only projected into one embedding, so other genomes don't show them
+  const canProject = genome === PROJECTION_GENOME;
+  const showProjected = projectAll && canProject;
+  const projections = useFileProjections(otherFiles, showProjected);
+  // Ids and categories follow the file's slot, so colors stay put while others are hidden
+  const projectedFiles = useMemo<ProjectedFile[]>(() => {
+    if (!showProjected) return [];
+    return projections.flatMap((p, i) =>
+      p.coordinates && !hiddenProjected.has(fileKey(p.file))
+        ? [{ id: `${PROJECTED_PREFIX}${i}`, name: p.file.name, x: p.coordinates[0], y: p.coordinates[1], category: FIRST_PROJECTED_CATEGORY + i }]
+        : [],
+    );
+  }, [showProjected, projections, hiddenProjected]);
+  const projectedItems = useMemo<ProjectedLegendItem[]>(() => {
+    if (!showProjected) return [];
+    return projections.map((p, i) => ({
+      key: fileKey(p.file),
+      name: p.file.name,
+      color: projectedColor(i),
+      visible: !hiddenProjected.has(fileKey(p.file)),
+      status: p.coordinates ? 'ready' : p.error ? 'error' : 'loading',
+    }));
+  }, [showProjected, projections, hiddenProjected]);
+
+  const toggleProjected = useCallback((key: string) => {
+    setHiddenProjected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  }, []);
+  const [neighbourLines, setNeighbourLines] = useState<NeighbourLines | null>(null);
   const [preselectedMatch, setPreselectedMatch] = useState<{ matched: number; total: number }>({ matched: 0, total: 0 });
 
   // Consolidated selection state
@@ -99,6 +188,22 @@ export function UmapView() {
     pending: null,
   });
 
+  // Category indices, filters and selections belong to one genome's table, so they reset
+  // whenever the genome changes (here or e.g. from "View on UMAP"); the plot remounts,
+  // keyed by genome, and re-queries pinned and bucket points
+  const [shownGenome, setShownGenome] = useState(genome);
+  if (shownGenome !== genome) {
+    setShownGenome(genome);
+    setColorGroupingRaw('cell_line_category');
+    setLegendItems([]);
+    setActiveFilters([]);
+    setSqlFilter(null);
+    setSqlError(null);
+    setRangeFilters([]);
+    dispatch({ type: 'CLEAR_INTERACTIVE' });
+    dispatch({ type: 'SET_PENDING', points: null });
+  }
+
   // Derived: persistent = preselected + bucket (deduplicated)
   const persistentPoints = useMemo(
     () => dedup(selection.preselected, selection.bucket),
@@ -111,6 +216,9 @@ export function UmapView() {
     [persistentPoints, selection.interactive],
   );
 
+  // Neighbours are shown for a single clicked point
+  const neighbourAnchor = selection.interactive.length === 1 ? selection.interactive[0] : null;
+
   // URL params → preselected IDs (sticky until cleared)
   const preselectedIds = useMemo(() => {
     const single = searchParams.get('bed');
@@ -182,11 +290,20 @@ export function UmapView() {
     if (preselectedIds.length > 0) clearPreselection();
     lockFileSwitch('umap');
     getBedUmap.mutate(bedFile, {
-      onSuccess: (coords) => { setCustomCoordinates(coords); unlockFileSwitch('umap'); },
+      onSuccess: (coords) => {
+        setCustomCoordinates(coords, PROJECTION_GENOME);
+        setGenome(PROJECTION_GENOME);
+        unlockFileSwitch('umap');
+      },
       onError: () => { console.error('Failed to project file onto UMAP'); unlockFileSwitch('umap'); },
     });
   }, [bedFile]);
 
+  const switchGenome = (next: UmapGenome) => {
+    setShowGenomePicker(false);
+    setGenome(next);
+  };
+
   // Release lock on unmount so it doesn't stay locked if UMAP tab is closed
   useEffect(() => () => unlockFileSwitch('umap'), [unlockFileSwitch]);
 
@@ -339,6 +456,18 @@ export function UmapView() {
             )}
             {/* File controls — top right */}
             <div className="absolute top-2 right-2 z-10 flex items-center gap-1.5" ref={filePickerRef}>
+              {otherFiles.length > 0 && canProject && (
+                <button
+                  onClick={() => setProjectAll(!projectAll)}
+                  className={`inline-flex items-center gap-1.5 text-xs font-medium px-2.5 py-1.5 rounded-md transition-colors cursor-pointer ${
+                    projectAll ? 'bg-primary/10 text-primary hover:bg-primary/20' : 'text-base-content/65 hover:text-base-content/80 bg-base-200 hover:bg-base-300'
+                  }`}
+                  title={projectAll ? 'Hide your other files' : `Project your other ${otherFiles.length === 1 ? 'file' : `${otherFiles.length} files`} onto the plot`}
+                >
+                  <Layers size={12} />
+                  {projectAll ? `${projectedFiles.length}/${otherFiles.length} files` : 'All files'}
+                </button>
+              )}
               {bedFile ? (
                 <>
                   {/* Action buttons */}
@@ -346,6 +475,15 @@ export function UmapView() {
                     <div className="w-7 h-7 rounded-md bg-base-200 flex items-center justify-center">
                       <Loader2 size={12} className="animate-spin text-primary" />
                     </div>
+                  ) : fileVisible && fileInOtherGenome ? (
+                    <button
+                      onClick={() => switchGenome(umapGenome!)}
+                      className="inline-flex items-center gap-1 text-xs font-medium bg-warning/10 text-warning hover:bg-warning/20 rounded-md px-2.5 py-1.5 cursor-pointer transition-colors"
+                      title={`This file is projected into the ${umapGenome} embedding`}
+                    >
+                      <Dna size={12} />
+                      Show in {umapGenome}
+                    </button>
                   ) : fileVisible ? (
                     <button
                       onClick={handleLocateCustomPoint}
@@ -416,12 +554,17 @@ export function UmapView() {
               />
             </div>
             <EmbeddingPlot
+              key={genome}
               ref={plotRef}
               bedIds={bedIds.length > 0 ? bedIds : undefined}
               preselectedIds={preselectedIds.length > 0 ? preselectedIds : undefined}
               height={undefined}
               colorGrouping={colorGrouping}
               activeFilters={activeFilters}
+              sqlFilter={sqlFilter}
+              onSqlError={setSqlError}
+              rangeFilters={rangeFilters}
+              crossfilter={crossfilter}
               persistentPoints={persistentPoints}
               interactivePoints={selection.interactive}
               pendingPoints={selection.pending}
@@ -435,6 +578,8 @@ export function UmapView() {
               highlightPoints={[]}
               customCoordinates={customCoordinates}
               customFilename={bedFile?.name}
+              projectedFiles={projectedFiles}
+              neighbourLines={neighbourAnchor ? neighbourLines : null}
               simpleTooltip={false}
               showStatus
               className="h-full"
@@ -448,6 +593,38 @@ export function UmapView() {
               >
                 <Info size={13} />
               </button>
+              {UMAP_GENOMES.length > 1 && (
+                <div className="relative">
+                  <button
+                    onClick={() => setShowGenomePicker(!showGenomePicker)}
+                    className="inline-flex items-center gap-1.5 text-xs font-medium text-base-content/65 hover:text-base-content/80 bg-base-200 hover:bg-base-300 px-2.5 py-1.5 rounded-md transition-colors cursor-pointer"
+                    title={`Genome: ${genome}`}
+                  >
+                    <Dna size={12} />
+                    {genome}
+                  </button>
+                  {showGenomePicker && (
+                    <>
+                      <div className="fixed inset-0 z-40" onClick={() => setShowGenomePicker(false)} />
+                      <ul className="absolute z-50 left-0 bottom-full mb-1 bg-base-100 border border-base-300 rounded-lg shadow-lg w-32 py-1">
+                        {UMAP_GENOMES.map((g) => (
+                          <li key={g}>
+                            <button
+                              onClick={() => switchGenome(g)}
+                              className={`w-full text-left px-3 py-1 text-xs hover:bg-base-200 transition-colors cursor-pointer ${
+                                g === genome ? 'bg-primary/10 text-primary font-medium' : ''
+                              }`}
+                            >
+                              {g}
+                              {g === umapGenome && <span className="text-base-content/40 font-normal"> · your file</span>}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
+                </div>
+              )}
               <ColorByManager
                 colorGrouping={colorGrouping}
                 setColorGrouping={setColorGrouping}
@@ -470,7 +647,7 @@ export function UmapView() {
                 </div>
                 <div className="overflow-auto p-4 space-y-3">
                   <p className="text-xs text-base-content/60 leading-relaxed">
-                    This UMAP visualizes BEDbase's hg38 BED files as points in a 2D embedding space. Files with similar genomic region content appear closer together, even if they come from different experiments or labs.
+                    This UMAP visualizes BEDbase's {genome} BED files as points in a 2D embedding space. Files with similar genomic region content appear closer together, even if they come from different experiments or labs.
                   </p>
                   <p className="text-xs text-base-content/60 leading-relaxed">
                     Each file is embedded using a pre-trained region embedding model, and the resulting vectors are projected via UMAP for visualization.
@@ -482,7 +659,12 @@ export function UmapView() {
                       <li>Lasso or range-select to capture groups of points</li>
                       <li>Save selections to compare across sessions</li>
                       <li>Upload a BED file to see where it falls in the space</li>
+                    <li>Use "All files" to project every uploaded and compared file at once</li>
+                    <li>Switch genomes to explore another assembly's files</li>
+                      <li>Click a single point to list its nearest neighbours</li>
                       <li>Use the legend to filter and pin categories</li>
+                      <li>Drag across a histogram in "Distributions" to filter by a numeric range</li>
+                      <li>Write a SQL condition in "SQL filter" to select matching files</li>
                     </ul>
                   </div>
                 </div>
@@ -510,13 +692,35 @@ export function UmapView() {
             tier2Loaded={tier2Loaded}
             onLoadTier2={loadTier2}
             tier2Loading={tier2Loading}
+            projectedItems={projectedItems}
+            onToggleProjected={toggleProjected}
           />
-          {activeFilters.length > 0 && (
+          {(activeFilters.length > 0 || rangeFilters.length > 0) && (
             <ActiveFiltersPanel
               activeFilters={activeFilters}
               currentVariable={colorGrouping}
+              rangeFilters={rangeFilters}
               onRemoveFilter={(id) => setActiveFilters((prev) => prev.filter((f) => f.id !== id))}
-              onClearAll={() => setActiveFilters([])}
+              onRemoveRange={(field) => handleRangeChange(field, null)}
+              onClearAll={() => {
+                setActiveFilters([]);
+                setRangeFilters([]);
+              }}
+            />
+          )}
+          <EmbeddingHistograms
+            activeFilters={activeFilters}
+            sqlFilter={sqlFilter}
+            rangeFilters={rangeFilters}
+            crossfilter={crossfilter}
+            onRangeChange={handleRangeChange}
+          />
+          <EmbeddingSqlConsole sqlFilter={sqlFilter} plotError={sqlError} onApply={applySqlFilter} />
+          {neighbourAnchor && (
+            <EmbeddingNeighbours
+              anchor={neighbourAnchor}
+              onLinesChange={setNeighbourLines}
+              onLocate={(id) => plotRef.current?.centerOnBedId(id)}
             />
           )}
           <EmbeddingSelections currentSelection={allVisiblePoints} pinnedCategories={pinnedCategories} plotRef={plotRef} legendItems={legendItems} />
@@ -20,6 +20,8 @@ type BucketContextValue = {
   removeBedFromEnabled: (bedId: string) => void;
   reorderBuckets: (orderedIds: string[]) => void;
   clearBuckets: () => void;
+  /** Replace all buckets, e.g. when importing a workspace */
+  replaceBuckets: (buckets: SelectionBucket[]) => void;
   focusBucket: (id: string) => void;
   resetBucketsOnMount: () => void;
   enabledBedIds: string[];
@@ -128,6 +130,10 @@ export function BucketProvider({ children }: { children: ReactNode }) {
 
   const clearBuckets = () => setBuckets([]);
 
+  const replaceBuckets = (next: SelectionBucket[]) => {
+    setBuckets(next.map((b) => ({ ...b, enabled: false })));
+  };
+
   const skipNextReset = useRef(false);
 
   const focusBucket = (id: string) => {
@@ -163,6 +169,7 @@ export function BucketProvider({ children }: { children: ReactNode }) {
     removeBedFromEnabled,
     reorderBuckets,
     clearBuckets,
+    replaceBuckets,
     focusBucket,
     resetBucketsOnMount,
     enabledBedIds,
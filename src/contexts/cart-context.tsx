@@ -16,6 +16,8 @@ type CartContextValue = {
   addToCart: (item: CartItem) => void;
   removeFromCart: (id: string) => void;
   clearCart: () => void;
+  /** Replace the cart contents, e.g. when importing a workspace */
+  replaceCart: (items: CartItem[]) => void;
   isInCart: (id: string) => boolean;
   cartCount: number;
 };
@@ -63,11 +65,18 @@ export function CartProvider({ children }: { children: ReactNode }) {
     setCart(empty);
   };
 
+  const replaceCart = (items: CartItem[]) => {
+    const next: Record<string, CartItem> = {};
+    for (const item of items) next[item.id] = item;
+    saveCart(next);
+    setCart(next);
+  };
+
   const isInCart = (id: string) => id in cart;
   const cartCount = Object.keys(cart).length;
 
   return (
-    <CartContext.Provider value={{ cart, addToCart, removeFromCart, clearCart, isInCart, cartCount }}>
+    <CartContext.Provider value={{ cart, addToCart, removeFromCart, clearCart, replaceCart, isInCart, cartCount }}>
       {children}
     </CartContext.Provider>
   );
@@ -8,16 +8,26 @@ import {
   useRef,
   type ReactNode,
 } from 'react';
-import { RegionSet } from '@databio/gtars';
-import type { BedEntry } from '../lib/bed-parser';
-import { fromRegionSet, type BedAnalysis } from '../lib/bed-analysis';
+import type { BedAnalysis, RefGenomicDistResult } from '../lib/bed-analysis';
+import {
+  AnalysisWorkerClient,
+  isAbortError,
+  type RegionSetSummary,
+} from '../lib/analysis-worker-client';
+import type { ValidationReport } from '../lib/bed-validation';
+import type { Locus, TrackWindow } from '../lib/genome-browser';
+import { loadChromSizes } from '../lib/reference-data';
+import { loadFileResults, saveFileResults, fileKey } from '../lib/workspace-store';
 import { useAnalyzeGenome } from '../queries/use-analyze-genome';
+import { projectBedFile } from '../queries/use-bed-umap';
 import { useApi } from './api-context';
+import { DEFAULT_UMAP_GENOME, PROJECTION_GENOME, type UmapGenome } from '../lib/umap-utils';
 
 type FileContextValue = {
   bedFile: File | null;
   setBedFile: (file: File | null) => void;
-  regionSet: RegionSet | null;
+  /** Handle for the active file's RegionSet, which lives in the analysis worker */
+  regionSet: RegionSetSummary | null;
   parsing: boolean;
   parseProgress: number;
   parseError: string | null;
@@ -25,8 +35,24 @@ type FileContextValue = {
   analysis: BedAnalysis | null;
   analyzing: boolean;
   analysisProgress: number;
+  /** Run reference-dependent genomicdist (TSS distances, partitions) in the worker */
+  computeRefGenomicdist: (genome: string, signal?: AbortSignal) => Promise<RefGenomicDistResult>;
+  /** Strict validation report; null until `validate` is called for the active file */
+  validation: ValidationReport | null;
+  validating: boolean;
+  /** Why the last `validate` call failed; cleared when it's called again */
+  validationError: string | null;
+  /** Stream the active file through the strict validator, with bounds when the genome is known */
+  validate: () => void;
+  /** Build a cleaned BED copy of the active file in the worker */
+  cleanFile: (signal?: AbortSignal) => Promise<Blob>;
+  /** Regions of the active file in a locus, for the genome browser */
+  regionsInRange: (locus: Locus, bins: number, signal?: AbortSignal) => Promise<TrackWindow>;
   umapCoordinates: number[] | null;
-  setUmapCoordinates: (coords: number[] | null) => void;
+  /** Genome embedding the coordinates were projected into */
+  umapGenome: UmapGenome | null;
+  /** Store a projection; `genome` defaults to the default UMAP genome */
+  setUmapCoordinates: (coords: number[] | null, genome?: UmapGenome) => void;
   /** True when any tab holds a file-switch lock (UMAP projecting, search fetching, etc.) */
   fileLocked: boolean;
   lockFileSwitch: (key: string) => void;
@@ -39,7 +65,7 @@ const FileContext = createContext<FileContextValue | null>(null);
 
 export function FileProvider({ children }: { children: ReactNode }) {
   const [bedFile, setBedFileRaw] = useState<File | null>(null);
-  const [regionSet, setRegionSet] = useState<RegionSet | null>(null);
+  const [regionSet, setRegionSet] = useState<RegionSetSummary | null>(null);
   const [parsing, setParsing] = useState(false);
   const [parseProgress, setParseProgress] = useState(0);
   const [parseError, setParseError] = useState<string | null>(null);
@@ -47,7 +73,17 @@ export function FileProvider({ children }: { children: ReactNode }) {
   const [analysis, setAnalysis] = useState<BedAnalysis | null>(null);
   const [analyzing, setAnalyzing] = useState(false);
   const [analysisProgress, setAnalysisProgress] = useState(0);
-  const [umapCoordinates, setUmapCoordinates] = useState<number[] | null>(null);
+  const [validation, setValidation] = useState<ValidationReport | null>(null);
+  const [validating, setValidating] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
+  const boundsRef = useRef<Record<string, number> | null>(null);
+  const validationRef = useRef<AbortController | null>(null);
+  const [umapCoordinates, setUmapCoordinatesRaw] = useState<number[] | null>(null);
+  const [umapGenome, setUmapGenome] = useState<UmapGenome | null>(null);
+  const setUmapCoordinates = useCallback((coords: number[] | null, g: UmapGenome = DEFAULT_UMAP_GENOME) => {
+    setUmapCoordinatesRaw(coords);
+    setUmapGenome(coords ? g : null);
+  }, []);
   const fileLockRef = useRef(new Set<string>());
   const [fileLocked, setFileLocked] = useState(false);
   const lockFileSwitch = useCallback((key: string) => {
@@ -58,8 +94,46 @@ export function FileProvider({ children }: { children: ReactNode }) {
     fileLockRef.current.delete(key);
     setFileLocked(fileLockRef.current.size > 0);
   }, []);
-  const rsRef = useRef<RegionSet | null>(null);
+  const rsRef = useRef<RegionSetSummary | null>(null);
   const bedFileRef = useRef<File | null>(null);
+  const clientRef = useRef<AnalysisWorkerClient | null>(null);
+  const setIdRef = useRef(0);
+
+  const getClient = useCallback(() => {
+    if (!clientRef.current) clientRef.current = new AnalysisWorkerClient();
+    return clientRef.current;
+  }, []);
+
+  useEffect(() => () => {
+    clientRef.current?.dispose();
+    clientRef.current = null;
+  }, []);
+
+  // Results are stored per file and genome, so a reload skips the recomputation
+  const computeRefGenomicdist = useCallback(async (genome: string, signal?: AbortSignal) => {
+    const rs = rsRef.current;
+    const file = bedFileRef.current;
+    if (!rs || !file) throw new Error('No file loaded');
+    const key = fileKey(file);
+    const stored = (await loadFileResults(key))?.refGenomicdist?.[genome];
+    if (stored) return stored;
+    const result = await getClient().request({ type: 'refGenomicdist', setId: rs.setId, genome }, { signal });
+    // Not storing only costs a recomputation after reload
+    saveFileResults(key, { refGenomicdist: { [genome]: result } }).catch(() => {});
+    return result;
+  }, [getClient]);
+
+  const cleanFile = useCallback((signal?: AbortSignal) => {
+    const file = bedFileRef.current;
+    if (!file) return Promise.reject(new Error('No file loaded'));
+    return getClient().request({ type: 'clean', file, chromSizes: boundsRef.current }, { signal });
+  }, [getClient]);
+
+  const regionsInRange = useCallback((locus: Locus, bins: number, signal?: AbortSignal) => {
+    const rs = rsRef.current;
+    if (!rs) return Promise.reject(new Error('No file loaded'));
+    return getClient().request({ type: 'regionsInRange', setId: rs.setId, locus, bins }, { signal });
+  }, [getClient]);
 
   // Clear stale UMAP coordinates when switching to a different file so
   // the projection + auto-center cycle re-runs for the new file.
@@ -69,7 +143,7 @@ export function FileProvider({ children }: { children: ReactNode }) {
     }
     bedFileRef.current = file;
     setBedFileRaw(file);
-  }, []);
+  }, [setUmapCoordinates]);
 
   // --- Genome detection (runs after analysis completes) ---
   const bedFileData = useMemo(() => {
@@ -91,26 +165,23 @@ export function FileProvider({ children }: { children: ReactNode }) {
     const name = top.compared_genome;
     if (name?.includes('hg38') || name?.includes('GRCh38')) return { genome: 'hg38', genomeTier: top.tier_ranking };
     if (name?.includes('hg19') || name?.includes('GRCh37')) return { genome: 'hg19', genomeTier: top.tier_ranking };
+    if (name?.includes('mm10') || name?.includes('GRCm38')) return { genome: 'mm10', genomeTier: top.tier_ranking };
     return { genome: name ?? null, genomeTier: top.tier_ranking };
   }, [genomeStats]);
 
-  // --- Auto-fetch UMAP coordinates for hg38 files ---
+  // --- Auto-fetch UMAP coordinates for files of the genome /bed/umap projects into ---
   const { api } = useApi();
 
   useEffect(() => {
     if (!bedFile || !genome || umapCoordinates) return;
-    if (genome !== 'hg38') return;
+    if (genome !== PROJECTION_GENOME) return;
     let cancelled = false;
 
     const fetchUmap = async () => {
       try {
-        const formData = new FormData();
-        formData.append('file', bedFile);
-        const { data } = await api.post<number[]>('/bed/umap', formData, {
-          headers: { 'Content-Type': 'multipart/form-data' },
-        });
+        const data = await projectBedFile(api, bedFile);
         if (!cancelled && data && data.length >= 2) {
-          setUmapCoordinates(data);
+          setUmapCoordinates(data, PROJECTION_GENOME);
         }
       } catch {
         /* UMAP coords are optional — silently fail */
@@ -125,11 +196,7 @@ export function FileProvider({ children }: { children: ReactNode }) {
     if (!bedFile) {
       // Clean up previous RegionSet
       if (rsRef.current) {
-        try {
-          (rsRef.current as unknown as { free?: () => void }).free?.();
-        } catch {
-          /* ignore */
-        }
+        clientRef.current?.free([rsRef.current.setId]);
         rsRef.current = null;
       }
       setRegionSet(null);
@@ -140,101 +207,130 @@ export function FileProvider({ children }: { children: ReactNode }) {
       setAnalyzing(false);
       setAnalysisProgress(0);
       setUmapCoordinates(null);
+      validationRef.current?.abort();
+      setValidation(null);
+      setValidating(false);
+      setValidationError(null);
       return;
     }
 
-    let cancelled = false;
+    const controller = new AbortController();
+    const { signal } = controller;
+    const client = getClient();
+    const setId = `file-${++setIdRef.current}`;
 
     setParsing(true);
     setParseError(null);
     setParseTime(null);
     setParseProgress(0);
+    validationRef.current?.abort();
+    setValidation(null);
+    setValidating(false);
+    setValidationError(null);
 
-    const start = performance.now();
-    const worker = new Worker(
-      new URL('../lib/bed-parser.worker.ts', import.meta.url),
-      { type: 'module' },
-    );
-
-    worker.onmessage = async (e: MessageEvent<{ type: string; value?: number; entries?: BedEntry[]; message?: string }>) => {
-      if (cancelled) return;
-      const msg = e.data;
-
-      if (msg.type === 'progress') {
-        setParseProgress(msg.value!);
-      } else if (msg.type === 'error') {
-        setParseError(msg.message || 'Failed to parse BED file');
+    const run = async () => {
+      let summary: RegionSetSummary;
+      try {
+        summary = await client.request(
+          { type: 'load', setId, file: bedFile },
+          { signal, onProgress: (p) => setParseProgress(p) },
+        );
+      } catch (err) {
+        if (isAbortError(err) || signal.aborted) return;
+        setParseError(err instanceof Error ? err.message : 'Failed to parse BED file');
         setRegionSet(null);
         setParsing(false);
-        worker.terminate();
-      } else if (msg.type === 'result') {
-        const entries = msg.entries!;
-        try {
-          const rs = new RegionSet(entries);
-          const elapsed = performance.now() - start;
-
-          if (cancelled) {
-            try { (rs as unknown as { free?: () => void }).free?.(); } catch { /* ignore */ }
-            worker.terminate();
-            return;
-          }
-
-          // Free previous RegionSet
-          if (rsRef.current) {
-            try { (rsRef.current as unknown as { free?: () => void }).free?.(); } catch { /* ignore */ }
-          }
-
-          rsRef.current = rs;
-          setRegionSet(rs);
-          setParseTime(elapsed);
-          setParsing(false);
-
-          // Run stepped analysis
-          if (!cancelled) {
-            setAnalyzing(true);
-            setAnalysisProgress(0);
-            try {
-              const result = await fromRegionSet(rs, bedFile, elapsed, (p) => {
-                if (!cancelled) setAnalysisProgress(p);
-              });
-              if (!cancelled) setAnalysis(result);
-            } catch {
-              // Analysis failed — regionSet is still available
-            } finally {
-              if (!cancelled) setAnalyzing(false);
-            }
-          }
-        } catch (err) {
-          if (!cancelled) {
-            setParseError(err instanceof Error ? err.message : 'Failed to parse BED file');
-            setRegionSet(null);
-            setParsing(false);
-          }
-        }
-        worker.terminate();
+        return;
       }
-    };
 
-    worker.onerror = () => {
-      if (!cancelled) {
-        setParseError('Failed to parse BED file');
-        setRegionSet(null);
-        setParsing(false);
+      if (signal.aborted) {
+        client.free([setId]);
+        return;
       }
-      worker.terminate();
-    };
 
-    worker.postMessage({ file: bedFile });
+      // Free previous RegionSet
+      if (rsRef.current) client.free([rsRef.current.setId]);
+
+      rsRef.current = summary;
+      setRegionSet(summary);
+      setParseTime(summary.parseTime);
+      setParsing(false);
 
-    return () => {
-      cancelled = true;
-      worker.terminate();
+      // Reuse the analysis stored by an earlier session
+      const key = fileKey(bedFile);
+      const stored = await loadFileResults(key);
+      if (signal.aborted) return;
+      // Projections stored for an embedding that's no longer offered are dropped
+      if (stored?.umapCoordinates && (stored.umapGenome ?? DEFAULT_UMAP_GENOME) === PROJECTION_GENOME) {
+        setUmapCoordinates(stored.umapCoordinates, PROJECTION_GENOME);
+      }
+      if (stored?.analysis) {
+        setAnalysis(stored.analysis);
+        return;
+      }
+
+      // Run stepped analysis in the worker
+      setAnalyzing(true);
+      setAnalysisProgress(0);
+      try {
+        const result = await client.request(
+          { type: 'analyze', setId, fileName: bedFile.name, fileSize: bedFile.size, parseTime: summary.parseTime },
+          { signal, onProgress: (p) => setAnalysisProgress(p) },
+        );
+        if (!signal.aborted) {
+          setAnalysis(result);
+          saveFileResults(key, { analysis: result }).catch(() => {});
+        }
+      } catch {
+        // Analysis failed or was cancelled — regionSet is still available
+      } finally {
+        if (!signal.aborted) setAnalyzing(false);
+      }
     };
-  }, [bedFile]);
+
+    run();
+
+    return () => controller.abort();
+  }, [bedFile, getClient, setUmapCoordinates]);
+
+  // --- Keep fetched UMAP coordinates with the stored analysis ---
+  useEffect(() => {
+    if (!umapCoordinates || !umapGenome || !bedFileRef.current) return;
+    saveFileResults(fileKey(bedFileRef.current), { umapCoordinates, umapGenome }).catch(() => {});
+  }, [umapCoordinates, umapGenome]);
+
+  // --- Strict validation, on request (streams the file again, independent of analysis) ---
+  const validate = useCallback(async () => {
+    const file = bedFileRef.current;
+    if (!file) return;
+    validationRef.current?.abort();
+    const controller = new AbortController();
+    validationRef.current = controller;
+    const { signal } = controller;
+
+    setValidating(true);
+    setValidationError(null);
+    const chromSizes = genome ? await loadChromSizes(genome).catch(() => null) : null;
+    if (signal.aborted) return;
+    boundsRef.current = chromSizes;
+    try {
+      const report = await getClient().request(
+        { type: 'validate', file, genome, chromSizes },
+        { signal },
+      );
+      setValidation(report);
+    } catch (err) {
+      if (isAbortError(err) || signal.aborted) return;
+      setValidation(null);
+      setValidationError(err instanceof Error ? err.message : 'Failed to validate file');
+    } finally {
+      if (!signal.aborted) setValidating(false);
+    }
+  }, [genome, getClient]);
 
   return (
     <FileContext.Provider
-      value={{ bedFile, setBedFile, regionSet, parsing, parseProgress, parseError, parseTime, analysis, analyzing, analysisProgress, umapCoordinates, setUmapCoordinates, fileLocked, lockFileSwitch, unlockFileSwitch, genome, genomeTier }}
+      value={{ bedFile, setBedFile, regionSet, parsing, parseProgress, parseError, parseTime, analysis, analyzing, analysisProgress, computeRefGenomicdist, validation, validating, validationError, validate, cleanFile, regionsInRange, umapCoordinates, umapGenome, setUmapCoordinates, fileLocked, lockFileSwitch, unlockFileSwitch, genome, genomeTier }}
     >
       {children}
     </FileContext.Provider>
@@ -1,15 +1,13 @@
-import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
-import type { MultiFileResult, PerFileGenomeResult } from '../lib/multi-file-analysis';
-
-type CachedComparison = {
-  fileNames: string[];
-  result: MultiFileResult;
-  chromSizes?: Record<string, number>;
-  genomeResults?: PerFileGenomeResult[];
-  majorityGenome?: string;
-  genomeDefaulted?: boolean;
-  parsedFiles?: Map<string, File>;
-};
+import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
+import { emptyComparisonCache, type ComparisonCache } from '../lib/multi-file-analysis';
+import {
+  loadStoredComparison,
+  saveStoredComparison,
+  saveStoredStages,
+  type StoredComparison,
+} from '../lib/workspace-store';
+
+type CachedComparison = StoredComparison;
 
 type FileSetContextValue = {
   files: File[];
@@ -18,21 +16,65 @@ type FileSetContextValue = {
   cached: CachedComparison | null;
   setCached: (c: CachedComparison) => void;
   clearCached: () => void;
+  /** Finished comparison stages, reused when the file set changes or a run is resumed */
+  stageCache: ComparisonCache;
+  setStageCache: (c: ComparisonCache) => void;
+  /** True until the comparison stored in the workspace (IndexedDB) has been restored */
+  restoring: boolean;
 };
 
 const FileSetContext = createContext<FileSetContextValue | null>(null);
 
 // Module-level cache survives provider unmount/remount (tab switches)
 let _moduleCache: CachedComparison | null = null;
+const _initialStageCache = emptyComparisonCache();
+let _stageCache: ComparisonCache = _initialStageCache;
+let _restored = false;
+let _restoreStarted = false;
 
 export function FileSetProvider({ children }: { children: ReactNode }) {
   const [files, setFiles] = useState<File[]>([]);
   const [cached, setCachedState] = useState<CachedComparison | null>(() => _moduleCache);
-  const setCached = useCallback((c: CachedComparison) => { _moduleCache = c; setCachedState(c); }, []);
-  const clearCached = useCallback(() => { _moduleCache = null; setCachedState(null); }, []);
+  const [stageCache, setStageCacheState] = useState<ComparisonCache>(() => _stageCache);
+  const [restoring, setRestoring] = useState(() => !_restored);
+
+  // Storage failures only mean the comparison is recomputed after a reload
+  const setCached = useCallback((c: CachedComparison) => {
+    _moduleCache = c;
+    setCachedState(c);
+    saveStoredComparison(c).catch(() => {});
+  }, []);
+  const clearCached = useCallback(() => {
+    _moduleCache = null;
+    setCachedState(null);
+    saveStoredComparison(null).catch(() => {});
+  }, []);
+  const setStageCache = useCallback((c: ComparisonCache) => {
+    _stageCache = c;
+    setStageCacheState(c);
+    saveStoredStages(c).catch(() => {});
+  }, []);
+
+  // Restore the previous session's comparison unless one has run since load
+  useEffect(() => {
+    if (_restoreStarted) return;
+    _restoreStarted = true;
+    loadStoredComparison().then(({ cached: storedCached, stageCache: storedStages }) => {
+      if (storedCached && !_moduleCache) {
+        _moduleCache = storedCached;
+        setCachedState(storedCached);
+      }
+      if (storedStages && _stageCache === _initialStageCache) {
+        _stageCache = storedStages;
+        setStageCacheState(storedStages);
+      }
+      _restored = true;
+      setRestoring(false);
+    });
+  }, []);
 
   return (
-    <FileSetContext.Provider value={{ files, setFiles, clearFiles: () => setFiles([]), cached, setCached, clearCached }}>
+    <FileSetContext.Provider value={{ files, setFiles, clearFiles: () => setFiles([]), cached, setCached, clearCached, stageCache, setStageCache, restoring }}>
       {children}
     </FileSetContext.Provider>
   );
@@ -1,18 +1,26 @@
 import { createContext, useContext, useMemo, useRef, useState, useEffect, type ReactNode } from 'react';
 import * as vg from '@uwdata/vgplot';
-import { GEOMETRY_URL, META_T1_URL, META_T2_URL } from '../lib/umap-utils';
+import { DEFAULT_UMAP_GENOME, PROJECTED_PREFIX, umapDataUrls, umapTable, type ProjectedFile, type UmapGenome } from '../lib/umap-utils';
 
 type MosaicCoordinatorContextValue = {
   getCoordinator: () => vg.Coordinator;
-  initializeData: () => Promise<void>;
+  /** Genome whose embedding is shown; each genome has its own table */
+  genome: UmapGenome;
+  setGenome: (genome: UmapGenome) => void;
+  /** DuckDB table of the active genome's points */
+  table: string;
+  initializeData: (genome?: UmapGenome) => Promise<void>;
   addCustomPoint: (x: number, y: number, description?: string) => Promise<void>;
   deleteCustomPoint: () => Promise<void>;
+  /** Replace the points of other uploaded files in the active genome's table */
+  setProjectedFiles: (files: ProjectedFile[]) => Promise<void>;
   ensureGrouping: (key: string) => Promise<void>;
   loadTier2: () => Promise<void>;
   tier2Loaded: boolean;
   tier2Loading: boolean;
   webglStatus: { checking: boolean; webgl2: boolean; error: string | null };
-  umapBedIds: Set<string>;
+  /** Genome embedding each known BED file belongs to, for every genome loaded so far */
+  umapBedGenomes: Map<string, UmapGenome>;
 };
 
 const MosaicCoordinatorContext = createContext<MosaicCoordinatorContextValue | null>(null);
@@ -43,16 +51,21 @@ const CATEGORICAL_RANKINGS: Record<string, string> = {
 
 export function MosaicCoordinatorProvider({ children }: { children: ReactNode }) {
   const coordinatorRef = useRef<vg.Coordinator | null>(null);
-  const dataInitializedRef = useRef(false);
-  const createdGroupings = useRef<Set<string>>(new Set());
-  const [tier2Loaded, setTier2Loaded] = useState(false);
-  const [tier2Loading, setTier2Loading] = useState(false);
+  const [genome, setGenome] = useState<UmapGenome>(DEFAULT_UMAP_GENOME);
+  const table = umapTable(genome);
+  // Per-genome load state: tables are created on first use and kept for the session
+  const dataInitRef = useRef(new Map<UmapGenome, Promise<void>>());
+  const createdGroupings = useRef(new Map<UmapGenome, Set<string>>());
+  const [tier2Genomes, setTier2Genomes] = useState<Set<UmapGenome>>(new Set());
+  const [tier2LoadingGenome, setTier2LoadingGenome] = useState<UmapGenome | null>(null);
+  const tier2Loaded = tier2Genomes.has(genome);
+  const tier2Loading = tier2LoadingGenome === genome;
   const [webglStatus, setWebglStatus] = useState<{
     checking: boolean;
     webgl2: boolean;
     error: string | null;
   }>({ checking: true, webgl2: false, error: null });
-  const [umapBedIds, setUmapBedIds] = useState<Set<string>>(new Set());
+  const [umapBedGenomes, setUmapBedGenomes] = useState<Map<string, UmapGenome>>(new Map());
 
   const getCoordinator = () => {
     if (!coordinatorRef.current) {
@@ -67,14 +80,34 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
   const OTHER_CATEGORY = TOP_N;     // 18
   const UPLOADED_CATEGORY = TOP_N + 1; // 19
 
-  const initializeData = async () => {
-    if (dataInitializedRef.current) return;
+  const groupingsOf = (g: UmapGenome) => {
+    let created = createdGroupings.current.get(g);
+    if (!created) {
+      created = new Set();
+      createdGroupings.current.set(g, created);
+    }
+    return created;
+  };
+
+  /** Load a genome's table (the active genome by default); concurrent calls share one load */
+  const initializeData = (g: UmapGenome = genome) => {
+    let pending = dataInitRef.current.get(g);
+    if (!pending) {
+      pending = loadGenomeData(g);
+      pending.catch(() => dataInitRef.current.delete(g));
+      dataInitRef.current.set(g, pending);
+    }
+    return pending;
+  };
 
+  const loadGenomeData = async (g: UmapGenome) => {
+    const data = umapTable(g);
+    const urls = umapDataUrls(g);
     const coordinator = getCoordinator();
     await coordinator.exec([
       // Load geometry + tier 1 metadata from Parquet, join on id
       // Replace empty strings with 'UNKNOWN' for categorical columns used in legend
-      vg.sql`CREATE OR REPLACE TABLE data AS
+      vg.sql`CREATE OR REPLACE TABLE ${data} AS
         SELECT g.*,
           m.name, m.description, m.number_of_regions, m.mean_region_width, m.gc_content,
           CASE WHEN m.assay = '' THEN 'UNKNOWN' ELSE m.assay END AS assay,
@@ -82,40 +115,44 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
           CASE WHEN m.cell_type = '' THEN 'UNKNOWN' ELSE m.cell_type END AS cell_type,
           CASE WHEN m.target = '' THEN 'UNKNOWN' ELSE m.target END AS target,
           CASE WHEN m.tissue = '' THEN 'UNKNOWN' ELSE m.tissue END AS tissue
-        FROM read_parquet('${GEOMETRY_URL}') g
-        JOIN read_parquet('${META_T1_URL}') m ON g.id = m.id`,
+        FROM read_parquet('${urls.geometry}') g
+        JOIN read_parquet('${urls.metaT1}') m ON g.id = m.id`,
       // Compute default category rankings (cell_line, assay)
-      vg.sql`CREATE OR REPLACE TABLE data AS
+      vg.sql`CREATE OR REPLACE TABLE ${data} AS
         WITH assay_ranks AS (
           SELECT assay, ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC, assay) - 1 AS rank
-          FROM data GROUP BY assay
+          FROM ${data} GROUP BY assay
         ),
         cell_line_ranks AS (
           SELECT cell_line, ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC, cell_line) - 1 AS rank
-          FROM data GROUP BY cell_line
+          FROM ${data} GROUP BY cell_line
         )
         SELECT d.*,
           CASE WHEN ar.rank < ${TOP_N} THEN ar.rank::INTEGER ELSE ${OTHER_CATEGORY}::INTEGER END AS assay_category,
           CASE WHEN cr.rank < ${TOP_N} THEN cr.rank::INTEGER ELSE ${OTHER_CATEGORY}::INTEGER END AS cell_line_category
-        FROM data d
+        FROM ${data} d
         JOIN assay_ranks ar ON d.assay = ar.assay
         JOIN cell_line_ranks cr ON d.cell_line = cr.cell_line` as any,
     ]);
 
-    createdGroupings.current.add('assay_category');
-    createdGroupings.current.add('cell_line_category');
-    dataInitializedRef.current = true;
+    groupingsOf(g).add('assay_category');
+    groupingsOf(g).add('cell_line_category');
 
-    // Build the ID lookup set
-    const ids: any = await coordinator.query('SELECT id FROM data', { type: 'json' });
+    // Add to the ID lookup
+    const ids: any = await coordinator.query(`SELECT id FROM ${data}`, { type: 'json' });
     if (ids && ids.length > 0) {
-      setUmapBedIds(new Set(ids.map((row: any) => row.id)));
+      setUmapBedGenomes((prev) => {
+        const next = new Map(prev);
+        for (const row of ids) next.set(row.id, g);
+        return next;
+      });
     }
   };
 
-  /** Ensure a grouping column exists in the data table. Creates it on demand. */
+  /** Ensure a grouping column exists in the active genome's table. Creates it on demand. */
   const ensureGrouping = async (key: string) => {
-    if (createdGroupings.current.has(key)) return;
+    const created = groupingsOf(genome);
+    if (created.has(key)) return;
 
     const coordinator = getCoordinator();
 
@@ -128,23 +165,23 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
         (p, i) => `quantile_cont(${sourceCol}, ${p.toFixed(6)}) AS q${i}`,
       ).join(', ');
       const boundaries: any = await coordinator.query(
-        `SELECT ${selectCols} FROM data WHERE ${sourceCol} IS NOT NULL`,
+        `SELECT ${selectCols} FROM ${table} WHERE ${sourceCol} IS NOT NULL`,
         { type: 'json' },
       );
       const row = boundaries?.[0];
       if (!row) {
         await coordinator.exec([
-          `ALTER TABLE data ADD COLUMN IF NOT EXISTS "${key}" INTEGER DEFAULT ${OTHER_CATEGORY}`,
+          `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS "${key}" INTEGER DEFAULT ${OTHER_CATEGORY}`,
         ]);
-        createdGroupings.current.add(key);
+        created.add(key);
         return;
       }
       const rawQuantiles: number[] = percentiles.map((_, i) => row[`q${i}`]).filter((v) => v != null);
       if (rawQuantiles.length === 0) {
         await coordinator.exec([
-          `ALTER TABLE data ADD COLUMN IF NOT EXISTS "${key}" INTEGER DEFAULT ${OTHER_CATEGORY}`,
+          `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS "${key}" INTEGER DEFAULT ${OTHER_CATEGORY}`,
         ]);
-        createdGroupings.current.add(key);
+        created.add(key);
         return;
       }
 
@@ -178,13 +215,14 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
       const caseExpr = `CASE WHEN ${sourceCol} IS NULL THEN ${OTHER_CATEGORY} ${cases.join(' ')} END`;
 
       await coordinator.exec([
-        `ALTER TABLE data ADD COLUMN IF NOT EXISTS "${key}" INTEGER`,
-        `UPDATE data SET "${key}" = (${caseExpr})`,
-        // Ensure uploaded file always gets the dedicated indicator
-        `UPDATE data SET "${key}" = ${UPLOADED_CATEGORY} WHERE id = 'custom_point'`,
+        `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS "${key}" INTEGER`,
+        `UPDATE ${table} SET "${key}" = (${caseExpr})`,
+        // Ensure uploaded files always get their dedicated indicators
+        `UPDATE ${table} SET "${key}" = ${UPLOADED_CATEGORY} WHERE id = 'custom_point'`,
+        `UPDATE ${table} SET "${key}" = cell_line_category WHERE id LIKE '${PROJECTED_PREFIX}%'`,
       ]);
 
-      createdGroupings.current.add(key);
+      created.add(key);
       return;
     }
 
@@ -195,28 +233,30 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
       await coordinator.exec([
         `CREATE OR REPLACE TEMP TABLE _ranks AS
           SELECT "${catCol}", (ROW_NUMBER() OVER (ORDER BY COUNT(*) DESC, "${catCol}") - 1)::INTEGER AS rank
-          FROM data GROUP BY "${catCol}"`,
-        `ALTER TABLE data ADD COLUMN IF NOT EXISTS "${key}" INTEGER`,
-        `UPDATE data SET "${key}" = CASE
+          FROM ${table} GROUP BY "${catCol}"`,
+        `ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS "${key}" INTEGER`,
+        `UPDATE ${table} SET "${key}" = CASE
           WHEN _r.rank < ${TOP_N} THEN _r.rank ELSE ${OTHER_CATEGORY}
-          END FROM _ranks _r WHERE data."${catCol}" = _r."${catCol}"`,
-        // Ensure uploaded file always gets the dedicated indicator
-        `UPDATE data SET "${key}" = ${UPLOADED_CATEGORY} WHERE id = 'custom_point'`,
+          END FROM _ranks _r WHERE ${table}."${catCol}" = _r."${catCol}"`,
+        // Ensure uploaded files always get their dedicated indicators
+        `UPDATE ${table} SET "${key}" = ${UPLOADED_CATEGORY} WHERE id = 'custom_point'`,
+        `UPDATE ${table} SET "${key}" = cell_line_category WHERE id LIKE '${PROJECTED_PREFIX}%'`,
         `DROP TABLE IF EXISTS _ranks`,
       ]);
-      createdGroupings.current.add(key);
+      created.add(key);
     }
   };
 
-  /** Load tier 2 metadata and join into the data table */
+  /** Load tier 2 metadata and join into the active genome's table */
   const loadTier2 = async () => {
-    if (tier2Loaded || tier2Loading) return;
-    setTier2Loading(true);
+    if (tier2Loaded || tier2LoadingGenome) return;
+    const g = genome;
+    setTier2LoadingGenome(g);
 
     try {
       const coordinator = getCoordinator();
       await coordinator.exec([
-        vg.sql`CREATE OR REPLACE TABLE data AS
+        vg.sql`CREATE OR REPLACE TABLE ${table} AS
           SELECT d.*,
             CASE WHEN t2.treatment = '' OR t2.treatment IS NULL THEN 'UNKNOWN' ELSE t2.treatment END AS treatment,
             CASE WHEN t2.antibody = '' OR t2.antibody IS NULL THEN 'UNKNOWN' ELSE t2.antibody END AS antibody,
@@ -229,28 +269,31 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
             COALESCE(t2.global_sample_id, '') AS global_sample_id,
             COALESCE(t2.global_experiment_id, '') AS global_experiment_id,
             COALESCE(t2.original_file_name, '') AS original_file_name
-          FROM data d
-          LEFT JOIN read_parquet('${META_T2_URL}') t2 ON d.id = t2.id` as any,
+          FROM ${table} d
+          LEFT JOIN read_parquet('${umapDataUrls(g).metaT2}') t2 ON d.id = t2.id` as any,
       ]);
-      setTier2Loaded(true);
+      setTier2Genomes((prev) => new Set(prev).add(g));
     } catch (e) {
       console.error('Failed to load tier 2 metadata:', e);
     } finally {
-      setTier2Loading(false);
+      setTier2LoadingGenome(null);
     }
   };
 
+  /** Remove the uploaded file's point from every loaded genome, since it may sit in one not shown */
   const deleteCustomPoint = async () => {
     const coordinator = getCoordinator();
-    await coordinator.exec([vg.sql`DELETE FROM data WHERE id = 'custom_point'` as any]);
+    for (const g of createdGroupings.current.keys()) {
+      await coordinator.exec([vg.sql`DELETE FROM ${umapTable(g)} WHERE id = 'custom_point'` as any]);
+    }
   };
 
   const addCustomPoint = async (x: number, y: number, description = 'User uploaded BED file') => {
     const coordinator = getCoordinator();
-    await coordinator.exec([vg.sql`DELETE FROM data WHERE id = 'custom_point'` as any]);
+    await coordinator.exec([vg.sql`DELETE FROM ${table} WHERE id = 'custom_point'` as any]);
 
     await coordinator.exec([
-      vg.sql`INSERT INTO data (x, y, id, name, description, assay, cell_line, cell_type, tissue, target,
+      vg.sql`INSERT INTO ${table} (x, y, id, name, description, assay, cell_line, cell_type, tissue, target,
         number_of_regions, mean_region_width, gc_content,
         assay_category, cell_line_category)
       VALUES (
@@ -262,17 +305,46 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
     ]);
 
     // Set UPLOADED_CATEGORY for all lazily-created grouping columns
-    for (const groupKey of createdGroupings.current) {
+    for (const groupKey of groupingsOf(genome)) {
+      if (groupKey === 'assay_category' || groupKey === 'cell_line_category') continue;
+      await coordinator.exec([
+        `UPDATE ${table} SET "${groupKey}" = ${UPLOADED_CATEGORY} WHERE id = 'custom_point'`,
+      ]);
+    }
+  };
+
+  // Each projected file keeps its own category in every grouping column; cell_line_category
+  // is always set, so lazily created columns copy it
+  const setProjectedFiles = async (files: ProjectedFile[]) => {
+    const coordinator = getCoordinator();
+    await coordinator.exec([`DELETE FROM ${table} WHERE id LIKE '${PROJECTED_PREFIX}%'`]);
+    if (files.length === 0) return;
+
+    const rows = files.map((f) => `(
+      ${f.x}, ${f.y}, '${f.id}', '${f.name.replace(/'/g, "''")}', 'Uploaded BED file',
+      'Uploaded BED', 'Uploaded BED', 'UNKNOWN', 'UNKNOWN', 'UNKNOWN',
+      NULL, NULL, NULL,
+      ${f.category}, ${f.category}
+    )`);
+    await coordinator.exec([
+      `INSERT INTO ${table} (x, y, id, name, description, assay, cell_line, cell_type, tissue, target,
+        number_of_regions, mean_region_width, gc_content,
+        assay_category, cell_line_category)
+      VALUES ${rows.join(', ')}`,
+    ]);
+
+    for (const groupKey of groupingsOf(genome)) {
       if (groupKey === 'assay_category' || groupKey === 'cell_line_category') continue;
       await coordinator.exec([
-        `UPDATE data SET "${groupKey}" = ${UPLOADED_CATEGORY} WHERE id = 'custom_point'`,
+        `UPDATE ${table} SET "${groupKey}" = cell_line_category WHERE id LIKE '${PROJECTED_PREFIX}%'`,
       ]);
     }
   };
 
-  // Eagerly initialize data in the background so ID lookups work before UMAP tab opens
+  // Eagerly initialize the default genome in the background so ID lookups work before
+  // UMAP tab opens; other genomes load when first shown
   useEffect(() => {
-    initializeData().catch(() => {});
+    initializeData(DEFAULT_UMAP_GENOME).catch(() => {});
   }, []);
 
   useEffect(() => {
@@ -318,17 +390,21 @@ export function MosaicCoordinatorProvider({ children }: { children: ReactNode })
   const value = useMemo(
     () => ({
       getCoordinator,
+      genome,
+      setGenome,
+      table,
       initializeData,
       addCustomPoint,
       deleteCustomPoint,
+      setProjectedFiles,
       ensureGrouping,
       loadTier2,
       tier2Loaded,
       tier2Loading,
       webglStatus,
-      umapBedIds,
+      umapBedGenomes,
     }),
-    [webglStatus, umapBedIds, tier2Loaded, tier2Loading],
+    [genome, webglStatus, umapBedGenomes, tier2Loaded, tier2Loading, tier2LoadingGenome],
   );
 
   return (
@@ -343,14 +419,18 @@ export function useMosaicCoordinator() {
   if (!context) throw new Error('useMosaicCoordinator must be used within MosaicCoordinatorProvider');
   return {
     coordinator: context.getCoordinator(),
+    genome: context.genome,
+    setGenome: context.setGenome,
+    table: context.table,
     initializeData: context.initializeData,
     addCustomPoint: context.addCustomPoint,
     deleteCustomPoint: context.deleteCustomPoint,
+    setProjectedFiles: context.setProjectedFiles,
     ensureGrouping: context.ensureGrouping,
     loadTier2: context.loadTier2,
     tier2Loaded: context.tier2Loaded,
     tier2Loading: context.tier2Loading,
     webglStatus: context.webglStatus,
-    umapBedIds: context.umapBedIds,
+    umapBedGenomes: context.umapBedGenomes,
   };
 }
@@ -0,0 +1,25 @@
+import { createContext, useContext } from 'react';
+import type { SearchEntry } from '../lib/search-history';
+
+export type SearchHistoryContextValue = {
+  /** Most recently run first */
+  entries: SearchEntry[];
+  recordSearch: (entry: Omit<SearchEntry, 'pinned'>) => void;
+  /**
+   * Pin under `name`, saving `topIds` (the top PIN_POOL results) for later
+   * diffs; pinning again updates them
+   */
+  pinSearch: (id: string, name: string, topIds: string[]) => void;
+  unpinSearch: (id: string) => void;
+  removeSearch: (id: string) => void;
+  /** Forget unpinned searches */
+  clearHistory: () => void;
+};
+
+export const SearchHistoryContext = createContext<SearchHistoryContextValue | null>(null);
+
+export function useSearchHistory() {
+  const ctx = useContext(SearchHistoryContext);
+  if (!ctx) throw new Error('useSearchHistory must be used within a SearchHistoryProvider');
+  return ctx;
+}
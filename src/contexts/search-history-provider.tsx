@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState, type ReactNode } from 'react';
+import { upsertEntry, type SearchEntry } from '../lib/search-history';
+import { SearchHistoryContext } from './search-history-context';
+
+const STORAGE_KEY = 'bedbase-search-history';
+
+function loadHistory(): SearchEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveHistory(entries: SearchEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+export function SearchHistoryProvider({ children }: { children: ReactNode }) {
+  const [entries, setEntries] = useState<SearchEntry[]>(loadHistory);
+
+  useEffect(() => {
+    saveHistory(entries);
+  }, [entries]);
+
+  // Stable, since results views record from effects
+  const recordSearch = useCallback((entry: Omit<SearchEntry, 'pinned'>) => {
+    setEntries((prev) => upsertEntry(prev, entry));
+  }, []);
+
+  const pinSearch = (id: string, name: string, topIds: string[]) => {
+    setEntries((prev) => prev.map((e) => (
+      e.id === id ? { ...e, pinned: { count: e.last.count, topIds, at: Date.now(), name } } : e
+    )));
+  };
+
+  const unpinSearch = (id: string) => {
+    setEntries((prev) => prev.map((e) => (e.id === id ? { ...e, pinned: undefined } : e)));
+  };
+
+  const removeSearch = (id: string) => {
+    setEntries((prev) => prev.filter((e) => e.id !== id));
+  };
+
+  const clearHistory = () => {
+    setEntries((prev) => prev.filter((e) => e.pinned));
+  };
+
+  return (
+    <SearchHistoryContext.Provider value={{ entries, recordSearch, pinSearch, unpinSearch, removeSearch, clearHistory }}>
+      {children}
+    </SearchHistoryContext.Provider>
+  );
+}
@@ -25,15 +25,15 @@ export type ActiveTab = {
 function pathToActiveTab(pathname: string, search: string): ActiveTab | null {
   if (pathname.startsWith('/workbench')) return { id: 'file' };
   if (pathname.startsWith('/search')) {
-    // 'file' stays as a path segment: /search/file
+    // 'file' and 'catalog' stay as path segments: /search/file, /search/catalog
     const match = pathname.match(/^\/search\/(.+)/);
     if (match?.[1]) return { id: 'search', param: decodeURIComponent(match[1]) };
-    // Text queries use ?q= param, bedset mode uses &type=bedset
+    // Text queries use ?q= param, bedset, locus and exact modes use &type=
     const sp = new URLSearchParams(search);
     const q = sp.get('q');
     const type = sp.get('type');
-    if (type === 'bedset') {
-      return { id: 'search', param: q ? 'bedset:' + q : 'bedset:' };
+    if (type === 'bedset' || type === 'locus' || type === 'exact') {
+      return { id: 'search', param: `${type}:${q ?? ''}` };
     }
     return { id: 'search', param: q || undefined };
   }
@@ -70,9 +70,9 @@ function encodeSplitParam(tab: ActiveTab): string {
 
 /** Returns just the path portion (no query string) */
 function tabToPath(tab: ActiveTab): string {
-  // Search text queries go in ?q=, only 'file' stays in the path
+  // Search text queries go in ?q=, only 'file' and 'catalog' stay in the path
   if (tab.id === 'search') {
-    return tab.param === 'file' ? '/search/file' : '/search';
+    return tab.param === 'file' || tab.param === 'catalog' ? `/search/${tab.param}` : '/search';
   }
   // UMAP bed ID goes in ?bed= query param, not in the path
   if (tab.id === 'umap') return '/umap';
@@ -89,11 +89,12 @@ function buildUrl(primary: ActiveTab, split?: ActiveTab | null, carrySearch?: st
   const path = tabToPath(primary);
   const params = new URLSearchParams();
 
-  // Search: split bedset: prefix into ?type=bedset&q=
-  if (primary.id === 'search' && primary.param && primary.param !== 'file') {
-    if (primary.param.startsWith('bedset:')) {
-      params.set('type', 'bedset');
-      const q = primary.param.slice(7);
+  // Search: split bedset:, locus: and exact: prefixes into ?type=...&q=
+  if (primary.id === 'search' && primary.param && primary.param !== 'file' && primary.param !== 'catalog') {
+    const mode = primary.param.match(/^(bedset|locus|exact):/)?.[1];
+    if (mode) {
+      params.set('type', mode);
+      const q = primary.param.slice(mode.length + 1);
       if (q) params.set('q', q);
     } else {
       params.set('q', primary.param);
@@ -114,9 +115,11 @@ function buildUrl(primary: ActiveTab, split?: ActiveTab | null, carrySearch?: st
   const hasSearchTab = primary.id === 'search' || split?.id === 'search';
   if (carrySearch && hasSearchTab) {
     const current = new URLSearchParams(carrySearch);
+    // Append, so repeated params (e.g. facet filters) all survive
+    const own = new Set(params.keys());
     for (const [key, value] of current) {
-      if (!MANAGED_PARAMS.has(key) && !params.has(key)) {
-        params.set(key, value);
+      if (!MANAGED_PARAMS.has(key) && !own.has(key)) {
+        params.append(key, value);
       }
     }
   }
@@ -127,10 +130,15 @@ function buildUrl(primary: ActiveTab, split?: ActiveTab | null, carrySearch?: st
 
 type TabContextValue = {
   activeTabs: ActiveTab[];
-  openTab: (id: TabId, param?: string, source?: TabId) => void;
+  /** `params` replaces the unmanaged query params (filters, paging) instead of carrying or resetting them */
+  openTab: (id: TabId, param?: string, source?: TabId, params?: string) => void;
   openSplit: (id: TabId, side: 'left' | 'right', param?: string) => void;
   closeTab: (id: TabId) => void;
   closeAll: () => void;
+  /** URL of the current tab layout, or the last one shown before returning to the hub */
+  getLayout: () => string | null;
+  /** Navigate to a layout returned by getLayout */
+  restoreLayout: (url: string) => void;
 };
 
 const TabContext = createContext<TabContextValue | null>(null);
@@ -160,14 +168,16 @@ export function TabProvider({ children }: { children: ReactNode }) {
 
   // Remember each tab's last param so switching back restores it
   const lastParams = useRef<Partial<Record<TabId, string>>>({});
+  const lastLayout = useRef<string | null>(null);
 
   useEffect(() => {
     for (const tab of activeTabs) {
       if (tab.param) lastParams.current[tab.id] = tab.param;
     }
-  }, [activeTabs]);
+    if (activeTabs.length > 0) lastLayout.current = location.pathname + location.search;
+  }, [activeTabs]); // eslint-disable-line react-hooks/exhaustive-deps
 
-  const openTab = (id: TabId, param?: string, source?: TabId) => {
+  const openTab = (id: TabId, param?: string, source?: TabId, params?: string) => {
     window.scrollTo(0, 0);
     const existing = activeTabs.find((t) => t.id === id);
 
@@ -183,13 +193,13 @@ export function TabProvider({ children }: { children: ReactNode }) {
       delete lastParams.current[id];
     }
 
-    if (existing && existing.param === resolvedParam) return;
+    if (existing && existing.param === resolvedParam && params === undefined) return;
 
     // Carry forward unmanaged URL params (pagination etc.) unless the search
     // query itself is changing — in that case pagination should reset.
     const searchTab = activeTabs.find((t) => t.id === 'search');
     const searchParamChanging = id === 'search' && resolvedParam !== searchTab?.param;
-    const carry = searchParamChanging ? undefined : location.search;
+    const carry = params ?? (searchParamChanging ? undefined : location.search);
 
     if (splitTab) {
       if (id === primaryTab?.id) {
@@ -262,7 +272,14 @@ export function TabProvider({ children }: { children: ReactNode }) {
 
   const closeAll = () => navigate('/');
 
-  const value: TabContextValue = { activeTabs, openTab, openSplit, closeTab, closeAll };
+  const getLayout = () => lastLayout.current;
+
+  const restoreLayout = (url: string) => {
+    const [pathname, search = ''] = url.split('?');
+    if (pathToActiveTab(pathname, search ? `?${search}` : '')) navigate(url);
+  };
+
+  const value: TabContextValue = { activeTabs, openTab, openSplit, closeTab, closeAll, getLayout, restoreLayout };
 
   return <TabContext.Provider value={value}>{children}</TabContext.Provider>;
 }
@@ -273,6 +290,6 @@ export function useTab() {
   if (!ctx) throw new Error('useTab must be used within a TabProvider');
   return {
     ...ctx,
-    openTab: (id: TabId, param?: string) => ctx.openTab(id, param, panelTabId ?? undefined),
+    openTab: (id: TabId, param?: string, params?: string) => ctx.openTab(id, param, panelTabId ?? undefined, params),
   };
 }
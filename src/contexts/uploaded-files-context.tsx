@@ -1,64 +1,101 @@
-import { createContext, useContext, useState, useCallback, type ReactNode } from 'react';
+import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from 'react';
 import { toast } from 'sonner';
+import { isRegionFile, REGION_FILE_EXTENSIONS_LABEL } from '../lib/bed-formats';
+import { isQuotaError, loadStoredFiles, saveStoredFiles, fileKey } from '../lib/workspace-store';
+import { useFile } from './file-context';
 
-const MAX_UPLOADED_FILES = 15;
+const MAX_UPLOADED_FILES = 500;
 
 type UploadedFilesContextValue = {
   files: File[];
   activeIndex: number | null;
-  addFiles: (newFiles: File[]) => void;
+  /** Append files (unsupported and duplicate ones are skipped); returns the resulting list */
+  addFiles: (newFiles: File[]) => File[];
   removeFile: (index: number) => void;
   setActiveIndex: (index: number | null) => void;
   clearAll: () => void;
+  /** Replace the whole list, e.g. when importing a workspace */
+  replaceFiles: (files: File[], activeIndex: number | null) => void;
+  /** True until files stored in the workspace (IndexedDB) have been restored */
+  restoring: boolean;
 };
 
 const UploadedFilesContext = createContext<UploadedFilesContextValue | null>(null);
 
-function fileKey(f: File): string {
-  return `${f.name}|${f.size}|${f.lastModified}`;
-}
-
-function isBedFile(f: File): boolean {
-  const name = f.name.toLowerCase();
-  return name.endsWith('.bed') || name.endsWith('.bed.gz');
-}
-
 // Module-level state survives provider unmount/remount (tab switches)
 let _files: File[] = [];
 let _activeIndex: number | null = null;
+// Set once the stored workspace has been read; saving before that would wipe it
+let _restored = false;
+let _restoreStarted = false;
 
 export function UploadedFilesProvider({ children }: { children: ReactNode }) {
   const [files, setFilesState] = useState<File[]>(() => _files);
   const [activeIndex, setActiveIndexState] = useState<number | null>(() => _activeIndex);
 
+  const [restoring, setRestoring] = useState(() => !_restored);
+  const { setBedFile } = useFile();
+
   const setActiveIdx = useCallback((i: number | null) => { _activeIndex = i; setActiveIndexState(i); }, []);
 
+  // Restore files from the previous session, ahead of any added since load
+  useEffect(() => {
+    if (_restoreStarted) return;
+    _restoreStarted = true;
+    loadStoredFiles().then(({ files: stored, activeIndex: storedActive }) => {
+      const addedKeys = new Set(_files.map(fileKey));
+      const restored = stored.filter((f) => !addedKeys.has(fileKey(f)));
+      if (restored.length > 0) {
+        const combined = [...restored, ..._files].slice(0, MAX_UPLOADED_FILES);
+        const active = _activeIndex !== null ? _activeIndex + restored.length : storedActive;
+        _files = combined;
+        _activeIndex = active !== null && active < combined.length ? active : null;
+        setFilesState(combined);
+        setActiveIndexState(_activeIndex);
+        if (_activeIndex !== null && _activeIndex < restored.length) setBedFile(combined[_activeIndex]);
+      }
+      _restored = true;
+      setRestoring(false);
+    });
+  }, [setBedFile]);
+
+  // Mirror the list into the workspace store
+  useEffect(() => {
+    if (restoring) return;
+    saveStoredFiles(files, activeIndex).catch((err) => {
+      toast.warning(
+        isQuotaError(err)
+          ? 'Browser storage is full. Files will not be kept after a reload; free space in the Workbench.'
+          : 'Could not save files to browser storage.',
+      );
+    });
+  }, [files, activeIndex, restoring]);
+
+  // Computed from the module-level list, which every setter keeps current,
+  // so callers get the resulting list back synchronously
   const addFiles = useCallback((newFiles: File[]) => {
     const valid = newFiles.filter((f) => {
-      if (!isBedFile(f)) {
-        toast.warning(`Skipped ${f.name} — only .bed and .bed.gz files are supported.`);
+      if (!isRegionFile(f.name)) {
+        toast.warning(`Skipped ${f.name} — supported formats are ${REGION_FILE_EXTENSIONS_LABEL}.`);
         return false;
       }
       return true;
     });
-    if (valid.length === 0) return;
+    if (valid.length === 0) return _files;
 
-    setFilesState((prev) => {
-      const existingKeys = new Set(prev.map(fileKey));
-      const deduped = valid.filter((f) => !existingKeys.has(fileKey(f)));
-      if (deduped.length < valid.length && deduped.length > 0) {
-        toast.info(`${valid.length - deduped.length} duplicate file(s) skipped.`);
-      }
-      const combined = [...prev, ...deduped];
-      if (combined.length > MAX_UPLOADED_FILES) {
-        toast.warning(`Maximum ${MAX_UPLOADED_FILES} files. Some files were not added.`);
-        const result = combined.slice(0, MAX_UPLOADED_FILES);
-        _files = result;
-        return result;
-      }
-      _files = combined;
-      return combined;
-    });
+    const existingKeys = new Set(_files.map(fileKey));
+    const deduped = valid.filter((f) => !existingKeys.has(fileKey(f)));
+    if (deduped.length < valid.length && deduped.length > 0) {
+      toast.info(`${valid.length - deduped.length} duplicate file(s) skipped.`);
+    }
+    let combined = [..._files, ...deduped];
+    if (combined.length > MAX_UPLOADED_FILES) {
+      toast.warning(`Maximum ${MAX_UPLOADED_FILES} files. Some files were not added.`);
+      combined = combined.slice(0, MAX_UPLOADED_FILES);
+    }
+    _files = combined;
+    setFilesState(combined);
+    return combined;
   }, []);
 
   const removeFile = useCallback((index: number) => {
@@ -74,6 +111,17 @@ export function UploadedFilesProvider({ children }: { children: ReactNode }) {
     });
   }, []);
 
+  const replaceFiles = useCallback((next: File[], nextActive: number | null) => {
+    const limited = next.slice(0, MAX_UPLOADED_FILES);
+    if (limited.length < next.length) {
+      toast.warning(`Maximum ${MAX_UPLOADED_FILES} files. Some files were not added.`);
+    }
+    _files = limited;
+    _activeIndex = nextActive !== null && nextActive < limited.length ? nextActive : null;
+    setFilesState(limited);
+    setActiveIndexState(_activeIndex);
+  }, []);
+
   const clearAll = useCallback(() => {
     _files = [];
     _activeIndex = null;
@@ -82,7 +130,7 @@ export function UploadedFilesProvider({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <UploadedFilesContext.Provider value={{ files, activeIndex, addFiles, removeFile, setActiveIndex: setActiveIdx, clearAll }}>
+    <UploadedFilesContext.Provider value={{ files, activeIndex, addFiles, removeFile, setActiveIndex: setActiveIdx, clearAll, replaceFiles, restoring }}>
       {children}
     </UploadedFilesContext.Provider>
   );
@@ -0,0 +1,190 @@
+/**
+ * Typed request/response protocol for analysis.worker.ts, plus the
+ * main-thread client that owns the Worker.
+ *
+ * The worker owns every RegionSet (the main thread only ever sees a
+ * `RegionSetSummary` handle), so gtars WASM never runs on the UI thread.
+ * Each request can report progress and be cancelled with an AbortSignal.
+ */
+
+import type { BedAnalysis, RefGenomicDistResult } from './bed-analysis';
+import type { RegionFormat } from './bed-formats';
+import type { Locus, TrackWindow } from './genome-browser';
+import type { ValidationReport } from './bed-validation';
+import type { SetExpression } from './set-expression';
+import type { SetOperation } from './set-operations';
+import type {
+  ComparisonCache,
+  ComparisonFile,
+  ComparisonStage,
+  ComparisonStageResult,
+  MultiFileResult,
+} from './multi-file-analysis';
+
+/** Main-thread handle for a RegionSet held by the worker. */
+export type RegionSetSummary = {
+  setId: string;
+  numberOfRegions: number;
+  meanRegionWidth: number;
+  nucleotidesLength: number;
+  parseTime: number;
+  /** Input format, from header lines or the file extension */
+  format: RegionFormat;
+  /** Max end coordinate per chromosome (for genome detection). Only set when requested. */
+  chromEnds?: Record<string, number>;
+  /** MinHash sketch of the covered bins (see minhash.ts). Only set when requested. */
+  sketch?: number[];
+};
+
+export type AnalysisRequest =
+  /**
+   * Parse a file into a worker-held RegionSet. `keepColumns` retains the
+   * columnar rows too; `positions` keeps only midpoint counts for the
+   * positional bins of `reference`; `sketch` takes a MinHash sketch while parsing.
+   */
+  | { type: 'load'; setId: string; file: File; chromEnds?: boolean; keepColumns?: boolean; positions?: boolean; sketch?: boolean }
+  | { type: 'analyze'; setId: string; fileName: string; fileSize: number; parseTime: number | null }
+  | { type: 'refGenomicdist'; setId: string; genome: string }
+  /** Regions overlapping a locus (or their counts in `bins` bins when zoomed out); a chromosome's rows are read on its first query */
+  | { type: 'regionsInRange'; setId: string; locus: Locus; bins: number }
+  /**
+   * Run one comparison stage over the sets (in `files` order), computing
+   * only what the worker's cache for these sets is missing. `seed` replaces
+   * that cache (send it with a run's first stage). Resolves with only the
+   * stage's new results; see mergeStageResult.
+   */
+  | {
+      type: 'compareStage';
+      stage: ComparisonStage;
+      setIds: string[];
+      files: ComparisonFile[];
+      seed?: ComparisonCache;
+    }
+  /** pintersectCount for index pairs into `files`, keyed by pair key (on-demand overlaps) */
+  | { type: 'overlapPairs'; setIds: string[]; files: ComparisonFile[]; pairs: [number, number][] }
+  /** Regions of a set operation as BED (gzipped when `gzip`); rows not kept at load are re-read from the files */
+  | { type: 'setOperation'; setIds: string[]; operation: SetOperation; gzip: boolean }
+  /** Evaluate a set-algebra expression over held sets and analyze the result */
+  | { type: 'evaluateExpression'; expression: SetExpression; fileName: string }
+  /** Regions of an expression as BED; its sets must be loaded with `keepColumns` */
+  | { type: 'expressionBed'; expression: SetExpression }
+  /** Positional bins, TSS histograms and partitions against a reference genome */
+  | {
+      type: 'reference';
+      setIds: string[];
+      fileNames: string[];
+      genome: string;
+      chromSizes: Record<string, number>;
+    }
+  /** Strict line-level validation; ends are bounds-checked when `chromSizes` is given */
+  | { type: 'validate'; file: File; genome: string | null; chromSizes: Record<string, number> | null }
+  /** Sorted, de-duplicated BED copy without invalid rows */
+  | { type: 'clean'; file: File; chromSizes: Record<string, number> | null }
+  | { type: 'free'; setIds: string[] };
+
+export type AnalysisResponse = {
+  load: RegionSetSummary;
+  analyze: BedAnalysis;
+  refGenomicdist: RefGenomicDistResult;
+  regionsInRange: TrackWindow;
+  compareStage: ComparisonStageResult;
+  overlapPairs: Record<string, number>;
+  setOperation: Blob;
+  evaluateExpression: BedAnalysis;
+  expressionBed: Blob;
+  reference: Pick<MultiFileResult, 'positionalBins' | 'tssHist' | 'filePartitions'>;
+  validate: ValidationReport;
+  clean: Blob;
+  free: null;
+};
+
+export type AnalysisWorkerInbound =
+  | { kind: 'request'; id: number; request: AnalysisRequest }
+  | { kind: 'cancel'; id: number };
+
+export type AnalysisWorkerOutbound =
+  | { kind: 'progress'; id: number; value: number; stage?: string }
+  | { kind: 'result'; id: number; result: AnalysisResponse[AnalysisRequest['type']] }
+  | { kind: 'error'; id: number; message: string; aborted: boolean };
+
+export type AnalysisProgressCallback = (value: number, stage?: string) => void;
+
+type Pending = {
+  resolve: (result: never) => void;
+  reject: (err: unknown) => void;
+  onProgress?: AnalysisProgressCallback;
+};
+
+export function isAbortError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'AbortError';
+}
+
+export class AnalysisWorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, Pending>();
+
+  constructor() {
+    this.worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<AnalysisWorkerOutbound>) => this.handle(e.data);
+    this.worker.onerror = () => {
+      for (const p of this.pending.values()) p.reject(new Error('Analysis worker crashed'));
+      this.pending.clear();
+    };
+  }
+
+  request<T extends AnalysisRequest['type']>(
+    request: Extract<AnalysisRequest, { type: T }>,
+    options: { signal?: AbortSignal; onProgress?: AnalysisProgressCallback } = {},
+  ): Promise<AnalysisResponse[T]> {
+    const { signal, onProgress } = options;
+    if (signal?.aborted) return Promise.reject(new DOMException('Aborted', 'AbortError'));
+
+    const id = this.nextId++;
+    return new Promise<AnalysisResponse[T]>((resolve, reject) => {
+      const onAbort = () => this.post({ kind: 'cancel', id });
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: ((result: AnalysisResponse[T]) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result);
+        }) as (result: never) => void,
+        reject: (err) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(err);
+        },
+        onProgress,
+      });
+      this.post({ kind: 'request', id, request });
+    });
+  }
+
+  /** Release RegionSets held by the worker. Fire-and-forget. */
+  free(setIds: string[]) {
+    if (setIds.length === 0) return;
+    this.request({ type: 'free', setIds }).catch(() => { /* worker gone */ });
+  }
+
+  /** Terminate the worker. Outstanding requests reject with an AbortError. */
+  dispose() {
+    this.worker.terminate();
+    for (const p of this.pending.values()) p.reject(new DOMException('Aborted', 'AbortError'));
+    this.pending.clear();
+  }
+
+  private post(msg: AnalysisWorkerInbound) {
+    this.worker.postMessage(msg);
+  }
+
+  private handle(msg: AnalysisWorkerOutbound) {
+    const p = this.pending.get(msg.id);
+    if (!p) return;
+    if (msg.kind === 'progress') {
+      p.onProgress?.(msg.value, msg.stage);
+      return;
+    }
+    this.pending.delete(msg.id);
+    if (msg.kind === 'result') p.resolve(msg.result as never);
+    else p.reject(msg.aborted ? new DOMException(msg.message, 'AbortError') : new Error(msg.message));
+  }
+}
@@ -0,0 +1,399 @@
+import { RegionSet, RegionSetList, type ChromosomeStatistics } from '@databio/gtars';
+import { BATCH_SIZE, detectRegionFormat, readBedBatches } from './bed-parser';
+import { BedColumnsBuilder, concatBedColumns, decodeRest, emptyBedColumns, type BedColumns } from './bed-columns';
+import type { RegionFormat } from './bed-formats';
+import { cleanBedFile, validateBedFile } from './bed-validation';
+import { fromRegionSet, computeRefGenomicdist, regionSetFromColumns } from './bed-analysis';
+import { MinHashSketcher } from './minhash';
+import { bedColumnsBlob, computeSetOperation, gzipBlob } from './set-operations';
+import { evaluateColumns, evaluateRegionSets, validateExpression } from './set-expression';
+import { columnsWindow, indexColumns, type ChromIndex } from './genome-browser';
+import {
+  buildRegionSetList,
+  computeOverlapPairs,
+  emptyComparisonCache,
+  runComparisonStage,
+  stageResult,
+  computeTssHistograms,
+  computeFilePartitions,
+  addPositions,
+  binByAbsolutePosition,
+  type ComparisonCache,
+  type PositionHistogram,
+  type PositionalBin,
+} from './multi-file-analysis';
+import type {
+  AnalysisRequest,
+  AnalysisResponse,
+  AnalysisWorkerInbound,
+  AnalysisWorkerOutbound,
+  RegionSetSummary,
+} from './analysis-worker-client';
+
+/** One chromosome's rows with their index for range queries */
+type BrowseRows = { columns: BedColumns; index: Map<string, ChromIndex>; rest: (i: number) => string };
+
+type HeldSet = {
+  rs: RegionSet;
+  columns: BedColumns | null;
+  /** Midpoint counts for positional binning, when loaded with `positions` */
+  positions: PositionHistogram | null;
+  /** Source file, re-read when rows are needed but weren't kept */
+  file: File;
+  format: RegionFormat;
+  /** First and last row (in file order) of each chromosome, recorded while loading */
+  chromRows: Map<string, [number, number]>;
+  /** Rows of the last chromosome browsed, read from the file on its first range query */
+  browse?: { chr: string; rows: Promise<BrowseRows> };
+};
+
+const sets = new Map<string, HeldSet>();
+const controllers = new Map<number, AbortController>();
+type Comparison = { setIds: string[]; rsl: RegionSetList; cache: ComparisonCache };
+
+/**
+ * RegionSetList and finished stages reused across the stage requests of one
+ * comparison, so the cache only crosses to the worker when seeded
+ */
+let comparison: Comparison | null = null;
+
+function post(msg: AnalysisWorkerOutbound) {
+  self.postMessage(msg);
+}
+
+function freeRs(rs: unknown) {
+  try {
+    (rs as { free?: () => void }).free?.();
+  } catch { /* ignore */ }
+}
+
+function getSet(setId: string): HeldSet {
+  const held = sets.get(setId);
+  if (!held) throw new Error(`Unknown region set '${setId}'`);
+  return held;
+}
+
+function releaseComparison() {
+  if (comparison) freeRs(comparison.rsl);
+  comparison = null;
+}
+
+function releaseSet(setId: string) {
+  if (comparison?.setIds.includes(setId)) releaseComparison();
+  const held = sets.get(setId);
+  if (held) {
+    freeRs(held.rs);
+    held.browse = undefined;
+  }
+  sets.delete(setId);
+}
+
+// --- Handlers ---
+
+async function load(
+  req: Extract<AnalysisRequest, { type: 'load' }>,
+  onProgress: (value: number, stage?: string) => void,
+  signal: AbortSignal,
+): Promise<RegionSetSummary> {
+  const start = performance.now();
+  const format = await detectRegionFormat(req.file);
+  signal.throwIfAborted();
+  // Batches go to WASM as they are parsed so only one batch of JS rows is live
+  const rsl = new RegionSetList();
+  const kept: BedColumns[] = [];
+  const positions: PositionHistogram | null = req.positions ? new Map() : null;
+  const sketcher = req.sketch ? new MinHashSketcher() : null;
+  const chromRows = new Map<string, [number, number]>();
+  let rs: RegionSet;
+  try {
+    let count = 0;
+    for await (const batch of readBedBatches(req.file, (p) => onProgress(p, 'Parsing'), BATCH_SIZE, format)) {
+      signal.throwIfAborted();
+      const batchRs = regionSetFromColumns(batch);
+      rsl.add(batchRs);
+      freeRs(batchRs);
+      if (req.keepColumns) kept.push(batch);
+      if (positions) addPositions(positions, batch);
+      sketcher?.add(batch);
+      addChromRows(chromRows, batch, count);
+      count += batch.length;
+    }
+    rs = count > 0 ? rsl.concat() : new RegionSet([]);
+  } finally {
+    freeRs(rsl);
+  }
+  if (signal.aborted) {
+    freeRs(rs);
+    signal.throwIfAborted();
+  }
+
+  releaseSet(req.setId);
+  sets.set(req.setId, {
+    rs,
+    columns: req.keepColumns ? (kept.length > 0 ? concatBedColumns(kept) : emptyBedColumns()) : null,
+    positions,
+    file: req.file,
+    format,
+    chromRows,
+  });
+
+  let chromEnds: Record<string, number> | undefined;
+  if (req.chromEnds) {
+    chromEnds = {};
+    const calc = rs.chromosomeStatistics();
+    if (calc) {
+      for (const entry of Array.from(calc.entries())) {
+        const [chrom, stats] = entry as [unknown, ChromosomeStatistics];
+        chromEnds[String(chrom)] = stats.end_nucleotide_position;
+        freeRs(stats);
+      }
+    }
+  }
+
+  return {
+    setId: req.setId,
+    numberOfRegions: rs.numberOfRegions,
+    meanRegionWidth: rs.meanRegionWidth,
+    nucleotidesLength: rs.nucleotidesLength,
+    parseTime: performance.now() - start,
+    format,
+    chromEnds,
+    sketch: sketcher?.finish(),
+  };
+}
+
+/** Extends each chromosome's first/last row range with a batch starting at row `offset`. */
+function addChromRows(chromRows: Map<string, [number, number]>, batch: BedColumns, offset: number) {
+  for (let i = 0; i < batch.length; i++) {
+    const chr = batch.chroms[batch.chromIds[i]];
+    const range = chromRows.get(chr);
+    if (range) range[1] = offset + i;
+    else chromRows.set(chr, [offset + i, offset + i]);
+  }
+}
+
+/**
+ * Rows of one chromosome with their range index. Unless the set kept its
+ * columns, the file is streamed up to the chromosome's last row and only its
+ * rows are kept, so browsing holds one chromosome rather than the whole file.
+ */
+async function readChromRows(held: HeldSet, chr: string): Promise<BrowseRows> {
+  const out = new BedColumnsBuilder();
+  const take = (batch: BedColumns, from = 0) => {
+    const id = batch.chroms.indexOf(chr);
+    if (id < 0) return;
+    const rest = decodeRest(batch);
+    for (let i = from; i < batch.length; i++) {
+      if (batch.chromIds[i] === id) out.push(chr, batch.starts[i], batch.ends[i], rest(i));
+    }
+  };
+  const range = held.chromRows.get(chr);
+  if (held.columns) {
+    take(held.columns);
+  } else if (range) {
+    const [first, last] = range;
+    let row = 0;
+    for await (const batch of readBedBatches(held.file, undefined, BATCH_SIZE, held.format)) {
+      if (row + batch.length > first) take(batch, Math.max(0, first - row));
+      row += batch.length;
+      if (row > last) break;
+    }
+  }
+  const columns = out.build();
+  return { columns, index: indexColumns(columns), rest: decodeRest(columns) };
+}
+
+/** Comparison of `setIds`, rebuilt (with an empty cache) only when the set list changes. */
+function comparisonFor(setIds: string[], fileNames: string[]): Comparison {
+  if (comparison && comparison.setIds.join('\n') === setIds.join('\n')) return comparison;
+  releaseComparison();
+  const rsl = buildRegionSetList(setIds.map((id) => getSet(id).rs), fileNames);
+  comparison = { setIds, rsl, cache: emptyComparisonCache() };
+  return comparison;
+}
+
+async function reference(
+  req: Extract<AnalysisRequest, { type: 'reference' }>,
+  onProgress: (value: number, stage?: string) => void,
+  signal: AbortSignal,
+): Promise<AnalysisResponse['reference']> {
+  const held = req.setIds.map(getSet);
+  const regionSets = held.map((h) => h.rs);
+  const { fileNames, genome, chromSizes } = req;
+
+  const positionalBins: PositionalBin[] = [];
+  held.forEach((h, i) => {
+    if (h.positions) positionalBins.push(...binByAbsolutePosition(h.positions, fileNames[i], chromSizes));
+  });
+  onProgress(0.2, 'Reference annotations');
+  const tssHist = await computeTssHistograms(regionSets, fileNames, genome, signal);
+  onProgress(0.6, 'Reference annotations');
+  const filePartitions = await computeFilePartitions(regionSets, fileNames, genome, chromSizes, signal);
+  onProgress(1, 'Reference annotations');
+
+  return { positionalBins, tssHist, filePartitions };
+}
+
+function getColumns(setId: string): BedColumns {
+  const { columns } = getSet(setId);
+  if (!columns) throw new Error(`Region set '${setId}' was loaded without its rows`);
+  return columns;
+}
+
+/** Rows of a set, re-read from its file when they weren't kept; the result isn't held. */
+async function readColumns(setId: string, signal: AbortSignal): Promise<BedColumns> {
+  const held = getSet(setId);
+  if (held.columns) return held.columns;
+  const batches: BedColumns[] = [];
+  for await (const batch of readBedBatches(held.file, undefined, BATCH_SIZE, held.format)) {
+    signal.throwIfAborted();
+    batches.push(batch);
+  }
+  return batches.length > 0 ? concatBedColumns(batches) : emptyBedColumns();
+}
+
+async function setOperation(
+  req: Extract<AnalysisRequest, { type: 'setOperation' }>,
+  onProgress: (value: number, stage?: string) => void,
+  signal: AbortSignal,
+): Promise<Blob> {
+  const columns: BedColumns[] = [];
+  for (const [i, setId] of req.setIds.entries()) {
+    columns.push(await readColumns(setId, signal));
+    onProgress(((i + 1) / req.setIds.length) * 0.5, 'Reading files');
+  }
+  const blob = bedColumnsBlob(computeSetOperation(columns, req.operation, signal));
+  onProgress(req.gzip ? 0.75 : 1, 'Writing BED');
+  if (!req.gzip) return blob;
+  const gz = await gzipBlob(blob);
+  onProgress(1, 'Writing BED');
+  return gz;
+}
+
+async function evaluateExpression(
+  req: Extract<AnalysisRequest, { type: 'evaluateExpression' }>,
+  onProgress: (value: number, stage?: string) => void,
+  signal: AbortSignal,
+): Promise<AnalysisResponse['evaluateExpression']> {
+  validateExpression(req.expression);
+  const { rs, owned } = evaluateRegionSets(req.expression, (id) => getSet(id).rs);
+  try {
+    return await fromRegionSet(rs, { name: req.fileName, size: 0 }, null, (p) => onProgress(p, 'Analyzing'), signal);
+  } finally {
+    if (owned) freeRs(rs);
+  }
+}
+
+async function dispatch(
+  req: AnalysisRequest,
+  onProgress: (value: number, stage?: string) => void,
+  signal: AbortSignal,
+): Promise<AnalysisResponse[AnalysisRequest['type']]> {
+  switch (req.type) {
+    case 'load':
+      return load(req, onProgress, signal);
+    case 'analyze': {
+      const held = getSet(req.setId);
+      const analysis = await fromRegionSet(
+        held.rs,
+        { name: req.fileName, size: req.fileSize },
+        req.parseTime,
+        (p) => onProgress(p, 'Analyzing'),
+        signal,
+      );
+      return { ...analysis, fileFormat: held.format };
+    }
+    case 'refGenomicdist':
+      return computeRefGenomicdist(getSet(req.setId).rs, req.genome, signal);
+    case 'regionsInRange': {
+      const held = getSet(req.setId);
+      const { chr } = req.locus;
+      if (held.browse?.chr !== chr) {
+        // Not tied to this request's signal: the rows outlive the query that read them
+        const browse = { chr, rows: readChromRows(held, chr) };
+        browse.rows.catch(() => { if (held.browse === browse) held.browse = undefined; });
+        held.browse = browse;
+      }
+      const { columns, index, rest } = await held.browse.rows;
+      signal.throwIfAborted();
+      return columnsWindow(columns, index, rest, req.locus, req.bins);
+    }
+    case 'compareStage': {
+      const held = comparisonFor(req.setIds, req.files.map((f) => f.name));
+      if (req.seed) held.cache = req.seed;
+      const before = held.cache;
+      held.cache = await runComparisonStage(req.stage, held.rsl, req.files, before, onProgress, signal);
+      return stageResult(req.stage, before, held.cache);
+    }
+    case 'overlapPairs': {
+      const held = comparisonFor(req.setIds, req.files.map((f) => f.name));
+      const counts = await computeOverlapPairs(
+        held.rsl,
+        req.files,
+        req.pairs,
+        (p) => onProgress(p, 'Pairwise overlaps'),
+        signal,
+      );
+      held.cache = { ...held.cache, overlap: { ...held.cache.overlap, ...counts } };
+      return counts;
+    }
+    case 'setOperation':
+      return setOperation(req, onProgress, signal);
+    case 'evaluateExpression':
+      return evaluateExpression(req, onProgress, signal);
+    case 'expressionBed':
+      validateExpression(req.expression);
+      return bedColumnsBlob(evaluateColumns(req.expression, getColumns, signal));
+    case 'reference':
+      return reference(req, onProgress, signal);
+    case 'validate':
+      return validateBedFile(
+        req.file,
+        await detectRegionFormat(req.file),
+        req.chromSizes,
+        req.genome,
+        (p) => onProgress(p, 'Validating'),
+        signal,
+      );
+    case 'clean':
+      return cleanBedFile(
+        req.file,
+        await detectRegionFormat(req.file),
+        req.chromSizes,
+        (p) => onProgress(p, 'Cleaning'),
+        signal,
+      );
+    case 'free':
+      for (const setId of req.setIds) releaseSet(setId);
+      return null;
+  }
+}
+
+self.onmessage = async (e: MessageEvent<AnalysisWorkerInbound>) => {
+  const msg = e.data;
+  if (msg.kind === 'cancel') {
+    controllers.get(msg.id)?.abort();
+    return;
+  }
+
+  const { id, request } = msg;
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    const result = await dispatch(
+      request,
+      (value, stage) => post({ kind: 'progress', id, value, stage }),
+      controller.signal,
+    );
+    post({ kind: 'result', id, result });
+  } catch (err) {
+    post({
+      kind: 'error',
+      id,
+      message: err instanceof Error ? err.message : 'Analysis failed',
+      aborted: controller.signal.aborted,
+    });
+  } finally {
+    controllers.delete(id);
+  }
+};
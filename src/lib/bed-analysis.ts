@@ -1,13 +1,18 @@
-import type { RegionSet, ChromosomeStatistics } from '@databio/gtars';
+import { RegionSet, RegionSetList, type ChromosomeStatistics } from '@databio/gtars';
 import type { components } from '../bedbase-types';
 import type { PlotSlot } from './plot-specs';
 import { fileModelToUrl, fileModelToPlotSlot } from './file-model-utils';
+import { bedColumnsToEntries, decodeRest, type BedColumns } from './bed-columns';
+import type { RegionFormat } from './bed-formats';
 import { compressedDistributionSlots, type CompressedDistributions } from '../components/analysis/plots/server/compressed-plots';
 
 type BedMetadataAll = components['schemas']['BedMetadataAll'];
 
 export const REGION_DIST_BINS = 250;
 
+/** Rows per RegionSet when handing columns to WASM (bounds the tuple copy). */
+const WASM_CHUNK = 50_000;
+
 // --- Normalized data types consumed by all analysis panels ---
 
 export type ChromosomeRow = {
@@ -62,6 +67,8 @@ export type BedAnalysis = {
   fileName?: string;
   fileSize?: number;
   parseTime?: number;
+  /** Input format of a local file (BED, narrowPeak, VCF, ...) */
+  fileFormat?: RegionFormat;
 
   // Summary stats (both sources)
   summary: {
@@ -236,17 +243,60 @@ export function fromApiResponse(data: BedMetadataAll): BedAnalysis {
   };
 }
 
+/**
+ * Build a RegionSet from columns. Tuples are created one chunk at a time so
+ * the JS-side copy never exceeds WASM_CHUNK rows.
+ */
+export function regionSetFromColumns(cols: BedColumns): RegionSet {
+  if (cols.length <= WASM_CHUNK) return new RegionSet(bedColumnsToEntries(cols));
+
+  const rest = decodeRest(cols);
+  const rsl = new RegionSetList();
+  try {
+    for (let from = 0; from < cols.length; from += WASM_CHUNK) {
+      const to = Math.min(from + WASM_CHUNK, cols.length);
+      const chunk = new RegionSet(bedColumnsToEntries(cols, from, to, rest));
+      rsl.add(chunk);
+      try { (chunk as unknown as { free?: () => void }).free?.(); } catch { /* ignore */ }
+    }
+    return rsl.concat();
+  } finally {
+    try { (rsl as unknown as { free?: () => void }).free?.(); } catch { /* ignore */ }
+  }
+}
+
 /**
  * Build a BedAnalysis from a RegionSet in steps, yielding between each
  * so the browser can repaint and update a progress bar.
  *
+ * Columnar input is converted to a temporary RegionSet that is freed
+ * once the analysis completes.
+ *
  * @param onProgress - called with 0–1 between steps
+ * @param signal - checked between steps; aborting rejects with an AbortError
  */
 export async function fromRegionSet(
+  source: RegionSet | BedColumns,
+  file: Pick<File, 'name' | 'size'>,
+  parseTime: number | null,
+  onProgress?: (p: number) => void,
+  signal?: AbortSignal,
+): Promise<BedAnalysis> {
+  if (source instanceof RegionSet) return analyzeRegionSet(source, file, parseTime, onProgress, signal);
+  const rs = regionSetFromColumns(source);
+  try {
+    return await analyzeRegionSet(rs, file, parseTime, onProgress, signal);
+  } finally {
+    try { (rs as unknown as { free?: () => void }).free?.(); } catch { /* ignore */ }
+  }
+}
+
+async function analyzeRegionSet(
   rs: RegionSet,
-  file: File,
+  file: Pick<File, 'name' | 'size'>,
   parseTime: number | null,
   onProgress?: (p: number) => void,
+  signal?: AbortSignal,
 ): Promise<BedAnalysis> {
   // Step 1: basic stats + classify (~instant)
   const classify = rs.classify;
@@ -258,7 +308,7 @@ export async function fromRegionSet(
     bedCompliance: classify?.bed_compliance ?? null,
   };
   onProgress?.(0.2);
-  await yieldToMain();
+  await yieldToMain(signal);
 
   // Step 2: chromosome statistics (~heavy)
   const chromosomeStats: ChromosomeRow[] = [];
@@ -287,7 +337,7 @@ export async function fromRegionSet(
     );
   }
   onProgress?.(0.7);
-  await yieldToMain();
+  await yieldToMain(signal);
 
   // Step 3: region distribution (~heavy)
   // TODO: pass chromSizes here once genome detection is wired into the single-file
@@ -297,7 +347,7 @@ export async function fromRegionSet(
   // take effect once @databio/gtars is republished with the new types.
   const regionDistribution = (rs.regionDistribution(REGION_DIST_BINS) as DistributionPoint[]) ?? [];
   onProgress?.(0.85);
-  await yieldToMain();
+  await yieldToMain(signal);
 
   // Step 4: genomicdist functions (local WASM only — types not in npm package yet)
   let genomicdist: GenomicDistResult | undefined;
@@ -352,9 +402,12 @@ export async function fromRegionSet(
   };
 }
 
-/** Yield to the main thread so the browser can repaint */
-function yieldToMain(): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, 0));
+/**
+ * Yield to the event loop so the browser can repaint (or, inside a worker,
+ * so a pending cancel message can be delivered), then honour `signal`.
+ */
+function yieldToMain(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0)).then(() => signal?.throwIfAborted());
 }
 
 // --- Reference-data-dependent genomicdist computation ---
@@ -375,6 +428,7 @@ import {
 export async function computeRefGenomicdist(
   rs: RegionSet,
   genome: string,
+  signal?: AbortSignal,
 ): Promise<RefGenomicDistResult> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const rsAny = rs as any;
@@ -394,12 +448,16 @@ export async function computeRefGenomicdist(
   try { tssIndex.free?.(); } catch { /* */ }
   try { tssRs.free?.(); } catch { /* */ }
 
-  await yieldToMain();
+  await yieldToMain(signal);
 
   // --- Partitions (gene model file, ~2.9 MB) ---
   let partitions: RefGenomicDistResult['partitions'] = null;
   let expectedPartitions: RefGenomicDistResult['expectedPartitions'] = null;
 
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let geneModel: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let partitionList: any = null;
   try {
     const refGM = await loadRefGeneModel(genome);
 
@@ -410,14 +468,14 @@ export async function computeRefGenomicdist(
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const gtars = await import('@databio/gtars') as any;
-    const geneModel = new gtars.GeneModel(
+    geneModel = new gtars.GeneModel(
       genesTuples, exonsTuples, threeUtrTuples, fiveUtrTuples,
     );
-    const partitionList = gtars.PartitionList.fromGeneModel(
+    partitionList = gtars.PartitionList.fromGeneModel(
       geneModel, 200, 2000, refBase.chromSizes,
     );
 
-    await yieldToMain();
+    await yieldToMain(signal);
 
     partitions = rsAny.constructor?.calcPartitions
       ? gtars.calcPartitions(rs, partitionList, false)
@@ -428,16 +486,17 @@ export async function computeRefGenomicdist(
       partitions = gtars.calcPartitions(rs, partitionList, false);
     }
 
-    await yieldToMain();
+    await yieldToMain(signal);
 
     expectedPartitions = gtars.calcExpectedPartitions(
       rs, partitionList, refBase.chromSizes, false,
     ) as ExpectedPartitionRow[] | null;
-
-    try { partitionList.free?.(); } catch { /* */ }
-    try { geneModel.free?.(); } catch { /* */ }
-  } catch {
+  } catch (err) {
+    if (signal?.aborted) throw err;
     /* gene model fetch or partition computation failed */
+  } finally {
+    try { partitionList?.free?.(); } catch { /* */ }
+    try { geneModel?.free?.(); } catch { /* */ }
   }
 
   return {
@@ -0,0 +1,190 @@
+/**
+ * Columnar in-memory representation of a BED file.
+ *
+ * Chromosome names are dictionary-encoded and coordinates live in typed
+ * arrays, so a batch can be posted between threads with its buffers
+ * transferred (zero-copy) instead of structured-cloning millions of tuples.
+ */
+
+import type { BedEntry } from './bed-parser';
+
+export type BedColumns = {
+  length: number;
+  /** Chromosome dictionary; `chromIds[i]` indexes into this array. */
+  chroms: string[];
+  chromIds: Uint32Array;
+  starts: Uint32Array;
+  ends: Uint32Array;
+  /**
+   * Columns 4+ of every row, UTF-8 encoded and joined by '\n'. Row `i` is
+   * `decoded.slice(restOffsets[i], restOffsets[i + 1] - 1)`, where offsets
+   * are UTF-16 positions in the decoded string. Null when every row is BED3.
+   */
+  rest: Uint8Array | null;
+  restOffsets: Uint32Array | null;
+};
+
+// --- Building ---
+
+/** Largest coordinate a Uint32Array column holds. */
+export const MAX_COORDINATE = 0xffff_ffff;
+
+/** Rows outside [0, MAX_COORDINATE] would wrap around in the typed arrays, so parsers drop them. */
+export function isStorableRange(start: number, end: number): boolean {
+  return start >= 0 && end >= 0 && start <= MAX_COORDINATE && end <= MAX_COORDINATE;
+}
+
+function encodeRest(rows: string[]): { rest: Uint8Array; restOffsets: Uint32Array } {
+  const restOffsets = new Uint32Array(rows.length + 1);
+  let pos = 0;
+  for (let i = 0; i < rows.length; i++) {
+    restOffsets[i] = pos;
+    pos += rows[i].length + 1;
+  }
+  restOffsets[rows.length] = pos;
+  // Trailing '\n' keeps every row (including the last) at offset + length + 1
+  return { rest: new TextEncoder().encode(rows.join('\n') + '\n'), restOffsets };
+}
+
+/**
+ * Accumulates rows into growable typed arrays. Used by the streaming parser
+ * to emit one BedColumns per batch.
+ */
+export class BedColumnsBuilder {
+  private chromIndex = new Map<string, number>();
+  private chroms: string[] = [];
+  private chromIds: Uint32Array;
+  private starts: Uint32Array;
+  private ends: Uint32Array;
+  private rest: string[] = [];
+  private hasRest = false;
+  length = 0;
+
+  constructor(capacity = 1024) {
+    this.chromIds = new Uint32Array(capacity);
+    this.starts = new Uint32Array(capacity);
+    this.ends = new Uint32Array(capacity);
+  }
+
+  push(chr: string, start: number, end: number, rest: string) {
+    if (this.length === this.starts.length) this.grow();
+    let id = this.chromIndex.get(chr);
+    if (id === undefined) {
+      id = this.chroms.length;
+      this.chromIndex.set(chr, id);
+      this.chroms.push(chr);
+    }
+    const i = this.length++;
+    this.chromIds[i] = id;
+    this.starts[i] = start;
+    this.ends[i] = end;
+    this.rest.push(rest);
+    if (rest) this.hasRest = true;
+  }
+
+  build(): BedColumns {
+    const n = this.length;
+    return {
+      length: n,
+      chroms: this.chroms,
+      chromIds: this.chromIds.slice(0, n),
+      starts: this.starts.slice(0, n),
+      ends: this.ends.slice(0, n),
+      ...(this.hasRest ? encodeRest(this.rest) : { rest: null, restOffsets: null }),
+    };
+  }
+
+  private grow() {
+    const cap = this.starts.length * 2;
+    const resize = (a: Uint32Array) => {
+      const next = new Uint32Array(cap);
+      next.set(a);
+      return next;
+    };
+    this.chromIds = resize(this.chromIds);
+    this.starts = resize(this.starts);
+    this.ends = resize(this.ends);
+  }
+}
+
+export function emptyBedColumns(): BedColumns {
+  return new BedColumnsBuilder(0).build();
+}
+
+/** Concatenate batches into one BedColumns, merging chromosome dictionaries. */
+export function concatBedColumns(parts: BedColumns[]): BedColumns {
+  if (parts.length === 1) return parts[0];
+  const total = parts.reduce((s, p) => s + p.length, 0);
+  const chromIndex = new Map<string, number>();
+  const chroms: string[] = [];
+  const chromIds = new Uint32Array(total);
+  const starts = new Uint32Array(total);
+  const ends = new Uint32Array(total);
+  const anyRest = parts.some((p) => p.rest);
+  const restBytes = anyRest
+    ? parts.reduce((s, p) => s + (p.rest ? p.rest.byteLength : p.length), 0)
+    : 0;
+  const rest = anyRest ? new Uint8Array(restBytes) : null;
+  const restOffsets = anyRest ? new Uint32Array(total + 1) : null;
+
+  let offset = 0;
+  let restPos = 0;     // UTF-16 position in the decoded rest string
+  let restByte = 0;    // byte position in the encoded rest buffer
+  for (const part of parts) {
+    const remap = part.chroms.map((c) => {
+      let id = chromIndex.get(c);
+      if (id === undefined) {
+        id = chroms.length;
+        chromIndex.set(c, id);
+        chroms.push(c);
+      }
+      return id;
+    });
+    for (let i = 0; i < part.length; i++) chromIds[offset + i] = remap[part.chromIds[i]];
+    starts.set(part.starts, offset);
+    ends.set(part.ends, offset);
+
+    // Rest buffers concatenate byte-wise; BED3 parts contribute one '\n' per row
+    if (rest && restOffsets) {
+      if (part.rest && part.restOffsets) {
+        rest.set(part.rest, restByte);
+        restByte += part.rest.byteLength;
+        for (let i = 0; i < part.length; i++) restOffsets[offset + i] = restPos + part.restOffsets[i];
+        restPos += part.restOffsets[part.length];
+      } else {
+        rest.fill(0x0a, restByte, restByte + part.length);
+        restByte += part.length;
+        for (let i = 0; i < part.length; i++) restOffsets[offset + i] = restPos + i;
+        restPos += part.length;
+      }
+    }
+    offset += part.length;
+  }
+  if (restOffsets) restOffsets[total] = restPos;
+
+  return { length: total, chroms, chromIds, starts, ends, rest, restOffsets };
+}
+
+// --- Reading ---
+
+/** Returns an accessor for the rest column of row `i` ('' for BED3 input). */
+export function decodeRest(cols: BedColumns): (i: number) => string {
+  if (!cols.rest || !cols.restOffsets) return () => '';
+  const text = new TextDecoder().decode(cols.rest);
+  const offsets = cols.restOffsets;
+  return (i) => text.slice(offsets[i], offsets[i + 1] - 1);
+}
+
+/** Materialize rows [from, to) as BedEntry tuples (the shape gtars accepts). */
+export function bedColumnsToEntries(
+  cols: BedColumns,
+  from = 0,
+  to = cols.length,
+  rest = decodeRest(cols),
+): BedEntry[] {
+  const entries: BedEntry[] = new Array(to - from);
+  for (let i = from; i < to; i++) {
+    entries[i - from] = [cols.chroms[cols.chromIds[i]], cols.starts[i], cols.ends[i], rest(i)];
+  }
+  return entries;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { REGION_FORMATS, formatFromFileName, formatFromHeader, isRegionFile } from './bed-formats';
+
+const adapt = (format: keyof typeof REGION_FORMATS, line: string) => REGION_FORMATS[format].adapt(line.split('\t'));
+
+describe('REGION_FORMATS adapters', () => {
+  it('passes BED rows through, keeping columns 4+ as the rest field', () => {
+    expect(adapt('bed', 'chr1\t10\t20\tpeak1\t500\t+')).toEqual({ chr: 'chr1', start: 10, end: 20, rest: 'peak1\t500\t+' });
+    expect(adapt('narrowPeak', 'chr2\t0\t5')).toEqual({ chr: 'chr2', start: 0, end: 5, rest: '' });
+  });
+
+  it('skips BED lines with too few columns or non-numeric coordinates', () => {
+    expect(adapt('bed', 'chr1\t10')).toBeNull();
+    expect(adapt('bed', 'chr1\tstart\t20')).toBeNull();
+  });
+
+  it('converts 1-based GFF coordinates and maps the columns onto BED6', () => {
+    expect(adapt('gff', 'chr1\tEnsembl\tgene\t11\t20\t.\t-\t.\tID=gene1;Name=TP53')).toEqual({
+      chr: 'chr1',
+      start: 10,
+      end: 20,
+      rest: 'TP53\t.\t-\tgene\tEnsembl\t.',
+    });
+  });
+
+  it('names GTF features by gene_name, then gene_id', () => {
+    const line = 'chr1\tHAVANA\texon\t1\t100\t7\t+\t0\tgene_id "ENSG1"; gene_name "BRCA1";';
+    expect(adapt('gtf', line)?.rest.split('\t')[0]).toBe('BRCA1');
+    expect(adapt('gtf', 'chr1\tHAVANA\texon\t1\t100\t7\t+\t0\tgene_id "ENSG1";')?.rest.split('\t')[0]).toBe('ENSG1');
+  });
+
+  it('skips GFF lines before position 1', () => {
+    expect(adapt('gff', 'chr1\tsrc\tgene\t0\t20')).toBeNull();
+  });
+
+  it('covers the reference allele of a VCF record', () => {
+    expect(adapt('vcf', 'chr1\t101\trs1\tACG\tA\t50\tPASS')).toEqual({
+      chr: 'chr1',
+      start: 100,
+      end: 103,
+      rest: 'rs1\t50\t.\tACG\tA\tPASS',
+    });
+  });
+});
+
+describe('formatFromFileName', () => {
+  it('detects the format from the extension, ignoring case and .gz', () => {
+    expect(formatFromFileName('peaks.narrowPeak.gz')).toBe('narrowPeak');
+    expect(formatFromFileName('signal.BDG')).toBe('bedGraph');
+    expect(formatFromFileName('genes.gff3')).toBe('gff');
+    expect(formatFromFileName('calls.vcf.gz')).toBe('vcf');
+  });
+
+  it('returns null for other files', () => {
+    expect(formatFromFileName('notes.txt')).toBeNull();
+    expect(isRegionFile('archive.gz')).toBe(false);
+    expect(isRegionFile('regions.bed')).toBe(true);
+  });
+});
+
+describe('formatFromHeader', () => {
+  it('recognizes VCF, GFF and GTF headers', () => {
+    expect(formatFromHeader('##fileformat=VCFv4.2')).toBe('vcf');
+    expect(formatFromHeader('##gff-version 3')).toBe('gff');
+    expect(formatFromHeader('##gff-version 2')).toBe('gtf');
+  });
+
+  it('recognizes track lines by type', () => {
+    expect(formatFromHeader('track type=narrowPeak name="peaks"')).toBe('narrowPeak');
+    expect(formatFromHeader('track name="signal" type=bedGraph')).toBe('bedGraph');
+  });
+
+  it('returns null for lines that say nothing about the format', () => {
+    expect(formatFromHeader('track name="regions"')).toBeNull();
+    expect(formatFromHeader('# comment')).toBeNull();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * BED-like input formats and the adapters that map them onto BED rows.
+ *
+ * Every format is reduced to a 0-based, half-open `chr/start/end` plus a
+ * tab-separated rest field. The rest field always starts with BED's
+ * name/score/strand (where the format has them) so gtars sees a BED6-like
+ * layout; format-specific columns follow and are described by `columns`.
+ */
+
+export type RegionFormat = 'bed' | 'narrowPeak' | 'broadPeak' | 'bedGraph' | 'gff' | 'gtf' | 'vcf';
+
+export type ExtraColumnType = 'string' | 'number' | 'strand';
+
+export type ExtraColumn = { name: string; type: ExtraColumnType };
+
+type AdaptedRow = { chr: string; start: number; end: number; rest: string };
+
+/** Maps one tab-split data line to a BED row; null skips the line. */
+export type FormatAdapter = (cols: string[]) => AdaptedRow | null;
+
+type FormatSpec = {
+  label: string;
+  /** Lowercase file extensions, without a trailing .gz */
+  extensions: string[];
+  /** Typed columns carried in the rest field, in order */
+  columns: ExtraColumn[];
+  adapt: FormatAdapter;
+};
+
+const str = (name: string): ExtraColumn => ({ name, type: 'string' });
+const num = (name: string): ExtraColumn => ({ name, type: 'number' });
+const STRAND: ExtraColumn = { name: 'strand', type: 'strand' };
+
+/** BED and its fixed-layout derivatives are already 0-based half-open. */
+function adaptBedLike(cols: string[]): AdaptedRow | null {
+  if (cols.length < 3) return null;
+  const start = parseInt(cols[1], 10);
+  const end = parseInt(cols[2], 10);
+  if (isNaN(start) || isNaN(end)) return null;
+  return { chr: cols[0], start, end, rest: cols.slice(3).join('\t') };
+}
+
+/** Feature name from a GFF3 (`ID=x;Name=y`) or GTF (`gene_id "x";`) attribute column. */
+function featureName(attributes: string | undefined, gtf: boolean): string {
+  if (!attributes) return '.';
+  const keys = gtf ? ['gene_name', 'gene_id', 'transcript_id'] : ['Name', 'ID', 'gene_name', 'gene_id'];
+  for (const key of keys) {
+    const match = gtf
+      ? attributes.match(new RegExp(`(?:^|;)\\s*${key}\\s+"([^"]*)"`))
+      : attributes.match(new RegExp(`(?:^|;)\\s*${key}=([^;]*)`));
+    if (match?.[1]) return match[1];
+  }
+  return '.';
+}
+
+/** GFF/GTF coordinates are 1-based and end-inclusive. */
+function adaptGffLike(gtf: boolean): FormatAdapter {
+  return (cols) => {
+    if (cols.length < 5) return null;
+    const start = parseInt(cols[3], 10);
+    const end = parseInt(cols[4], 10);
+    if (isNaN(start) || isNaN(end) || start < 1) return null;
+    const rest = [
+      featureName(cols[8], gtf),
+      cols[5] ?? '.',
+      cols[6] ?? '.',
+      cols[2] ?? '.',
+      cols[1] ?? '.',
+      cols[7] ?? '.',
+    ];
+    return { chr: cols[0], start: start - 1, end, rest: rest.join('\t') };
+  };
+}
+
+/** A VCF record covers its reference allele, starting at the 1-based POS. */
+function adaptVcf(cols: string[]): AdaptedRow | null {
+  if (cols.length < 4) return null;
+  const pos = parseInt(cols[1], 10);
+  if (isNaN(pos) || pos < 1) return null;
+  const ref = cols[3];
+  const start = pos - 1;
+  const rest = [cols[2] ?? '.', cols[5] ?? '.', '.', ref, cols[4] ?? '.', cols[6] ?? '.'];
+  return { chr: cols[0], start, end: start + Math.max(ref.length, 1), rest: rest.join('\t') };
+}
+
+const BED6: ExtraColumn[] = [str('name'), num('score'), STRAND];
+
+export const REGION_FORMATS: Record<RegionFormat, FormatSpec> = {
+  bed: {
+    label: 'BED',
+    extensions: ['.bed'],
+    columns: [
+      ...BED6,
+      num('thickStart'), num('thickEnd'), str('itemRgb'),
+      num('blockCount'), str('blockSizes'), str('blockStarts'),
+    ],
+    adapt: adaptBedLike,
+  },
+  narrowPeak: {
+    label: 'narrowPeak',
+    extensions: ['.narrowpeak'],
+    columns: [...BED6, num('signalValue'), num('pValue'), num('qValue'), num('peak')],
+    adapt: adaptBedLike,
+  },
+  broadPeak: {
+    label: 'broadPeak',
+    extensions: ['.broadpeak'],
+    columns: [...BED6, num('signalValue'), num('pValue'), num('qValue')],
+    adapt: adaptBedLike,
+  },
+  bedGraph: {
+    label: 'bedGraph',
+    extensions: ['.bedgraph', '.bdg'],
+    columns: [num('value')],
+    adapt: adaptBedLike,
+  },
+  gff: {
+    label: 'GFF',
+    extensions: ['.gff', '.gff3'],
+    columns: [...BED6, str('feature'), str('source'), str('phase')],
+    adapt: adaptGffLike(false),
+  },
+  gtf: {
+    label: 'GTF',
+    extensions: ['.gtf'],
+    columns: [...BED6, str('feature'), str('source'), str('frame')],
+    adapt: adaptGffLike(true),
+  },
+  vcf: {
+    label: 'VCF',
+    extensions: ['.vcf'],
+    columns: [str('id'), num('qual'), STRAND, str('ref'), str('alt'), str('filter')],
+    adapt: adaptVcf,
+  },
+};
+
+/** Value for `<input accept>` listing every supported extension. */
+export const REGION_FILE_ACCEPT = [
+  ...Object.values(REGION_FORMATS).flatMap((f) => f.extensions),
+  '.gz',
+].join(',');
+
+/** Human-readable list of supported extensions, for hints and warnings. */
+export const REGION_FILE_EXTENSIONS_LABEL = '.bed, .narrowPeak, .broadPeak, .bedGraph, .gff, .gtf, .vcf (optionally .gz)';
+
+/** Detect the format from the file name (a trailing .gz is ignored). */
+export function formatFromFileName(name: string): RegionFormat | null {
+  const lower = name.toLowerCase().replace(/\.gz$/, '');
+  for (const [format, spec] of Object.entries(REGION_FORMATS) as [RegionFormat, FormatSpec][]) {
+    if (spec.extensions.some((ext) => lower.endsWith(ext))) return format;
+  }
+  return null;
+}
+
+export function isRegionFile(name: string): boolean {
+  return formatFromFileName(name) !== null;
+}
+
+/**
+ * Detect the format from a header line (`##fileformat=VCF`, `##gff-version`,
+ * `track type=narrowPeak`, ...). Returns null for lines that say nothing.
+ */
+export function formatFromHeader(line: string): RegionFormat | null {
+  if (line.startsWith('##fileformat=VCF')) return 'vcf';
+  if (line.startsWith('##gff-version')) return /##gff-version\s+2\b/.test(line) ? 'gtf' : 'gff';
+  const track = line.match(/^track\b.*\btype=(\w+)/);
+  if (track) {
+    const type = track[1].toLowerCase();
+    if (type === 'narrowpeak') return 'narrowPeak';
+    if (type === 'broadpeak') return 'broadPeak';
+    if (type === 'bedgraph') return 'bedGraph';
+  }
+  return null;
+}
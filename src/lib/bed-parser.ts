@@ -1,86 +1,234 @@
 import pako from 'pako';
+import { BedColumnsBuilder, isStorableRange, type BedColumns } from './bed-columns';
+import {
+  REGION_FORMATS,
+  formatFromFileName,
+  formatFromHeader,
+  type FormatAdapter,
+  type RegionFormat,
+} from './bed-formats';
 
 export type BedEntry = [string, number, number, string];
 
 export type ProgressCallback = (fraction: number) => void;
 
-const CHUNK_SIZE = 50_000; // lines per batch before yielding
+/** Lines per batch emitted by the streaming reader. */
+export const BATCH_SIZE = 50_000;
 
-function readFileWithProgress(
-  file: File,
-  onProgress?: ProgressCallback,
-): Promise<ArrayBuffer> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    let lastReport = 0;
+function isGzipped(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.gz');
+}
 
-    reader.onprogress = (e) => {
-      if (!onProgress || !e.lengthComputable) return;
-      const now = performance.now();
-      if (now - lastReport < 50) return;
-      lastReport = now;
-      onProgress(0.3 * (e.loaded / e.total));
-    };
-
-    reader.onload = () => {
-      onProgress?.(0.3);
-      resolve(reader.result as ArrayBuffer);
-    };
-    reader.onerror = () => reject(reader.error);
-    reader.readAsArrayBuffer(file);
+/**
+ * Streaming gunzip. Uses the native DecompressionStream where available
+ * (it also handles multi-member/bgzip archives) and falls back to an
+ * incremental pako.Inflate otherwise.
+ */
+function gunzipStream(): ReadableWritablePair<Uint8Array, Uint8Array<ArrayBuffer>> {
+  if (typeof DecompressionStream !== 'undefined') {
+    return new DecompressionStream('gzip');
+  }
+
+  const inflator = new pako.Inflate();
+  let pending: Uint8Array[] = [];
+  inflator.onData = (chunk) => { pending.push(chunk as Uint8Array); };
+
+  const drain = (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (inflator.err) throw new Error(inflator.msg || 'Failed to decompress file');
+    for (const chunk of pending) controller.enqueue(chunk);
+    pending = [];
+  };
+
+  return new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array>({
+    transform(chunk, controller) {
+      inflator.push(chunk, false);
+      drain(controller);
+    },
+    flush(controller) {
+      inflator.push(new Uint8Array(0), true);
+      drain(controller);
+    },
   });
 }
 
-function yieldToMain(): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, 0));
+/** Bytes of (decompressed) text inspected when sniffing the format. */
+const HEAD_BYTES = 64 * 1024;
+
+/** Comment, `track` and `browser` lines carry no regions. */
+export function isHeaderLine(line: string): boolean {
+  return line.startsWith('#') || line.startsWith('track') || line.startsWith('browser');
+}
+
+/**
+ * Parse one line into `out` via the format adapter. Blank, header and malformed
+ * rows are skipped, as are coordinates that don't fit the Uint32 columns.
+ */
+function parseLine(line: string, out: BedColumnsBuilder, adapt: FormatAdapter) {
+  const trimmed = line.trim();
+  if (!trimmed || isHeaderLine(trimmed)) return;
+
+  const row = adapt(trimmed.split('\t'));
+  if (row && isStorableRange(row.start, row.end)) out.push(row.chr, row.start, row.end, row.rest);
 }
 
-export async function parseBedFile(
+/** Byte stream of `file`, decompressed when the name ends in .gz. */
+function openByteStream(
   file: File,
-  onProgress?: ProgressCallback,
-): Promise<BedEntry[]> {
-  const buffer = await readFileWithProgress(file, onProgress);
-
-  // Decode / decompress: 30% → 50%
-  let text: string;
-  if (file.name.endsWith('.gz')) {
-    text = pako.ungzip(new Uint8Array(buffer), { to: 'string' });
-  } else {
-    text = new TextDecoder().decode(buffer);
+  counter?: TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>,
+): ReadableStream<Uint8Array> {
+  let stream: ReadableStream<Uint8Array> = counter ? file.stream().pipeThrough(counter) : file.stream();
+  if (isGzipped(file)) stream = stream.pipeThrough(gunzipStream());
+  return stream;
+}
+
+/**
+ * Detect a file's format. Header lines (`##fileformat=VCF`, `##gff-version`,
+ * `track type=narrowPeak`, ...) win over the file extension; files with
+ * neither are read as plain BED.
+ */
+export async function detectRegionFormat(file: File): Promise<RegionFormat> {
+  const reader = openByteStream(file).getReader();
+  const decoder = new TextDecoder();
+  let head = '';
+  try {
+    while (head.length < HEAD_BYTES) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      head += decoder.decode(value, { stream: true });
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+    reader.releaseLock();
   }
-  onProgress?.(0.5);
-  await yieldToMain();
-
-  // Split lines: 50% → 60%
-  const lines = text.split('\n');
-  onProgress?.(0.6);
-  await yieldToMain();
-
-  // Parse entries in chunks: 60% → 100%
-  const entries: BedEntry[] = [];
-  const total = lines.length;
-
-  for (let i = 0; i < total; i++) {
-    const trimmed = lines[i].trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
-
-    const cols = trimmed.split('\t');
-    if (cols.length >= 3) {
-      const chr = cols[0];
-      const start = parseInt(cols[1], 10);
-      const end = parseInt(cols[2], 10);
-      const rest = cols.slice(3).join('\t');
-      if (!isNaN(start) && !isNaN(end)) {
-        entries.push([chr, start, end, rest]);
+
+  // Headers precede data, so stop at the first data line
+  for (const line of head.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    if (!isHeaderLine(trimmed)) break;
+    const format = formatFromHeader(trimmed);
+    if (format) return format;
+  }
+  return formatFromFileName(file.name) ?? 'bed';
+}
+
+/**
+ * Stream the (optionally gzipped) text of `file` as arrays of complete lines,
+ * one array per decompressed chunk. Progress is reported as the fraction of
+ * (compressed) bytes read; it reaches 1 only when the whole file was read.
+ */
+export async function* readLines(
+  file: File,
+  onProgress?: ProgressCallback,
+): AsyncGenerator<string[]> {
+  let bytesRead = 0;
+  let lastReport = 0;
+  const counter = new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+    transform(chunk, controller) {
+      bytesRead += chunk.byteLength;
+      const now = performance.now();
+      if (onProgress && file.size > 0 && now - lastReport > 50) {
+        lastReport = now;
+        onProgress(Math.min(bytesRead / file.size, 1));
       }
+      controller.enqueue(chunk);
+    },
+  });
+
+  const reader = openByteStream(file, counter).getReader();
+  const decoder = new TextDecoder();
+  let remainder = '';
+  let finished = false;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      finished = done;
+      const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = (remainder + text).split('\n');
+      // Keep the trailing partial line for the next chunk
+      remainder = done ? '' : lines.pop() ?? '';
+      yield lines;
+      if (done) break;
     }
+  } finally {
+    // Consumer stopped early (cancellation) — stop reading the file
+    if (!finished) reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+  onProgress?.(1);
+}
 
-    if (i > 0 && i % CHUNK_SIZE === 0) {
-      onProgress?.(0.6 + 0.4 * (i / total));
-      await yieldToMain();
+/**
+ * Stream a (optionally gzipped) BED or BED-like file and yield parsed rows as
+ * columnar batches of `batchSize`. Only one batch plus one decompressed chunk
+ * is held in memory at a time, so files larger than available RAM can be read.
+ * Non-BED formats are mapped onto BED rows by their adapter (see bed-formats.ts);
+ * pass the result of `detectRegionFormat` to honour header lines.
+ *
+ * Progress is reported as the fraction of (compressed) bytes read.
+ */
+export async function* readBedBatches(
+  file: File,
+  onProgress?: ProgressCallback,
+  batchSize = BATCH_SIZE,
+  format: RegionFormat = formatFromFileName(file.name) ?? 'bed',
+): AsyncGenerator<BedColumns> {
+  const { adapt } = REGION_FORMATS[format];
+  let batch = new BedColumnsBuilder(batchSize);
+
+  for await (const lines of readLines(file, onProgress)) {
+    for (const line of lines) {
+      parseLine(line, batch, adapt);
+      if (batch.length >= batchSize) {
+        yield batch.build();
+        batch = new BedColumnsBuilder(batchSize);
+      }
     }
   }
 
-  onProgress?.(1);
-  return entries;
+  if (batch.length > 0) yield batch.build();
+}
+
+/** Formats the BED-only API endpoints accept as uploaded. */
+const SERVER_READABLE: ReadonlySet<RegionFormat> = new Set(['bed', 'narrowPeak', 'broadPeak', 'bedGraph']);
+
+const converted = new WeakMap<File, Promise<File>>();
+
+/**
+ * The file as the API's BED endpoints (`/bed/search/bed`, `/bed/umap`) expect
+ * it. BED and its fixed-layout derivatives pass through; GFF/GTF/VCF are
+ * streamed through their adapter into a plain BED6 file. Conversions are
+ * cached per File, so repeated uploads don't re-read it.
+ */
+export function toBedFile(file: File): Promise<File> {
+  let pending = converted.get(file);
+  if (!pending) {
+    pending = convertToBed(file);
+    converted.set(file, pending);
+    pending.catch(() => converted.delete(file));
+  }
+  return pending;
+}
+
+async function convertToBed(file: File): Promise<File> {
+  const format = await detectRegionFormat(file);
+  if (SERVER_READABLE.has(format)) return file;
+
+  const { adapt } = REGION_FORMATS[format];
+  const parts: string[] = [];
+  for await (const lines of readLines(file)) {
+    let chunk = '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed || isHeaderLine(trimmed)) continue;
+      const row = adapt(trimmed.split('\t'));
+      if (!row || !isStorableRange(row.start, row.end)) continue;
+      const [name = '.', score = '.', strand = '.'] = row.rest.split('\t');
+      chunk += `${row.chr}\t${row.start}\t${row.end}\t${name}\t${score}\t${strand}\n`;
+    }
+    if (chunk) parts.push(chunk);
+  }
+  const base = file.name.replace(/\.gz$/i, '').replace(/\.[^.]+$/, '');
+  return new File(parts, `${base}.bed`, { type: 'text/plain' });
 }
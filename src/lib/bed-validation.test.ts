@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import pako from 'pako';
+import { cleanBedFile, cleanedFileName, validateBedFile } from './bed-validation';
+
+const bedFile = (lines: string[], name = 'regions.bed') => new File([lines.join('\n') + '\n'], name);
+
+describe('validateBedFile', () => {
+  it('reports no issues for a clean file', async () => {
+    const file = bedFile(['track name="peaks"', 'chr1\t0\t100\tpeak1', 'chr1\t50\t150\tpeak2', '', 'chr2\t10\t20\tpeak3']);
+    expect(await validateBedFile(file, 'bed', { chr1: 1000, chr2: 1000 }, 'hg38')).toEqual({
+      format: 'bed',
+      dataLines: 3,
+      validRows: 3,
+      boundsGenome: 'hg38',
+      issues: [],
+    });
+  });
+
+  it('reports errors with their line numbers, errors first', async () => {
+    const file = bedFile(['chr1\tx\t10', 'chr1\t-5\t10', 'chr1\t30\t20', 'chr1\t40\t5000000000']);
+    const report = await validateBedFile(file, 'bed', null, 'hg38');
+    expect(report.dataLines).toBe(4);
+    expect(report.validRows).toBe(0);
+    expect(report.boundsGenome).toBeNull();
+    expect(report.issues.map(({ kind, severity, count, lines }) => ({ kind, severity, count, lines }))).toEqual([
+      { kind: 'malformed', severity: 'error', count: 1, lines: [1] },
+      { kind: 'negative', severity: 'error', count: 1, lines: [2] },
+      { kind: 'tooLarge', severity: 'error', count: 1, lines: [4] },
+      { kind: 'startAfterEnd', severity: 'error', count: 1, lines: [3] },
+    ]);
+  });
+
+  it('reports duplicates, unsorted rows, ends past the chromosome and mixed naming', async () => {
+    const file = bedFile([
+      '# comment',
+      'chr1\t0\t100',
+      'chr1\t0\t100',
+      'chr2\t10\t20',
+      'chr1\t5\t10',
+      '3\t0\t2000',
+    ]);
+    const report = await validateBedFile(file, 'bed', { chr1: 1000, chr2: 1000, chr3: 1000 }, 'hg38');
+    expect(report.validRows).toBe(5);
+    expect(report.issues.map(({ kind, lines }) => ({ kind, lines }))).toEqual([
+      { kind: 'outOfBounds', lines: [6] },
+      { kind: 'duplicate', lines: [3] },
+      { kind: 'unsorted', lines: [5] },
+      { kind: 'mixedChrNaming', lines: [6] },
+    ]);
+  });
+
+  it('rejects rows starting at or past the chromosome end instead of clipping them', async () => {
+    const file = bedFile(['chr1\t0\t100', 'chr1\t900\t1100', 'chr1\t1000\t1200', 'chr1\t1500\t1600']);
+    const report = await validateBedFile(file, 'bed', { chr1: 1000 }, 'hg38');
+    expect(report.validRows).toBe(2);
+    expect(report.issues.map(({ kind, severity, lines }) => ({ kind, severity, lines }))).toEqual([
+      { kind: 'startOutOfBounds', severity: 'error', lines: [3, 4] },
+      { kind: 'outOfBounds', severity: 'warning', lines: [2] },
+    ]);
+  });
+
+  it('validates other formats through their adapters', async () => {
+    const file = bedFile(['##gff-version 3', 'chr1\tsrc\tgene\t1\t100\t.\t+\t.\tID=a', 'chr1\tsrc\tgene\t0\t100'], 'genes.gff');
+    const report = await validateBedFile(file, 'gff', null, null);
+    expect(report.dataLines).toBe(2);
+    expect(report.issues).toMatchObject([{ kind: 'malformed', lines: [3] }]);
+  });
+
+  it('reads gzipped files', async () => {
+    const text = 'chr1\t0\t100\nchr1\t0\t100\n';
+    const file = new File([pako.gzip(text)], 'regions.bed.gz');
+    const report = await validateBedFile(file, 'bed', null, null);
+    expect(report.dataLines).toBe(2);
+    expect(report.issues).toMatchObject([{ kind: 'duplicate', lines: [2] }]);
+  });
+});
+
+describe('cleanBedFile', () => {
+  it('drops invalid rows and duplicates, clips ends and sorts within chromosomes', async () => {
+    const file = bedFile([
+      'track name="peaks"',
+      'chr1\t50\t100\tpeak1',
+      'chr1\t50\t100\tpeak1-copy',
+      'chr2\t10\t20',
+      'chr2\t30\t5000',
+      'chr1\t5\t10\tpeak2',
+      'chr1\t60\t40',
+      'chr1\tx\t1',
+      'chr1\t5\t10\tpeak2-copy',
+    ]);
+    const blob = await cleanBedFile(file, 'bed', { chr1: 1000, chr2: 1000 });
+    expect(await blob.text()).toBe(
+      'chr1\t5\t10\tpeak2\nchr1\t50\t100\tpeak1\nchr2\t10\t20\nchr2\t30\t1000\n',
+    );
+  });
+
+  it('drops rows lying wholly past the chromosome end', async () => {
+    const file = bedFile(['chr1\t900\t1100', 'chr1\t1000\t1200', 'chr1\t1500\t1600']);
+    const blob = await cleanBedFile(file, 'bed', { chr1: 1000 });
+    expect(await blob.text()).toBe('chr1\t900\t1000\n');
+  });
+
+  it('writes other formats as BED', async () => {
+    const file = bedFile(['chr1\t101\trs1\tAC\tA\t50\tPASS'], 'calls.vcf');
+    const blob = await cleanBedFile(file, 'vcf', null);
+    expect(await blob.text()).toBe('chr1\t100\t102\trs1\t50\t.\tAC\tA\tPASS\n');
+  });
+});
+
+describe('cleanedFileName', () => {
+  it('replaces the format extension and any .gz', () => {
+    expect(cleanedFileName('peaks.narrowPeak.gz')).toBe('peaks.clean.bed');
+    expect(cleanedFileName('regions.bed')).toBe('regions.clean.bed');
+    expect(cleanedFileName('.bed')).toBe('regions.clean.bed');
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * Strict validation of BED (and BED-like) files with line-level diagnostics,
+ * plus a cleaning pass that writes a sorted, de-duplicated copy with the
+ * invalid rows removed.
+ *
+ * Both stream the file line by line (see readLines), independently of the
+ * lenient parser used for analysis, so line numbers refer to the original file.
+ * Neither keeps per-row state for the whole file: duplicates are found within
+ * runs of equal starts, and cleaning writes each chromosome out as it goes.
+ */
+
+import { isHeaderLine, readLines, type ProgressCallback } from './bed-parser';
+import { MAX_COORDINATE } from './bed-columns';
+import { REGION_FORMATS, type FormatAdapter, type RegionFormat } from './bed-formats';
+
+export type ValidationIssueKind =
+  | 'malformed'
+  | 'negative'
+  | 'tooLarge'
+  | 'startAfterEnd'
+  | 'startOutOfBounds'
+  | 'outOfBounds'
+  | 'duplicate'
+  | 'unsorted'
+  | 'mixedChrNaming';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationIssue = {
+  kind: ValidationIssueKind;
+  severity: ValidationSeverity;
+  count: number;
+  /** First MAX_EXAMPLE_LINES offending line numbers (1-based) */
+  lines: number[];
+};
+
+export type ValidationReport = {
+  format: RegionFormat;
+  /** Lines holding data (blank, comment and track lines excluded) */
+  dataLines: number;
+  /** Data lines without errors (warnings allowed) */
+  validRows: number;
+  /** Genome whose chromosome sizes were used for the bounds check; null if unchecked */
+  boundsGenome: string | null;
+  /** Issues that occurred, errors first */
+  issues: ValidationIssue[];
+};
+
+export const MAX_EXAMPLE_LINES = 10;
+
+/**
+ * Label, severity and remedy of each issue. Errors are dropped by the cleaning
+ * pass; the remedy says what cleaning does about warnings.
+ */
+export const VALIDATION_ISSUES: Record<
+  ValidationIssueKind,
+  { label: string; severity: ValidationSeverity; description: string }
+> = {
+  malformed: {
+    label: 'Malformed line',
+    severity: 'error',
+    description: 'Too few columns or non-numeric coordinates. Dropped when cleaning.',
+  },
+  negative: {
+    label: 'Negative coordinate',
+    severity: 'error',
+    description: 'Start or end below zero. Dropped when cleaning.',
+  },
+  tooLarge: {
+    label: 'Coordinate too large',
+    severity: 'error',
+    description: `Start or end above ${MAX_COORDINATE.toLocaleString()}, the largest supported position. Dropped when cleaning.`,
+  },
+  startAfterEnd: {
+    label: 'Start after end',
+    severity: 'error',
+    description: 'Start coordinate is greater than the end. Dropped when cleaning.',
+  },
+  startOutOfBounds: {
+    label: 'Starts past chromosome end',
+    severity: 'error',
+    description: 'Start is at or beyond the reference chromosome size, so nothing is left to clip. Dropped when cleaning.',
+  },
+  outOfBounds: {
+    label: 'Beyond chromosome end',
+    severity: 'warning',
+    description: 'End exceeds the reference chromosome size. Clipped when cleaning.',
+  },
+  duplicate: {
+    label: 'Duplicate region',
+    severity: 'warning',
+    description: 'Same chromosome, start and end as an earlier line in the same run of starts. Removed when cleaning.',
+  },
+  unsorted: {
+    label: 'Unsorted',
+    severity: 'warning',
+    description: 'Start decreases within a chromosome, or a chromosome block is split. Sorted when cleaning.',
+  },
+  mixedChrNaming: {
+    label: 'Mixed chromosome naming',
+    severity: 'warning',
+    description: 'Both "chr"-prefixed and bare chromosome names are used. Lines show the first row of each minority-style chromosome.',
+  },
+};
+
+const ISSUE_ORDER = Object.keys(VALIDATION_ISSUES) as ValidationIssueKind[];
+
+type CheckedRow = {
+  chr: string;
+  start: number;
+  end: number;
+  rest: string;
+  /** Row has an error and is dropped by cleaning */
+  invalid: boolean;
+  /** Chromosome size when the end exceeds it */
+  clipTo: number | null;
+};
+
+function chromSizeLookup(chromSizes: Record<string, number> | null): (chr: string) => number | undefined {
+  if (!chromSizes) return () => undefined;
+  return (chr) =>
+    chromSizes[chr] ??
+    (chr.startsWith('chr') ? chromSizes[chr.slice(3)] : chromSizes[`chr${chr}`]);
+}
+
+/** Line-by-line checker shared by validation and cleaning. */
+class BedValidator {
+  private issues = new Map<ValidationIssueKind, { count: number; lines: number[] }>();
+  private adapt: FormatAdapter;
+  private sizeOf: (chr: string) => number | undefined;
+  /** Ends of the valid rows in the current run of equal chromosome and start */
+  private runChr: string | null = null;
+  private runStart = -1;
+  private runEnds = new Set<number>();
+  private closedChroms = new Set<string>();
+  private firstLine = new Map<string, number>();
+  private lastChr: string | null = null;
+  private lastStart = 0;
+  dataLines = 0;
+  validRows = 0;
+
+  constructor(format: RegionFormat, chromSizes: Record<string, number> | null) {
+    this.adapt = REGION_FORMATS[format].adapt;
+    this.sizeOf = chromSizeLookup(chromSizes);
+  }
+
+  /** Check one line; returns null for blank, header and malformed lines. */
+  check(line: string, lineNo: number): CheckedRow | null {
+    const trimmed = line.trim();
+    if (!trimmed || isHeaderLine(trimmed)) return null;
+    this.dataLines++;
+
+    const row = this.adapt(trimmed.split('\t'));
+    if (!row) {
+      this.report('malformed', lineNo);
+      return null;
+    }
+    const { chr, start, end, rest } = row;
+    const size = this.sizeOf(chr);
+    let invalid = false;
+    if (start < 0 || end < 0) {
+      this.report('negative', lineNo);
+      invalid = true;
+    } else if (start > MAX_COORDINATE || end > MAX_COORDINATE) {
+      this.report('tooLarge', lineNo);
+      invalid = true;
+    } else if (start > end) {
+      this.report('startAfterEnd', lineNo);
+      invalid = true;
+    } else if (size !== undefined && start >= size) {
+      this.report('startOutOfBounds', lineNo);
+      invalid = true;
+    }
+    if (!invalid) this.validRows++;
+
+    if (!this.firstLine.has(chr)) this.firstLine.set(chr, lineNo);
+
+    // Sort order: starts ascend within a chromosome and each chromosome is one block
+    if (chr !== this.lastChr) {
+      if (this.lastChr !== null) this.closedChroms.add(this.lastChr);
+      if (this.closedChroms.has(chr)) this.report('unsorted', lineNo);
+      this.lastChr = chr;
+    } else if (start < this.lastStart) {
+      this.report('unsorted', lineNo);
+    }
+    this.lastStart = start;
+
+    if (!invalid && this.isDuplicate(chr, start, end)) this.report('duplicate', lineNo);
+
+    // Only rows starting inside the chromosome are clipped
+    const clipTo = !invalid && size !== undefined && end > size ? size : null;
+    if (clipTo !== null) this.report('outOfBounds', lineNo);
+
+    return { chr, start, end, rest, invalid, clipTo };
+  }
+
+  finish(format: RegionFormat, boundsGenome: string | null): ValidationReport {
+    // Mixed naming: flag the first line of each chromosome in the minority style
+    const chroms = [...this.firstLine.keys()];
+    const prefixed = chroms.filter((c) => c.startsWith('chr'));
+    const bare = chroms.filter((c) => !c.startsWith('chr'));
+    if (prefixed.length > 0 && bare.length > 0) {
+      const minority = prefixed.length >= bare.length ? bare : prefixed;
+      const lines = minority.map((c) => this.firstLine.get(c)!).sort((a, b) => a - b);
+      for (const lineNo of lines) this.report('mixedChrNaming', lineNo);
+    }
+
+    // ISSUE_ORDER lists errors before warnings
+    const issues: ValidationIssue[] = ISSUE_ORDER
+      .filter((kind) => this.issues.has(kind))
+      .map((kind) => ({ kind, severity: VALIDATION_ISSUES[kind].severity, ...this.issues.get(kind)! }));
+
+    return { format, dataLines: this.dataLines, validRows: this.validRows, boundsGenome, issues };
+  }
+
+  private report(kind: ValidationIssueKind, lineNo: number) {
+    let entry = this.issues.get(kind);
+    if (!entry) {
+      entry = { count: 0, lines: [] };
+      this.issues.set(kind, entry);
+    }
+    entry.count++;
+    if (entry.lines.length < MAX_EXAMPLE_LINES) entry.lines.push(lineNo);
+  }
+
+  /**
+   * Duplicates of sorted input are adjacent within a run of equal starts, so
+   * only that run's ends are kept; in unsorted input, repeats split by other
+   * starts go unreported (cleaning still removes them after sorting).
+   */
+  private isDuplicate(chr: string, start: number, end: number): boolean {
+    if (chr !== this.runChr || start !== this.runStart) {
+      this.runChr = chr;
+      this.runStart = start;
+      this.runEnds.clear();
+    }
+    if (this.runEnds.has(end)) return true;
+    this.runEnds.add(end);
+    return false;
+  }
+}
+
+/**
+ * Validate `file` as `format`. When `chromSizes` is given, ends are checked
+ * against it (bare and "chr"-prefixed names both resolve).
+ */
+export async function validateBedFile(
+  file: File,
+  format: RegionFormat,
+  chromSizes: Record<string, number> | null,
+  boundsGenome: string | null,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<ValidationReport> {
+  const validator = new BedValidator(format, chromSizes);
+  let lineNo = 0;
+  for await (const lines of readLines(file, onProgress)) {
+    signal?.throwIfAborted();
+    for (const line of lines) validator.check(line, ++lineNo);
+  }
+  return validator.finish(format, chromSizes ? boundsGenome : null);
+}
+
+/** Lines per string written into the output Blob. */
+const CLEAN_CHUNK = 50_000;
+
+/**
+ * One chromosome's cleaned rows, flushed into Blob parts every CLEAN_CHUNK
+ * lines so the text leaves the JS heap as it's written. Rows that arrive
+ * sorted are de-duplicated on the fly; otherwise `sorted` drops to false and
+ * the block is sorted (and de-duplicated) once the whole file was read.
+ */
+class ChromBlock {
+  private parts: Blob[] = [];
+  private lines: string[] = [];
+  private lastStart = -1;
+  private runEnds = new Set<number>();
+  sorted = true;
+
+  push(line: string, start: number, end: number) {
+    if (this.sorted && start < this.lastStart) this.sorted = false;
+    if (this.sorted) {
+      if (start !== this.lastStart) this.runEnds.clear();
+      if (this.runEnds.has(end)) return;
+      this.runEnds.add(end);
+    }
+    this.lastStart = start;
+    this.lines.push(line);
+    if (this.lines.length >= CLEAN_CHUNK) this.flush();
+  }
+
+  async build(): Promise<Blob> {
+    this.flush();
+    const blob = new Blob(this.parts, { type: 'text/plain' });
+    return this.sorted ? blob : sortBlock(blob);
+  }
+
+  private flush() {
+    if (this.lines.length === 0) return;
+    this.parts.push(new Blob([this.lines.join('')]));
+    this.lines = [];
+  }
+}
+
+/** Sort one chromosome's BED text by start and end, dropping repeated coordinates. */
+async function sortBlock(blob: Blob): Promise<Blob> {
+  const lines = (await blob.text()).split('\n');
+  lines.pop();
+  const starts = new Float64Array(lines.length);
+  const ends = new Float64Array(lines.length);
+  lines.forEach((line, i) => {
+    const a = line.indexOf('\t');
+    const b = line.indexOf('\t', a + 1);
+    const c = line.indexOf('\t', b + 1);
+    starts[i] = Number(line.slice(a + 1, b));
+    ends[i] = Number(line.slice(b + 1, c < 0 ? undefined : c));
+  });
+  const order = Array.from({ length: lines.length }, (_, i) => i);
+  order.sort((a, b) => starts[a] - starts[b] || ends[a] - ends[b]);
+
+  const parts: string[] = [];
+  let chunk: string[] = [];
+  order.forEach((i, k) => {
+    const prev = order[k - 1];
+    if (k > 0 && starts[prev] === starts[i] && ends[prev] === ends[i]) return;
+    chunk.push(lines[i], '\n');
+    if (chunk.length >= 2 * CLEAN_CHUNK) {
+      parts.push(chunk.join(''));
+      chunk = [];
+    }
+  });
+  parts.push(chunk.join(''));
+  return new Blob(parts, { type: 'text/plain' });
+}
+
+/**
+ * Write a cleaned BED copy of `file`: rows with errors and duplicates are
+ * dropped, ends beyond `chromSizes` are clipped, and rows are sorted by start
+ * within chromosomes (chromosomes keep their first-appearance order).
+ * Non-BED input comes out as BED, with its typed columns in the rest field.
+ *
+ * Rows go straight into per-chromosome Blob parts; only a chromosome that
+ * arrived out of order is read back, on its own, to be sorted.
+ */
+export async function cleanBedFile(
+  file: File,
+  format: RegionFormat,
+  chromSizes: Record<string, number> | null,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const validator = new BedValidator(format, chromSizes);
+  const blocks = new Map<string, ChromBlock>();
+  let lineNo = 0;
+  for await (const lines of readLines(file, onProgress)) {
+    signal?.throwIfAborted();
+    for (const line of lines) {
+      const row = validator.check(line, ++lineNo);
+      if (!row || row.invalid) continue;
+      let block = blocks.get(row.chr);
+      if (!block) {
+        block = new ChromBlock();
+        blocks.set(row.chr, block);
+      }
+      const end = row.clipTo ?? row.end;
+      const base = `${row.chr}\t${row.start}\t${end}`;
+      block.push(row.rest ? `${base}\t${row.rest}\n` : `${base}\n`, row.start, end);
+    }
+  }
+
+  const parts: Blob[] = [];
+  for (const block of blocks.values()) {
+    signal?.throwIfAborted();
+    parts.push(await block.build());
+  }
+  return new Blob(parts, { type: 'text/plain' });
+}
+
+/** File name for the cleaned copy: `peaks.narrowPeak.gz` → `peaks.clean.bed`. */
+export function cleanedFileName(name: string): string {
+  const base = name.replace(/\.gz$/i, '').replace(/\.[^.]+$/, '');
+  return `${base || 'regions'}.clean.bed`;
+}
@@ -0,0 +1,185 @@
+/**
+ * Agglomerative hierarchical clustering (average, complete or Ward linkage).
+ *
+ * Used to order similarity heatmaps so that files with similar coverage sit
+ * next to each other, draw their dendrograms, and cut the tree into groups.
+ * O(n³) time and O(n²) memory, which stays well under a second for the few
+ * hundred files a comparison can hold.
+ */
+
+export type Linkage = 'average' | 'complete' | 'ward';
+
+export const LINKAGE_LABELS: Record<Linkage, string> = {
+  average: 'Average',
+  complete: 'Complete',
+  ward: 'Ward',
+};
+
+/** Group counts offered when cutting the tree; each must be below the file count. */
+export const GROUP_COUNTS = [2, 3, 4, 5, 6, 8, 10, 12];
+
+/** `k` lowered to the largest offered count that fits `fileCount` files; 0 (off) when none does. */
+export function clampGroupCount(k: number, fileCount: number): number {
+  return GROUP_COUNTS.filter((c) => c <= k && c < fileCount).pop() ?? 0;
+}
+
+/**
+ * One merge step. Node ids 0..n-1 are the leaves; merge k creates node n + k.
+ * `height` is the linkage distance between the two merged clusters.
+ */
+export type ClusterMerge = {
+  left: number;
+  right: number;
+  height: number;
+  size: number;
+};
+
+export type Clustering = {
+  linkage: Linkage;
+  merges: ClusterMerge[];
+  /** Leaf indices in dendrogram order */
+  order: number[];
+};
+
+/**
+ * Distances from a similarity matrix whose values run 0..`max`. Asymmetric
+ * matrices (overlap %) are symmetrized by averaging both directions.
+ */
+export function similarityToDistance(matrix: number[][], max = 1): number[][] {
+  return matrix.map((row, i) => row.map((v, j) => (i === j ? 0 : 1 - ((v + (matrix[j]?.[i] ?? v)) / 2) / max)));
+}
+
+/** Lance–Williams update: distance from cluster k to the merge of i and j. */
+function linkageDistance(
+  linkage: Linkage,
+  dki: number,
+  dkj: number,
+  dij: number,
+  ni: number,
+  nj: number,
+  nk: number,
+): number {
+  switch (linkage) {
+    case 'average':
+      return (dki * ni + dkj * nj) / (ni + nj);
+    case 'complete':
+      return Math.max(dki, dkj);
+    case 'ward':
+      return Math.sqrt(Math.max(0, ((nk + ni) * dki * dki + (nk + nj) * dkj * dkj - nk * dij * dij) / (nk + ni + nj)));
+  }
+}
+
+/** Cluster `n` items given a symmetric distance matrix. */
+export function hierarchicalCluster(distance: number[][], linkage: Linkage = 'average'): Clustering {
+  const n = distance.length;
+  if (n === 0) return { linkage, merges: [], order: [] };
+
+  const dist = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) dist[i * n + j] = distance[i][j] ?? 0;
+  }
+  // Slot i holds the cluster whose node id is nodeIds[i]; merged slots go inactive
+  const nodeIds = Array.from({ length: n }, (_, i) => i);
+  const sizes = new Array<number>(n).fill(1);
+  const active = Array.from({ length: n }, (_, i) => i);
+  const merges: ClusterMerge[] = [];
+
+  while (active.length > 1) {
+    let best = Infinity;
+    let bestA = 0;
+    let bestB = 1;
+    for (let a = 0; a < active.length; a++) {
+      const row = active[a] * n;
+      for (let b = a + 1; b < active.length; b++) {
+        const d = dist[row + active[b]];
+        if (d < best) {
+          best = d;
+          bestA = a;
+          bestB = b;
+        }
+      }
+    }
+
+    const i = active[bestA];
+    const j = active[bestB];
+    const size = sizes[i] + sizes[j];
+    merges.push({ left: nodeIds[i], right: nodeIds[j], height: best, size });
+
+    // Merged cluster reuses slot i
+    for (const k of active) {
+      if (k === i || k === j) continue;
+      const d = linkageDistance(linkage, dist[k * n + i], dist[k * n + j], best, sizes[i], sizes[j], sizes[k]);
+      dist[i * n + k] = dist[k * n + i] = d;
+    }
+    sizes[i] = size;
+    nodeIds[i] = n + merges.length - 1;
+    active.splice(bestB, 1);
+  }
+
+  return { linkage, merges, order: leafOrder(merges, n) };
+}
+
+/** Leaves of the merge tree, left to right. */
+export function leafOrder(merges: ClusterMerge[], n: number): number[] {
+  if (merges.length === 0) return Array.from({ length: n }, (_, i) => i);
+  const order: number[] = [];
+  const stack = [n + merges.length - 1];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node < n) {
+      order.push(node);
+    } else {
+      const { left, right } = merges[node - n];
+      stack.push(right, left);
+    }
+  }
+  return order;
+}
+
+/**
+ * Cut the tree into `k` groups by undoing its top k - 1 merges. Returns the
+ * group of every leaf; groups are numbered 0..k-1 in dendrogram order.
+ */
+export function cutTree(clustering: Clustering, k: number): number[] {
+  const n = clustering.order.length;
+  const parent = Array.from({ length: n + clustering.merges.length }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) x = parent[x] = parent[parent[x]];
+    return x;
+  };
+  const kept = Math.max(0, n - Math.max(1, Math.min(k, n)));
+  for (let m = 0; m < kept; m++) {
+    const { left, right } = clustering.merges[m];
+    parent[find(left)] = n + m;
+    parent[find(right)] = n + m;
+  }
+
+  const groups = new Array<number>(n);
+  const groupOf = new Map<number, number>();
+  for (const leaf of clustering.order) {
+    const root = find(leaf);
+    if (!groupOf.has(root)) groupOf.set(root, groupOf.size);
+    groups[leaf] = groupOf.get(root)!;
+  }
+  return groups;
+}
+
+/**
+ * Position of every tree node for drawing: leaves sit at their index in
+ * `order`, merges midway between their children at their merge height.
+ */
+export function dendrogramLayout(clustering: Clustering): { x: number[]; y: number[] } {
+  const n = clustering.order.length;
+  const x = new Array<number>(n + clustering.merges.length);
+  const y = new Array<number>(n + clustering.merges.length);
+  clustering.order.forEach((leaf, pos) => {
+    x[leaf] = pos;
+    y[leaf] = 0;
+  });
+  clustering.merges.forEach(({ left, right, height }, m) => {
+    x[n + m] = (x[left] + x[right]) / 2;
+    // Clamp so inversions (possible with some linkages) still draw upwards
+    y[n + m] = Math.max(height, y[left], y[right]);
+  });
+  return { x, y };
+}
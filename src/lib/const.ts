@@ -10,6 +10,9 @@ export const EXAMPLE_QUERIES = ['K562 CTCF', 'ENCODE DNase-seq', 'H3K27ac ChIP-s
 /** Example BEDset search queries shown on the hub when in BEDset mode. */
 export const EXAMPLE_BEDSET_QUERIES = ['ENCODE', 'K562'];
 
+/** Example loci (hg38 TP53 and MYC) shown on the search empty state in locus mode. */
+export const EXAMPLE_LOCUS_QUERIES = ['chr17:7661779-7687550', 'chr8:127735434-127742951'];
+
 // --- Refgenie seqcol API ---
 
 /** Base URL for the refgenie / seqcol API. */
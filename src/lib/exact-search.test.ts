@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { exactRequest, matchesConditions, parseConditions, serializeConditions, type ExactCondition } from './exact-search';
+
+describe('exactRequest', () => {
+  it('lists a lone genome instead of searching for its name', () => {
+    expect(exactRequest([{ field: 'genome', value: 'mm10' }])).toEqual({
+      query: '',
+      genome: 'mm10',
+      list: true,
+      remaining: [],
+    });
+  });
+
+  it('sends genome and assay as filters with the free-text condition as the query', () => {
+    const conditions: ExactCondition[] = [
+      { field: 'genome', value: 'hg38' },
+      { field: 'any', value: 'liver' },
+      { field: 'assay', value: 'ChIP-seq' },
+    ];
+    expect(exactRequest(conditions)).toEqual({ query: 'liver', genome: 'hg38', assay: 'ChIP-seq', list: false, remaining: [] });
+  });
+
+  it('queries by the first other field value and still checks it exactly', () => {
+    const conditions: ExactCondition[] = [
+      { field: 'genome', value: 'hg38' },
+      { field: 'target', value: 'CTCF' },
+      { field: 'cell_line', value: 'K562' },
+    ];
+    expect(exactRequest(conditions)).toEqual({
+      query: 'CTCF',
+      genome: 'hg38',
+      assay: undefined,
+      list: false,
+      remaining: conditions.slice(1),
+    });
+  });
+
+  it('searches for the assay when it is the only text to search for', () => {
+    expect(exactRequest([{ field: 'assay', value: 'ATAC-seq' }, { field: 'genome', value: 'hg38' }])).toMatchObject({
+      query: 'ATAC-seq',
+      list: false,
+    });
+  });
+});
+
+describe('matchesConditions', () => {
+  const result = {
+    id: 'abc',
+    metadata: { id: 'abc', genome_alias: 'hg38', annotation: { target: 'CTCF', cell_line: 'K562' } },
+  } as Parameters<typeof matchesConditions>[0];
+
+  it('compares fields in full, ignoring case', () => {
+    expect(matchesConditions(result, [{ field: 'target', value: 'ctcf' }, { field: 'genome', value: 'HG38' }])).toBe(true);
+    expect(matchesConditions(result, [{ field: 'cell_line', value: 'K56' }])).toBe(false);
+  });
+
+  it('matches free text anywhere in the metadata', () => {
+    expect(matchesConditions(result, [{ field: 'any', value: 'k562' }])).toBe(true);
+  });
+});
+
+describe('serializeConditions', () => {
+  it('round-trips through parseConditions, dropping unknown fields and blanks', () => {
+    const conditions: ExactCondition[] = [{ field: 'target', value: 'CTCF' }, { field: 'any', value: 'a&b' }];
+    expect(parseConditions(serializeConditions(conditions))).toEqual(conditions);
+    expect(parseConditions('target=CTCF&color=red&tissue=%20')).toEqual([{ field: 'target', value: 'CTCF' }]);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Structured conditions for exact metadata search.
+ *
+ * `/bed/search/exact` takes one query string plus genome and assay filters.
+ * The query goes to the server as the free-text condition (or, failing that,
+ * the first field value); every other field condition is checked here
+ * against each result's annotation, case-insensitively and in full. A lone
+ * genome condition has nothing to search for, so its files are listed from
+ * `/bed/list` instead.
+ */
+
+import type { components } from '../bedbase-types';
+
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+
+export type ExactField =
+  | 'any'
+  | 'genome'
+  | 'assay'
+  | 'target'
+  | 'antibody'
+  | 'cell_line'
+  | 'cell_type'
+  | 'tissue'
+  | 'treatment'
+  | 'organism'
+  | 'library_source';
+
+export const EXACT_FIELD_LABELS: Record<ExactField, string> = {
+  any: 'Any field',
+  genome: 'Genome',
+  assay: 'Assay',
+  target: 'Target',
+  antibody: 'Antibody',
+  cell_line: 'Cell line',
+  cell_type: 'Cell type',
+  tissue: 'Tissue',
+  treatment: 'Treatment',
+  organism: 'Organism',
+  library_source: 'Library source',
+};
+
+export type ExactCondition = { field: ExactField; value: string };
+
+/** Results fetched for conditions that have to be checked client-side. */
+export const EXACT_SCAN_LIMIT = 1000;
+
+function isExactField(field: string): field is ExactField {
+  return field in EXACT_FIELD_LABELS;
+}
+
+/** `target=CTCF&cell_line=K562`, the form kept in the tab param and URL. */
+export function serializeConditions(conditions: ExactCondition[]): string {
+  const params = new URLSearchParams();
+  for (const c of conditions) params.append(c.field, c.value);
+  return params.toString();
+}
+
+export function parseConditions(text: string): ExactCondition[] {
+  const out: ExactCondition[] = [];
+  for (const [field, value] of new URLSearchParams(text)) {
+    if (isExactField(field) && value.trim()) out.push({ field, value: value.trim() });
+  }
+  return out;
+}
+
+/** Chip text: `Target = CTCF` or `"liver"` for the free-text condition. */
+export function formatCondition({ field, value }: ExactCondition): string {
+  return field === 'any' ? `"${value}"` : `${EXACT_FIELD_LABELS[field]} = ${value}`;
+}
+
+/** The same conditions as a semantic query, for switching modes. */
+export function conditionsToText(conditions: ExactCondition[]): string {
+  return conditions.map((c) => c.value).join(' ');
+}
+
+export type ExactRequest = {
+  query: string;
+  genome?: string;
+  assay?: string;
+  /** Only a genome condition: every file of the genome, from `/bed/list` */
+  list: boolean;
+  /** Conditions the server doesn't apply; results must be filtered with `matchesConditions` */
+  remaining: ExactCondition[];
+};
+
+/** Split conditions into the server request and the client-side remainder. */
+export function exactRequest(conditions: ExactCondition[]): ExactRequest {
+  const remaining = [...conditions];
+  const take = (field: ExactField) => {
+    const i = remaining.findIndex((c) => c.field === field);
+    return i >= 0 ? remaining.splice(i, 1)[0].value : undefined;
+  };
+  const genome = take('genome');
+  const assay = take('assay');
+  const any = take('any');
+  if (genome && !assay && any === undefined && remaining.length === 0) {
+    return { query: '', genome, list: true, remaining };
+  }
+  // The server query narrows most; a field value used for it is still checked exactly
+  const query = any ?? remaining[0]?.value ?? assay ?? '';
+  return { query, genome, assay, list: false, remaining };
+}
+
+function fieldValue(result: QdrantSearchResult, field: Exclude<ExactField, 'any'>): string | undefined {
+  const meta = result.metadata;
+  if (field === 'genome') return meta?.genome_alias;
+  const annotation = meta?.annotation as Record<string, unknown> | null | undefined;
+  const value = annotation?.[field];
+  return typeof value === 'string' ? value : undefined;
+}
+
+export function matchesConditions(result: QdrantSearchResult, conditions: ExactCondition[]): boolean {
+  return conditions.every((c) => {
+    if (c.field === 'any') {
+      const text = JSON.stringify(result.metadata ?? {}).toLowerCase();
+      return text.includes(c.value.toLowerCase());
+    }
+    return fieldValue(result, c.field)?.toLowerCase() === c.value.toLowerCase();
+  });
+}
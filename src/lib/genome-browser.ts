@@ -0,0 +1,280 @@
+/**
+ * Data helpers for the genome browser panel and the locus comparison view:
+ * locus parsing, region windows (individual regions when zoomed in, binned
+ * counts when zoomed out) and a per-chromosome index over the bundled gene
+ * models.
+ */
+
+import type { BedColumns } from './bed-columns';
+import type { RefGeneModel } from './reference-data';
+
+export type Locus = { chr: string; start: number; end: number };
+
+export type TrackRegion = { start: number; end: number; name?: string; strand?: string };
+
+/** Regions overlapping a window, or their counts per bin when there are too many to draw. */
+export type TrackWindow = {
+  regions: TrackRegion[];
+  /** Counts per equal-width bin over the window; set instead of `regions` when zoomed out */
+  density: number[] | null;
+  /** Regions overlapping the window */
+  total: number;
+};
+
+/** Above this many regions in view the track shows density instead. */
+export const MAX_TRACK_REGIONS = 3000;
+
+/** Genomes with bundled gene models in public/ref. */
+export const GENE_MODEL_GENOMES = new Set(['hg38', 'hg19']);
+
+/** Smallest window the browser zooms to. */
+export const MIN_WINDOW = 50;
+
+/** Database regions are only requested below this window size; the endpoint returns every match. */
+export const MAX_REMOTE_WINDOW = 5_000_000;
+
+/** `chr1:1,000,000-2,000,000`, `chr1:1000000` or just `chr1`. Returns null when unparseable. */
+export function parseLocus(text: string, chromSizes: Record<string, number>): Locus | null {
+  const m = text.trim().replace(/,/g, '').match(/^([^:\s]+)(?::(\d+)(?:\s*[-–]\s*(\d+))?)?$/);
+  if (!m) return null;
+  const chr = Object.keys(chromSizes).find((c) => c.toLowerCase() === m[1].toLowerCase())
+    ?? Object.keys(chromSizes).find((c) => c.toLowerCase() === `chr${m[1]}`.toLowerCase());
+  if (!chr) return null;
+  const size = chromSizes[chr];
+  if (!m[2]) return { chr, start: 0, end: size };
+  const a = Number(m[2]);
+  // A single position centres a 10 kb window on it
+  if (!m[3]) return clampLocus({ chr, start: a - 5_000, end: a + 5_000 }, size);
+  const b = Number(m[3]);
+  return clampLocus({ chr, start: Math.min(a, b), end: Math.max(a, b) }, size);
+}
+
+export function formatLocus({ chr, start, end }: Locus): string {
+  return `${chr}:${Math.round(start).toLocaleString('en-US')}-${Math.round(end).toLocaleString('en-US')}`;
+}
+
+/** `1.25 Mb`, `3.4 kb` or `120 bp`. */
+export function formatBp(bp: number): string {
+  if (bp >= 1_000_000) return `${+(bp / 1_000_000).toFixed(2)} Mb`;
+  if (bp >= 1_000) return `${+(bp / 1_000).toFixed(1)} kb`;
+  return `${Math.round(bp)} bp`;
+}
+
+/** Keep a window inside [0, size] and at least MIN_WINDOW wide, preserving its width where possible. */
+export function clampLocus(locus: Locus, size: number): Locus {
+  const width = Math.min(size, Math.max(MIN_WINDOW, locus.end - locus.start));
+  const start = Math.max(0, Math.min(size - width, locus.start));
+  return { chr: locus.chr, start: Math.round(start), end: Math.round(start + width) };
+}
+
+/** Window of `regions` (sorted or not), switching to `bins` density bins above `limit`. */
+export function windowRegions(regions: TrackRegion[], start: number, end: number, bins: number, limit = MAX_TRACK_REGIONS): TrackWindow {
+  const inView = regions.filter((r) => r.end > start && r.start < end);
+  if (inView.length <= limit) return { regions: inView, density: null, total: inView.length };
+  return { regions: [], density: binCounts(inView.map((r) => r.start), inView.map((r) => r.end), start, end, bins), total: inView.length };
+}
+
+function binCounts(starts: ArrayLike<number>, ends: ArrayLike<number>, start: number, end: number, bins: number): number[] {
+  const counts = new Array<number>(bins).fill(0);
+  const scale = bins / (end - start);
+  for (let i = 0; i < starts.length; i++) {
+    const a = Math.max(0, Math.floor((starts[i] - start) * scale));
+    const b = Math.min(bins - 1, Math.floor((Math.max(starts[i], ends[i] - 1) - start) * scale));
+    for (let k = a; k <= b; k++) counts[k]++;
+  }
+  return counts;
+}
+
+/** Regions of one chromosome from a BED text response. */
+export function parseBedText(text: string, chr: string): TrackRegion[] {
+  const out: TrackRegion[] = [];
+  for (const line of text.split('\n')) {
+    if (!line || line.startsWith('#') || line.startsWith('track') || line.startsWith('browser')) continue;
+    const f = line.split('\t');
+    if (f.length < 3 || f[0] !== chr) continue;
+    const start = Number(f[1]);
+    const end = Number(f[2]);
+    if (!Number.isFinite(start) || !Number.isFinite(end)) continue;
+    out.push({ start, end, name: f[3] && f[3] !== '.' ? f[3] : undefined, strand: f[5] === '+' || f[5] === '-' ? f[5] : undefined });
+  }
+  return out;
+}
+
+// --- Indexed columns (worker side) ---
+
+/** Rows of one chromosome sorted by start, with the widest row for overlap lookups. */
+export type ChromIndex = { order: Uint32Array; maxWidth: number };
+
+export function indexColumns(cols: BedColumns): Map<string, ChromIndex> {
+  const rows: number[][] = cols.chroms.map(() => []);
+  for (let i = 0; i < cols.length; i++) rows[cols.chromIds[i]].push(i);
+  const index = new Map<string, ChromIndex>();
+  cols.chroms.forEach((chr, id) => {
+    const order = Uint32Array.from(rows[id]).sort((a, b) => cols.starts[a] - cols.starts[b]);
+    let maxWidth = 0;
+    for (const i of order) maxWidth = Math.max(maxWidth, cols.ends[i] - cols.starts[i]);
+    index.set(chr, { order, maxWidth });
+  });
+  return index;
+}
+
+/** First position in `order` whose start is >= `pos`. */
+function lowerBound(cols: BedColumns, order: Uint32Array, pos: number): number {
+  let lo = 0;
+  let hi = order.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (cols.starts[order[mid]] < pos) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** Window over indexed columns; `rest` decodes name/strand from columns 4 and 6. */
+export function columnsWindow(
+  cols: BedColumns,
+  index: Map<string, ChromIndex>,
+  rest: (i: number) => string,
+  { chr, start, end }: Locus,
+  bins: number,
+): TrackWindow {
+  const entry = index.get(chr);
+  if (!entry) return { regions: [], density: null, total: 0 };
+  const { order, maxWidth } = entry;
+  const from = lowerBound(cols, order, start - maxWidth);
+  const to = lowerBound(cols, order, end);
+  const hits: number[] = [];
+  for (let k = from; k < to; k++) {
+    const i = order[k];
+    if (cols.ends[i] > start) hits.push(i);
+  }
+  if (hits.length > MAX_TRACK_REGIONS) {
+    return {
+      regions: [],
+      density: binCounts(hits.map((i) => cols.starts[i]), hits.map((i) => cols.ends[i]), start, end, bins),
+      total: hits.length,
+    };
+  }
+  const regions = hits.map((i): TrackRegion => {
+    const f = rest(i).split('\t');
+    return {
+      start: cols.starts[i],
+      end: cols.ends[i],
+      name: f[0] && f[0] !== '.' ? f[0] : undefined,
+      strand: f[2] === '+' || f[2] === '-' ? f[2] : undefined,
+    };
+  });
+  return { regions, density: null, total: hits.length };
+}
+
+// --- Gene models ---
+
+export type GeneFeature = { start: number; end: number; strand: string; name?: string; exons: [number, number][] };
+
+export type GeneIndex = Map<string, GeneFeature[]>;
+
+const geneIndexCache = new WeakMap<RefGeneModel, GeneIndex>();
+
+/** Genes per chromosome, sorted by start, with the exons that fall inside each gene. */
+export function geneIndex(model: RefGeneModel): GeneIndex {
+  const cached = geneIndexCache.get(model);
+  if (cached) return cached;
+
+  const index: GeneIndex = new Map();
+  const { genes, exons } = model;
+  for (let i = 0; i < genes.chr.length; i++) {
+    let list = index.get(genes.chr[i]);
+    if (!list) index.set(genes.chr[i], (list = []));
+    list.push({ start: genes.start[i], end: genes.end[i], strand: genes.strand[i], name: genes.name?.[i], exons: [] });
+  }
+  for (const list of index.values()) list.sort((a, b) => a.start - b.start);
+
+  // Exons carry no gene id; attach each to the genes on its chromosome that contain it
+  const exonsByChr = new Map<string, [number, number][]>();
+  for (let i = 0; i < exons.chr.length; i++) {
+    let list = exonsByChr.get(exons.chr[i]);
+    if (!list) exonsByChr.set(exons.chr[i], (list = []));
+    list.push([exons.start[i], exons.end[i]]);
+  }
+  for (const [chr, list] of exonsByChr) {
+    const chrGenes = index.get(chr);
+    if (!chrGenes) continue;
+    const maxLength = chrGenes.reduce((m, g) => Math.max(m, g.end - g.start), 0);
+    for (const exon of list) {
+      // Only genes starting within the longest gene length before the exon can contain it
+      let lo = 0;
+      let hi = chrGenes.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >>> 1;
+        if (chrGenes[mid].start < exon[0] - maxLength) lo = mid + 1;
+        else hi = mid;
+      }
+      for (let g = lo; g < chrGenes.length && chrGenes[g].start <= exon[0]; g++) {
+        if (chrGenes[g].end >= exon[1]) chrGenes[g].exons.push(exon);
+      }
+    }
+  }
+
+  geneIndexCache.set(model, index);
+  return index;
+}
+
+/** Genes overlapping the window. */
+export function genesInRange(index: GeneIndex, { chr, start, end }: Locus): GeneFeature[] {
+  return (index.get(chr) ?? []).filter((g) => g.end > start && g.start < end);
+}
+
+/**
+ * Ensembl REST servers for the genomes with bundled gene models. The models
+ * carry no symbols, so symbols are looked up there instead.
+ */
+const ENSEMBL_REST: Record<string, string> = {
+  hg38: 'https://rest.ensembl.org',
+  hg19: 'https://grch37.rest.ensembl.org',
+};
+
+/** Genomes whose gene symbols resolve through Ensembl. */
+export const GENE_SYMBOL_GENOMES = new Set(Object.keys(ENSEMBL_REST));
+
+/** The fields of an Ensembl `lookup/symbol` response we use; coordinates are 1-based inclusive. */
+type EnsemblGene = { seq_region_name: string; start: number; end: number };
+
+const symbolCache = new Map<string, Promise<Locus | null>>();
+
+/** Extent of the gene named `symbol` in `genome`; null when Ensembl doesn't know it. */
+export function lookupGeneSymbol(symbol: string, genome: string): Promise<Locus | null> {
+  const server = ENSEMBL_REST[genome];
+  if (!server) return Promise.resolve(null);
+  const key = `${genome}\t${symbol.toUpperCase()}`;
+  let pending = symbolCache.get(key);
+  if (!pending) {
+    pending = fetch(`${server}/lookup/symbol/homo_sapiens/${encodeURIComponent(symbol)}?content-type=application/json`)
+      .then(async (response) => {
+        // Unknown symbols come back as 400
+        if (response.status === 400 || response.status === 404) return null;
+        if (!response.ok) throw new Error(`Gene lookup failed: ${response.status} ${response.statusText}`);
+        const gene = (await response.json()) as EnsemblGene;
+        const name = gene.seq_region_name === 'MT' ? 'M' : gene.seq_region_name;
+        return { chr: `chr${name}`, start: gene.start - 1, end: gene.end };
+      });
+    symbolCache.set(key, pending);
+    pending.catch(() => symbolCache.delete(key));
+  }
+  return pending;
+}
+
+/** A locus, or a gene symbol (looked up on Ensembl) shown with a 10% margin on either side. */
+export async function resolveLocus(
+  text: string,
+  chromSizes: Record<string, number>,
+  genome: string | null,
+): Promise<Locus | null> {
+  const locus = parseLocus(text, chromSizes);
+  if (locus) return locus;
+  const symbol = text.trim();
+  if (!genome || !/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(symbol)) return null;
+  const gene = await lookupGeneSymbol(symbol, genome);
+  if (!gene || !chromSizes[gene.chr]) return null;
+  const pad = Math.round((gene.end - gene.start) * 0.1);
+  return clampLocus({ chr: gene.chr, start: gene.start - pad, end: gene.end + pad }, chromSizes[gene.chr]);
+}
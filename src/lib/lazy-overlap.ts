@@ -0,0 +1,100 @@
+/**
+ * On-demand pairwise overlaps for sketch-mode comparisons.
+ *
+ * With hundreds of files the full overlap matrix is n² intersections, most
+ * of which nobody looks at. The heatmap asks for the cells it shows; they
+ * are computed in small batches, newest request first, and listeners are
+ * told as values arrive.
+ */
+
+import { overlapPercent, pairKey, type ComparisonCache, type ComparisonFile } from './multi-file-analysis';
+
+/** Pairwise values that may not be computed yet. */
+export type LazyMatrix = {
+  /** Value for (i, j), or undefined until it has been computed */
+  get: (i: number, j: number) => number | undefined;
+  /** Queue cells for computation; replaces cells queued by earlier calls */
+  request: (cells: [number, number][]) => void;
+  /** Called whenever new values arrive; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+};
+
+/** Pairs computed per worker request, small enough that scrolling stays responsive. */
+const BATCH_SIZE = 16;
+
+type LazyOverlapOptions = {
+  /** Files in matrix order */
+  files: ComparisonFile[];
+  /** Cache holding statistics for every file and any overlaps computed so far */
+  cache: ComparisonCache;
+  /** pintersectCount for the index pairs, keyed by pair key */
+  compute: (pairs: [number, number][], signal: AbortSignal) => Promise<Record<string, number>>;
+  /** Called with each batch of new counts, e.g. to persist them */
+  onComputed?: (counts: Record<string, number>) => void;
+};
+
+/**
+ * Overlap % matrix ([i][j] = % of file i's regions overlapping file j)
+ * filled on demand. `dispose` stops outstanding work.
+ */
+export function createLazyOverlap({ files, cache, compute, onComputed }: LazyOverlapOptions): LazyMatrix & { dispose: () => void } {
+  let current: ComparisonCache = { ...cache, overlap: { ...cache.overlap } };
+  const listeners = new Set<() => void>();
+  const controller = new AbortController();
+  let queue: [number, number][] = [];
+  const inFlight = new Set<string>();
+  let running = false;
+
+  async function drain() {
+    if (running) return;
+    running = true;
+    try {
+      while (queue.length > 0 && !controller.signal.aborted) {
+        const batch = queue.slice(0, BATCH_SIZE);
+        queue = queue.slice(BATCH_SIZE);
+        const keys = batch.map(([i, j]) => pairKey(files[i].key, files[j].key));
+        keys.forEach((k) => inFlight.add(k));
+        try {
+          const counts = await compute(batch, controller.signal);
+          current = { ...current, overlap: { ...current.overlap, ...counts } };
+          onComputed?.(counts);
+          listeners.forEach((l) => l());
+        } finally {
+          keys.forEach((k) => inFlight.delete(k));
+        }
+      }
+    } catch (err) {
+      // Cells stay empty and are requested again on the next redraw
+      if (!controller.signal.aborted) console.warn('Overlap computation failed:', err);
+      queue = [];
+    } finally {
+      running = false;
+    }
+  }
+
+  return {
+    get: (i, j) => overlapPercent(files, current, i, j),
+    request(cells) {
+      const seen = new Set<string>();
+      queue = [];
+      for (const [a, b] of cells) {
+        if (a === b) continue;
+        const [i, j] = a < b ? [a, b] : [b, a];
+        const key = pairKey(files[i].key, files[j].key);
+        if (key in current.overlap || inFlight.has(key) || seen.has(key)) continue;
+        seen.add(key);
+        queue.push([i, j]);
+      }
+      drain();
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    dispose() {
+      controller.abort();
+      listeners.clear();
+      queue = [];
+    },
+  };
+}
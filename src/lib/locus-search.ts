@@ -0,0 +1,84 @@
+/**
+ * Locus search: a handful of regions typed or pasted by the user become an
+ * in-memory BED file for `/bed/search/bed`, and the top hits are then checked
+ * for real overlap against their regions from `/bed/{id}/regions/{chr}`.
+ */
+
+import type { Locus, TrackRegion } from './genome-browser';
+
+/** Regions sent to bed-to-bed search. */
+export const MAX_LOCUS_REGIONS = 1000;
+
+/** Query regions checked against each hit; every one costs a request per hit. */
+export const MAX_VERIFIED_REGIONS = 25;
+
+/** Hits, in score order, whose regions are fetched for the overlap check. */
+export const VERIFIED_HITS = 10;
+
+/**
+ * Regions from free text: `chr1:1,000-2,000` tokens (several per line,
+ * separated by spaces or `;`) or BED lines. Unparseable lines are returned
+ * in `invalid`.
+ */
+export function parseRegionList(text: string): { regions: Locus[]; invalid: string[] } {
+  const regions: Locus[] = [];
+  const invalid: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith('track') || line.startsWith('browser')) continue;
+
+    if (line.includes(':')) {
+      for (const token of line.split(/[;\s]+/).filter(Boolean)) {
+        const m = token.match(/^([^:]+):([\d,]+)[-–]([\d,]+)$/);
+        const region = m && toLocus(m[1], m[2], m[3]);
+        if (region) regions.push(region);
+        else invalid.push(token);
+      }
+      continue;
+    }
+
+    const f = line.split(/\s+/);
+    const region = f.length >= 3 ? toLocus(f[0], f[1], f[2]) : null;
+    if (region) regions.push(region);
+    else invalid.push(line);
+  }
+  return { regions, invalid };
+}
+
+function toLocus(chr: string, start: string, end: string): Locus | null {
+  const a = Number(start.replace(/,/g, ''));
+  const b = Number(end.replace(/,/g, ''));
+  if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b <= a) return null;
+  return { chr, start: a, end: b };
+}
+
+/** Compact form kept in the URL: `chr1:100-200; chr2:300-400`. */
+export function formatRegionList(regions: Locus[]): string {
+  return regions.map((r) => `${r.chr}:${r.start}-${r.end}`).join('; ');
+}
+
+/** Small stable hash, so the in-memory file's name tells queries apart. */
+function hashText(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+/** BED3 file of `regions` for bed-to-bed search; same regions give the same name and timestamp. */
+export function regionsToBedFile(regions: Locus[]): File {
+  const text = regions.map((r) => `${r.chr}\t${r.start}\t${r.end}\n`).join('');
+  return new File([text], `locus-${hashText(text)}.bed`, { type: 'text/plain', lastModified: 0 });
+}
+
+export type RegionOverlap = { query: Locus; overlaps: TrackRegion[] };
+
+/**
+ * Regions from a hit that truly overlap `query` (half-open intervals on the
+ * same chromosome); the endpoint's range filter is not relied on.
+ */
+export function exactOverlaps(query: Locus, regions: TrackRegion[]): TrackRegion[] {
+  return regions.filter((r) => r.start < query.end && r.end > query.start);
+}
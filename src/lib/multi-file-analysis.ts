@@ -1,6 +1,14 @@
 import { RegionSet, RegionSetList, type ChromosomeStatistics } from '@databio/gtars';
-import type { ProgressCallback, BedEntry } from './bed-parser';
-import { REGION_DIST_BINS } from './bed-analysis';
+import type { ProgressCallback } from './bed-parser';
+import type { BedColumns } from './bed-columns';
+import { REGION_DIST_BINS, regionSetFromColumns } from './bed-analysis';
+import { estimateJaccard } from './minhash';
+import {
+  loadRefBase,
+  loadRefGeneModel,
+  columnsToTuples,
+  columnsToStrandedTuples,
+} from './reference-data';
 
 export type FilePartitions = {
   fileName: string;
@@ -93,17 +101,41 @@ function buildChrAlias(chromSizes: Record<string, number>): Map<string, string>
   return alias;
 }
 
+/** Width of the bins region midpoints are counted in while a file loads, before its genome is known. */
+export const POSITION_BIN = 100_000;
+
+/** Region midpoints per chromosome, counted in POSITION_BIN-wide bins. */
+export type PositionHistogram = Map<string, Uint32Array>;
+
+/** Count the midpoints of a batch of rows into `hist`. */
+export function addPositions(hist: PositionHistogram, cols: BedColumns) {
+  for (let i = 0; i < cols.length; i++) {
+    const chr = cols.chroms[cols.chromIds[i]];
+    const bin = Math.floor((cols.starts[i] + cols.ends[i]) / 2 / POSITION_BIN);
+    let counts = hist.get(chr);
+    if (!counts || bin >= counts.length) {
+      const grown = new Uint32Array(Math.max(bin + 1, (counts?.length ?? 0) * 2));
+      if (counts) grown.set(counts);
+      hist.set(chr, grown);
+      counts = grown;
+    }
+    counts[bin]++;
+  }
+}
+
 /**
- * Bin BED entries by absolute genomic position using reference chromosome sizes.
- * Uses a universal bin width so that the longest chromosome spans N_POS_BINS bins
- * and shorter chromosomes get proportionally fewer bins, preserving their relative
- * extent while keeping bins aligned across files.
+ * Bin a file's region midpoints by absolute genomic position using reference
+ * chromosome sizes. Uses a universal bin width so that the longest chromosome
+ * spans N_POS_BINS bins and shorter chromosomes get proportionally fewer bins,
+ * preserving their relative extent while keeping bins aligned across files.
  *
+ * Midpoints come pre-counted at POSITION_BIN resolution and are placed at the
+ * centre of their bin, far below the reference bin width (~1 Mb for human).
  * Chromosome names are normalized so that bare names ("1", "X") match
  * chr-prefixed reference names ("chr1", "chrX").
  */
 export function binByAbsolutePosition(
-  entries: [string, number, number, string][],
+  hist: PositionHistogram,
   fileName: string,
   chromSizes: Record<string, number>,
 ): PositionalBin[] {
@@ -111,22 +143,28 @@ export function binByAbsolutePosition(
   const maxBins = chrBinCounts(chromSizes);
   const chrAlias = buildChrAlias(chromSizes);
 
-  const counts = new Map<string, number>();
-  for (const [chr, start, end] of entries) {
+  // Entries that alias the same chromosome ("1" and "chr1") are merged
+  const merged = new Map<string, Uint32Array>();
+  for (const [chr, fine] of hist) {
     const canonical = chrAlias.get(chr);
-    if (!canonical) continue;
-    const chrSize = chromSizes[canonical];
-    if (!chrSize || chrSize <= 0) continue;
-    const mid = (start + end) / 2;
-    const chrMax = (maxBins[canonical] ?? 1) - 1;
-    const bin = Math.min(Math.floor(mid / bw), chrMax);
-    const key = `${canonical}\0${bin}`;
-    counts.set(key, (counts.get(key) ?? 0) + 1);
+    if (!canonical || !(chromSizes[canonical] > 0)) continue;
+    let counts = merged.get(canonical);
+    if (!counts) {
+      counts = new Uint32Array(maxBins[canonical] ?? 1);
+      merged.set(canonical, counts);
+    }
+    for (let b = 0; b < fine.length; b++) {
+      if (fine[b] === 0) continue;
+      const mid = (b + 0.5) * POSITION_BIN;
+      counts[Math.min(Math.floor(mid / bw), counts.length - 1)] += fine[b];
+    }
   }
+
   const bins: PositionalBin[] = [];
-  for (const [key, count] of counts) {
-    const sep = key.indexOf('\0');
-    bins.push({ fileName, chr: key.slice(0, sep), bin: parseInt(key.slice(sep + 1)), count });
+  for (const [chr, counts] of merged) {
+    counts.forEach((count, bin) => {
+      if (count > 0) bins.push({ fileName, chr, bin, count });
+    });
   }
   return bins;
 }
@@ -146,9 +184,11 @@ export type TssHistPoint = {
 };
 
 export type MultiFileResult = {
+  /** 'sketch' when Jaccard values are MinHash estimates; missing on results stored before sketching existed */
+  mode?: ComparisonMode;
   fileStats: FileStats[];
   jaccardMatrix: number[][];
-  overlapMatrix: number[][];       // asymmetric: [i][j] = % of file i's regions overlapping file j
+  overlapMatrix: number[][];       // asymmetric: [i][j] = % of file i's regions overlapping file j; empty in sketch mode
   perFile: FileBreakdown[];
   chrCounts: ChrRegionCount[];     // flat array for plotting: file × chromosome region counts
   widthHist: WidthHistPoint[];     // flat array for plotting: file × width bin
@@ -160,8 +200,8 @@ export type MultiFileResult = {
   intersectionStats: { regions: number; nucleotides: number } | null;
 };
 
-function yieldToMain(): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, 0));
+function yieldToMain(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0)).then(() => signal?.throwIfAborted());
 }
 
 function freeRs(rs: unknown) {
@@ -194,55 +234,304 @@ function binWidths(widths: number[], fileName: string): WidthHistPoint[] {
     .filter((d) => d.count > 0);
 }
 
+// --- Staged comparison ---
+
 /**
- * Run the full multi-file comparison pipeline.
+ * 'exact' computes every pairwise Jaccard and overlap up front. 'sketch'
+ * estimates Jaccard from MinHash sketches and leaves overlaps to be
+ * computed on demand, so the cost no longer grows with n² intersections.
+ */
+export type ComparisonMode = 'exact' | 'sketch';
+
+/** Comparisons with more files than this run in sketch mode. */
+export const EXACT_COMPARISON_MAX_FILES = 30;
+
+export function comparisonModeFor(fileCount: number): ComparisonMode {
+  return fileCount > EXACT_COMPARISON_MAX_FILES ? 'sketch' : 'exact';
+}
+
+/** Comparison stages of exact mode, in the order they run. */
+export const COMPARISON_STAGES = ['stats', 'jaccard', 'overlap', 'consensus', 'setOps'] as const;
+/** Comparison stages of sketch mode, in the order they run. */
+export const SKETCH_COMPARISON_STAGES = ['stats', 'sketch', 'consensus', 'setOps'] as const;
+export type ComparisonStage = (typeof COMPARISON_STAGES)[number] | (typeof SKETCH_COMPARISON_STAGES)[number];
+
+export const COMPARISON_STAGE_LABELS: Record<ComparisonStage, string> = {
+  stats: 'Per-file statistics',
+  jaccard: 'Jaccard similarity',
+  overlap: 'Pairwise overlaps',
+  sketch: 'Estimated Jaccard similarity',
+  consensus: 'Consensus regions',
+  setOps: 'Union / intersection',
+};
+
+/** Share of overall progress [from, to] taken by each exact-mode stage (overlaps dominate). */
+export const COMPARISON_STAGE_RANGES: Record<(typeof COMPARISON_STAGES)[number], [number, number]> = {
+  stats: [0, 0.10],
+  jaccard: [0.10, 0.15],
+  overlap: [0.15, 0.75],
+  consensus: [0.75, 0.85],
+  setOps: [0.85, 1],
+};
+
+/** Share of overall progress [from, to] taken by each sketch-mode stage. */
+export const SKETCH_COMPARISON_STAGE_RANGES: Record<(typeof SKETCH_COMPARISON_STAGES)[number], [number, number]> = {
+  stats: [0, 0.30],
+  sketch: [0.30, 0.45],
+  consensus: [0.45, 0.70],
+  setOps: [0.70, 1],
+};
+
+/** Stages of `mode` in run order, with their progress ranges. */
+export function comparisonPlan(mode: ComparisonMode): { stage: ComparisonStage; range: [number, number] }[] {
+  return mode === 'sketch'
+    ? SKETCH_COMPARISON_STAGES.map((stage) => ({ stage, range: SKETCH_COMPARISON_STAGE_RANGES[stage] }))
+    : COMPARISON_STAGES.map((stage) => ({ stage, range: COMPARISON_STAGE_RANGES[stage] }));
+}
+
+/** A file taking part in a comparison. `key` identifies it across runs. */
+export type ComparisonFile = { key: string; name: string };
+
+type FileStageStats = {
+  stats: FileStats;
+  chrCounts: ChrRegionCount[];
+  widthHist: WidthHistPoint[];
+};
+
+/**
+ * Results of finished stages. Per-file values are keyed by file key and
+ * pairwise values by pair key, so a run over an overlapping file set only
+ * computes what is missing — adding one file fills in a single row/column.
+ * Consensus and union/intersection depend on the whole set and are reused
+ * only for the exact same files. Plain data, so it can cross to the worker.
+ */
+export type ComparisonCache = {
+  stats: Record<string, FileStageStats>;
+  jaccard: Record<string, number>;
+  /** pintersectCount per pair; filled on demand in sketch mode */
+  overlap: Record<string, number>;
+  /** MinHash sketch per file (see minhash.ts), taken while the file is loaded */
+  sketches: Record<string, number[]>;
+  /** Jaccard estimated from sketches, per pair */
+  sketchJaccard: Record<string, number>;
+  consensus: { setKey: string; regions: ConsensusRegion[] } | null;
+  setOps: {
+    setKey: string;
+    /** Regions unique to each file; null when unavailable (fewer than 2 files or WASM failure) */
+    unique: Record<string, number> | null;
+    unionStats: MultiFileResult['unionStats'];
+    intersectionStats: MultiFileResult['intersectionStats'];
+  } | null;
+};
+
+export function emptyComparisonCache(): ComparisonCache {
+  return { stats: {}, jaccard: {}, overlap: {}, sketches: {}, sketchJaccard: {}, consensus: null, setOps: null };
+}
+
+/** What one stage added to a ComparisonCache, as posted back by the worker. */
+export type ComparisonStageResult = Partial<ComparisonCache>;
+
+/** The entries `stage` added going from `before` to `after`. */
+export function stageResult(
+  stage: ComparisonStage,
+  before: ComparisonCache,
+  after: ComparisonCache,
+): ComparisonStageResult {
+  const added = <T>(prev: Record<string, T>, next: Record<string, T>) =>
+    Object.fromEntries(Object.entries(next).filter(([k]) => !(k in prev)));
+  switch (stage) {
+    case 'stats':
+      return { stats: added(before.stats, after.stats) };
+    case 'jaccard':
+      return { jaccard: added(before.jaccard, after.jaccard) };
+    case 'overlap':
+      return { overlap: added(before.overlap, after.overlap) };
+    case 'sketch':
+      return { sketchJaccard: added(before.sketchJaccard, after.sketchJaccard) };
+    case 'consensus':
+      return { consensus: after.consensus };
+    case 'setOps':
+      return { setOps: after.setOps };
+  }
+}
+
+/** `cache` with a stage's results added. */
+export function mergeStageResult(cache: ComparisonCache, result: ComparisonStageResult): ComparisonCache {
+  return {
+    stats: { ...cache.stats, ...result.stats },
+    jaccard: { ...cache.jaccard, ...result.jaccard },
+    overlap: { ...cache.overlap, ...result.overlap },
+    sketches: { ...cache.sketches, ...result.sketches },
+    sketchJaccard: { ...cache.sketchJaccard, ...result.sketchJaccard },
+    consensus: result.consensus === undefined ? cache.consensus : result.consensus,
+    setOps: result.setOps === undefined ? cache.setOps : result.setOps,
+  };
+}
+
+/** Cache key of an unordered file pair. */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}\n${b}` : `${b}\n${a}`;
+}
+
+function fileSetKey(files: ComparisonFile[]): string {
+  return files.map((f) => f.key).sort().join('\n');
+}
+
+/** Index pairs (i < j) whose pairwise value is not in `values` yet. */
+function missingPairs(files: ComparisonFile[], values: Record<string, number>): [number, number][] {
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < files.length; i++) {
+    for (let j = i + 1; j < files.length; j++) {
+      if (!(pairKey(files[i].key, files[j].key) in values)) pairs.push([i, j]);
+    }
+  }
+  return pairs;
+}
+
+/** True when `stage` has nothing left to compute for `files`. */
+export function isStageComplete(
+  stage: ComparisonStage,
+  files: ComparisonFile[],
+  cache: ComparisonCache,
+): boolean {
+  switch (stage) {
+    case 'stats':
+      return files.every((f) => f.key in cache.stats);
+    case 'jaccard':
+      return missingPairs(files, cache.jaccard).length === 0;
+    case 'overlap':
+      return missingPairs(files, cache.overlap).length === 0;
+    case 'sketch':
+      return missingPairs(files, cache.sketchJaccard).length === 0;
+    case 'consensus':
+      return cache.consensus?.setKey === fileSetKey(files);
+    case 'setOps':
+      return cache.setOps?.setKey === fileSetKey(files);
+  }
+}
+
+/**
+ * Drop entries that do not involve only files from `files`. Also fills in
+ * fields missing from caches stored by older versions.
+ */
+export function pruneComparisonCache(cache: ComparisonCache, files: ComparisonFile[]): ComparisonCache {
+  const keys = new Set(files.map((f) => f.key));
+  const keepFiles = <T>(values: Record<string, T> = {}) =>
+    Object.fromEntries(Object.entries(values).filter(([k]) => keys.has(k)));
+  const keepPairs = (values: Record<string, number> = {}) =>
+    Object.fromEntries(Object.entries(values).filter(([k]) => k.split('\n').every((key) => keys.has(key))));
+  const setKey = fileSetKey(files);
+  return {
+    stats: keepFiles(cache.stats),
+    jaccard: keepPairs(cache.jaccard),
+    overlap: keepPairs(cache.overlap),
+    sketches: keepFiles(cache.sketches),
+    sketchJaccard: keepPairs(cache.sketchJaccard),
+    consensus: cache.consensus?.setKey === setKey ? cache.consensus : null,
+    setOps: cache.setOps?.setKey === setKey ? cache.setOps : null,
+  };
+}
+
+/** Build one RegionSetList (in file order) from RegionSets or columnar input. */
+export function buildRegionSetList(sources: (RegionSet | BedColumns)[], fileNames: string[]): RegionSetList {
+  const rsl = new RegionSetList();
+  for (let i = 0; i < sources.length; i++) {
+    const source = sources[i];
+    if (source instanceof RegionSet) {
+      rsl.add(source, fileNames[i]);
+    } else {
+      const rs = regionSetFromColumns(source);
+      rsl.add(rs, fileNames[i]);
+      freeRs(rs);
+    }
+  }
+  return rsl;
+}
+
+/**
+ * Run a single comparison stage over `rsl` (whose order matches `files`),
+ * computing only what `cache` is missing. Returns an updated copy of the
+ * cache; `cache` itself is not modified. The overlap and union/intersection
+ * stages need the stats stage to have finished.
  *
- * Uses RegionSetList.fromEntries() to build a single collection in Rust,
- * then indexed operations (pintersectCount, unionExcept, etc.) to avoid
- * cloning RegionSets across the wasm boundary.
+ * Aborting `signal` rejects with an AbortError at the next yield point.
  */
-export async function computeMultiFileAnalysis(
-  allEntries: BedEntry[][],
-  fileNames: string[],
+export async function runComparisonStage(
+  stage: ComparisonStage,
+  rsl: RegionSetList,
+  files: ComparisonFile[],
+  cache: ComparisonCache,
   onProgress?: ProgressCallback,
-): Promise<MultiFileResult> {
-  const n = allEntries.length;
+  signal?: AbortSignal,
+): Promise<ComparisonCache> {
+  signal?.throwIfAborted();
+  if (isStageComplete(stage, files, cache)) {
+    onProgress?.(1);
+    return cache;
+  }
+  switch (stage) {
+    case 'stats':
+      return { ...cache, stats: await statsStage(rsl, files, cache.stats, onProgress, signal) };
+    case 'jaccard':
+      return { ...cache, jaccard: await jaccardStage(rsl, files, cache.jaccard, onProgress, signal) };
+    case 'overlap':
+      return { ...cache, overlap: await overlapStage(rsl, files, cache.overlap, onProgress, signal) };
+    case 'sketch':
+      return { ...cache, sketchJaccard: await sketchStage(files, cache, onProgress, signal) };
+    case 'consensus':
+      return { ...cache, consensus: await consensusStage(rsl, files, onProgress, signal) };
+    case 'setOps':
+      return { ...cache, setOps: await setOpsStage(rsl, files, onProgress, signal) };
+  }
+}
 
-  // --- 0–10%: build RegionSetList + per-file stats ---
-  const rsl = RegionSetList.fromEntries(allEntries, fileNames);
+function regionCount(cache: ComparisonCache, file: ComparisonFile): number {
+  const entry = cache.stats[file.key];
+  if (!entry) throw new Error(`Missing statistics for ${file.name}`);
+  return entry.stats.regions;
+}
 
-  const fileStats: FileStats[] = [];
-  const chrCounts: ChrRegionCount[] = [];
-  const widthHist: WidthHistPoint[] = [];
+async function statsStage(
+  rsl: RegionSetList,
+  files: ComparisonFile[],
+  prev: ComparisonCache['stats'],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<ComparisonCache['stats']> {
+  const next = { ...prev };
+  for (let i = 0; i < files.length; i++) {
+    const { key, name: fileName } = files[i];
+    if (key in next) continue;
 
-  for (let i = 0; i < n; i++) {
     const rs = rsl.get(i);
-    fileStats.push({
-      fileName: fileNames[i],
+    const stats: FileStats = {
+      fileName,
       regions: rs.numberOfRegions,
       meanWidth: rs.meanRegionWidth,
       nucleotides: rs.nucleotidesLength,
-    });
+    };
+    const chrCounts: ChrRegionCount[] = [];
+    let widthHist: WidthHistPoint[] = [];
 
     const calc = rs.chromosomeStatistics();
     if (calc) {
-      const total = fileStats[i].regions;
+      const total = stats.regions;
       for (const entry of Array.from(calc.entries())) {
-        const [chrom, stats] = entry as [unknown, ChromosomeStatistics];
-        const count = stats.number_of_regions;
+        const [chrom, chrStats] = entry as [unknown, ChromosomeStatistics];
+        const count = chrStats.number_of_regions;
         chrCounts.push({
-          fileName: fileNames[i],
+          fileName,
           chr: String(chrom),
           count,
           fraction: total > 0 ? count / total : 0,
         });
-        try { (stats as unknown as { free?: () => void }).free?.(); } catch { /* */ }
+        try { (chrStats as unknown as { free?: () => void }).free?.(); } catch { /* */ }
       }
     }
 
     try {
       const widths = Array.from(rs.calcWidths() as unknown as ArrayLike<number>);
-      widthHist.push(...binWidths(Array.from(widths), fileNames[i]));
+      widthHist = binWidths(widths, fileName);
     } catch { /* calcWidths not available */ }
 
     try {
@@ -250,139 +539,375 @@ export async function computeMultiFileAnalysis(
       if (rsAny.calcNeighborDistances) {
         const dists = Array.from(rsAny.calcNeighborDistances()).filter((d) => d > 0).sort((a, b) => a - b);
         if (dists.length > 0) {
-          fileStats[i].medianNeighborDistance = dists[Math.floor(dists.length / 2)];
+          stats.medianNeighborDistance = dists[Math.floor(dists.length / 2)];
         }
       }
     } catch { /* calcNeighborDistances not available */ }
 
     freeRs(rs);
+    next[key] = { stats, chrCounts, widthHist };
+    onProgress?.((i + 1) / files.length);
+    await yieldToMain(signal);
   }
+  return next;
+}
 
-  onProgress?.(0.10);
-  await yieldToMain();
-
-  // --- 10–15%: batch pairwise Jaccard (single wasm call, near-instant) ---
-  const jaccardResult = rsl.pairwiseJaccard() as { matrix: number[][]; names: string[] | null };
-  const jaccardMatrix = jaccardResult.matrix;
-
-  onProgress?.(0.15);
-  await yieldToMain();
-
-  // --- 15–75%: pairwise overlap fractions via pintersectCount (dominant cost) ---
-  const overlapMatrix: number[][] = Array.from({ length: n }, () => Array(n).fill(0));
-  for (let i = 0; i < n; i++) overlapMatrix[i][i] = 100;
+async function jaccardStage(
+  rsl: RegionSetList,
+  files: ComparisonFile[],
+  prev: ComparisonCache['jaccard'],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<ComparisonCache['jaccard']> {
+  const next = { ...prev };
+  const pairs = missingPairs(files, prev);
+  const totalPairs = (files.length * (files.length - 1)) / 2;
+
+  if (pairs.length === totalPairs) {
+    // Nothing cached: one batch wasm call is far cheaper than n² single calls
+    const { matrix } = rsl.pairwiseJaccard() as { matrix: number[][]; names: string[] | null };
+    for (const [i, j] of pairs) next[pairKey(files[i].key, files[j].key)] = matrix[i][j];
+  } else {
+    for (let p = 0; p < pairs.length; p++) {
+      const [i, j] = pairs[p];
+      next[pairKey(files[i].key, files[j].key)] = rsl.jaccardAt(i, j);
+      onProgress?.((p + 1) / pairs.length);
+      await yieldToMain(signal);
+    }
+  }
+  onProgress?.(1);
+  return next;
+}
 
-  const totalPairs = (n * (n - 1)) / 2;
-  let pairsDone = 0;
+async function overlapStage(
+  rsl: RegionSetList,
+  files: ComparisonFile[],
+  prev: ComparisonCache['overlap'],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<ComparisonCache['overlap']> {
+  const next = { ...prev };
+  const pairs = missingPairs(files, prev);
+  for (let p = 0; p < pairs.length; p++) {
+    const [i, j] = pairs[p];
+    next[pairKey(files[i].key, files[j].key)] = rsl.pintersectCount(i, j);
+    onProgress?.((p + 1) / pairs.length);
+    await yieldToMain(signal);
+  }
+  return next;
+}
 
-  for (let i = 0; i < n; i++) {
-    for (let j = i + 1; j < n; j++) {
-      const interCount = rsl.pintersectCount(i, j);
-      const countI = fileStats[i].regions;
-      const countJ = fileStats[j].regions;
-      overlapMatrix[i][j] = countI > 0 ? (interCount / countI) * 100 : 0;
-      overlapMatrix[j][i] = countJ > 0 ? (interCount / countJ) * 100 : 0;
-
-      pairsDone++;
-      onProgress?.(0.15 + 0.60 * (pairsDone / totalPairs));
-      await yieldToMain();
+/** Estimated Jaccard for missing pairs; every file must have a sketch in `cache`. */
+async function sketchStage(
+  files: ComparisonFile[],
+  cache: ComparisonCache,
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<ComparisonCache['sketchJaccard']> {
+  const sketches = files.map((f) => {
+    const sketch = cache.sketches[f.key];
+    if (!sketch) throw new Error(`Missing sketch for ${f.name}`);
+    return sketch;
+  });
+  const next = { ...cache.sketchJaccard };
+  const pairs = missingPairs(files, next);
+  // Each estimate is a merge of two short arrays; yield every few thousand
+  for (let p = 0; p < pairs.length; p++) {
+    const [i, j] = pairs[p];
+    next[pairKey(files[i].key, files[j].key)] = estimateJaccard(sketches[i], sketches[j]);
+    if (p % 4096 === 4095) {
+      onProgress?.((p + 1) / pairs.length);
+      await yieldToMain(signal);
     }
   }
+  onProgress?.(1);
+  return next;
+}
+
+/**
+ * pintersectCount for the given index pairs over `rsl` (whose order matches
+ * `files`), keyed by pair key. Used for on-demand overlaps in sketch mode.
+ */
+export async function computeOverlapPairs(
+  rsl: RegionSetList,
+  files: ComparisonFile[],
+  pairs: [number, number][],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (let p = 0; p < pairs.length; p++) {
+    const [i, j] = pairs[p];
+    counts[pairKey(files[i].key, files[j].key)] = rsl.pintersectCount(i, j);
+    onProgress?.((p + 1) / pairs.length);
+    await yieldToMain(signal);
+  }
+  return counts;
+}
 
-  // --- 75–85%: consensus ---
-  let consensus: ConsensusRegion[] = [];
+async function consensusStage(
+  rsl: RegionSetList,
+  files: ComparisonFile[],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<ComparisonCache['consensus']> {
+  let regions: ConsensusRegion[] = [];
   try {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const gtars = await import('@databio/gtars') as any;
     if (typeof gtars.ConsensusBuilder === 'function') {
       const builder = new gtars.ConsensusBuilder();
-      for (let i = 0; i < n; i++) {
-        const rs = rsl.get(i);
-        builder.add(rs);
-        freeRs(rs);
+      try {
+        for (let i = 0; i < files.length; i++) {
+          const rs = rsl.get(i);
+          builder.add(rs);
+          freeRs(rs);
+        }
+        onProgress?.(0.5);
+        await yieldToMain(signal);
+        regions = builder.compute() as ConsensusRegion[];
+      } finally {
+        try { builder.free?.(); } catch { /* */ }
       }
-      onProgress?.(0.80);
-      await yieldToMain();
-      const raw = builder.compute() as Array<{ chr: string; start: number; end: number; count: number }>;
-      consensus = raw;
-      try { builder.free?.(); } catch { /* */ }
     }
-  } catch (err) { console.warn('ConsensusBuilder failed:', err); }
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn('ConsensusBuilder failed:', err);
+  }
+  onProgress?.(1);
+  return { setKey: fileSetKey(files), regions };
+}
 
-  onProgress?.(0.85);
-  await yieldToMain();
+async function setOpsStage(
+  rsl: RegionSetList,
+  files: ComparisonFile[],
+  onProgress?: ProgressCallback,
+  signal?: AbortSignal,
+): Promise<ComparisonCache['setOps']> {
+  const result: NonNullable<ComparisonCache['setOps']> = {
+    setKey: fileSetKey(files),
+    unique: null,
+    unionStats: null,
+    intersectionStats: null,
+  };
+  if (files.length < 2) return result;
 
-  // --- 85–95%: union, intersection, and per-file breakdown (O(n) batch) ---
-  let unionStats: MultiFileResult['unionStats'] = null;
-  let intersectionStats: MultiFileResult['intersectionStats'] = null;
-  const perFile: FileBreakdown[] = [];
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const bulk = (rsl as any).bulkUnionExcept() as {
+      union_regions: number;
+      union_nucleotides: number;
+      except_unique: number[];
+    };
+    result.unionStats = { regions: bulk.union_regions, nucleotides: bulk.union_nucleotides };
+    result.unique = Object.fromEntries(files.map((f, i) => [f.key, bulk.except_unique[i]]));
+  } catch (err) { console.warn('bulkUnionExcept failed:', err); }
+
+  onProgress?.(0.5);
+  await yieldToMain(signal);
 
-  if (n >= 2) {
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const bulk = (rsl as any).bulkUnionExcept() as {
-        union_regions: number;
-        union_nucleotides: number;
-        except_unique: number[];
-      };
-
-      unionStats = {
-        regions: bulk.union_regions,
-        nucleotides: bulk.union_nucleotides,
-      };
-
-      for (let i = 0; i < n; i++) {
-        const unique = bulk.except_unique[i];
-        const shared = fileStats[i].regions - unique;
-        perFile.push({
-          fileName: fileStats[i].fileName,
-          regions: fileStats[i].regions,
-          shared,
-          unique,
-          overlapPct: fileStats[i].regions > 0 ? (shared / fileStats[i].regions) * 100 : 0,
-        });
-      }
-    } catch (err) {
-      console.warn('bulkUnionExcept failed:', err);
-      for (let i = 0; i < n; i++) {
-        perFile.push({
-          fileName: fileStats[i].fileName,
-          regions: fileStats[i].regions,
-          shared: fileStats[i].regions,
-          unique: 0,
-          overlapPct: 100,
-        });
-      }
+  try {
+    const interAll = rsl.intersectAll();
+    result.intersectionStats = {
+      regions: interAll.numberOfRegions,
+      nucleotides: interAll.nucleotidesLength,
+    };
+    freeRs(interAll);
+  } catch (err) { console.warn('Intersection failed:', err); }
+
+  onProgress?.(1);
+  return result;
+}
+
+/**
+ * Percentage of file i's regions overlapping file j, or undefined when the
+ * pair's overlap has not been computed.
+ */
+export function overlapPercent(
+  files: ComparisonFile[],
+  cache: ComparisonCache,
+  i: number,
+  j: number,
+): number | undefined {
+  if (i === j) return 100;
+  const interCount = cache.overlap[pairKey(files[i].key, files[j].key)];
+  if (interCount === undefined) return undefined;
+  const count = regionCount(cache, files[i]);
+  return count > 0 ? (interCount / count) * 100 : 0;
+}
+
+/**
+ * Assemble a MultiFileResult for `files` from a cache in which every stage
+ * of `mode` is complete. Reference-dependent fields are left empty; in
+ * sketch mode so is the overlap matrix (see overlapPercent).
+ */
+export function assembleComparison(
+  files: ComparisonFile[],
+  cache: ComparisonCache,
+  mode: ComparisonMode = 'exact',
+): MultiFileResult {
+  const n = files.length;
+  const perFileStats = files.map((f) => {
+    const entry = cache.stats[f.key];
+    if (!entry) throw new Error(`Missing statistics for ${f.name}`);
+    return entry;
+  });
+  const fileStats = perFileStats.map((e) => e.stats);
+
+  const jaccard = mode === 'sketch' ? cache.sketchJaccard : cache.jaccard;
+  const jaccardMatrix: number[][] = Array.from({ length: n }, () => Array(n).fill(1));
+  const overlapMatrix: number[][] = mode === 'sketch' ? [] : Array.from({ length: n }, () => Array(n).fill(100));
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      jaccardMatrix[i][j] = jaccardMatrix[j][i] = jaccard[pairKey(files[i].key, files[j].key)] ?? 0;
+      if (mode === 'sketch') continue;
+      overlapMatrix[i][j] = overlapPercent(files, cache, i, j) ?? 0;
+      overlapMatrix[j][i] = overlapPercent(files, cache, j, i) ?? 0;
+    }
+  }
+
+  const unique = cache.setOps?.unique ?? null;
+  const perFile: FileBreakdown[] = fileStats.map((s, i) => {
+    const u = unique?.[files[i].key];
+    if (u == null) {
+      return { fileName: s.fileName, regions: s.regions, shared: s.regions, unique: 0, overlapPct: 100 };
     }
+    const shared = s.regions - u;
+    return {
+      fileName: s.fileName,
+      regions: s.regions,
+      shared,
+      unique: u,
+      overlapPct: s.regions > 0 ? (shared / s.regions) * 100 : 0,
+    };
+  });
+
+  return {
+    mode,
+    fileStats,
+    jaccardMatrix,
+    overlapMatrix,
+    perFile,
+    chrCounts: perFileStats.flatMap((e) => e.chrCounts),
+    widthHist: perFileStats.flatMap((e) => e.widthHist),
+    positionalBins: [],
+    consensus: cache.consensus?.regions ?? [],
+    tssHist: null,
+    filePartitions: null,
+    unionStats: cache.setOps?.unionStats ?? null,
+    intersectionStats: cache.setOps?.intersectionStats ?? null,
+  };
+}
 
-    onProgress?.(0.92);
-    await yieldToMain();
+// --- Reference-data-dependent per-file summaries ---
 
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const interAll = (rsl as any).intersectAll() as RegionSet;
-      intersectionStats = {
-        regions: interAll.numberOfRegions,
-        nucleotides: interAll.nucleotidesLength,
-      };
-      freeRs(interAll);
-    } catch (err) { console.warn('Intersection failed:', err); }
-  } else {
-    for (let i = 0; i < n; i++) {
-      perFile.push({
-        fileName: fileStats[i].fileName,
-        regions: fileStats[i].regions,
-        shared: fileStats[i].regions,
-        unique: 0,
-        overlapPct: 100,
-      });
+const TSS_RANGE = 100_000;
+const TSS_BINS = 100;
+const TSS_BIN_W = (2 * TSS_RANGE) / TSS_BINS;
+
+/**
+ * Per-file histograms of signed TSS distances, clamped to ±TSS_RANGE.
+ * Returns null when reference data or WASM support is unavailable.
+ */
+export async function computeTssHistograms(
+  regionSets: RegionSet[],
+  fileNames: string[],
+  genome: string,
+  signal?: AbortSignal,
+): Promise<TssHistPoint[] | null> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let tssRs: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let tssIndex: any = null;
+  try {
+    const refBase = await loadRefBase(genome);
+    const tssTuples = columnsToTuples(refBase.tss);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const gtars = await import('@databio/gtars') as any;
+    tssRs = new gtars.RegionSet(tssTuples);
+    tssIndex = new gtars.TssIndex(tssRs);
+
+    const tssHist: TssHistPoint[] = [];
+    for (let i = 0; i < regionSets.length; i++) {
+      const distances = tssIndex.calcFeatureDistances(regionSets[i]) as (number | null)[];
+      const clamped = distances.filter((d): d is number => d != null && Math.abs(d) <= TSS_RANGE);
+      if (clamped.length > 0) {
+        const counts = new Array<number>(TSS_BINS).fill(0);
+        for (const d of clamped) {
+          const idx = Math.min(Math.max(Math.floor((d + TSS_RANGE) / TSS_BIN_W), 0), TSS_BINS - 1);
+          counts[idx]++;
+        }
+        const total = clamped.length;
+        for (let b = 0; b < TSS_BINS; b++) {
+          const x1 = -TSS_RANGE + b * TSS_BIN_W;
+          tssHist.push({
+            fileName: fileNames[i],
+            binMid: Math.round(x1 + TSS_BIN_W / 2),
+            freq: counts[b] / total,
+          });
+        }
+      }
+      await yieldToMain(signal);
     }
+    return tssHist;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return null; // ref data or WASM unavailable
+  } finally {
+    try { tssIndex?.free?.(); } catch { /* */ }
+    try { tssRs?.free?.(); } catch { /* */ }
   }
+}
 
-  onProgress?.(0.95);
-  await yieldToMain();
+/**
+ * Per-file genomic partition percentages (requires the gene model).
+ * Returns null when the gene model is unavailable.
+ */
+export async function computeFilePartitions(
+  regionSets: RegionSet[],
+  fileNames: string[],
+  genome: string,
+  chromSizes: Record<string, number>,
+  signal?: AbortSignal,
+): Promise<FilePartitions[] | null> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let geneModel: any = null;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let partitionList: any = null;
+  try {
+    const refGM = await loadRefGeneModel(genome);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const gtars = await import('@databio/gtars') as any;
 
-  freeRs(rsl);
-  onProgress?.(1);
-  return { fileStats, jaccardMatrix, overlapMatrix, perFile, chrCounts, widthHist, positionalBins: [], consensus, tssHist: null, filePartitions: null, unionStats, intersectionStats };
+    geneModel = new gtars.GeneModel(
+      columnsToStrandedTuples(refGM.genes),
+      columnsToTuples(refGM.exons),
+      columnsToTuples(refGM.threeUtr),
+      columnsToTuples(refGM.fiveUtr),
+    );
+    partitionList = gtars.PartitionList.fromGeneModel(geneModel, 200, 2000, chromSizes);
+
+    const filePartitions: FilePartitions[] = [];
+    for (let i = 0; i < regionSets.length; i++) {
+      const result = gtars.calcPartitions(regionSets[i], partitionList, false) as {
+        partitions: { name: string; count: number }[];
+        total: number;
+      } | null;
+      if (result && result.total > 0) {
+        const pcts: Record<string, number> = {};
+        for (const p of result.partitions) {
+          pcts[p.name] = (p.count / result.total) * 100;
+        }
+        filePartitions.push({ fileName: fileNames[i], partitions: pcts });
+      }
+      await yieldToMain(signal);
+    }
+    return filePartitions;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return null; // gene model unavailable
+  } finally {
+    try { partitionList?.free?.(); } catch { /* */ }
+    try { geneModel?.free?.(); } catch { /* */ }
+  }
 }
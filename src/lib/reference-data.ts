@@ -28,7 +28,8 @@ export type RefBase = {
 
 export type RefGeneModel = {
   genome: string;
-  genes: ColumnarStrandedRegions;
+  /** `name` holds gene symbols in models built with them */
+  genes: ColumnarStrandedRegions & { name?: string[] };
   exons: ColumnarRegions;
   threeUtr: ColumnarRegions;
   fiveUtr: ColumnarRegions;
@@ -0,0 +1,40 @@
+/** A 32-character hex string is a BEDbase file ID. */
+export function isBedbaseId(input: string): boolean {
+  return /^[0-9a-f]{32}$/i.test(input);
+}
+
+/** `https://api.bedbase.org/v1/files/files/a/b/<id>.bed.gz` */
+const BEDBASE_FILE_URL = /^https:\/\/api\.bedbase\.org\/v1\/files\/files\/[0-9a-f]\/[0-9a-f]\/([0-9a-f]{32})\.bed\.gz$/i;
+
+const bedbaseIds = new WeakMap<File, string>();
+
+/**
+ * BEDbase ID of a file fetched from BEDbase in this session, or null. Files
+ * that were uploaded, or restored from the workspace store, have none.
+ */
+export function bedbaseIdOf(file: File): string | null {
+  return bedbaseIds.get(file) ?? null;
+}
+
+/** Fetch a BED file from a URL, or from BEDbase when given a file ID. */
+export async function fetchBedFromUrl(input: string): Promise<File> {
+  const trimmed = input.trim();
+  const url = isBedbaseId(trimmed)
+    ? `https://api.bedbase.org/v1/files/files/${trimmed[0]}/${trimmed[1]}/${trimmed}.bed.gz`
+    : trimmed;
+
+  if (!url.startsWith('https://') && !url.startsWith('http://')) {
+    throw new Error('URL must start with http:// or https://');
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch: ${response.status} ${response.statusText}`);
+  }
+  const blob = await response.blob();
+  const fileName = url.split('/').pop()?.split('?')[0] || 'remote.bed';
+  const file = new File([blob], fileName, { type: blob.type || 'application/octet-stream' });
+  const id = isBedbaseId(trimmed) ? trimmed : BEDBASE_FILE_URL.exec(url)?.[1];
+  if (id) bedbaseIds.set(file, id.toLowerCase());
+  return file;
+}
@@ -0,0 +1,22 @@
+/**
+ * Caps how many tasks run at once; the rest wait their turn in call order.
+ * Used where one view can start dozens of API requests together (per-hit
+ * region checks, per-file projections).
+ */
+export function createLimiter(limit: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async function run<T>(task: () => Promise<T>): Promise<T> {
+    if (active < limit) active++;
+    else await new Promise<void>((resolve) => waiting.push(resolve));
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next task so a new caller can't take it first
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import type { components } from '../bedbase-types';
+import {
+  bedDownloadUrl,
+  exportSlug,
+  fetchAllResults,
+  toDelimited,
+  toExportRows,
+  toPepZip,
+  type ExportRow,
+} from './search-export';
+
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+
+function result(id: string, score = 0.5): QdrantSearchResult {
+  return {
+    id,
+    score,
+    metadata: {
+      id,
+      name: `${id} peaks`,
+      genome_alias: 'hg38',
+      bed_compliance: 'bed6+4',
+      data_format: 'encode_narrowpeak',
+      compliant_columns: 6,
+      non_compliant_columns: 4,
+      is_universe: false,
+      license_id: null,
+      processed: true,
+      annotation: { cell_line: 'K562', target: 'CTCF', assay: '' },
+    } as QdrantSearchResult['metadata'],
+  };
+}
+
+/** A search over `total` results, served page by page */
+function pagedSearch(total: number) {
+  return vi.fn(async (limit: number, offset: number) => {
+    const ids = Array.from({ length: Math.max(0, Math.min(limit, total - offset)) }, (_, i) => `bed${offset + i}`);
+    return { count: total, limit, offset, results: ids.map((id) => result(id)) };
+  });
+}
+
+describe('fetchAllResults', () => {
+  it('pages through every result up to the count', async () => {
+    const fetchPage = pagedSearch(250);
+    const results = await fetchAllResults(fetchPage);
+    expect(results).toHaveLength(250);
+    expect(fetchPage.mock.calls).toEqual([[100, 0], [100, 100], [100, 200]]);
+  });
+
+  it('stops at max, requesting only what is left', async () => {
+    const fetchPage = pagedSearch(500);
+    const results = await fetchAllResults(fetchPage, { max: 150 });
+    expect(results.map((r) => r.id)).toEqual(Array.from({ length: 150 }, (_, i) => `bed${i}`));
+    expect(fetchPage.mock.calls).toEqual([[100, 0], [50, 100]]);
+  });
+
+  it('filters results without counting them against max', async () => {
+    const fetchPage = pagedSearch(300);
+    const results = await fetchAllResults(fetchPage, { max: 200, filter: (r) => Number(r.id.slice(3)) % 2 === 0 });
+    expect(results).toHaveLength(100);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps paging after a short page from a server that caps the limit', async () => {
+    const fetchPage = vi.fn(async (limit: number, offset: number) => ({
+      count: 120,
+      limit,
+      offset,
+      results: Array.from({ length: Math.min(limit, 50, 120 - offset) }, (_, i) => result(`bed${offset + i}`)),
+    }));
+    const results = await fetchAllResults(fetchPage);
+    expect(results.map((r) => r.id)).toEqual(Array.from({ length: 120 }, (_, i) => `bed${i}`));
+    expect(fetchPage.mock.calls).toEqual([[100, 0], [100, 50], [100, 100]]);
+  });
+
+  it('stops at an empty page', async () => {
+    const fetchPage = vi.fn(async (limit: number, offset: number) => ({
+      count: 1000,
+      limit,
+      offset,
+      results: offset === 0 ? [result('bed0')] : [],
+    }));
+    expect(await fetchAllResults(fetchPage)).toHaveLength(1);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('toExportRows', () => {
+  it('flattens metadata and annotations into one row per file', () => {
+    const [row] = toExportRows([result('abc', 0.9)]);
+    expect(row).toMatchObject({
+      sample_name: 'abc',
+      name: 'abc peaks',
+      genome: 'hg38',
+      score: 0.9,
+      cell_line: 'K562',
+      target: 'CTCF',
+      assay: null,
+      tissue: null,
+      data_format: 'encode_narrowpeak',
+      bed_compliance: 'bed6+4',
+      description: null,
+      download_url: bedDownloadUrl('abc'),
+    });
+  });
+
+  it('skips results without metadata', () => {
+    expect(toExportRows([{ id: 'x', metadata: null }, result('abc')]).map((r) => r.sample_name)).toEqual(['abc']);
+  });
+});
+
+describe('toDelimited', () => {
+  const row = { ...toExportRows([result('abc')])[0], description: 'ChIP-seq, "CTCF"\nrep 1' } as ExportRow;
+
+  it('quotes CSV cells with commas, quotes or newlines', () => {
+    const [header, line] = toDelimited([row], 'csv').split(/\n(?=abc)/);
+    expect(header.startsWith('sample_name,name,genome,score,')).toBe(true);
+    expect(line).toContain(',"ChIP-seq, ""CTCF""\nrep 1",');
+  });
+
+  it('flattens tabs and newlines in TSV cells', () => {
+    const lines = toDelimited([row], 'tsv').split('\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toContain('\tChIP-seq, "CTCF" rep 1\t');
+    expect(lines[2]).toBe('');
+  });
+});
+
+describe('toPepZip', () => {
+  it('bundles a sample table and project config', async () => {
+    const blob = toPepZip(toExportRows([result('abc')]), 'k562-ctcf', 'Search "CTCF"');
+    const files = unzipSync(new Uint8Array(await blob.arrayBuffer()));
+    expect(Object.keys(files).sort()).toEqual(['project_config.yaml', 'sample_table.csv']);
+    expect(strFromU8(files['project_config.yaml'])).toBe(
+      'pep_version: 2.1.0\nname: "k562-ctcf"\ndescription: "Search \\"CTCF\\""\nsample_table: sample_table.csv\n',
+    );
+    expect(strFromU8(files['sample_table.csv']).split('\n')[1].startsWith('abc,')).toBe(true);
+  });
+});
+
+describe('exportSlug', () => {
+  it('lowercases and hyphenates a label', () => {
+    expect(exportSlug('  K562 / CTCF (hg38) ')).toBe('k562-ctcf-hg38');
+  });
+
+  it('falls back for labels without letters or digits', () => {
+    expect(exportSlug('***')).toBe('bedbase-search');
+  });
+});
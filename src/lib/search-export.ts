@@ -0,0 +1,146 @@
+/**
+ * Search result exports: flat rows as CSV, TSV or JSON, and a PEP
+ * (sample_table.csv + project_config.yaml) zipped for PEPhub or looper.
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+import type { components } from '../bedbase-types';
+import { API_BASE } from './file-model-utils';
+
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+type SearchResponse = components['schemas']['BedListSearchResult'];
+
+export type ExportFormat = 'csv' | 'tsv' | 'json' | 'pep';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  tsv: 'TSV',
+  json: 'JSON',
+  pep: 'PEP (zip)',
+};
+
+/** Results fetched for an export; the top hits by score. */
+export const EXPORT_LIMIT = 1000;
+
+const EXPORT_PAGE = 100;
+
+const ANNOTATION_FIELDS = [
+  'organism',
+  'species_id',
+  'genotype',
+  'phenotype',
+  'cell_type',
+  'cell_line',
+  'tissue',
+  'library_source',
+  'assay',
+  'antibody',
+  'target',
+  'treatment',
+] as const;
+
+const COLUMNS = [
+  'sample_name',
+  'name',
+  'genome',
+  'score',
+  ...ANNOTATION_FIELDS,
+  'data_format',
+  'bed_compliance',
+  'description',
+  'download_url',
+] as const;
+
+export type ExportRow = Record<(typeof COLUMNS)[number], string | number | null>;
+
+export function bedDownloadUrl(id: string): string {
+  return `${API_BASE}/objects/bed.${id}.bed_file/access/http`;
+}
+
+/**
+ * Results from a paged search, requested EXPORT_PAGE at a time. `filter`
+ * drops results client-side (e.g. facets); `max` caps the results fetched,
+ * not the ones kept. A short page (a server capping `limit` lower) doesn't
+ * end the export; only an empty page or reaching the count does.
+ */
+export async function fetchAllResults(
+  fetchPage: (limit: number, offset: number) => Promise<SearchResponse>,
+  opts?: { max?: number; filter?: (r: QdrantSearchResult) => boolean },
+): Promise<QdrantSearchResult[]> {
+  const max = opts?.max ?? EXPORT_LIMIT;
+  const results: QdrantSearchResult[] = [];
+  let fetched = 0;
+  let count = Infinity;
+  while (fetched < Math.min(count, max)) {
+    const limit = Math.min(EXPORT_PAGE, max - fetched);
+    const data = await fetchPage(limit, fetched);
+    count = data.count;
+    const page = data.results ?? [];
+    if (page.length === 0) break;
+    fetched += page.length;
+    results.push(...(opts?.filter ? page.filter(opts.filter) : page));
+  }
+  return results;
+}
+
+export function toExportRows(results: QdrantSearchResult[]): ExportRow[] {
+  return results.flatMap((r) => {
+    const meta = r.metadata;
+    if (!meta?.id) return [];
+    const annotation = meta.annotation;
+    const row = {
+      sample_name: meta.id,
+      name: meta.name ?? null,
+      genome: meta.genome_alias ?? null,
+      score: r.score ?? null,
+    } as ExportRow;
+    for (const field of ANNOTATION_FIELDS) row[field] = annotation?.[field] || null;
+    row.data_format = meta.data_format ?? null;
+    row.bed_compliance = meta.bed_compliance ?? null;
+    row.description = meta.description ?? null;
+    row.download_url = bedDownloadUrl(meta.id);
+    return [row];
+  });
+}
+
+function csvCell(value: string | number | null): string {
+  if (value == null) return '';
+  const s = String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function tsvCell(value: string | number | null): string {
+  return value == null ? '' : String(value).replace(/[\t\r\n]+/g, ' ');
+}
+
+export function toDelimited(rows: ExportRow[], format: 'csv' | 'tsv'): string {
+  const cell = format === 'csv' ? csvCell : tsvCell;
+  const sep = format === 'csv' ? ',' : '\t';
+  const lines = [COLUMNS.join(sep), ...rows.map((row) => COLUMNS.map((c) => cell(row[c])).join(sep))];
+  return lines.join('\n') + '\n';
+}
+
+function yamlString(s: string): string {
+  return JSON.stringify(s);
+}
+
+/** PEP 2.1.0 bundle: one sample per BED file, named by its BEDbase ID. */
+export function toPepZip(rows: ExportRow[], projectName: string, description: string): Blob {
+  const config = [
+    'pep_version: 2.1.0',
+    `name: ${yamlString(projectName)}`,
+    `description: ${yamlString(description)}`,
+    'sample_table: sample_table.csv',
+    '',
+  ].join('\n');
+  const zipped = zipSync({
+    'sample_table.csv': strToU8(toDelimited(rows, 'csv')),
+    'project_config.yaml': strToU8(config),
+  });
+  return new Blob([new Uint8Array(zipped)], { type: 'application/zip' });
+}
+
+/** `k562-ctcf` from a free-text label, for file and project names. */
+export function exportSlug(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'bedbase-search';
+}
@@ -0,0 +1,101 @@
+/**
+ * Facets over search results: per-field value counts, multi-select include
+ * filters (any selected value matches) and negated filters (no excluded value
+ * matches), kept in the URL as repeated `facet=` params.
+ */
+
+import type { components } from '../bedbase-types';
+
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+
+export type FacetField =
+  | 'cell_line'
+  | 'cell_type'
+  | 'tissue'
+  | 'target'
+  | 'antibody'
+  | 'treatment'
+  | 'data_format';
+
+export const FACET_FIELDS: { field: FacetField; label: string }[] = [
+  { field: 'cell_line', label: 'Cell line' },
+  { field: 'cell_type', label: 'Cell type' },
+  { field: 'tissue', label: 'Tissue' },
+  { field: 'target', label: 'Target' },
+  { field: 'antibody', label: 'Antibody' },
+  { field: 'treatment', label: 'Treatment' },
+  { field: 'data_format', label: 'Data format' },
+];
+
+/** Top-ranked results fetched to compute facet counts and to filter. */
+export const FACET_POOL = 200;
+
+export type FacetFilter = { field: FacetField; value: string; negate: boolean };
+
+/** Results with an empty field are counted under this value. */
+export const MISSING_VALUE = '(none)';
+
+const FIELDS = new Set<string>(FACET_FIELDS.map((f) => f.field));
+
+/** `cell_line:K562`, or `!cell_line:K562` when negated. */
+export function formatFacetParam({ field, value, negate }: FacetFilter): string {
+  return `${negate ? '!' : ''}${field}:${value}`;
+}
+
+export function parseFacetParams(params: string[]): FacetFilter[] {
+  const out: FacetFilter[] = [];
+  for (const param of params) {
+    const negate = param.startsWith('!');
+    const body = negate ? param.slice(1) : param;
+    const colon = body.indexOf(':');
+    const field = body.slice(0, colon);
+    const value = body.slice(colon + 1);
+    if (colon > 0 && value && FIELDS.has(field)) out.push({ field: field as FacetField, value, negate });
+  }
+  return out;
+}
+
+export function facetValue(result: QdrantSearchResult, field: FacetField): string {
+  const meta = result.metadata;
+  const value = field === 'data_format' ? meta?.data_format : meta?.annotation?.[field];
+  return value?.trim() || MISSING_VALUE;
+}
+
+function matchesField(result: QdrantSearchResult, field: FacetField, filters: FacetFilter[]): boolean {
+  const value = facetValue(result, field).toLowerCase();
+  const include = filters.filter((f) => f.field === field && !f.negate);
+  if (include.length > 0 && !include.some((f) => f.value.toLowerCase() === value)) return false;
+  return !filters.some((f) => f.field === field && f.negate && f.value.toLowerCase() === value);
+}
+
+/** Results passing every field's filters, optionally ignoring one field's. */
+export function applyFacets(
+  results: QdrantSearchResult[],
+  filters: FacetFilter[],
+  ignore?: FacetField,
+): QdrantSearchResult[] {
+  if (filters.length === 0) return results;
+  return results.filter((r) => FACET_FIELDS.every(({ field }) => field === ignore || matchesField(r, field, filters)));
+}
+
+export type FacetCount = { value: string; count: number };
+
+/**
+ * Value counts per field, most common first. Each field is counted over
+ * results passing the other fields' filters, so picking a value in one field
+ * doesn't hide its alternatives.
+ */
+export function facetCounts(results: QdrantSearchResult[], filters: FacetFilter[]): Record<FacetField, FacetCount[]> {
+  const out = {} as Record<FacetField, FacetCount[]>;
+  for (const { field } of FACET_FIELDS) {
+    const counts = new Map<string, number>();
+    for (const r of applyFacets(results, filters, field)) {
+      const value = facetValue(r, field);
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+    out[field] = [...counts]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+  return out;
+}
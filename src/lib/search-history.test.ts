@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HISTORY_LIMIT,
+  describeFilters,
+  filterParams,
+  formatAge,
+  searchId,
+  upsertEntry,
+  type SearchEntry,
+} from './search-history';
+
+function entry(id: string, pinned = false): SearchEntry {
+  const snapshot = { count: 1, topIds: ['bed1'], at: 0 };
+  return {
+    id,
+    mode: 'text',
+    param: id,
+    filters: '',
+    label: id,
+    last: snapshot,
+    ...(pinned ? { pinned: { ...snapshot, name: id } } : {}),
+  };
+}
+
+describe('filterParams', () => {
+  it('keeps only filters, in a stable order', () => {
+    const search = new URLSearchParams('q=ctcf&genome=hg38&page=2&facet=target:CTCF&facet=!cell_line:K562&diff=1&pin=a');
+    expect(filterParams(search)).toBe('facet=%21cell_line%3AK562&facet=target%3ACTCF&genome=hg38');
+  });
+
+  it('is empty without filters', () => {
+    expect(filterParams(new URLSearchParams('q=ctcf&type=text&limit=50'))).toBe('');
+  });
+});
+
+describe('searchId', () => {
+  it('tells searches apart by mode, param, filters and query file', () => {
+    const text = searchId({ mode: 'text', param: 'ctcf', label: 'ctcf' }, '');
+    const file = { name: 'a.bed', size: 10, lastModified: 1 };
+    expect(searchId({ mode: 'text', param: 'ctcf', label: 'CTCF again' }, '')).toBe(text);
+    expect(searchId({ mode: 'exact', param: 'ctcf', label: 'ctcf' }, '')).not.toBe(text);
+    expect(searchId({ mode: 'text', param: 'ctcf', label: 'ctcf' }, 'genome=hg38')).not.toBe(text);
+    expect(searchId({ mode: 'bed', param: 'a.bed', label: 'a.bed', file }, ''))
+      .not.toBe(searchId({ mode: 'bed', param: 'a.bed', label: 'a.bed', file: { ...file, lastModified: 2 } }, ''));
+  });
+});
+
+describe('describeFilters', () => {
+  it('lists filters, negating excluded facets', () => {
+    expect(describeFilters('facet=%21cell_line%3AK562&facet=target%3ACTCF&genome=hg38'))
+      .toBe('not cell_line K562 · target CTCF · genome hg38');
+  });
+
+  it('keeps colons in facet values', () => {
+    expect(describeFilters('facet=description%3Aa%3Ab')).toBe('description a:b');
+  });
+});
+
+describe('upsertEntry', () => {
+  it('moves a re-run search to the front, keeping its pin', () => {
+    const entries = [entry('a'), entry('b', true), entry('c')];
+    const next = upsertEntry(entries, { ...entry('b'), label: 'b again' });
+    expect(next.map((e) => e.id)).toEqual(['b', 'a', 'c']);
+    expect(next[0].label).toBe('b again');
+    expect(next[0].pinned?.name).toBe('b');
+  });
+
+  it('drops the oldest unpinned entries past the limit, never pinned ones', () => {
+    const entries = [
+      ...Array.from({ length: HISTORY_LIMIT }, (_, i) => entry(`old${i}`)),
+      entry('pinned', true),
+    ];
+    const next = upsertEntry(entries, entry('new'));
+    expect(next).toHaveLength(HISTORY_LIMIT + 1);
+    expect(next[0].id).toBe('new');
+    expect(next.map((e) => e.id)).not.toContain(`old${HISTORY_LIMIT - 1}`);
+    expect(next.map((e) => e.id)).toContain('pinned');
+  });
+});
+
+describe('formatAge', () => {
+  const now = Date.UTC(2025, 0, 31, 12);
+  const minute = 60_000;
+
+  it('rounds to minutes, hours and days', () => {
+    expect(formatAge(now - 20_000, now)).toBe('just now');
+    expect(formatAge(now - 5 * minute, now)).toBe('5 min ago');
+    expect(formatAge(now - 3 * 60 * minute, now)).toBe('3 h ago');
+    expect(formatAge(now - 2 * 24 * 60 * minute, now)).toBe('2 d ago');
+  });
+
+  it('shows a date after a month', () => {
+    const then = now - 40 * 24 * 60 * minute;
+    expect(formatAge(then, now)).toBe(new Date(then).toLocaleDateString());
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Search history entries: what was searched (mode, tab param, URL filters,
+ * query file) and what came back, so a search can be re-run from the Search
+ * tab and, once pinned, compared against its saved results.
+ */
+
+import { fileKey } from './workspace-store';
+
+export type HistoryMode = 'text' | 'exact' | 'locus' | 'bed';
+
+export const HISTORY_MODE_LABELS: Record<HistoryMode, string> = {
+  text: 'Text',
+  exact: 'Exact',
+  locus: 'Locus',
+  bed: 'BED2BED',
+};
+
+/** Unpinned searches kept; pinned ones are kept until unpinned. */
+export const HISTORY_LIMIT = 20;
+
+/** Identifies an uploaded query file; bed-to-bed searches re-run only while it's loaded. */
+export type HistoryFile = { name: string; size: number; lastModified: number };
+
+/** Top results saved when pinning; covers the largest page, so a re-run's first page is diffed against a fixed pool. */
+export const PIN_POOL = 100;
+
+export type HistorySnapshot = { count: number; topIds: string[]; at: number };
+
+export type SearchEntry = {
+  id: string;
+  mode: HistoryMode;
+  /** Search tab param that re-runs the search */
+  param: string;
+  /** URL filters other than the query, e.g. `genome=hg38&facet=target:CTCF` */
+  filters: string;
+  file?: HistoryFile;
+  label: string;
+  /** Result of the latest run; topIds are the first page's files */
+  last: HistorySnapshot;
+  /** Results when pinned, for re-run and diff; topIds are the top PIN_POOL files */
+  pinned?: HistorySnapshot & { name: string };
+};
+
+/** What a results view knows about its search; the rest comes from the URL and results. */
+export type SearchDescriptor = { mode: HistoryMode; param: string; label: string; file?: HistoryFile };
+
+/** Params that are paging or view state rather than part of the search. */
+const NON_FILTER_PARAMS = new Set(['q', 'type', 'split', 'bed', 'page', 'limit', 'diff', 'pin']);
+
+/** The URL's filter params in a stable order. */
+export function filterParams(search: URLSearchParams): string {
+  const entries = [...search].filter(([key]) => !NON_FILTER_PARAMS.has(key));
+  entries.sort(([a, va], [b, vb]) => a.localeCompare(b) || va.localeCompare(vb));
+  return new URLSearchParams(entries).toString();
+}
+
+export function searchId({ mode, param, file }: SearchDescriptor, filters: string): string {
+  return [mode, param, filters, file ? fileKey(file) : ''].join('\u0000');
+}
+
+/** `genome hg38 · target CTCF · not cell_line K562` */
+export function describeFilters(filters: string): string {
+  return [...new URLSearchParams(filters)].map(([key, value]) => {
+    if (key !== 'facet') return `${key} ${value}`;
+    const negate = value.startsWith('!');
+    const [field, ...rest] = (negate ? value.slice(1) : value).split(':');
+    return `${negate ? 'not ' : ''}${field} ${rest.join(':')}`;
+  }).join(' · ');
+}
+
+/** Adds or refreshes `entry`, newest first, dropping the oldest unpinned entries past HISTORY_LIMIT. */
+export function upsertEntry(entries: SearchEntry[], entry: Omit<SearchEntry, 'pinned'>): SearchEntry[] {
+  const existing = entries.find((e) => e.id === entry.id);
+  const next = [{ ...existing, ...entry }, ...entries.filter((e) => e.id !== entry.id)];
+  let unpinned = 0;
+  return next.filter((e) => e.pinned || ++unpinned <= HISTORY_LIMIT);
+}
+
+export function formatAge(timestamp: number, now = Date.now()): string {
+  const minutes = Math.round((now - timestamp) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  const days = Math.round(hours / 24);
+  if (days < 30) return `${days} d ago`;
+  return new Date(timestamp).toLocaleDateString();
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { BedColumnsBuilder, bedColumnsToEntries, type BedColumns } from './bed-columns';
+import {
+  evaluateColumns,
+  expressionSetIds,
+  formatExpression,
+  validateExpression,
+  type SetExpression,
+} from './set-expression';
+
+const set = (setId: string): SetExpression => ({ kind: 'set', setId });
+
+function bed(rows: [string, number, number][]): BedColumns {
+  const builder = new BedColumnsBuilder();
+  for (const [chr, start, end] of rows) builder.push(chr, start, end, '');
+  return builder.build();
+}
+
+function regions(cols: BedColumns): [string, number, number][] {
+  return bedColumnsToEntries(cols).map(([chr, start, end]) => [chr, start, end]);
+}
+
+// ((A ∪ B) ∩ C) − D
+const expr: SetExpression = {
+  kind: 'difference',
+  operands: [
+    { kind: 'intersection', operands: [{ kind: 'union', operands: [set('a'), set('b')] }, set('c')] },
+    set('d'),
+  ],
+};
+
+describe('formatExpression', () => {
+  it('parenthesizes nested operations', () => {
+    expect(formatExpression(expr, (id) => id.toUpperCase())).toBe('((A ∪ B) ∩ C) − D');
+  });
+
+  it("doesn't parenthesize a nested operation with one operand", () => {
+    const single: SetExpression = { kind: 'union', operands: [{ kind: 'union', operands: [set('a')] }, set('b')] };
+    expect(formatExpression(single, (id) => id)).toBe('a ∪ b');
+  });
+});
+
+describe('expressionSetIds', () => {
+  it('lists each leaf once, in order of first appearance', () => {
+    const repeated: SetExpression = { kind: 'union', operands: [set('b'), expr, set('a')] };
+    expect(expressionSetIds(repeated)).toEqual(['b', 'a', 'c', 'd']);
+  });
+});
+
+describe('validateExpression', () => {
+  it('accepts leaves and non-empty operations', () => {
+    expect(() => validateExpression(expr)).not.toThrow();
+  });
+
+  it('rejects an empty operation, however deep', () => {
+    const empty: SetExpression = { kind: 'union', operands: [set('a'), { kind: 'intersection', operands: [] }] };
+    expect(() => validateExpression(empty)).toThrow('Empty intersection in expression');
+  });
+});
+
+describe('evaluateColumns', () => {
+  const sets: Record<string, BedColumns> = {
+    a: bed([['chr1', 0, 100]]),
+    b: bed([['chr1', 150, 300]]),
+    c: bed([['chr1', 50, 250]]),
+    d: bed([['chr1', 60, 70], ['chr1', 200, 210]]),
+  };
+  const resolve = (id: string) => sets[id];
+
+  it('evaluates nested operations over the parsed columns', () => {
+    expect(regions(evaluateColumns(expr, resolve))).toEqual([
+      ['chr1', 50, 60],
+      ['chr1', 70, 100],
+      ['chr1', 150, 200],
+      ['chr1', 210, 250],
+    ]);
+  });
+
+  it('subtracts every later operand of a difference from the first', () => {
+    const diff: SetExpression = { kind: 'difference', operands: [set('c'), set('a'), set('b')] };
+    expect(regions(evaluateColumns(diff, resolve))).toEqual([['chr1', 100, 150]]);
+  });
+
+  it('returns a lone leaf as resolved', () => {
+    expect(evaluateColumns(set('a'), resolve)).toBe(sets.a);
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Set-algebra expressions over region sets, e.g. `(A ∪ B) ∩ C − D`.
+ *
+ * Leaves name worker-held region sets. An expression is evaluated twice
+ * over: with gtars RegionSet operations for the stats preview, and over the
+ * parsed columns (set-operations.ts) when its regions have to be written
+ * out, since gtars RegionSets can't be read back. Both treat regions as
+ * covered bases, so they agree on the result.
+ */
+
+import type { RegionSet } from '@databio/gtars';
+import type { BedColumns } from './bed-columns';
+import { computeSetOperation } from './set-operations';
+
+export type SetOperator = 'union' | 'intersection' | 'difference';
+
+export type SetExpression =
+  | { kind: 'set'; setId: string }
+  /** `difference` subtracts every later operand from the first */
+  | { kind: SetOperator; operands: SetExpression[] };
+
+export const SET_OPERATOR_SYMBOLS: Record<SetOperator, string> = {
+  union: '∪',
+  intersection: '∩',
+  difference: '−',
+};
+
+/** Infix form, parenthesizing nested operations: `(A ∪ B) ∩ C − D`. */
+export function formatExpression(expr: SetExpression, nameOf: (setId: string) => string, nested = false): string {
+  if (expr.kind === 'set') return nameOf(expr.setId);
+  const text = expr.operands
+    .map((op) => formatExpression(op, nameOf, true))
+    .join(` ${SET_OPERATOR_SYMBOLS[expr.kind]} `);
+  return nested && expr.operands.length > 1 ? `(${text})` : text;
+}
+
+/** Set ids of every leaf, in order of first appearance. */
+export function expressionSetIds(expr: SetExpression): string[] {
+  if (expr.kind === 'set') return [expr.setId];
+  return [...new Set(expr.operands.flatMap(expressionSetIds))];
+}
+
+/** Throws when an operation has no operands. */
+export function validateExpression(expr: SetExpression): void {
+  if (expr.kind === 'set') return;
+  if (expr.operands.length === 0) throw new Error(`Empty ${expr.kind} in expression`);
+  expr.operands.forEach(validateExpression);
+}
+
+function freeRs(rs: unknown) {
+  try {
+    (rs as { free?: () => void }).free?.();
+  } catch { /* ignore */ }
+}
+
+/**
+ * Evaluate with gtars. Leaves are resolved, not copied, so the result is
+ * `owned` only when it was created here and the caller must free it.
+ */
+export function evaluateRegionSets(
+  expr: SetExpression,
+  resolve: (setId: string) => RegionSet,
+): { rs: RegionSet; owned: boolean } {
+  if (expr.kind === 'set') return { rs: resolve(expr.setId), owned: false };
+
+  let acc: { rs: RegionSet; owned: boolean } | null = null;
+  try {
+    for (const operand of expr.operands) {
+      const next = evaluateRegionSets(operand, resolve);
+      if (!acc) {
+        acc = next;
+        continue;
+      }
+      try {
+        const rs: RegionSet = expr.kind === 'union'
+          ? acc.rs.union(next.rs)
+          : expr.kind === 'intersection'
+            ? acc.rs.intersect(next.rs)
+            : acc.rs.setdiff(next.rs);
+        if (acc.owned) freeRs(acc.rs);
+        acc = { rs, owned: true };
+      } finally {
+        if (next.owned) freeRs(next.rs);
+      }
+    }
+    if (!acc) throw new Error(`Empty ${expr.kind} in expression`);
+    // A lone operand still goes through the operation so the output is merged
+    if (expr.operands.length === 1 && expr.kind !== 'difference') {
+      const rs = acc.rs.reduce();
+      if (acc.owned) freeRs(acc.rs);
+      acc = { rs, owned: true };
+    }
+    return acc;
+  } catch (err) {
+    if (acc?.owned) freeRs(acc.rs);
+    throw err;
+  }
+}
+
+/** Evaluate over parsed columns; the result is sorted and merged like gtars output. */
+export function evaluateColumns(
+  expr: SetExpression,
+  resolve: (setId: string) => BedColumns,
+  signal?: AbortSignal,
+): BedColumns {
+  if (expr.kind === 'set') return resolve(expr.setId);
+  const operands = expr.operands.map((op) => evaluateColumns(op, resolve, signal));
+  switch (expr.kind) {
+    case 'union':
+      return computeSetOperation(operands, { kind: 'union' }, signal);
+    case 'intersection':
+      return computeSetOperation(operands, { kind: 'intersection' }, signal);
+    case 'difference': {
+      let acc = operands[0];
+      for (const next of operands.slice(1)) {
+        acc = computeSetOperation([acc, next], { kind: 'unique', index: 0 }, signal);
+      }
+      return acc;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { BedColumnsBuilder, bedColumnsToEntries, type BedColumns } from './bed-columns';
+import { computeSetOperation } from './set-operations';
+
+function bed(rows: [string, number, number][]): BedColumns {
+  const builder = new BedColumnsBuilder();
+  for (const [chr, start, end] of rows) builder.push(chr, start, end, '');
+  return builder.build();
+}
+
+function regions(cols: BedColumns): [string, number, number][] {
+  return bedColumnsToEntries(cols).map(([chr, start, end]) => [chr, start, end]);
+}
+
+describe('computeSetOperation', () => {
+  const a = bed([['chr1', 0, 100], ['chr1', 200, 300], ['chr2', 0, 50]]);
+  const b = bed([['chr1', 50, 250], ['chr3', 10, 20]]);
+
+  it('unions the covered bases of every file', () => {
+    expect(regions(computeSetOperation([a, b], { kind: 'union' }))).toEqual([
+      ['chr1', 0, 300],
+      ['chr2', 0, 50],
+      ['chr3', 10, 20],
+    ]);
+  });
+
+  it('intersects to the bases every file covers', () => {
+    expect(regions(computeSetOperation([a, b], { kind: 'intersection' }))).toEqual([
+      ['chr1', 50, 100],
+      ['chr1', 200, 250],
+    ]);
+  });
+
+  it('keeps the bases only the indexed file covers', () => {
+    expect(regions(computeSetOperation([a, b], { kind: 'unique', index: 0 }))).toEqual([
+      ['chr1', 0, 50],
+      ['chr1', 250, 300],
+      ['chr2', 0, 50],
+    ]);
+    expect(regions(computeSetOperation([a, b], { kind: 'unique', index: 1 }))).toEqual([
+      ['chr1', 100, 200],
+      ['chr3', 10, 20],
+    ]);
+  });
+
+  it("merges each file's overlapping and touching regions first", () => {
+    const own = bed([['chr1', 30, 60], ['chr1', 0, 10], ['chr1', 10, 20], ['chr1', 40, 50]]);
+    expect(regions(computeSetOperation([own], { kind: 'union' }))).toEqual([
+      ['chr1', 0, 20],
+      ['chr1', 30, 60],
+    ]);
+    // A file overlapping itself is still the only file covering those bases
+    expect(regions(computeSetOperation([own, bed([])], { kind: 'unique', index: 0 }))).toEqual([
+      ['chr1', 0, 20],
+      ['chr1', 30, 60],
+    ]);
+  });
+
+  it("doesn't treat abutting regions of different files as overlapping", () => {
+    const left = bed([['chr1', 0, 10]]);
+    const right = bed([['chr1', 10, 20]]);
+    expect(regions(computeSetOperation([left, right], { kind: 'intersection' }))).toEqual([]);
+    expect(regions(computeSetOperation([left, right], { kind: 'union' }))).toEqual([['chr1', 0, 20]]);
+  });
+
+  it('keeps chromosomes in first-appearance order', () => {
+    const x = bed([['chrX', 0, 10], ['chr2', 0, 10]]);
+    const y = bed([['chr1', 0, 10], ['chr2', 5, 15]]);
+    expect(computeSetOperation([x, y], { kind: 'union' }).chroms).toEqual(['chrX', 'chr2', 'chr1']);
+  });
+
+  it('drops empty regions', () => {
+    expect(regions(computeSetOperation([bed([['chr1', 5, 5]])], { kind: 'union' }))).toEqual([]);
+  });
+
+  it('rejects a unique index outside the files', () => {
+    expect(() => computeSetOperation([a, b], { kind: 'unique', index: 2 })).toThrow('No file at index 2');
+  });
+
+  it('stops when aborted', () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(() => computeSetOperation([a, b], { kind: 'union' }, controller.signal)).toThrow();
+  });
+});
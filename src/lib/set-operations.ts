@@ -0,0 +1,164 @@
+/**
+ * Materialized set operations over the files of a comparison.
+ *
+ * The comparison stages only keep region counts from gtars (its RegionSets
+ * can't be read back out), so downloadable results are computed here from
+ * the parsed columns with one sweep over every file's start/end events per
+ * chromosome. Operations work on covered bases: each file's own regions are
+ * merged first, and output regions are maximal runs meeting the condition.
+ */
+
+import pako from 'pako';
+import { BedColumnsBuilder, type BedColumns } from './bed-columns';
+import type { ConsensusRegion } from './multi-file-analysis';
+
+export type SetOperation =
+  /** Bases covered by any file */
+  | { kind: 'union' }
+  /** Bases covered by every file */
+  | { kind: 'intersection' }
+  /** Bases covered by file `index` and no other file */
+  | { kind: 'unique'; index: number };
+
+/** Files addressable by one sweep; events pack the file index into this many slots. */
+const FILE_SLOTS = 1024;
+
+/** Rows of `cols` grouped by chromosome name. */
+function rowsByChrom(cols: BedColumns): Map<string, number[]> {
+  const byId: number[][] = cols.chroms.map(() => []);
+  for (let i = 0; i < cols.length; i++) byId[cols.chromIds[i]].push(i);
+  return new Map(cols.chroms.map((c, id) => [c, byId[id]]));
+}
+
+/** Sorted, merged [start, end) intervals of `rows`; touching intervals merge too. */
+function mergedIntervals(cols: BedColumns, rows: number[]): [number, number][] {
+  const sorted = rows
+    .filter((i) => cols.ends[i] > cols.starts[i])
+    .sort((a, b) => cols.starts[a] - cols.starts[b]);
+  const out: [number, number][] = [];
+  for (const i of sorted) {
+    const last = out[out.length - 1];
+    if (last && cols.starts[i] <= last[1]) last[1] = Math.max(last[1], cols.ends[i]);
+    else out.push([cols.starts[i], cols.ends[i]]);
+  }
+  return out;
+}
+
+/**
+ * Regions of `op` over `sources` (in comparison order), sorted by start
+ * within chromosomes; chromosomes keep their first-appearance order.
+ */
+export function computeSetOperation(sources: BedColumns[], op: SetOperation, signal?: AbortSignal): BedColumns {
+  const n = sources.length;
+  if (n > FILE_SLOTS) throw new Error(`Set operations support at most ${FILE_SLOTS} files`);
+  if (op.kind === 'unique' && (op.index < 0 || op.index >= n)) throw new Error(`No file at index ${op.index}`);
+
+  const keep = (depth: number, covered: Uint8Array): boolean => {
+    switch (op.kind) {
+      case 'union':
+        return depth > 0;
+      case 'intersection':
+        return depth === n;
+      case 'unique':
+        return depth === 1 && covered[op.index] === 1;
+    }
+  };
+
+  const byChrom = sources.map(rowsByChrom);
+  const chroms = [...new Set(sources.flatMap((s) => s.chroms))];
+  const out = new BedColumnsBuilder();
+  const covered = new Uint8Array(n);
+
+  for (const chr of chroms) {
+    signal?.throwIfAborted();
+    // key = pos * 2 * FILE_SLOTS + (start ? FILE_SLOTS : 0) + file, so at equal
+    // positions ends sort before starts and abutting regions don't overlap
+    const keys: number[] = [];
+    byChrom.forEach((rows, f) => {
+      const chrRows = rows.get(chr);
+      if (!chrRows) return;
+      for (const [start, end] of mergedIntervals(sources[f], chrRows)) {
+        keys.push(start * 2 * FILE_SLOTS + FILE_SLOTS + f, end * 2 * FILE_SLOTS + f);
+      }
+    });
+    const events = Float64Array.from(keys).sort();
+
+    covered.fill(0);
+    let depth = 0;
+    let prev = 0;
+    let openStart = -1;
+    for (const key of events) {
+      const pos = Math.floor(key / (2 * FILE_SLOTS));
+      const slot = key - pos * 2 * FILE_SLOTS;
+      if (pos > prev) {
+        const inside = keep(depth, covered);
+        if (inside && openStart < 0) openStart = prev;
+        if (!inside && openStart >= 0) {
+          out.push(chr, openStart, prev, '');
+          openStart = -1;
+        }
+      }
+      const isStart = slot >= FILE_SLOTS;
+      covered[slot % FILE_SLOTS] = isStart ? 1 : 0;
+      depth += isStart ? 1 : -1;
+      prev = pos;
+    }
+    if (openStart >= 0) out.push(chr, openStart, prev, '');
+  }
+  return out.build();
+}
+
+/** Lines per string joined into the output Blob. */
+const BLOB_CHUNK = 50_000;
+
+/** BED3 text of `cols`. */
+export function bedColumnsBlob(cols: BedColumns): Blob {
+  const parts: string[] = [];
+  for (let from = 0; from < cols.length; from += BLOB_CHUNK) {
+    const to = Math.min(cols.length, from + BLOB_CHUNK);
+    let text = '';
+    for (let i = from; i < to; i++) text += `${cols.chroms[cols.chromIds[i]]}\t${cols.starts[i]}\t${cols.ends[i]}\n`;
+    parts.push(text);
+  }
+  return new Blob(parts, { type: 'text/plain' });
+}
+
+/** Consensus regions supported by at least `minSupport` files, with the support count as the name column. */
+export function consensusBlob(regions: ConsensusRegion[], minSupport: number): Blob {
+  const kept = regions.filter((r) => r.count >= minSupport);
+  const parts: string[] = [];
+  for (let from = 0; from < kept.length; from += BLOB_CHUNK) {
+    parts.push(kept.slice(from, from + BLOB_CHUNK).map((r) => `${r.chr}\t${r.start}\t${r.end}\t${r.count}\n`).join(''));
+  }
+  return new Blob(parts, { type: 'text/plain' });
+}
+
+/** Gzip a Blob, natively where CompressionStream exists and with pako otherwise. */
+export async function gzipBlob(blob: Blob): Promise<Blob> {
+  if (typeof CompressionStream !== 'undefined') {
+    return new Response(blob.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+  }
+  return new Blob([pako.gzip(new Uint8Array(await blob.arrayBuffer()))], { type: 'application/gzip' });
+}
+
+/** Download name: `union.bed`, `peaks.unique.bed.gz`, `consensus.min3.bed`… */
+export function setOperationFileName(
+  op: SetOperation | { kind: 'consensus'; minSupport: number },
+  fileNames: string[],
+  gzip: boolean,
+): string {
+  let base: string;
+  switch (op.kind) {
+    case 'union':
+    case 'intersection':
+      base = op.kind;
+      break;
+    case 'unique':
+      base = `${fileNames[op.index].replace(/\.gz$/i, '').replace(/\.[^.]+$/, '') || 'regions'}.unique`;
+      break;
+    case 'consensus':
+      base = `consensus.min${op.minSupport}`;
+      break;
+  }
+  return `${base}.bed${gzip ? '.gz' : ''}`;
+}
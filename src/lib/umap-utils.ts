@@ -1,10 +1,72 @@
 import * as vg from '@uwdata/vgplot';
-import { add, sub, mul, mod } from '@uwdata/mosaic-sql';
+import { add, sub, mul, mod, isIn, type ExprNode } from '@uwdata/mosaic-sql';
 
-export const UMAP_URL = 'https://huggingface.co/databio/bedbase-umap/resolve/main/hg38_umap_3_13.json';
-export const GEOMETRY_URL = 'https://huggingface.co/databio/bedbase-umap/resolve/main/hg38_geometry.parquet';
-export const META_T1_URL = 'https://huggingface.co/databio/bedbase-umap/resolve/main/hg38_meta_t1.parquet';
-export const META_T2_URL = 'https://huggingface.co/databio/bedbase-umap/resolve/main/hg38_meta_t2.parquet';
+const UMAP_BASE_URL = 'https://huggingface.co/databio/bedbase-umap/resolve/main';
+
+export const UMAP_URL = `${UMAP_BASE_URL}/hg38_umap_3_13.json`;
+
+/**
+ * Genomes with an embedding on the Hub; each has its own geometry and metadata
+ * Parquet files (see umapDataUrls). Only genomes whose files are published
+ * belong here; the genome switcher appears once there is more than one.
+ */
+export const UMAP_GENOMES = ['hg38'] as const;
+export type UmapGenome = (typeof UMAP_GENOMES)[number];
+export const DEFAULT_UMAP_GENOME: UmapGenome = 'hg38';
+
+/**
+ * `/bed/umap` takes no genome and always projects into this embedding, so
+ * uploads are only shown on this genome's plot
+ */
+export const PROJECTION_GENOME: UmapGenome = 'hg38';
+
+export function isUmapGenome(genome: string | null | undefined): genome is UmapGenome {
+  return UMAP_GENOMES.includes(genome as UmapGenome);
+}
+
+/** Parquet sources for a genome's embedding: geometry plus tier 1 and tier 2 metadata */
+export function umapDataUrls(genome: UmapGenome) {
+  return {
+    geometry: `${UMAP_BASE_URL}/${genome}_geometry.parquet`,
+    metaT1: `${UMAP_BASE_URL}/${genome}_meta_t1.parquet`,
+    metaT2: `${UMAP_BASE_URL}/${genome}_meta_t2.parquet`,
+  };
+}
+
+/** DuckDB table holding a genome's points */
+export function umapTable(genome: UmapGenome): string {
+  return `data_${genome}`;
+}
+
+/** Point ids of uploaded files projected alongside the active one (`custom_point`) */
+export const PROJECTED_PREFIX = 'projected:';
+/** Projected files get categories from 20 up, after "Other" (18) and the active upload (19) */
+export const FIRST_PROJECTED_CATEGORY = 20;
+/** Files projected at once; the plot only renders categories below 64 */
+export const MAX_PROJECTED_FILES = 40;
+
+/** Colors cycled across projected files */
+const PROJECTED_COLORS = [
+  '#e6194b', '#3cb44b', '#4363d8', '#f58231', '#911eb4', '#42d4f4',
+  '#f032e6', '#bfef45', '#469990', '#9a6324', '#800000', '#000075',
+];
+
+export function projectedColor(index: number): string {
+  return PROJECTED_COLORS[index % PROJECTED_COLORS.length];
+}
+
+/** A category palette followed by one color per projected file slot */
+export function withProjectedColors(palette: string[]): string[] {
+  return [...palette, ...Array.from({ length: MAX_PROJECTED_FILES }, (_, i) => projectedColor(i))];
+}
+
+/** True for points of uploaded files rather than BEDbase files */
+export function isUploadedPoint(identifier: string): boolean {
+  return identifier === 'custom_point' || identifier.startsWith(PROJECTED_PREFIX);
+}
+
+/** An uploaded file's point in the embedding */
+export type ProjectedFile = { id: string; name: string; x: number; y: number; category: number };
 
 export type UmapPoint = {
   identifier: string;
@@ -32,6 +94,54 @@ export type ActiveFilter = {
   label: string;           // human-readable, e.g. 'ChIP-seq'
 };
 
+/** Predicates for category pins, OR'd within a variable and AND'd across variables */
+export function categoryPredicates(filters: ActiveFilter[]): ExprNode[] {
+  const byVariable = new Map<string, number[]>();
+  for (const f of filters) {
+    const arr = byVariable.get(f.variable) || [];
+    arr.push(f.categoryValue);
+    byVariable.set(f.variable, arr);
+  }
+  return [...byVariable.entries()].map(([variable, cats]) =>
+    cats.length === 1
+      ? vg.eq(vg.column(variable), vg.literal(cats[0]))
+      : isIn(vg.column(variable), cats.map((c) => vg.literal(c))),
+  );
+}
+
+/** Continuous fields with brushing histograms; `log` bins a field on a log10 scale */
+export const NUMERIC_FIELDS = [
+  { key: 'number_of_regions', label: 'Regions', log: true, tier2: false },
+  { key: 'mean_region_width', label: 'Mean Width', log: true, tier2: false },
+  { key: 'gc_content', label: 'GC Content', log: false, tier2: false },
+  { key: 'median_tss_dist', label: 'Median TSS Dist', log: true, tier2: true },
+] as const;
+
+export type NumericField = (typeof NUMERIC_FIELDS)[number];
+
+/** A brushed range of a numeric field */
+export type RangeFilter = {
+  field: string;
+  label: string;
+  min: number;
+  max: number;
+};
+
+/**
+ * Keeps points in [min, max), so ranges that share an edge don't both match a
+ * point on it; uploaded files have no numeric metadata, so they always stay
+ */
+export function rangePredicate(r: RangeFilter): ExprNode {
+  return vg.or(
+    vg.and(vg.gte(vg.column(r.field), vg.literal(r.min)), vg.lt(vg.column(r.field), vg.literal(r.max))),
+    vg.sql`id = 'custom_point' OR id LIKE '${PROJECTED_PREFIX}%'`,
+  );
+}
+
+export function formatRangeValue(v: number): string {
+  return v.toLocaleString(undefined, { maximumSignificantDigits: 3 });
+}
+
 /** Shared SELECT params for UMAP queries */
 export function umapSelectParams(colorGrouping: string) {
   return {
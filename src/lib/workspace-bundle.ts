@@ -0,0 +1,205 @@
+/**
+ * Workspace bundles: a single zip holding everything needed to hand a
+ * session to someone else — uploaded files, their cached results, the last
+ * comparison, UMAP selections, the cart and the tab layout.
+ *
+ * Layout:
+ *   manifest.json          WorkspaceManifest
+ *   files/<n>-<name>       original file bytes
+ *   results/<n>.json       cached per-file results (analysis, ref genomicdist, UMAP)
+ *   comparison.json        last comparison and its finished stages
+ */
+
+import { zip, unzip, strToU8, strFromU8, type AsyncZippable, type Unzipped } from 'fflate';
+import type { SelectionBucket } from '../contexts/bucket-context';
+import type { CartItem } from '../contexts/cart-context';
+import type { ComparisonCache } from './multi-file-analysis';
+import { fileKey, type StoredComparison, type StoredFileResults } from './workspace-store';
+
+const FORMAT = 'bedbase-workspace';
+const VERSION = 1;
+
+/** Extension used for exported bundles. */
+export const WORKSPACE_BUNDLE_EXTENSION = '.bedbase.zip';
+
+type ManifestFile = {
+  path: string;
+  name: string;
+  type: string;
+  /** Kept so file keys (name|size|lastModified) match the cached results */
+  lastModified: number;
+  results: string | null;
+};
+
+type ManifestComparison = Omit<StoredComparison, 'parsedFiles'> & {
+  /** File name → index into `files` */
+  parsedFiles: Record<string, number>;
+  stageCache: ComparisonCache | null;
+};
+
+type WorkspaceManifest = {
+  format: typeof FORMAT;
+  version: number;
+  name: string;
+  createdAt: string;
+  files: ManifestFile[];
+  /** Indices into `files`, in upload-list order */
+  uploaded: number[];
+  activeIndex: number | null;
+  buckets: SelectionBucket[];
+  cart: CartItem[];
+  /** App path + query string of the tab layout */
+  layout: string | null;
+  comparison: string | null;
+};
+
+export type FileResults = Omit<StoredFileResults, 'key' | 'updatedAt'>;
+
+export type WorkspaceBundle = {
+  name: string;
+  /** Uploaded files, in list order */
+  files: File[];
+  activeIndex: number | null;
+  /** Cached results per uploaded file, parallel to `files` */
+  results: (FileResults | null)[];
+  buckets: SelectionBucket[];
+  cart: CartItem[];
+  layout: string | null;
+  comparison: StoredComparison | null;
+  stageCache: ComparisonCache | null;
+};
+
+function sanitize(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
+
+/** File name for an exported bundle. */
+export function workspaceBundleName(name: string): string {
+  return `${sanitize(name.trim()) || 'workspace'}${WORKSPACE_BUNDLE_EXTENSION}`;
+}
+
+function zipAsync(data: AsyncZippable): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => zip(data, (err, out) => (err ? reject(err) : resolve(out))));
+}
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => unzip(data, (err, out) => (err ? reject(err) : resolve(out))));
+}
+
+const json = (value: unknown) => strToU8(JSON.stringify(value));
+
+/** Build the zip for `bundle`. Comparison-only files are included too. */
+export async function buildWorkspaceBundle(bundle: WorkspaceBundle): Promise<Blob> {
+  const entries: AsyncZippable = {};
+  const manifestFiles: ManifestFile[] = [];
+  const indexByKey = new Map<string, number>();
+
+  const addFile = async (file: File, results: FileResults | null): Promise<number> => {
+    const key = fileKey(file);
+    const existing = indexByKey.get(key);
+    if (existing !== undefined) return existing;
+    const n = manifestFiles.length;
+    const path = `files/${n}-${sanitize(file.name)}`;
+    // Gzipped input doesn't shrink further; store it as is
+    const level = /\.gz$/i.test(file.name) ? 0 : 6;
+    entries[path] = [new Uint8Array(await file.arrayBuffer()), { level }];
+    let resultsPath: string | null = null;
+    if (results) {
+      resultsPath = `results/${n}.json`;
+      entries[resultsPath] = json(results);
+    }
+    manifestFiles.push({ path, name: file.name, type: file.type, lastModified: file.lastModified, results: resultsPath });
+    indexByKey.set(key, n);
+    return n;
+  };
+
+  const uploaded: number[] = [];
+  for (let i = 0; i < bundle.files.length; i++) {
+    uploaded.push(await addFile(bundle.files[i], bundle.results[i] ?? null));
+  }
+
+  let comparisonPath: string | null = null;
+  if (bundle.comparison) {
+    const { parsedFiles, ...rest } = bundle.comparison;
+    const parsed: Record<string, number> = {};
+    for (const [name, file] of parsedFiles ?? []) parsed[name] = await addFile(file, null);
+    comparisonPath = 'comparison.json';
+    entries[comparisonPath] = json({ ...rest, parsedFiles: parsed, stageCache: bundle.stageCache } satisfies ManifestComparison);
+  }
+
+  const manifest: WorkspaceManifest = {
+    format: FORMAT,
+    version: VERSION,
+    name: bundle.name,
+    createdAt: new Date().toISOString(),
+    files: manifestFiles,
+    uploaded,
+    activeIndex: bundle.activeIndex,
+    buckets: bundle.buckets,
+    cart: bundle.cart,
+    layout: bundle.layout,
+    comparison: comparisonPath,
+  };
+  entries['manifest.json'] = json(manifest);
+
+  const zipped = await zipAsync(entries);
+  return new Blob([new Uint8Array(zipped)], { type: 'application/zip' });
+}
+
+/** Read a bundle written by buildWorkspaceBundle; throws with a readable message for anything else. */
+export async function readWorkspaceBundle(file: File): Promise<WorkspaceBundle> {
+  let entries: Unzipped;
+  try {
+    entries = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error(`${file.name} is not a zip archive`);
+  }
+
+  const readJson = <T>(path: string): T => {
+    const data = entries[path];
+    if (!data) throw new Error(`Workspace bundle is missing ${path}`);
+    try {
+      return JSON.parse(strFromU8(data)) as T;
+    } catch {
+      throw new Error(`Workspace bundle has an unreadable ${path}`);
+    }
+  };
+
+  const manifest = readJson<WorkspaceManifest>('manifest.json');
+  if (manifest.format !== FORMAT) throw new Error(`${file.name} is not a BEDbase workspace`);
+  if (manifest.version > VERSION) {
+    throw new Error('This workspace was exported by a newer version of BEDbase; reload the page and try again');
+  }
+
+  const files = manifest.files.map((f) => {
+    const data = entries[f.path];
+    if (!data) throw new Error(`Workspace bundle is missing ${f.path}`);
+    return new File([new Uint8Array(data)], f.name, { type: f.type, lastModified: f.lastModified });
+  });
+
+  let comparison: StoredComparison | null = null;
+  let stageCache: ComparisonCache | null = null;
+  if (manifest.comparison) {
+    const { parsedFiles, stageCache: stages, ...rest } = readJson<ManifestComparison>(manifest.comparison);
+    comparison = {
+      ...rest,
+      parsedFiles: new Map(Object.entries(parsedFiles).flatMap(([name, i]) => (files[i] ? [[name, files[i]]] : []))),
+    };
+    stageCache = stages;
+  }
+
+  return {
+    name: manifest.name,
+    files: manifest.uploaded.map((i) => files[i]),
+    activeIndex: manifest.activeIndex,
+    results: manifest.uploaded.map((i) => {
+      const path = manifest.files[i].results;
+      return path ? readJson<FileResults>(path) : null;
+    }),
+    buckets: manifest.buckets ?? [],
+    cart: manifest.cart ?? [],
+    layout: manifest.layout,
+    comparison,
+    stageCache,
+  };
+}
@@ -0,0 +1,284 @@
+/**
+ * IndexedDB-backed workspace store.
+ *
+ * Persists uploaded files and the results derived from them so a reload
+ * doesn't throw away parsing, analysis and comparison work:
+ *   - files:       File blobs, keyed by fileKey
+ *   - meta:        list order and the active file, kept apart so reordering
+ *                  or switching files doesn't rewrite the blobs
+ *   - results:     per-file BedAnalysis, reference genomicdist (per genome)
+ *                  and UMAP coordinates, keyed by fileKey
+ *   - comparison:  the last multi-file comparison and its finished stages,
+ *                  stored under separate keys so each is written on its own
+ *
+ * Every function degrades to a no-op when IndexedDB is unavailable (private
+ * browsing, blocked storage); reads then resolve to empty values. Writes
+ * reject on failure so callers can surface quota errors.
+ */
+
+import type { BedAnalysis, RefGenomicDistResult } from './bed-analysis';
+import type { ComparisonCache, MultiFileResult, PerFileGenomeResult } from './multi-file-analysis';
+import type { UmapGenome } from './umap-utils';
+
+const DB_NAME = 'bedbase-workspace';
+const DB_VERSION = 1;
+
+const FILES = 'files';
+const RESULTS = 'results';
+const COMPARISON = 'comparison';
+const COMPARISON_KEY = 'current';
+const STAGES_KEY = 'stages';
+const META = 'meta';
+const FILE_ORDER_KEY = 'fileOrder';
+
+type StoredFile = {
+  key: string;
+  file: File;
+};
+
+type FileOrder = {
+  keys: string[];
+  activeIndex: number | null;
+};
+
+export type StoredFileResults = {
+  key: string;
+  analysis?: BedAnalysis;
+  /** Reference-dependent genomicdist, keyed by genome */
+  refGenomicdist?: Record<string, RefGenomicDistResult>;
+  umapCoordinates?: number[];
+  /** Genome embedding the coordinates belong to; hg38 when missing */
+  umapGenome?: UmapGenome;
+  updatedAt: number;
+};
+
+export type StoredComparison = {
+  fileNames: string[];
+  result: MultiFileResult;
+  chromSizes?: Record<string, number>;
+  genomeResults?: PerFileGenomeResult[];
+  majorityGenome?: string;
+  genomeDefaulted?: boolean;
+  parsedFiles?: Map<string, File>;
+};
+
+export type StoredFileEntry = {
+  key: string;
+  name: string;
+  size: number;
+  hasResults: boolean;
+};
+
+export type WorkspaceUsage = {
+  /** Bytes used by this origin, from navigator.storage.estimate() */
+  usage: number | null;
+  quota: number | null;
+  /** True when the browser won't evict the origin's storage under pressure */
+  persisted: boolean;
+  files: StoredFileEntry[];
+  hasComparison: boolean;
+};
+
+/** Identity of an uploaded file across sessions: name, size and modification time. */
+export function fileKey(f: { name: string; size: number; lastModified: number }): string {
+  return `${f.name}|${f.size}|${f.lastModified}`;
+}
+
+// --- Connection ---
+
+let _db: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!_db) {
+    _db = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(FILES)) db.createObjectStore(FILES, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(RESULTS)) db.createObjectStore(RESULTS, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(COMPARISON)) db.createObjectStore(COMPARISON);
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      };
+      req.onsuccess = () => resolve(req.result);
+      // Storage blocked: run without persistence
+      req.onerror = () => resolve(null);
+    });
+  }
+  return _db;
+}
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Run `fn` in one transaction; resolves once the transaction commits. */
+async function withStores<T>(
+  names: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => Promise<T> | T,
+  fallback: T,
+): Promise<T> {
+  const db = await openDb();
+  if (!db) return fallback;
+  const tx = db.transaction(names, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(tx.error ?? new Error('Workspace transaction aborted'));
+    tx.onerror = () => reject(tx.error);
+  });
+  const [result] = await Promise.all([fn(tx), done]);
+  return result;
+}
+
+// --- Files ---
+
+/** Stored files in list order, with rows for missing blobs dropped. */
+async function readFiles(tx: IDBTransaction): Promise<{ files: StoredFile[]; activeIndex: number | null }> {
+  const rows = (await promisify(tx.objectStore(FILES).getAll())) as StoredFile[];
+  const order: FileOrder | undefined = await promisify(tx.objectStore(META).get(FILE_ORDER_KEY));
+  const byKey = new Map(rows.map((r) => [r.key, r]));
+  const keys = order?.keys ?? rows.map((r) => r.key);
+  const files = keys.flatMap((k) => byKey.get(k) ?? []);
+  const activeKey = order?.activeIndex != null ? keys[order.activeIndex] : undefined;
+  const active = files.findIndex((r) => r.key === activeKey);
+  return { files, activeIndex: active >= 0 ? active : null };
+}
+
+export async function loadStoredFiles(): Promise<{ files: File[]; activeIndex: number | null }> {
+  const empty = { files: [] as StoredFile[], activeIndex: null };
+  const { files, activeIndex } = await withStores([FILES, META], 'readonly', readFiles, empty).catch(() => empty);
+  return { files: files.map((r) => r.file), activeIndex };
+}
+
+/**
+ * Replace the stored file list. Only blobs not yet stored are written;
+ * files no longer in the list are deleted along with their results.
+ */
+export function saveStoredFiles(files: File[], activeIndex: number | null): Promise<void> {
+  return withStores([FILES, RESULTS, META], 'readwrite', async (tx) => {
+    const store = tx.objectStore(FILES);
+    const keys = files.map(fileKey);
+    const keep = new Set(keys);
+    const existing = new Set((await promisify(store.getAllKeys())) as string[]);
+    for (const key of existing) {
+      if (!keep.has(key)) {
+        store.delete(key);
+        tx.objectStore(RESULTS).delete(key);
+      }
+    }
+    files.forEach((file, i) => {
+      if (!existing.has(keys[i])) store.put({ key: keys[i], file } satisfies StoredFile);
+    });
+    tx.objectStore(META).put({ keys, activeIndex } satisfies FileOrder, FILE_ORDER_KEY);
+  }, undefined);
+}
+
+// --- Per-file results ---
+
+export function loadFileResults(key: string): Promise<StoredFileResults | null> {
+  return withStores<StoredFileResults | null>(
+    [RESULTS], 'readonly', async (tx) => (await promisify(tx.objectStore(RESULTS).get(key))) ?? null, null,
+  ).catch(() => null);
+}
+
+/** Merge `patch` into the stored results of `key`. */
+export function saveFileResults(
+  key: string,
+  patch: Partial<Omit<StoredFileResults, 'key' | 'updatedAt'>>,
+): Promise<void> {
+  return withStores([RESULTS], 'readwrite', async (tx) => {
+    const store = tx.objectStore(RESULTS);
+    const prev: StoredFileResults | undefined = await promisify(store.get(key));
+    const refGenomicdist = patch.refGenomicdist
+      ? { ...prev?.refGenomicdist, ...patch.refGenomicdist }
+      : prev?.refGenomicdist;
+    store.put({ ...prev, ...patch, refGenomicdist, key, updatedAt: Date.now() } satisfies StoredFileResults);
+  }, undefined);
+}
+
+/** Drop cached results for one file; the file itself stays in the workspace. */
+export function evictFileResults(key: string): Promise<void> {
+  return withStores([RESULTS], 'readwrite', (tx) => {
+    tx.objectStore(RESULTS).delete(key);
+  }, undefined);
+}
+
+// --- Comparison ---
+
+type LoadedComparison = { cached: StoredComparison | null; stageCache: ComparisonCache | null };
+
+export function loadStoredComparison(): Promise<LoadedComparison> {
+  const empty: LoadedComparison = { cached: null, stageCache: null };
+  return withStores<LoadedComparison>([COMPARISON], 'readonly', async (tx) => {
+    const store = tx.objectStore(COMPARISON);
+    const cached = (await promisify(store.get(COMPARISON_KEY))) ?? null;
+    const stageCache = (await promisify(store.get(STAGES_KEY))) ?? null;
+    return { cached, stageCache };
+  }, empty).catch(() => empty);
+}
+
+/** Store the finished comparison; null deletes it. */
+export function saveStoredComparison(comparison: StoredComparison | null): Promise<void> {
+  return withStores([COMPARISON], 'readwrite', (tx) => {
+    const store = tx.objectStore(COMPARISON);
+    if (comparison) store.put(comparison, COMPARISON_KEY);
+    else store.delete(COMPARISON_KEY);
+  }, undefined);
+}
+
+export function saveStoredStages(stageCache: ComparisonCache): Promise<void> {
+  return withStores([COMPARISON], 'readwrite', (tx) => {
+    tx.objectStore(COMPARISON).put(stageCache, STAGES_KEY);
+  }, undefined);
+}
+
+// --- Quota and eviction ---
+
+export async function getWorkspaceUsage(): Promise<WorkspaceUsage> {
+  const estimate = await navigator.storage?.estimate?.().catch(() => null);
+  const persisted = (await navigator.storage?.persisted?.().catch(() => false)) ?? false;
+  const empty = { files: [] as StoredFile[], resultKeys: [] as string[], hasComparison: false };
+  const { files, resultKeys, hasComparison } = await withStores(
+    [FILES, RESULTS, COMPARISON, META],
+    'readonly',
+    async (tx) => ({
+      files: (await readFiles(tx)).files,
+      resultKeys: (await promisify(tx.objectStore(RESULTS).getAllKeys())) as string[],
+      hasComparison: (await promisify(tx.objectStore(COMPARISON).count(COMPARISON_KEY))) > 0,
+    }),
+    empty,
+  ).catch(() => empty);
+
+  const withResults = new Set(resultKeys);
+  return {
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    persisted,
+    files: files.map((r) => ({ key: r.key, name: r.file.name, size: r.file.size, hasResults: withResults.has(r.key) })),
+    hasComparison,
+  };
+}
+
+/** Ask the browser to exempt the workspace from eviction under storage pressure. */
+export async function requestPersistentStorage(): Promise<boolean> {
+  return (await navigator.storage?.persist?.().catch(() => false)) ?? false;
+}
+
+/** Drop cached results of every file; files and the comparison stay. */
+export function evictAllFileResults(): Promise<void> {
+  return withStores([RESULTS], 'readwrite', (tx) => {
+    tx.objectStore(RESULTS).clear();
+  }, undefined);
+}
+
+/** True for the DOMException browsers throw when the origin is over quota. */
+export function isQuotaError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'QuotaExceededError';
+}
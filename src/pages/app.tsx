@@ -8,6 +8,7 @@ import { CartProvider } from '../contexts/cart-context';
 import { MosaicCoordinatorProvider } from '../contexts/mosaic-coordinator-context';
 import { BucketProvider } from '../contexts/bucket-context';
 import { SettingsProvider } from '../contexts/settings-context';
+import { SearchHistoryProvider } from '../contexts/search-history-provider';
 import { Toaster } from 'sonner';
 import { AppLayout } from '../components/layout/app-layout';
 import { ErrorBoundary } from '../components/shared/error-boundary';
@@ -32,12 +33,14 @@ export function App() {
                 <FileSetProvider>
                   <MosaicCoordinatorProvider>
                     <BucketProvider>
-                      <TabProvider>
-                        <ErrorBoundary>
-                          <AppLayout />
-                        </ErrorBoundary>
-                        <Toaster position="top-center" />
-                      </TabProvider>
+                      <SearchHistoryProvider>
+                        <TabProvider>
+                          <ErrorBoundary>
+                            <AppLayout />
+                          </ErrorBoundary>
+                          <Toaster position="top-center" />
+                        </TabProvider>
+                      </SearchHistoryProvider>
                     </BucketProvider>
                   </MosaicCoordinatorProvider>
                 </FileSetProvider>
@@ -0,0 +1,28 @@
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import type { components } from '../bedbase-types';
+import { useApi } from '../contexts/api-context';
+
+type BedListResult = components['schemas']['BedListResult'];
+
+export function useBedList(opts?: {
+  limit?: number;
+  offset?: number;
+  genome?: string;
+  bedCompliance?: string;
+}) {
+  const { api } = useApi();
+  return useQuery({
+    queryKey: ['bed-list', opts?.limit, opts?.offset, opts?.genome, opts?.bedCompliance],
+    queryFn: async () => {
+      const params: Record<string, string | number> = {
+        limit: opts?.limit ?? 100,
+        offset: opts?.offset ?? 0,
+      };
+      if (opts?.genome) params.genome = opts.genome;
+      if (opts?.bedCompliance) params.bed_compliance = opts.bedCompliance;
+      const { data } = await api.get<BedListResult>('/bed/list', { params });
+      return data;
+    },
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,45 @@
+import { useCallback } from 'react';
+import { keepPreviousData, useQueries, type UseQueryResult } from '@tanstack/react-query';
+import type { AxiosInstance } from 'axios';
+import { useApi } from '../contexts/api-context';
+import { MAX_REMOTE_WINDOW, parseBedText, windowRegions, type Locus, type TrackRegion } from '../lib/genome-browser';
+
+export type BedRegions = { locus: Locus; regions: TrackRegion[] };
+
+export function bedRegionsQuery(api: AxiosInstance, bedId: string, locus: Locus | null) {
+  return {
+    queryKey: ['bed-regions', bedId, locus?.chr, locus?.start, locus?.end],
+    queryFn: async (): Promise<BedRegions> => {
+      const { chr, start, end } = locus!;
+      const { data } = await api.get<string>(`/bed/${bedId}/regions/${chr}`, {
+        params: { start, end },
+        responseType: 'text',
+      });
+      return { locus: { chr, start, end }, regions: parseBedText(data, chr) };
+    },
+    enabled: !!locus && locus.end - locus.start <= MAX_REMOTE_WINDOW,
+    placeholderData: keepPreviousData,
+    staleTime: Infinity,
+  };
+}
+
+/**
+ * Windows of database BED files at `locus`, one per id, each with the locus
+ * it was fetched for. Disabled above MAX_REMOTE_WINDOW; keeps the previous
+ * window while the next one loads.
+ */
+export function useBedRegionTracks(bedIds: string[], locus: Locus | null, bins: number) {
+  const { api } = useApi();
+  // A stable combine keeps the result identity until a query changes
+  const combine = useCallback((results: UseQueryResult<BedRegions>[]) => results.map((r) => ({
+    track: r.data
+      ? { locus: r.data.locus, window: windowRegions(r.data.regions, r.data.locus.start, r.data.locus.end, bins) }
+      : null,
+    isFetching: r.isFetching,
+    error: r.error,
+  })), [bins]);
+  return useQueries({
+    queries: bedIds.map((id) => bedRegionsQuery(api, id, locus)),
+    combine,
+  });
+}
@@ -1,8 +1,36 @@
 import { useQuery } from '@tanstack/react-query';
+import type { AxiosInstance } from 'axios';
 import type { components } from '../bedbase-types';
 import { useApi } from '../contexts/api-context';
+import { toBedFile } from '../lib/bed-parser';
+import { fetchAllResults } from '../lib/search-export';
 
 type SearchResponse = components['schemas']['BedListSearchResult'];
+type QdrantSearchResult = components['schemas']['QdrantSearchResult'];
+
+export async function fetchBedSearch(
+  api: AxiosInstance,
+  file: File,
+  opts: { limit: number; offset: number },
+): Promise<SearchResponse> {
+  const formData = new FormData();
+  formData.append('file', await toBedFile(file));
+  const { data } = await api.post<SearchResponse>(
+    `/bed/search/bed?limit=${opts.limit}&offset=${opts.offset}`,
+    formData,
+    { headers: { 'Content-Type': 'multipart/form-data' } },
+  );
+  return data;
+}
+
+/**
+ * The top `max` hits, paged like the other searches' exports: the endpoint's
+ * largest accepted `limit` isn't documented, so one request for all of them
+ * could come back short. Each page uploads the file again (converted once).
+ */
+export function fetchBedSearchTop(api: AxiosInstance, file: File, max: number): Promise<QdrantSearchResult[]> {
+  return fetchAllResults((limit, offset) => fetchBedSearch(api, file, { limit, offset }), { max });
+}
 
 export function useBedSearch(
   file: File | undefined,
@@ -13,14 +41,7 @@ export function useBedSearch(
     queryKey: ['bed-search', file?.name, file?.lastModified, opts?.limit, opts?.offset],
     queryFn: async () => {
       if (!file) throw new Error('No file provided');
-      const formData = new FormData();
-      formData.append('file', file);
-      const { data } = await api.post<SearchResponse>(
-        `/bed/search/bed?limit=${opts?.limit ?? 10}&offset=${opts?.offset ?? 0}`,
-        formData,
-        { headers: { 'Content-Type': 'multipart/form-data' } },
-      );
-      return data;
+      return fetchBedSearch(api, file, { limit: opts?.limit ?? 10, offset: opts?.offset ?? 0 });
     },
     enabled: !!file,
     staleTime: 0,
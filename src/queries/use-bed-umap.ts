@@ -1,16 +1,67 @@
-import { useMutation } from '@tanstack/react-query';
+import { useCallback } from 'react';
+import { useMutation, useQueries, type UseQueryResult } from '@tanstack/react-query';
+import type { AxiosInstance } from 'axios';
 import { useApi } from '../contexts/api-context';
+import { loadFileResults, fileKey } from '../lib/workspace-store';
+import { toBedFile } from '../lib/bed-parser';
+import { createLimiter } from '../lib/request-limit';
+import { DEFAULT_UMAP_GENOME, PROJECTION_GENOME } from '../lib/umap-utils';
+
+/** File uploads to `/bed/umap` in flight at once; up to MAX_PROJECTED_FILES can be queued */
+const MAX_CONCURRENT_PROJECTIONS = 4;
+
+const limitProjections = createLimiter(MAX_CONCURRENT_PROJECTIONS);
+
+/** Project a region file into the PROJECTION_GENOME embedding; non-BED formats are converted first */
+export async function projectBedFile(api: AxiosInstance, file: File): Promise<number[]> {
+  const formData = new FormData();
+  formData.append('file', await toBedFile(file));
+  const { data } = await api.post<number[]>('/bed/umap', formData, {
+    headers: { 'Content-Type': 'multipart/form-data' },
+  });
+  return data;
+}
 
 export function useBedUmap() {
   const { api } = useApi();
   return useMutation({
-    mutationFn: async (file: File): Promise<number[]> => {
-      const formData = new FormData();
-      formData.append('file', file);
-      const { data } = await api.post<number[]>('/bed/umap', formData, {
-        headers: { 'Content-Type': 'multipart/form-data' },
-      });
-      return data;
-    },
+    mutationFn: (file: File) => projectBedFile(api, file),
+  });
+}
+
+export type FileProjection = {
+  file: File;
+  coordinates: number[] | null;
+  isFetching: boolean;
+  error: Error | null;
+};
+
+/**
+ * Coordinates of many files in the PROJECTION_GENOME embedding, one query
+ * per file, uploading at most MAX_CONCURRENT_PROJECTIONS at a time. Reuses a
+ * projection stored with the file's cached results.
+ */
+export function useFileProjections(files: File[], enabled: boolean) {
+  const { api } = useApi();
+  const combine = useCallback((results: UseQueryResult<number[]>[]): FileProjection[] => results.map((r, i) => ({
+    file: files[i],
+    coordinates: r.data && r.data.length >= 2 ? r.data : null,
+    isFetching: r.isFetching,
+    error: r.error,
+  })), [files]);
+  return useQueries({
+    queries: files.map((file) => ({
+      queryKey: ['bed-umap', fileKey(file)],
+      queryFn: async () => {
+        const stored = await loadFileResults(fileKey(file));
+        if (stored?.umapCoordinates && (stored.umapGenome ?? DEFAULT_UMAP_GENOME) === PROJECTION_GENOME) {
+          return stored.umapCoordinates;
+        }
+        return limitProjections(() => projectBedFile(api, file));
+      },
+      enabled,
+      staleTime: Infinity,
+    })),
+    combine,
   });
 }
@@ -0,0 +1,87 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AxiosInstance } from 'axios';
+import type { components } from '../bedbase-types';
+import { useApi } from '../contexts/api-context';
+import {
+  EXACT_SCAN_LIMIT,
+  exactRequest,
+  matchesConditions,
+  type ExactCondition,
+  type ExactRequest,
+} from '../lib/exact-search';
+
+type SearchResponse = components['schemas']['BedListSearchResult'];
+type BedListResult = components['schemas']['BedListResult'];
+
+export type ExactSearchResponse = SearchResponse & {
+  /** Server matches for the query string, before field conditions were applied */
+  serverCount: number;
+  /** Server matches that were fetched and checked; less than serverCount when the scan was capped */
+  scanned: number;
+};
+
+const SCAN_PAGE = 100;
+
+/** One page of server matches for `request`, before its remaining conditions are applied. */
+export async function fetchExactSearch(
+  api: AxiosInstance,
+  request: ExactRequest,
+  opts: { limit: number; offset: number },
+): Promise<SearchResponse> {
+  if (request.list) {
+    const { data } = await api.get<BedListResult>('/bed/list', {
+      params: { genome: request.genome, limit: opts.limit, offset: opts.offset },
+    });
+    return { ...data, results: data.results.map((metadata) => ({ id: metadata.id, metadata })) };
+  }
+  const params: Record<string, string | number> = { query: request.query, limit: opts.limit, offset: opts.offset };
+  if (request.genome) params.genome = request.genome;
+  if (request.assay) params.assay = request.assay;
+  const { data } = await api.get<SearchResponse>('/bed/search/exact', { params });
+  return data;
+}
+
+/**
+ * `/bed/search/exact` with structured conditions (`/bed/list` for a lone
+ * genome). Genome and assay go to the server; when other field conditions
+ * remain, up to EXACT_SCAN_LIMIT server matches are fetched, filtered here
+ * and paginated locally.
+ */
+export function useExactSearch(
+  conditions: ExactCondition[],
+  opts?: { limit?: number; offset?: number },
+) {
+  const { api } = useApi();
+  const limit = opts?.limit ?? 10;
+  const offset = opts?.offset ?? 0;
+  const request = exactRequest(conditions);
+  const scan = request.remaining.length > 0;
+
+  return useQuery({
+    queryKey: ['exact-search', conditions, scan ? null : limit, scan ? null : offset],
+    queryFn: async () => {
+      if (!scan) {
+        const data = await fetchExactSearch(api, request, { limit, offset });
+        return { ...data, serverCount: data.count, scanned: data.count };
+      }
+
+      const fetched: NonNullable<SearchResponse['results']> = [];
+      let serverCount = 0;
+      do {
+        const data = await fetchExactSearch(api, request, { limit: SCAN_PAGE, offset: fetched.length });
+        serverCount = data.count;
+        const page = data.results ?? [];
+        fetched.push(...page);
+        if (page.length < SCAN_PAGE) break;
+      } while (fetched.length < Math.min(serverCount, EXACT_SCAN_LIMIT));
+
+      const matched = fetched.filter((r) => matchesConditions(r, request.remaining));
+      return { count: matched.length, limit: matched.length, offset: 0, results: matched, serverCount, scanned: fetched.length };
+    },
+    // Client-side pages slice the scanned matches instead of refetching
+    select: (data: ExactSearchResponse): ExactSearchResponse => (scan
+      ? { ...data, limit, offset, results: data.results?.slice(offset, offset + limit) }
+      : data),
+    enabled: !!request.query || request.list,
+  });
+}
@@ -0,0 +1,58 @@
+import { useCallback, useMemo } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import { useApi } from '../contexts/api-context';
+import { MAX_REMOTE_WINDOW, type Locus } from '../lib/genome-browser';
+import { exactOverlaps, type RegionOverlap } from '../lib/locus-search';
+import { createLimiter } from '../lib/request-limit';
+import { bedRegionsQuery, type BedRegions } from './use-bed-regions';
+
+/** Region requests in flight at once; up to VERIFIED_HITS × MAX_VERIFIED_REGIONS can be queued. */
+const MAX_CONCURRENT_REQUESTS = 6;
+
+const limitRequests = createLimiter(MAX_CONCURRENT_REQUESTS);
+
+export type HitOverlaps = {
+  bedId: string;
+  /** Query regions whose check finished, with the hit's regions overlapping each */
+  results: RegionOverlap[];
+  pending: number;
+  failed: number;
+  /** Query regions wider than MAX_REMOTE_WINDOW, which aren't checked */
+  skipped: number;
+};
+
+/**
+ * Exact overlaps between the query regions and each hit, from one regions
+ * request per hit and query region, at most MAX_CONCURRENT_REQUESTS at a
+ * time. Shares the cache with the track views; pass memoized arrays so the
+ * combined result stays stable.
+ */
+export function useLocusOverlaps(bedIds: string[], regions: Locus[]): HitOverlaps[] {
+  const { api } = useApi();
+  const checked = useMemo(() => regions.filter((r) => r.end - r.start <= MAX_REMOTE_WINDOW), [regions]);
+  const skipped = regions.length - checked.length;
+
+  const combine = useCallback((results: UseQueryResult<BedRegions>[]) => bedIds.map((bedId, h) => {
+    const out: HitOverlaps = { bedId, results: [], pending: 0, failed: 0, skipped };
+    checked.forEach((query, q) => {
+      const r = results[h * checked.length + q];
+      if (r?.data) out.results.push({ query, overlaps: exactOverlaps(query, r.data.regions) });
+      else if (r?.isError) out.failed++;
+      else out.pending++;
+    });
+    return out;
+  }), [bedIds, checked, skipped]);
+
+  return useQueries({
+    queries: bedIds.flatMap((id) => checked.map((query) => {
+      const base = bedRegionsQuery(api, id, query);
+      return {
+        ...base,
+        queryFn: () => limitRequests(base.queryFn),
+        // Each query has its own key; a neighbour's data would be wrong here
+        placeholderData: undefined,
+      };
+    })),
+    combine,
+  });
+}
@@ -1,9 +1,22 @@
 import { useQuery } from '@tanstack/react-query';
+import type { AxiosInstance } from 'axios';
 import type { components } from '../bedbase-types';
 import { useApi } from '../contexts/api-context';
 
 type SearchResponse = components['schemas']['BedListSearchResult'];
 
+export async function fetchTextSearch(
+  api: AxiosInstance,
+  query: string,
+  opts: { limit: number; offset: number; genome?: string; assay?: string },
+): Promise<SearchResponse> {
+  const params: Record<string, string | number> = { query, limit: opts.limit, offset: opts.offset };
+  if (opts.genome) params.genome = opts.genome;
+  if (opts.assay) params.assay = opts.assay;
+  const { data } = await api.get<SearchResponse>('/bed/search/text', { params });
+  return data;
+}
+
 export function useTextSearch(
   query: string,
   opts?: {
@@ -17,16 +30,44 @@ export function useTextSearch(
   const { api } = useApi();
   return useQuery({
     queryKey: ['text-search', query, opts?.limit, opts?.offset, opts?.genome, opts?.assay],
+    queryFn: () => fetchTextSearch(api, query, {
+      limit: opts?.limit ?? 10,
+      offset: opts?.offset ?? 0,
+      genome: opts?.genome,
+      assay: opts?.assay,
+    }),
+    enabled: opts?.enabled !== false && !!query,
+  });
+}
+
+const POOL_PAGE = 100;
+
+/** The top `size` text search results, fetched in pages, for client-side facets. */
+export function useTextSearchPool(
+  query: string,
+  size: number,
+  opts?: { genome?: string; assay?: string; enabled?: boolean },
+) {
+  const { api } = useApi();
+  return useQuery({
+    queryKey: ['text-search-pool', query, size, opts?.genome, opts?.assay],
     queryFn: async () => {
-      const params: Record<string, string | number> = {
-        query,
-        limit: opts?.limit ?? 10,
-        offset: opts?.offset ?? 0,
-      };
-      if (opts?.genome) params.genome = opts.genome;
-      if (opts?.assay) params.assay = opts.assay;
-      const { data } = await api.get<SearchResponse>('/bed/search/text', { params });
-      return data;
+      const results: NonNullable<SearchResponse['results']> = [];
+      let count = 0;
+      do {
+        const limit = Math.min(POOL_PAGE, size - results.length);
+        const data = await fetchTextSearch(api, query, {
+          limit,
+          offset: results.length,
+          genome: opts?.genome,
+          assay: opts?.assay,
+        });
+        count = data.count;
+        const page = data.results ?? [];
+        results.push(...page);
+        if (page.length < limit) break;
+      } while (results.length < Math.min(count, size));
+      return { count, results };
     },
     enabled: opts?.enabled !== false && !!query,
   });